@@ -6,25 +6,31 @@ import {
   TouchableOpacity,
   RefreshControl,
   Alert,
+  Modal,
   StyleSheet,
 } from "react-native";
 import { useRouter } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { Card } from "@/components/ui";
-import { BillItem, TransactionItem } from "@/components/finances";
+import { BillItem, TransactionItem, CashForecastCard, sharePaymentCode } from "@/components/finances";
 import { Loading } from "@/components/shared";
 import {
   useFinanceStore,
   formatCurrency,
-  getPendingBills,
-  getPaidBills,
   getOverdueBills,
-  getTotalBillsAmount,
+  getBillsMonthSummary,
+  getBillPaymentsInMonth,
   getExpensesByCategory,
+  getBudgetProgress,
+  getAccountBalances,
 } from "@/stores/financeStore";
 import { useAuthStore } from "@/stores/authStore";
 import { useTheme } from "@/contexts/ThemeContext";
+import { addMonths } from "@/lib/calendar";
+import { getTodayKey } from "@/lib/recurrence";
+import { buildCashForecast, type ForecastHorizon } from "@/lib/forecast";
+import type { AccountBalance, Bill, BillPayment } from "@/types";
 
 type TabFilter = "overview" | "bills" | "transactions";
 
@@ -34,11 +40,19 @@ export default function FinancesScreen() {
   const { household } = useAuthStore();
   const {
     bills,
+    accounts,
     transactions,
+    budgets,
+    recurringIncomes,
     monthlySummary,
+    selectedMonth,
+    setSelectedMonth,
     fetchBills,
     fetchTransactions,
     fetchCategories,
+    fetchBudgets,
+    fetchAccounts,
+    fetchRecurringIncomes,
     calculateMonthlySummary,
     markBillAsPaid,
     isLoading,
@@ -46,6 +60,11 @@ export default function FinancesScreen() {
 
   const [activeTab, setActiveTab] = useState<TabFilter>("overview");
   const [refreshing, setRefreshing] = useState(false);
+  const [forecastHorizon, setForecastHorizon] = useState<ForecastHorizon>(30);
+  const [accountBalances, setAccountBalances] = useState<AccountBalance[]>([]);
+  const [monthPayments, setMonthPayments] = useState<BillPayment[]>([]);
+  // Conta sendo paga aguardando a escolha da conta de pagamento
+  const [payingBill, setPayingBill] = useState<Bill | null>(null);
 
   useEffect(() => {
     if (household?.id) {
@@ -59,49 +78,105 @@ export default function FinancesScreen() {
       fetchBills(household.id),
       fetchTransactions(household.id),
       fetchCategories(),
+      fetchBudgets(household.id),
+      fetchAccounts(household.id),
+      fetchRecurringIncomes(household.id),
       calculateMonthlySummary(household.id),
+      loadAccountBalances(),
     ]);
   };
 
+  const loadAccountBalances = async () => {
+    if (!household?.id) return;
+    const { balances, error } = await getAccountBalances(household.id);
+    if (error) console.error("Error fetching account balances:", error);
+    setAccountBalances(balances);
+  };
+
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
     await loadData();
     setRefreshing(false);
   }, [household?.id]);
 
+  const payBill = async (bill: typeof bills[0], accountId?: string) => {
+    const { error } = await markBillAsPaid(bill.id, undefined, accountId);
+    if (error) {
+      Alert.alert("Erro", error);
+      return;
+    }
+    loadAccountBalances();
+  };
+
+  // Com saldo conferido o pagamento precisa sair de uma conta
+  const payingAccounts = accounts.filter((a) => accountBalances.some((b) => b.account_id === a.id));
+
   const handleMarkPaid = async (bill: typeof bills[0]) => {
+    // Varias contas nao cabem em botoes do Alert (Android mostra no maximo 3)
+    if (!bill.account_id && payingAccounts.length > 0) {
+      setPayingBill(bill);
+      return;
+    }
+
     Alert.alert(
       "Marcar como pago",
       `Confirma o pagamento de ${formatCurrency(bill.amount)}?`,
       [
         { text: "Cancelar", style: "cancel" },
-        {
-          text: "Confirmar",
-          onPress: async () => {
-            const { error } = await markBillAsPaid(bill.id);
-            if (error) Alert.alert("Erro", error);
-          },
-        },
+        // Boleto ou Pix salvo: copiar antes de pagar no app do banco
+        ...(bill.payment_code ? [{ text: "Copiar codigo", onPress: () => sharePaymentCode(bill.payment_code!) }] : []),
+        { text: "Confirmar", onPress: () => payBill(bill) },
       ]
     );
   };
 
+  const handlePayFromAccount = (accountId: string) => {
+    if (!payingBill) return;
+    const bill = payingBill;
+    setPayingBill(null);
+    payBill(bill, accountId);
+  };
+
   const tabs: { key: TabFilter; label: string }[] = [
     { key: "overview", label: "Resumo" },
     { key: "bills", label: "Contas" },
     { key: "transactions", label: "Lancamentos" },
   ];
 
-  const currentMonth = new Date().toLocaleDateString("pt-BR", {
+  const monthLabel = new Date(`${selectedMonth}-01T00:00:00`).toLocaleDateString("pt-BR", {
     month: "long",
     year: "numeric",
   });
+  const todayMonth = getTodayKey().slice(0, 7);
+
+  // Meses passados: status das contas vem do historico
+  useEffect(() => {
+    if (!household?.id || selectedMonth >= todayMonth) {
+      setMonthPayments([]);
+      return;
+    }
+    getBillPaymentsInMonth(household.id, selectedMonth).then(({ payments, error }) => {
+      if (error) console.error("Error fetching bill payments:", error);
+      setMonthPayments(payments);
+    });
+  }, [household?.id, selectedMonth, todayMonth]);
 
-  const pendingBills = getPendingBills(bills);
-  const paidBills = getPaidBills(bills);
+  const changeMonth = (month: string) => {
+    if (household?.id) setSelectedMonth(household.id, month);
+  };
+
+  // Resumo do mes selecionado (o mesmo do cabecalho)
+  const billsSummary = getBillsMonthSummary(bills, monthPayments, selectedMonth, todayMonth);
   const overdueBills = getOverdueBills(bills);
-  const totalBills = getTotalBillsAmount(bills);
   const expensesByCategory = getExpensesByCategory(transactions);
+  const budgetProgress = getBudgetProgress(budgets, transactions);
+
+  // Previsao parte do saldo conferido das contas (zero se nenhum foi informado)
+  const currentBalance = accountBalances.reduce((sum, b) => sum + b.balance, 0);
+  const forecast = buildCashForecast(currentBalance, bills, recurringIncomes, getTodayKey(), forecastHorizon);
+
+  const getBudgetColor = (ratio: number) =>
+    ratio >= 1 ? theme.danger : ratio >= 0.8 ? theme.warning : theme.success;
 
   const renderOverview = () => (
     <>
@@ -156,41 +231,59 @@ export default function FinancesScreen() {
         <Card>
           <View style={styles.billsStatsRow}>
             <View style={styles.billsStat}>
-              <Text style={[styles.billsStatValue, { color: theme.text }]}>{bills.length}</Text>
+              <Text style={[styles.billsStatValue, { color: theme.text }]}>{billsSummary.total}</Text>
               <Text style={[styles.billsStatLabel, { color: theme.textSecondary }]}>Total</Text>
             </View>
             <View style={styles.billsStat}>
-              <Text style={[styles.billsStatValue, { color: theme.success }]}>{paidBills.length}</Text>
+              <Text style={[styles.billsStatValue, { color: theme.success }]}>{billsSummary.paid}</Text>
               <Text style={[styles.billsStatLabel, { color: theme.textSecondary }]}>Pagas</Text>
             </View>
             <View style={styles.billsStat}>
-              <Text style={[styles.billsStatValue, { color: theme.warning }]}>{pendingBills.length}</Text>
+              <Text style={[styles.billsStatValue, { color: theme.warning }]}>{billsSummary.pending}</Text>
               <Text style={[styles.billsStatLabel, { color: theme.textSecondary }]}>Pendentes</Text>
             </View>
             <View style={styles.billsStat}>
-              <Text style={[styles.billsStatValue, { color: theme.danger }]}>{overdueBills.length}</Text>
+              <Text style={[styles.billsStatValue, { color: theme.danger }]}>{billsSummary.overdue}</Text>
               <Text style={[styles.billsStatLabel, { color: theme.textSecondary }]}>Vencidas</Text>
             </View>
           </View>
 
           <View style={[styles.progressBar, { backgroundColor: theme.border }]}>
             <View
-              style={[styles.progressSegment, { backgroundColor: theme.success, width: `${bills.length > 0 ? (paidBills.length / bills.length) * 100 : 0}%` }]}
+              style={[styles.progressSegment, { backgroundColor: theme.success, width: `${billsSummary.total > 0 ? (billsSummary.paid / billsSummary.total) * 100 : 0}%` }]}
             />
             <View
-              style={[styles.progressSegment, { backgroundColor: theme.warning, width: `${bills.length > 0 ? (pendingBills.length / bills.length) * 100 : 0}%` }]}
+              style={[styles.progressSegment, { backgroundColor: theme.warning, width: `${billsSummary.total > 0 ? (billsSummary.pending / billsSummary.total) * 100 : 0}%` }]}
             />
             <View
-              style={[styles.progressSegment, { backgroundColor: theme.danger, width: `${bills.length > 0 ? (overdueBills.length / bills.length) * 100 : 0}%` }]}
+              style={[styles.progressSegment, { backgroundColor: theme.danger, width: `${billsSummary.total > 0 ? (billsSummary.overdue / billsSummary.total) * 100 : 0}%` }]}
             />
           </View>
 
           <Text style={[styles.totalText, { color: theme.textSecondary }]}>
-            Total em contas: {formatCurrency(totalBills)}
+            Total em contas: {formatCurrency(billsSummary.amount)}
           </Text>
         </Card>
       </View>
 
+      {/* Cash Forecast */}
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Previsao de Caixa</Text>
+          <TouchableOpacity onPress={() => router.push("/finance/incomes")}>
+            <Text style={[styles.linkText, { color: theme.primary }]}>Receitas fixas</Text>
+          </TouchableOpacity>
+        </View>
+
+        <CashForecastCard
+          forecast={forecast}
+          horizon={forecastHorizon}
+          onHorizonChange={setForecastHorizon}
+          hasBalance={accountBalances.length > 0}
+          onSetBalance={() => router.push("/finance/accounts")}
+        />
+      </View>
+
       {/* Expenses by Category */}
       {expensesByCategory.length > 0 && (
         <View style={styles.section}>
@@ -215,6 +308,54 @@ export default function FinancesScreen() {
         </View>
       )}
 
+      {/* Budgets */}
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Orcamentos</Text>
+          <TouchableOpacity onPress={() => router.push("/finance/budgets")}>
+            <Text style={[styles.linkText, { color: theme.primary }]}>{budgets.length > 0 ? "Gerenciar" : "Definir"}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Card>
+          {budgetProgress.length === 0 ? (
+            <TouchableOpacity onPress={() => router.push("/finance/budgets")} style={styles.emptyState}>
+              <Ionicons name="pie-chart-outline" size={40} color={theme.textMuted} />
+              <Text style={[styles.emptyText, { color: theme.textMuted }]}>Defina limites de gastos por categoria</Text>
+            </TouchableOpacity>
+          ) : (
+            budgetProgress.map(({ budget, limit, spent, ratio }, index) => (
+              <View
+                key={budget.id}
+                style={{
+                  ...styles.budgetRow,
+                  ...(index < budgetProgress.length - 1 ? { ...styles.categoryRowBorder, borderBottomColor: theme.surfaceVariant } : {}),
+                }}
+              >
+                <View style={styles.budgetHeader}>
+                  <View style={styles.categoryInfo}>
+                    <View style={[styles.categoryDot, { backgroundColor: budget.category?.color || theme.textMuted }]} />
+                    <Text style={[styles.categoryName, { color: theme.text }]}>{budget.category?.name || "Categoria"}</Text>
+                  </View>
+                  <Text style={[styles.budgetValues, { color: getBudgetColor(ratio) }]}>
+                    {formatCurrency(spent)} / {formatCurrency(limit)}
+                  </Text>
+                </View>
+                <View style={[styles.progressBar, styles.budgetBar, { backgroundColor: theme.border }]}>
+                  <View style={[styles.progressSegment, { backgroundColor: getBudgetColor(ratio), width: `${Math.min(ratio, 1) * 100}%` }]} />
+                </View>
+                <Text style={[styles.budgetRemaining, { color: theme.textSecondary }]}>
+                  {ratio >= 1
+                    ? `${formatCurrency(spent - limit)} acima do limite`
+                    : `Restam ${formatCurrency(limit - spent)}`}
+                  {budget.rollover && budget.carry_over ? ` (inclui ${formatCurrency(budget.carry_over)} do mes anterior)` : ""}
+                </Text>
+              </View>
+            ))
+          )}
+        </Card>
+      </View>
+
       {/* Recent Transactions */}
       <View style={styles.lastSection}>
         <View style={styles.sectionHeader}>
@@ -228,7 +369,7 @@ export default function FinancesScreen() {
           <Card>
             <View style={styles.emptyState}>
               <Ionicons name="receipt-outline" size={40} color={theme.textMuted} />
-              <Text style={[styles.emptyText, { color: theme.textMuted }]}>Nenhum lancamento este mes</Text>
+              <Text style={[styles.emptyText, { color: theme.textMuted }]}>Nenhum lancamento neste mes</Text>
             </View>
           </Card>
         ) : (
@@ -306,6 +447,30 @@ export default function FinancesScreen() {
         </TouchableOpacity>
       </View>
 
+      <View style={styles.toolsRow}>
+        <TouchableOpacity
+          onPress={() => router.push("/finance/import")}
+          style={[styles.toolButton, { backgroundColor: theme.surface, borderColor: theme.border }]}
+        >
+          <Ionicons name="document-text-outline" size={20} color={theme.primary} />
+          <Text style={[styles.toolButtonText, { color: theme.primary }]}>Importar</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => router.push("/finance/rules")}
+          style={[styles.toolButton, { backgroundColor: theme.surface, borderColor: theme.border }]}
+        >
+          <Ionicons name="pricetags-outline" size={20} color={theme.primary} />
+          <Text style={[styles.toolButtonText, { color: theme.primary }]}>Regras</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => router.push("/finance/accounts")}
+          style={[styles.toolButton, { backgroundColor: theme.surface, borderColor: theme.border }]}
+        >
+          <Ionicons name="card-outline" size={20} color={theme.primary} />
+          <Text style={[styles.toolButtonText, { color: theme.primary }]}>Cartoes</Text>
+        </TouchableOpacity>
+      </View>
+
       {transactions.length === 0 ? (
         <Card style={styles.emptyCard}>
           <View style={styles.emptyContent}>
@@ -332,14 +497,41 @@ export default function FinancesScreen() {
       <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.surfaceVariant }]}>
         <View style={styles.headerRow}>
           <Text style={[styles.title, { color: theme.text }]}>Financas</Text>
-          <TouchableOpacity
-            onPress={() => router.push("/finance/new-bill")}
-            style={[styles.addButton, { backgroundColor: theme.primary }]}
-          >
-            <Ionicons name="add" size={28} color={theme.surface} />
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              onPress={() => router.push("/finance/reports")}
+              style={[styles.addButton, styles.balancesButton, { backgroundColor: theme.surfaceVariant }]}
+            >
+              <Ionicons name="stats-chart-outline" size={22} color={theme.textSecondary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => router.push("/finance/balances")}
+              style={[styles.addButton, styles.balancesButton, { backgroundColor: theme.surfaceVariant }]}
+            >
+              <Ionicons name="people-outline" size={24} color={theme.textSecondary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => router.push("/finance/new-bill")}
+              style={[styles.addButton, { backgroundColor: theme.primary }]}
+            >
+              <Ionicons name="add" size={28} color={theme.surface} />
+            </TouchableOpacity>
+          </View>
+        </View>
+        <View style={styles.monthRow}>
+          <TouchableOpacity onPress={() => changeMonth(addMonths(`${selectedMonth}-01`, -1).slice(0, 7))} style={styles.monthButton}>
+            <Ionicons name="chevron-back" size={20} color={theme.textSecondary} />
           </TouchableOpacity>
+          <Text style={[styles.monthText, { color: theme.textSecondary }]}>{monthLabel}</Text>
+          <TouchableOpacity onPress={() => changeMonth(addMonths(`${selectedMonth}-01`, 1).slice(0, 7))} style={styles.monthButton}>
+            <Ionicons name="chevron-forward" size={20} color={theme.textSecondary} />
+          </TouchableOpacity>
+          {selectedMonth !== todayMonth && (
+            <TouchableOpacity onPress={() => changeMonth(todayMonth)}>
+              <Text style={[styles.monthTodayText, { color: theme.primary }]}>Mes atual</Text>
+            </TouchableOpacity>
+          )}
         </View>
-        <Text style={[styles.monthText, { color: theme.textSecondary }]}>{currentMonth}</Text>
 
         {/* Tabs */}
         <View style={[styles.tabContainer, { backgroundColor: theme.surfaceVariant }]}>
@@ -376,6 +568,55 @@ export default function FinancesScreen() {
           {activeTab === "transactions" && renderTransactions()}
         </ScrollView>
       )}
+
+      {/* Escolha da conta de pagamento */}
+      <Modal
+        visible={payingBill !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setPayingBill(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: theme.surface }]}>
+            <Text style={[styles.modalTitle, { color: theme.text }]}>Marcar como pago</Text>
+            <Text style={[styles.modalSubtitle, { color: theme.textSecondary }]}>
+              De qual conta saiu o pagamento de {formatCurrency(payingBill?.amount || 0)}?
+            </Text>
+
+            <ScrollView style={styles.accountList}>
+              {payingAccounts.map((account) => (
+                <TouchableOpacity
+                  key={account.id}
+                  onPress={() => handlePayFromAccount(account.id)}
+                  style={[styles.accountOption, { borderBottomColor: theme.border }]}
+                >
+                  <Ionicons name="wallet-outline" size={20} color={theme.primary} />
+                  <Text style={[styles.accountOptionText, { color: theme.text }]}>{account.name}</Text>
+                  <Ionicons name="chevron-forward" size={18} color={theme.textMuted} />
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+
+            <View style={styles.modalButtons}>
+              {/* Boleto ou Pix salvo: copiar antes de pagar no app do banco */}
+              {payingBill?.payment_code && (
+                <TouchableOpacity
+                  onPress={() => sharePaymentCode(payingBill.payment_code!)}
+                  style={[styles.modalButton, { backgroundColor: theme.primaryLight }]}
+                >
+                  <Text style={[styles.modalButtonText, { color: theme.primary }]}>Copiar codigo</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                onPress={() => setPayingBill(null)}
+                style={[styles.modalButton, { backgroundColor: theme.surfaceVariant }]}
+              >
+                <Text style={[styles.modalButtonText, { color: theme.textSecondary }]}>Cancelar</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -400,6 +641,13 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: 'bold',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  balancesButton: {
+    marginRight: 8,
+  },
   addButton: {
     width: 48,
     height: 48,
@@ -407,9 +655,24 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  monthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+    marginLeft: -6,
+  },
+  monthButton: {
+    padding: 4,
+  },
   monthText: {
     textTransform: 'capitalize',
-    marginBottom: 16,
+    minWidth: 130,
+    textAlign: 'center',
+  },
+  monthTodayText: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginLeft: 8,
   },
   tabContainer: {
     flexDirection: 'row',
@@ -545,6 +808,27 @@ const styles = StyleSheet.create({
   categoryRowBorder: {
     borderBottomWidth: 1,
   },
+  budgetRow: {
+    paddingVertical: 12,
+  },
+  budgetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  budgetValues: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  budgetBar: {
+    height: 8,
+    borderRadius: 4,
+    marginTop: 8,
+  },
+  budgetRemaining: {
+    fontSize: 12,
+    marginTop: 6,
+  },
   categoryInfo: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -655,7 +939,77 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     marginTop: 8,
   },
+  toolsRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  toolButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  toolButtonText: {
+    fontWeight: '500',
+    marginLeft: 8,
+  },
   bottomSpacer: {
     height: 80,
   },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '80%',
+    borderRadius: 16,
+    padding: 24,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  accountList: {
+    marginBottom: 20,
+  },
+  accountOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+  },
+  accountOptionText: {
+    flex: 1,
+    fontSize: 16,
+    marginLeft: 12,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  modalButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
 });
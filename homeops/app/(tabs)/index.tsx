@@ -22,10 +22,14 @@ import {
   useFinanceStore,
   formatCurrency,
   getPendingBills,
+  getBillsDueInMonth,
   getOverdueBills,
 } from "@/stores/financeStore";
+import { useInventoryStore } from "@/stores/inventoryStore";
 import { Card } from "@/components/ui";
 import { useTheme } from "@/contexts/ThemeContext";
+import { scheduleDailyDigest } from "@/services/dailyDigest";
+import { getTodayKey } from "@/lib/recurrence";
 
 interface QuickStatCardProps {
   title: string;
@@ -63,41 +67,42 @@ export default function DashboardScreen() {
   const { user, household, signOut } = useAuthStore();
   const { tasks, fetchTasks, completeTask } = useTaskStore();
   const { items: maintenanceItems, fetchItems: fetchMaintenanceItems } = useMaintenanceStore();
+  const { fetchItems: fetchInventoryItems } = useInventoryStore();
   const {
     bills,
     transactions,
     monthlySummary,
     fetchBills,
-    fetchTransactions,
-    calculateMonthlySummary,
+    setSelectedMonth,
   } = useFinanceStore();
   const router = useRouter();
   const { theme } = useTheme();
   const [refreshing, setRefreshing] = useState(false);
 
-  useEffect(() => {
-    if (household?.id) {
-      fetchTasks(household.id);
-      fetchMaintenanceItems(household.id);
-      fetchBills(household.id);
-      fetchTransactions(household.id);
-      calculateMonthlySummary(household.id);
-    }
-  }, [household?.id]);
-
-  const onRefresh = useCallback(async () => {
+  const loadData = useCallback(async () => {
     if (!household?.id) return;
-    setRefreshing(true);
     await Promise.all([
       fetchTasks(household.id),
       fetchMaintenanceItems(household.id),
+      fetchInventoryItems(household.id),
       fetchBills(household.id),
-      fetchTransactions(household.id),
-      calculateMonthlySummary(household.id),
+      // O painel sempre mostra o mes atual (volta a aba de financas para ele)
+      setSelectedMonth(household.id, getTodayKey().slice(0, 7)),
     ]);
-    setRefreshing(false);
+    // Resumo diario depende de todos os modulos carregados
+    scheduleDailyDigest();
   }, [household?.id]);
 
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadData();
+    setRefreshing(false);
+  }, [loadData]);
+
   const handleCompleteTask = async (taskId: string) => {
     if (!user?.id) return;
     await completeTask(taskId, user.id);
@@ -118,7 +123,7 @@ export default function DashboardScreen() {
   const overdueTasksCount = getOverdueTasks(tasks).length;
   const upcomingMaintenance = getUpcomingMaintenance(maintenanceItems, 30);
   const overdueMaintenance = getOverdueMaintenance(maintenanceItems);
-  const pendingBills = getPendingBills(bills);
+  const pendingBills = getPendingBills(getBillsDueInMonth(bills, getTodayKey().slice(0, 7)));
   const overdueBillsCount = getOverdueBills(bills).length;
   const pendingBillsTotal = pendingBills.reduce((sum, bill) => sum + bill.amount, 0);
 
@@ -144,6 +149,12 @@ export default function DashboardScreen() {
                 {getFirstName()}
               </Text>
             </View>
+            <TouchableOpacity
+              onPress={() => router.push("/calendar")}
+              style={[styles.settingsButton, styles.calendarButton, { backgroundColor: theme.surfaceVariant }]}
+            >
+              <Ionicons name="calendar-outline" size={24} color={theme.textSecondary} />
+            </TouchableOpacity>
             <TouchableOpacity
               onPress={() => router.push("/settings")}
               style={[styles.settingsButton, { backgroundColor: theme.surfaceVariant }]}
@@ -490,6 +501,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  calendarButton: {
+    marginRight: 8,
+  },
   householdCard: {
     marginTop: 16,
     borderRadius: 16,
@@ -18,6 +18,9 @@ import {
   getUpcomingMaintenance,
   getOverdueMaintenance,
   getItemsByCategory,
+  getItemsUnderWarranty,
+  getDaysUntilMaintenance,
+  formatWarrantyRemaining,
 } from "@/stores/maintenanceStore";
 import { useAuthStore } from "@/stores/authStore";
 import { useTheme } from "@/contexts/ThemeContext";
@@ -48,6 +51,7 @@ export default function MaintenanceScreen() {
   const filteredItems = getItemsByCategory(items, selectedCategory);
   const upcomingItems = getUpcomingMaintenance(items, 30);
   const overdueItems = getOverdueMaintenance(items);
+  const warrantyItems = getItemsUnderWarranty(filteredItems);
 
   const allCategories = [
     { id: "all", name: "Todos", icon: "apps-outline", color: theme.textSecondary },
@@ -170,6 +174,43 @@ export default function MaintenanceScreen() {
             </View>
           )}
 
+          {/* Warranties */}
+          {warrantyItems.length > 0 && (
+            <View style={styles.warrantySection}>
+              <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>GARANTIAS</Text>
+              <Card>
+                {warrantyItems.map((item, index) => {
+                  const endingSoon = (getDaysUntilMaintenance(item.warranty_until) ?? 0) <= 30;
+                  return (
+                    <TouchableOpacity
+                      key={item.id}
+                      onPress={() => router.push(`/maintenance/${item.id}`)}
+                      style={[
+                        styles.warrantyRow,
+                        index < warrantyItems.length - 1 && { borderBottomWidth: 1, borderBottomColor: theme.border },
+                      ]}
+                    >
+                      <Ionicons
+                        name="shield-checkmark-outline"
+                        size={20}
+                        color={endingSoon ? theme.warning : theme.success}
+                      />
+                      <View style={styles.warrantyInfo}>
+                        <Text style={[styles.warrantyName, { color: theme.text }]}>{item.name}</Text>
+                        <Text style={[styles.warrantyDate, { color: theme.textSecondary }]}>
+                          Ate {new Date(item.warranty_until + "T00:00:00").toLocaleDateString("pt-BR")}
+                        </Text>
+                      </View>
+                      <Text style={[styles.warrantyRemaining, { color: endingSoon ? theme.warning : theme.textSecondary }]}>
+                        {formatWarrantyRemaining(item.warranty_until as string)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </Card>
+            </View>
+          )}
+
           {/* Items List */}
           <View style={styles.listContainer}>
             {filteredItems.length === 0 ? (
@@ -362,6 +403,35 @@ const styles = StyleSheet.create({
   warningText: {
     fontSize: 14,
   },
+  warrantySection: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  warrantyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  warrantyInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  warrantyName: {
+    fontWeight: '500',
+  },
+  warrantyDate: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  warrantyRemaining: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   listContainer: {
     paddingHorizontal: 16,
     paddingTop: 16,
@@ -20,7 +20,16 @@ import {
   getOverdueTasks,
 } from "@/stores/taskStore";
 import { useAuthStore } from "@/stores/authStore";
+import { useHouseholdStore } from "@/stores/householdStore";
 import { useTheme } from "@/contexts/ThemeContext";
+import {
+  hasRotation,
+  getAwayUserIds,
+  getCurrentAssignee,
+  getUpcomingRotation,
+  getMemberName,
+} from "@/lib/rotation";
+import { getChecklistProgress } from "@/lib/checklist";
 import type { Task } from "@/types";
 
 type TabFilter = "today" | "week" | "all";
@@ -35,6 +44,7 @@ export default function TasksScreen() {
     completeTask,
     isLoading,
   } = useTaskStore();
+  const { members, fetchMembers } = useHouseholdStore();
   const { theme } = useTheme();
 
   const [activeTab, setActiveTab] = useState<TabFilter>("today");
@@ -44,6 +54,7 @@ export default function TasksScreen() {
     if (household?.id) {
       fetchTasks(household.id);
       fetchCategories();
+      fetchMembers(household.id);
     }
   }, [household?.id]);
 
@@ -88,6 +99,10 @@ export default function TasksScreen() {
   const weekCount = getTasksForWeek(tasks).length;
   const allCount = getPendingTasks(tasks).length;
 
+  // Modo Republica: de quem e a vez
+  const awayIds = getAwayUserIds(members);
+  const rotatingTasks = getPendingTasks(tasks).filter(hasRotation);
+
   const getEmptyMessage = () => {
     switch (activeTab) {
       case "today":
@@ -123,12 +138,26 @@ export default function TasksScreen() {
               </Text>
             )}
           </View>
-          <TouchableOpacity
-            onPress={() => router.push("/task/new")}
-            style={[styles.addButton, { backgroundColor: theme.primary }]}
-          >
-            <Ionicons name="add" size={28} color={theme.surface} />
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              onPress={() => router.push("/task/leaderboard")}
+              style={[styles.statsButton, { backgroundColor: theme.surfaceVariant }]}
+            >
+              <Ionicons name="trophy-outline" size={22} color={theme.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => router.push("/task/stats")}
+              style={[styles.statsButton, { backgroundColor: theme.surfaceVariant }]}
+            >
+              <Ionicons name="stats-chart-outline" size={22} color={theme.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => router.push("/task/new")}
+              style={[styles.addButton, { backgroundColor: theme.primary }]}
+            >
+              <Ionicons name="add" size={28} color={theme.surface} />
+            </TouchableOpacity>
+          </View>
         </View>
 
         {/* Tabs */}
@@ -329,11 +358,29 @@ export default function TasksScreen() {
                           </View>
                         )}
 
+                        {(task.checklist?.length || 0) > 0 && (
+                          <View style={styles.dueDateContainer}>
+                            <Ionicons name="list-outline" size={12} color={theme.textMuted} />
+                            <Text style={[styles.dueDateText, { color: theme.textSecondary }]}>
+                              {getChecklistProgress(task).done}/{getChecklistProgress(task).total}
+                            </Text>
+                          </View>
+                        )}
+
                         {task.is_recurring && (
                           <View style={styles.recurringIcon}>
                             <Ionicons name="repeat" size={12} color={theme.primary} />
                           </View>
                         )}
+
+                        {hasRotation(task) && (
+                          <View style={styles.dueDateContainer}>
+                            <Ionicons name="person-outline" size={12} color={theme.textMuted} />
+                            <Text style={[styles.dueDateText, { color: theme.textSecondary }]}>
+                              Vez de {getMemberName(members, getCurrentAssignee(task, awayIds))}
+                            </Text>
+                          </View>
+                        )}
                       </View>
                     </View>
 
@@ -349,6 +396,76 @@ export default function TasksScreen() {
             )}
           </View>
 
+          {/* Rotation */}
+          {rotatingTasks.length > 0 && (
+            <View style={styles.rotationSection}>
+              <Text style={[styles.suggestionsTitle, { color: theme.text }]}>Rodizio</Text>
+              {rotatingTasks.map((task) => {
+                const turns = getUpcomingRotation(task, awayIds);
+                const current = turns[0]?.userId;
+
+                return (
+                  <TouchableOpacity
+                    key={task.id}
+                    onPress={() => handleTaskPress(task)}
+                    style={[styles.rotationCard, { backgroundColor: theme.surface, borderColor: theme.border }]}
+                  >
+                    <View style={styles.rotationHeader}>
+                      <Text style={[styles.rotationTitle, { color: theme.text }]} numberOfLines={1}>
+                        {task.title}
+                      </Text>
+                      <View
+                        style={[
+                          styles.rotationBadge,
+                          { backgroundColor: current === user?.id ? theme.primary : theme.surfaceVariant },
+                        ]}
+                      >
+                        <Text
+                          style={[
+                            styles.rotationBadgeText,
+                            { color: current === user?.id ? theme.surface : theme.textSecondary },
+                          ]}
+                        >
+                          {current === user?.id ? "Sua vez" : `Vez de ${getMemberName(members, current)}`}
+                        </Text>
+                      </View>
+                    </View>
+                    <Text style={[styles.rotationNext, { color: theme.textSecondary }]} numberOfLines={1}>
+                      Depois:{" "}
+                      {turns
+                        .slice(1)
+                        .map((turn) =>
+                          turn.date
+                            ? `${getMemberName(members, turn.userId)} (${new Date(
+                                turn.date + "T00:00:00"
+                              ).toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit" })})`
+                            : getMemberName(members, turn.userId)
+                        )
+                        .join(", ")}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
+          {/* Templates */}
+          <TouchableOpacity
+            onPress={() => router.push("/task/templates")}
+            style={[styles.templatesCard, { backgroundColor: theme.surface, borderColor: theme.border }]}
+          >
+            <View style={[styles.warningIcon, { backgroundColor: theme.primary + '20' }]}>
+              <Ionicons name="albums-outline" size={22} color={theme.primary} />
+            </View>
+            <View style={styles.warningContent}>
+              <Text style={[styles.warningTitle, { color: theme.text }]}>Modelos de rotina</Text>
+              <Text style={[styles.warningText, { color: theme.textSecondary }]}>
+                Crie varias tarefas de uma vez com pacotes prontos
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={theme.textMuted} />
+          </TouchableOpacity>
+
           {/* Quick Suggestions - only show when empty */}
           {filteredTasks.length === 0 && (
             <View style={styles.suggestionsSection}>
@@ -409,6 +526,18 @@ const styles = StyleSheet.create({
   subtitle: {
     fontSize: 14,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  statsButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 8,
+  },
   addButton: {
     width: 48,
     height: 48,
@@ -595,6 +724,48 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
+  templatesCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginTop: 24,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  rotationSection: {
+    paddingHorizontal: 16,
+    marginTop: 24,
+  },
+  rotationCard: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  rotationHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  rotationTitle: {
+    flex: 1,
+    fontWeight: '600',
+    marginRight: 8,
+  },
+  rotationBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  rotationBadgeText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  rotationNext: {
+    fontSize: 12,
+    marginTop: 6,
+  },
   suggestionsSection: {
     paddingHorizontal: 16,
     marginTop: 24,
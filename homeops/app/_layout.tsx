@@ -1,18 +1,45 @@
 import { useEffect } from "react";
-import { Stack, Redirect } from "expo-router";
+import { Stack, Redirect, useRootNavigationState } from "expo-router";
 import { StatusBar } from "expo-status-bar";
 import { View, ActivityIndicator } from "react-native";
 import { useAuthStore } from "@/stores/authStore";
 import { ThemeProvider, useTheme } from "@/contexts/ThemeContext";
+import {
+  registerNotificationCategories,
+  addNotificationResponseListener,
+  getLastNotificationResponse,
+  clearLastNotificationResponse,
+} from "@/services/notificationService";
+import { handleNotificationResponse } from "@/services/notificationActions";
 
 function RootLayoutContent() {
   const { isLoading, isInitialized, initialize, session } = useAuthStore();
   const { theme, isDark } = useTheme();
+  const navigationState = useRootNavigationState();
 
   useEffect(() => {
     initialize();
   }, []);
 
+  // Toques e botoes das notificacoes: so depois do login carregado
+  // (acoes precisam da sessao) e do navegador pronto (deep links)
+  const canHandleNotifications = isInitialized && !!session && !!navigationState?.key;
+
+  useEffect(() => {
+    if (!canHandleNotifications) return;
+
+    registerNotificationCategories();
+
+    // App aberto (cold start) a partir de uma notificacao
+    const response = getLastNotificationResponse();
+    if (response) {
+      handleNotificationResponse(response).finally(clearLastNotificationResponse);
+    }
+
+    const subscription = addNotificationResponseListener(handleNotificationResponse);
+    return () => subscription.remove();
+  }, [canHandleNotifications]);
+
   // Show loading while initializing
   if (!isInitialized || isLoading) {
     return (
@@ -34,6 +61,7 @@ function RootLayoutContent() {
         <Stack.Screen name="finance" options={{ presentation: "modal" }} />
         <Stack.Screen name="settings" options={{ presentation: "modal" }} />
         <Stack.Screen name="shopping" options={{ presentation: "modal" }} />
+        <Stack.Screen name="calendar" options={{ presentation: "modal" }} />
       </Stack>
     </>
   );
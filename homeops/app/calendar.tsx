@@ -0,0 +1,445 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  RefreshControl,
+  StyleSheet,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { Card } from "@/components/ui";
+import { useAuthStore } from "@/stores/authStore";
+import { useTaskStore } from "@/stores/taskStore";
+import { useFinanceStore } from "@/stores/financeStore";
+import { useMaintenanceStore } from "@/stores/maintenanceStore";
+import { useInventoryStore } from "@/stores/inventoryStore";
+import { useTheme } from "@/contexts/ThemeContext";
+import { WEEKDAY_SHORT_LABELS, addDays, getTodayKey } from "@/lib/recurrence";
+import {
+  CALENDAR_EVENT_META,
+  addMonths,
+  getMonthStart,
+  getMonthGrid,
+  getWeekStart,
+  getCalendarEvents,
+  groupEventsByDate,
+  type CalendarEvent,
+} from "@/lib/calendar";
+
+type CalendarView = "month" | "week" | "day";
+
+const viewOptions: { key: CalendarView; label: string }[] = [
+  { key: "month", label: "Mes" },
+  { key: "week", label: "Semana" },
+  { key: "day", label: "Dia" },
+];
+
+const formatDay = (key: string, options: Intl.DateTimeFormatOptions) => {
+  return new Date(key + "T00:00:00").toLocaleDateString("pt-BR", options);
+};
+
+export default function CalendarScreen() {
+  const router = useRouter();
+  const { household } = useAuthStore();
+  const { tasks, fetchTasks } = useTaskStore();
+  const { bills, fetchBills } = useFinanceStore();
+  const { items: maintenanceItems, fetchItems: fetchMaintenanceItems } = useMaintenanceStore();
+  const { items: inventoryItems, fetchItems: fetchInventoryItems } = useInventoryStore();
+  const { theme } = useTheme();
+
+  const today = getTodayKey();
+  const [view, setView] = useState<CalendarView>("month");
+  const [selectedDate, setSelectedDate] = useState(today);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadData = useCallback(async () => {
+    if (!household?.id) return;
+    await Promise.all([
+      fetchTasks(household.id),
+      fetchBills(household.id),
+      fetchMaintenanceItems(household.id),
+      fetchInventoryItems(household.id),
+    ]);
+  }, [household?.id]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadData();
+    setRefreshing(false);
+  }, [loadData]);
+
+  // Intervalo visivel
+  const monthGrid = getMonthGrid(selectedDate);
+  const weekStart = getWeekStart(selectedDate);
+  const range =
+    view === "month"
+      ? { start: monthGrid[0][0], end: monthGrid[monthGrid.length - 1][6] }
+      : view === "week"
+      ? { start: weekStart, end: addDays(weekStart, 6) }
+      : { start: selectedDate, end: selectedDate };
+
+  const events = getCalendarEvents(
+    { tasks, bills, maintenanceItems, inventoryItems },
+    range.start,
+    range.end,
+    today
+  );
+  const eventsByDate = groupEventsByDate(events);
+
+  const navigate = (direction: 1 | -1) => {
+    if (view === "month") {
+      setSelectedDate(addMonths(getMonthStart(selectedDate), direction));
+    } else {
+      setSelectedDate(addDays(selectedDate, view === "week" ? 7 * direction : direction));
+    }
+  };
+
+  const getTitle = () => {
+    if (view === "month") return formatDay(selectedDate, { month: "long", year: "numeric" });
+    if (view === "week") {
+      return `${formatDay(weekStart, { day: "2-digit", month: "short" })} - ${formatDay(addDays(weekStart, 6), {
+        day: "2-digit",
+        month: "short",
+      })}`;
+    }
+    return formatDay(selectedDate, { weekday: "long", day: "2-digit", month: "long" });
+  };
+
+  const renderEvent = (event: CalendarEvent) => {
+    const meta = CALENDAR_EVENT_META[event.type];
+    return (
+      <TouchableOpacity
+        key={event.id}
+        onPress={() => router.push(event.route)}
+        style={[styles.eventItem, { backgroundColor: theme.surface, borderLeftColor: meta.color }]}
+      >
+        <Ionicons name={meta.icon as keyof typeof Ionicons.glyphMap} size={18} color={meta.color} />
+        <View style={styles.eventContent}>
+          <Text style={[styles.eventTitle, { color: theme.text }]} numberOfLines={1}>
+            {event.title}
+          </Text>
+          <Text style={[styles.eventMeta, { color: event.isOverdue ? theme.danger : theme.textSecondary }]}>
+            {meta.label}
+            {event.subtitle ? ` - ${event.subtitle}` : ""}
+            {event.isOverdue ? " - atrasado" : ""}
+            {event.isProjected ? " - previsto" : ""}
+          </Text>
+        </View>
+        <Ionicons name="chevron-forward" size={18} color={theme.textMuted} />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderDayList = (date: string, showHeader: boolean) => {
+    const dayEvents = eventsByDate[date] || [];
+    if (showHeader && dayEvents.length === 0) return null;
+
+    return (
+      <View key={date} style={styles.dayBlock}>
+        {showHeader && (
+          <Text style={[styles.dayHeader, { color: date === today ? theme.primary : theme.textSecondary }]}>
+            {date === today ? "Hoje - " : ""}
+            {formatDay(date, { weekday: "long", day: "2-digit", month: "2-digit" })}
+          </Text>
+        )}
+        {dayEvents.length === 0 ? (
+          <Card>
+            <Text style={[styles.emptyText, { color: theme.textMuted }]}>Nada agendado</Text>
+          </Card>
+        ) : (
+          dayEvents.map(renderEvent)
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={["top"]}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+        <View style={styles.headerRow}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+            <Ionicons name="close" size={24} color={theme.gray[700]} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>Agenda</Text>
+          <TouchableOpacity onPress={() => setSelectedDate(today)} style={styles.headerButton}>
+            <Text style={[styles.todayText, { color: theme.primary }]}>Hoje</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={[styles.tabContainer, { backgroundColor: theme.surfaceVariant }]}>
+          {viewOptions.map((opt) => (
+            <TouchableOpacity
+              key={opt.key}
+              onPress={() => setView(opt.key)}
+              style={[styles.tab, view === opt.key && { backgroundColor: theme.surface }]}
+            >
+              <Text
+                style={[
+                  styles.tabText,
+                  { color: theme.textSecondary },
+                  view === opt.key && { color: theme.primary },
+                ]}
+              >
+                {opt.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.navRow}>
+          <TouchableOpacity onPress={() => navigate(-1)} style={styles.navButton}>
+            <Ionicons name="chevron-back" size={22} color={theme.gray[700]} />
+          </TouchableOpacity>
+          <Text style={[styles.navTitle, { color: theme.text }]}>{getTitle()}</Text>
+          <TouchableOpacity onPress={() => navigate(1)} style={styles.navButton}>
+            <Ionicons name="chevron-forward" size={22} color={theme.gray[700]} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={theme.primary} />
+        }
+      >
+        {view === "month" && (
+          <>
+            <Card style={styles.monthCard}>
+              <View style={styles.weekRow}>
+                {WEEKDAY_SHORT_LABELS.map((label) => (
+                  <Text key={label} style={[styles.weekdayLabel, { color: theme.textMuted }]}>
+                    {label}
+                  </Text>
+                ))}
+              </View>
+              {monthGrid.map((week) => (
+                <View key={week[0]} style={styles.weekRow}>
+                  {week.map((date) => {
+                    const dayEvents = eventsByDate[date] || [];
+                    const types = Array.from(new Set(dayEvents.map((e) => e.type)));
+                    const isSelected = date === selectedDate;
+                    const isOtherMonth = date.slice(0, 7) !== selectedDate.slice(0, 7);
+
+                    return (
+                      <TouchableOpacity
+                        key={date}
+                        onPress={() => setSelectedDate(date)}
+                        style={[styles.dayCell, isSelected && { backgroundColor: theme.primary }]}
+                      >
+                        <Text
+                          style={[
+                            styles.dayNumber,
+                            { color: isOtherMonth ? theme.textMuted : theme.text },
+                            date === today && !isSelected && { color: theme.primary, fontWeight: 'bold' },
+                            isSelected && { color: theme.surface, fontWeight: 'bold' },
+                          ]}
+                        >
+                          {Number(date.slice(8))}
+                        </Text>
+                        <View style={styles.dotsRow}>
+                          {types.slice(0, 4).map((type) => (
+                            <View
+                              key={type}
+                              style={[
+                                styles.dot,
+                                { backgroundColor: isSelected ? theme.surface : CALENDAR_EVENT_META[type].color },
+                              ]}
+                            />
+                          ))}
+                        </View>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              ))}
+            </Card>
+
+            {/* Legend */}
+            <View style={styles.legendRow}>
+              {Object.values(CALENDAR_EVENT_META).map((meta) => (
+                <View key={meta.label} style={styles.legendItem}>
+                  <View style={[styles.dot, { backgroundColor: meta.color }]} />
+                  <Text style={[styles.legendText, { color: theme.textSecondary }]}>{meta.label}</Text>
+                </View>
+              ))}
+            </View>
+
+            {renderDayList(selectedDate, false)}
+          </>
+        )}
+
+        {view === "week" && (
+          <>
+            {Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)).map((date) =>
+              renderDayList(date, true)
+            )}
+            {events.length === 0 && (
+              <Card>
+                <Text style={[styles.emptyText, { color: theme.textMuted }]}>Semana livre!</Text>
+              </Card>
+            )}
+          </>
+        )}
+
+        {view === "day" && renderDayList(selectedDate, false)}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  headerButton: {
+    minWidth: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  todayText: {
+    fontWeight: '600',
+  },
+  tabContainer: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    padding: 4,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  tabText: {
+    fontWeight: '500',
+  },
+  navRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  navButton: {
+    padding: 4,
+  },
+  navTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    textTransform: 'capitalize',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  monthCard: {
+    marginBottom: 12,
+  },
+  weekRow: {
+    flexDirection: 'row',
+  },
+  weekdayLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  dayCell: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderRadius: 10,
+  },
+  dayNumber: {
+    fontSize: 14,
+  },
+  dotsRow: {
+    flexDirection: 'row',
+    height: 6,
+    marginTop: 3,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    marginHorizontal: 1,
+  },
+  legendRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 12,
+    marginBottom: 4,
+  },
+  legendText: {
+    fontSize: 12,
+    marginLeft: 4,
+  },
+  dayBlock: {
+    marginBottom: 12,
+  },
+  dayHeader: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 8,
+    textTransform: 'capitalize',
+  },
+  eventItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    marginBottom: 8,
+  },
+  eventContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  eventTitle: {
+    fontWeight: '500',
+  },
+  eventMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  emptyText: {
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+});
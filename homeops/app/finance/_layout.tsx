@@ -18,6 +18,14 @@ export default function FinanceLayout() {
       <Stack.Screen name="new-transaction" />
       <Stack.Screen name="edit-bill" />
       <Stack.Screen name="edit-transaction" />
+      <Stack.Screen name="budgets" />
+      <Stack.Screen name="balances" />
+      <Stack.Screen name="import" />
+      <Stack.Screen name="rules" />
+      <Stack.Screen name="reports" />
+      <Stack.Screen name="accounts" />
+      <Stack.Screen name="card-statement" />
+      <Stack.Screen name="incomes" />
     </Stack>
   );
 }
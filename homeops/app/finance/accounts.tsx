@@ -0,0 +1,272 @@
+import { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  StyleSheet,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { Button, Input } from "@/components/ui";
+import { useFinanceStore, formatCurrency } from "@/stores/financeStore";
+import { useAuthStore } from "@/stores/authStore";
+import { useTheme } from "@/contexts/ThemeContext";
+import { ACCOUNT_TYPE_LABELS, ACCOUNT_TYPE_ICONS } from "@/lib/accounts";
+import { getTodayKey } from "@/lib/recurrence";
+import type { PaymentAccount, PaymentAccountType } from "@/types";
+
+const accountTypes: PaymentAccountType[] = ["checking", "credit_card", "cash"];
+
+const parseDay = (text: string): number | null => {
+  const day = parseInt(text, 10);
+  return day >= 1 && day <= 31 ? day : null;
+};
+
+export default function AccountsScreen() {
+  const router = useRouter();
+  const { user, household } = useAuthStore();
+  const { accounts, fetchAccounts, saveAccount, deleteAccount, isLoading } = useFinanceStore();
+  const { theme } = useTheme();
+
+  const [editing, setEditing] = useState<PaymentAccount | "new" | null>(null);
+  const [name, setName] = useState("");
+  const [type, setType] = useState<PaymentAccountType>("checking");
+  const [closingDay, setClosingDay] = useState("");
+  const [dueDay, setDueDay] = useState("");
+  const [creditLimit, setCreditLimit] = useState("");
+  const [balance, setBalance] = useState("");
+
+  useEffect(() => {
+    if (household?.id) fetchAccounts(household.id);
+  }, [household?.id]);
+
+  const openEditor = (account: PaymentAccount | null) => {
+    setEditing(account || "new");
+    setName(account?.name || "");
+    setType(account?.type || "checking");
+    setClosingDay(account?.closing_day ? String(account.closing_day) : "");
+    setDueDay(account?.due_day ? String(account.due_day) : "");
+    setCreditLimit(account?.credit_limit != null ? String(account.credit_limit).replace(".", ",") : "");
+    setBalance(account?.balance != null ? String(account.balance).replace(".", ",") : "");
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) { Alert.alert("Erro", "Digite o nome da conta"); return; }
+    if (!household?.id) { Alert.alert("Erro", "Household nao encontrado"); return; }
+
+    const isCard = type === "credit_card";
+    const closing = parseDay(closingDay);
+    const due = parseDay(dueDay);
+    if (isCard && (!closing || !due)) { Alert.alert("Erro", "Informe os dias de fechamento e vencimento (1 a 31)"); return; }
+
+    const limit = parseFloat(creditLimit.replace(",", "."));
+    const newBalance = balance.trim() ? parseFloat(balance.replace(",", ".")) : null;
+    if (Number.isNaN(newBalance)) { Alert.alert("Erro", "Saldo invalido"); return; }
+
+    // Saldo alterado vale a partir de hoje; sem alteracao mantem a data da conferencia
+    const current = editing && editing !== "new" ? editing : null;
+    const balanceFields = isCard || newBalance === null
+      ? { balance: null, balance_date: null }
+      : newBalance === (current?.balance != null ? Number(current.balance) : null)
+        ? {}
+        : { balance: newBalance, balance_date: getTodayKey() };
+
+    const { error } = await saveAccount({
+      ...(editing && editing !== "new" ? { id: editing.id } : { created_by: user?.id }),
+      household_id: household.id,
+      name: name.trim(),
+      type,
+      closing_day: isCard ? closing : null,
+      due_day: isCard ? due : null,
+      credit_limit: isCard && !isNaN(limit) ? limit : null,
+      ...balanceFields,
+    });
+    if (error) { Alert.alert("Erro", error); return; }
+    setEditing(null);
+  };
+
+  const handleRemove = () => {
+    if (!editing || editing === "new") return;
+    const message = editing.type === "credit_card"
+      ? `Remover ${editing.name}? A conta da fatura tambem sera removida; os lancamentos ficam sem conta.`
+      : `Remover ${editing.name}? Os lancamentos ficam sem conta.`;
+    Alert.alert("Remover conta", message, [
+      { text: "Cancelar", style: "cancel" },
+      {
+        text: "Remover",
+        style: "destructive",
+        onPress: async () => {
+          const { error } = await deleteAccount(editing.id);
+          if (error) { Alert.alert("Erro", error); return; }
+          setEditing(null);
+        },
+      },
+    ]);
+  };
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[styles.chip, { backgroundColor: theme.gray[200] }, isSelected && { backgroundColor: theme.primary }]}
+    >
+      <Text style={[styles.chipText, { color: theme.gray[700] }, isSelected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={["top"]}>
+      <KeyboardAvoidingView behavior={Platform.OS === "ios" ? "padding" : "height"} style={styles.flex}>
+        <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color={theme.gray[700]} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>Contas e cartoes</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          <Text style={[styles.description, { color: theme.textSecondary }]}>
+            Cada cartao de credito ganha uma conta "Fatura" que vence no dia escolhido, com o valor das compras do ciclo.
+          </Text>
+
+          {editing ? (
+            <View style={[styles.editor, { backgroundColor: theme.surface, borderColor: theme.primary }]}>
+              <Text style={[styles.editorTitle, { color: theme.text }]}>{editing === "new" ? "Nova conta" : "Editar conta"}</Text>
+
+              <View style={styles.chipsRow}>
+                {accountTypes.map((t) => renderChip(t, ACCOUNT_TYPE_LABELS[t], type === t, () => setType(t)))}
+              </View>
+
+              <Input label="Nome" placeholder={type === "credit_card" ? "Ex: Nubank" : "Ex: Conta Itau"} value={name} onChangeText={setName} autoCapitalize="words" />
+
+              {type === "credit_card" && (
+                <>
+                  <View style={styles.daysRow}>
+                    <View style={styles.dayField}>
+                      <Input label="Dia do fechamento" placeholder="25" value={closingDay} onChangeText={setClosingDay} keyboardType="numeric" />
+                    </View>
+                    <View style={styles.dayField}>
+                      <Input label="Dia do vencimento" placeholder="5" value={dueDay} onChangeText={setDueDay} keyboardType="numeric" />
+                    </View>
+                  </View>
+                  <Input label="Limite (R$)" placeholder="Opcional" value={creditLimit} onChangeText={setCreditLimit} keyboardType="numeric" icon="cash-outline" />
+                </>
+              )}
+
+              {type !== "credit_card" && (
+                <>
+                  <Input label="Saldo atual (R$)" placeholder="Opcional" value={balance} onChangeText={setBalance} keyboardType="numeric" icon="wallet-outline" />
+                  <Text style={[styles.editorHint, { color: theme.textSecondary }]}>
+                    Usado na previsao de caixa. Lancamentos nesta conta a partir de amanha atualizam o saldo sozinhos.
+                  </Text>
+                </>
+              )}
+
+              <View style={styles.editorActions}>
+                <View style={styles.editorAction}>
+                  {editing === "new" ? (
+                    <Button onPress={() => setEditing(null)} variant="outline" fullWidth>Cancelar</Button>
+                  ) : (
+                    <Button onPress={handleRemove} variant="outline" fullWidth>Remover</Button>
+                  )}
+                </View>
+                <View style={styles.editorAction}>
+                  <Button onPress={handleSave} loading={isLoading} disabled={!name.trim()} fullWidth>Salvar</Button>
+                </View>
+              </View>
+            </View>
+          ) : (
+            <View style={styles.newButton}>
+              <Button onPress={() => openEditor(null)} fullWidth>Nova conta</Button>
+            </View>
+          )}
+
+          <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Contas da casa</Text>
+          {accounts.length === 0 ? (
+            <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+              Nenhuma conta cadastrada. Cadastre seus cartoes para acompanhar faturas e compras parceladas.
+            </Text>
+          ) : (
+            accounts.map((account) => {
+              const isCard = account.type === "credit_card";
+              const isSelected = editing !== "new" && editing?.id === account.id;
+              return (
+                <View
+                  key={account.id}
+                  style={[styles.accountRow, { backgroundColor: theme.surface, borderColor: isSelected ? theme.primary : theme.border }]}
+                >
+                  <TouchableOpacity onPress={() => openEditor(account)} style={styles.accountMain}>
+                    <View style={[styles.accountIcon, { backgroundColor: theme.primaryLight }]}>
+                      <Ionicons name={ACCOUNT_TYPE_ICONS[account.type] as keyof typeof Ionicons.glyphMap} size={20} color={theme.primary} />
+                    </View>
+                    <View style={styles.accountInfo}>
+                      <Text style={[styles.accountName, { color: theme.text }]}>{account.name}</Text>
+                      <Text style={[styles.accountDetails, { color: theme.textSecondary }]}>
+                        {isCard
+                          ? `Fecha dia ${account.closing_day}, vence dia ${account.due_day}${account.credit_limit ? ` - limite ${formatCurrency(Number(account.credit_limit))}` : ""}`
+                          : account.balance != null && account.balance_date
+                            ? `${ACCOUNT_TYPE_LABELS[account.type]} - saldo ${formatCurrency(Number(account.balance))} em ${new Date(`${account.balance_date}T00:00:00`).toLocaleDateString("pt-BR")}`
+                            : ACCOUNT_TYPE_LABELS[account.type]}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                  {isCard && (
+                    <TouchableOpacity
+                      onPress={() => router.push(`/finance/card-statement?id=${account.id}`)}
+                      style={[styles.statementButton, { borderColor: theme.primary + "40" }]}
+                    >
+                      <Text style={[styles.statementButtonText, { color: theme.primary }]}>Fatura</Text>
+                      <Ionicons name="chevron-forward" size={16} color={theme.primary} />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              );
+            })
+          )}
+
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  flex: { flex: 1 },
+  header: { paddingHorizontal: 20, paddingVertical: 16, borderBottomWidth: 1, flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+  closeButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center', marginLeft: -8 },
+  headerTitle: { fontSize: 18, fontWeight: '600' },
+  headerSpacer: { width: 40 },
+  scrollView: { flex: 1, paddingHorizontal: 16, paddingTop: 16 },
+  description: { fontSize: 14, marginBottom: 16 },
+  sectionLabel: { fontWeight: '500', marginBottom: 8 },
+  editor: { borderRadius: 16, borderWidth: 2, padding: 16, marginBottom: 24 },
+  editorTitle: { fontSize: 16, fontWeight: '600', marginBottom: 12 },
+  editorHint: { fontSize: 13, marginTop: -8, marginBottom: 8 },
+  editorActions: { flexDirection: 'row', gap: 12, marginTop: 8 },
+  editorAction: { flex: 1 },
+  newButton: { marginBottom: 24 },
+  chipsRow: { flexDirection: 'row', flexWrap: 'wrap', marginBottom: 8 },
+  chip: { marginRight: 8, marginBottom: 8, paddingHorizontal: 12, paddingVertical: 8, borderRadius: 8 },
+  chipText: { fontSize: 14 },
+  chipTextSelected: { color: '#FFFFFF', fontWeight: '500' },
+  daysRow: { flexDirection: 'row', gap: 12 },
+  dayField: { flex: 1 },
+  emptyText: { fontSize: 14 },
+  accountRow: { flexDirection: 'row', alignItems: 'center', padding: 12, borderRadius: 12, borderWidth: 1, marginBottom: 8 },
+  accountMain: { flex: 1, flexDirection: 'row', alignItems: 'center' },
+  accountIcon: { width: 40, height: 40, borderRadius: 10, alignItems: 'center', justifyContent: 'center', marginRight: 12 },
+  accountInfo: { flex: 1 },
+  accountName: { fontWeight: '500' },
+  accountDetails: { fontSize: 13, marginTop: 2 },
+  statementButton: { flexDirection: 'row', alignItems: 'center', borderWidth: 1, borderRadius: 8, paddingHorizontal: 10, paddingVertical: 6, marginLeft: 8 },
+  statementButtonText: { fontSize: 13, fontWeight: '500' },
+  bottomSpacer: { height: 32 },
+});
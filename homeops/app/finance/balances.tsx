@@ -0,0 +1,298 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  StyleSheet,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { Card } from "@/components/ui";
+import { useFinanceStore, formatCurrency } from "@/stores/financeStore";
+import { useAuthStore } from "@/stores/authStore";
+import { useHouseholdStore } from "@/stores/householdStore";
+import { useTheme } from "@/contexts/ThemeContext";
+import { getMemberName } from "@/lib/rotation";
+import { getSettleUpPayments, type SettleUpPayment } from "@/lib/splits";
+
+export default function BalancesScreen() {
+  const router = useRouter();
+  const { user, household } = useAuthStore();
+  const { balances, settlements, fetchBalances, createSettlement } = useFinanceStore();
+  const { members, fetchMembers } = useHouseholdStore();
+  const { theme } = useTheme();
+
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadData = useCallback(async () => {
+    if (!household?.id) return;
+    await Promise.all([fetchBalances(household.id), fetchMembers(household.id)]);
+  }, [household?.id]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadData();
+    setRefreshing(false);
+  }, [loadData]);
+
+  const payments = getSettleUpPayments(balances);
+
+  const handleSettle = (payment: SettleUpPayment) => {
+    if (!household?.id) return;
+    Alert.alert(
+      "Registrar acerto",
+      `${getMemberName(members, payment.from)} pagou ${formatCurrency(payment.amount)} para ${getMemberName(members, payment.to)}?`,
+      [
+        { text: "Cancelar", style: "cancel" },
+        {
+          text: "Registrar",
+          onPress: async () => {
+            const { error } = await createSettlement({
+              household_id: household.id,
+              from_user: payment.from,
+              to_user: payment.to,
+              amount: payment.amount,
+              created_by: user?.id,
+            });
+            if (error) Alert.alert("Erro", error);
+          },
+        },
+      ]
+    );
+  };
+
+  // Moradores sem despesas divididas aparecem quites
+  const memberBalances = members.map((m) => ({
+    userId: m.user_id,
+    balance: balances.find((b) => b.user_id === m.user_id)?.balance || 0,
+  }));
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={["top"]}>
+      <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color={theme.gray[700]} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.text }]}>Quem deve quem</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={theme.primary} />}
+      >
+        <Text style={[styles.sectionTitle, { color: theme.text }]}>Saldos</Text>
+        <Card>
+          {memberBalances.map((item, index) => {
+            const color = item.balance > 0 ? theme.success : item.balance < 0 ? theme.danger : theme.textMuted;
+            return (
+              <View
+                key={item.userId}
+                style={{
+                  ...styles.balanceRow,
+                  ...(index < memberBalances.length - 1 ? { borderBottomWidth: 1, borderBottomColor: theme.border } : {}),
+                }}
+              >
+                <Text style={[styles.memberName, { color: theme.text }]}>
+                  {getMemberName(members, item.userId)}
+                  {item.userId === user?.id ? " (voce)" : ""}
+                </Text>
+                <View style={styles.balanceRight}>
+                  <Text style={[styles.balanceValue, { color }]}>{formatCurrency(Math.abs(item.balance))}</Text>
+                  <Text style={[styles.balanceLabel, { color: theme.textSecondary }]}>
+                    {item.balance > 0 ? "a receber" : item.balance < 0 ? "deve" : "quite"}
+                  </Text>
+                </View>
+              </View>
+            );
+          })}
+        </Card>
+
+        <Text style={[styles.sectionTitle, { color: theme.text }]}>Acertos sugeridos</Text>
+        {payments.length === 0 ? (
+          <Card>
+            <View style={styles.emptyState}>
+              <Ionicons name="checkmark-done-circle-outline" size={40} color={theme.success} />
+              <Text style={[styles.emptyText, { color: theme.textSecondary }]}>Tudo certo! Ninguem deve nada.</Text>
+            </View>
+          </Card>
+        ) : (
+          payments.map((payment) => (
+            <Card key={`${payment.from}-${payment.to}`} style={styles.paymentCard}>
+              <View style={styles.paymentRow}>
+                <View style={styles.paymentInfo}>
+                  <Text style={[styles.paymentText, { color: theme.text }]}>
+                    {getMemberName(members, payment.from)}
+                    <Text style={{ color: theme.textSecondary }}> paga </Text>
+                    {getMemberName(members, payment.to)}
+                  </Text>
+                  <Text style={[styles.paymentAmount, { color: theme.primary }]}>{formatCurrency(payment.amount)}</Text>
+                </View>
+                <TouchableOpacity
+                  onPress={() => handleSettle(payment)}
+                  style={[styles.settleButton, { backgroundColor: theme.successLight, borderColor: theme.success + "40" }]}
+                >
+                  <Ionicons name="swap-horizontal" size={16} color={theme.success} />
+                  <Text style={[styles.settleButtonText, { color: theme.success }]}>Registrar acerto</Text>
+                </TouchableOpacity>
+              </View>
+            </Card>
+          ))
+        )}
+
+        {settlements.length > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, { color: theme.text }]}>Ultimos acertos</Text>
+            <Card>
+              {settlements.map((settlement, index) => (
+                <View
+                  key={settlement.id}
+                  style={{
+                    ...styles.historyRow,
+                    ...(index < settlements.length - 1 ? { borderBottomWidth: 1, borderBottomColor: theme.border } : {}),
+                  }}
+                >
+                  <View style={styles.paymentInfo}>
+                    <Text style={[styles.historyText, { color: theme.text }]}>
+                      {getMemberName(members, settlement.from_user)} pagou {getMemberName(members, settlement.to_user)}
+                    </Text>
+                    <Text style={[styles.historyDate, { color: theme.textSecondary }]}>
+                      {new Date(settlement.date + "T00:00:00").toLocaleDateString("pt-BR")}
+                    </Text>
+                  </View>
+                  <Text style={[styles.historyAmount, { color: theme.text }]}>{formatCurrency(Number(settlement.amount))}</Text>
+                </View>
+              ))}
+            </Card>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: -8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  balanceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+  },
+  memberName: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  balanceRight: {
+    alignItems: 'flex-end',
+  },
+  balanceValue: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  balanceLabel: {
+    fontSize: 12,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 24,
+  },
+  emptyText: {
+    marginTop: 12,
+  },
+  paymentCard: {
+    marginBottom: 8,
+  },
+  paymentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  paymentInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  paymentText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  paymentAmount: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 4,
+  },
+  settleButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    gap: 6,
+  },
+  settleButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  historyText: {
+    fontSize: 14,
+  },
+  historyDate: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  historyAmount: {
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,188 @@
+import { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  StyleSheet,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { Button, Input } from "@/components/ui";
+import { useFinanceStore, formatCurrency } from "@/stores/financeStore";
+import { useAuthStore } from "@/stores/authStore";
+import { useTheme } from "@/contexts/ThemeContext";
+import type { FinanceCategory } from "@/types";
+
+export default function BudgetsScreen() {
+  const router = useRouter();
+  const { user, household } = useAuthStore();
+  const { categories, budgets, fetchCategories, fetchBudgets, saveBudget, deleteBudget, isLoading } = useFinanceStore();
+  const { theme } = useTheme();
+
+  const [selectedCategory, setSelectedCategory] = useState<FinanceCategory | null>(null);
+  const [limit, setLimit] = useState("");
+  const [rollover, setRollover] = useState(false);
+
+  useEffect(() => {
+    fetchCategories();
+    if (household?.id) fetchBudgets(household.id);
+  }, [household?.id]);
+
+  const expenseCategories = categories.filter((c) => c.type === "expense");
+  const selectedBudget = budgets.find((b) => b.category_id === selectedCategory?.id);
+
+  const handleSelectCategory = (category: FinanceCategory) => {
+    const budget = budgets.find((b) => b.category_id === category.id);
+    setSelectedCategory(category);
+    setLimit(budget ? budget.monthly_limit.toString() : "");
+    setRollover(budget?.rollover || false);
+  };
+
+  const handleSave = async () => {
+    if (!selectedCategory) return;
+    const monthlyLimit = parseFloat(limit.replace(",", "."));
+    if (!monthlyLimit || monthlyLimit <= 0) { Alert.alert("Erro", "Digite um limite mensal valido"); return; }
+    if (!household?.id) { Alert.alert("Erro", "Household nao encontrado"); return; }
+
+    const { error } = await saveBudget({
+      household_id: household.id,
+      category_id: selectedCategory.id,
+      monthly_limit: monthlyLimit,
+      rollover,
+      created_by: user?.id,
+    });
+    if (error) { Alert.alert("Erro", error); return; }
+    setSelectedCategory(null);
+  };
+
+  const handleRemove = () => {
+    if (!selectedBudget) return;
+    Alert.alert("Remover orcamento", `Remover o limite de ${selectedCategory?.name}?`, [
+      { text: "Cancelar", style: "cancel" },
+      {
+        text: "Remover",
+        style: "destructive",
+        onPress: async () => {
+          const { error } = await deleteBudget(selectedBudget.id);
+          if (error) { Alert.alert("Erro", error); return; }
+          setSelectedCategory(null);
+        },
+      },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={["top"]}>
+      <KeyboardAvoidingView behavior={Platform.OS === "ios" ? "padding" : "height"} style={styles.flex}>
+        <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color={theme.gray[700]} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>Orcamentos</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          <Text style={[styles.description, { color: theme.textSecondary }]}>
+            Defina um limite mensal de gastos por categoria. Voce recebe um aviso ao atingir 80% e 100% do limite.
+          </Text>
+
+          {selectedCategory && (
+            <View style={[styles.editor, { backgroundColor: theme.surface, borderColor: theme.primary }]}>
+              <View style={styles.editorHeader}>
+                <Ionicons name={selectedCategory.icon as keyof typeof Ionicons.glyphMap} size={20} color={selectedCategory.color} />
+                <Text style={[styles.editorTitle, { color: theme.text }]}>{selectedCategory.name}</Text>
+              </View>
+
+              <Input label="Limite mensal (R$)" placeholder="0,00" value={limit} onChangeText={setLimit} keyboardType="numeric" icon="cash-outline" />
+
+              <TouchableOpacity onPress={() => setRollover(!rollover)} style={[styles.toggleRow, { backgroundColor: theme.background, borderColor: theme.border }]}>
+                <View style={styles.toggleLeft}>
+                  <Ionicons name="arrow-redo-outline" size={20} color={rollover ? theme.primary : theme.gray[400]} />
+                  <View style={styles.toggleTextContainer}>
+                    <Text style={[styles.toggleLabel, { color: theme.gray[700] }, rollover && { color: theme.primary }]}>Acumular sobra</Text>
+                    <Text style={[styles.toggleSublabel, { color: theme.textSecondary }]}>O que nao for gasto passa para o mes seguinte</Text>
+                  </View>
+                </View>
+                <View style={[styles.toggle, { backgroundColor: theme.gray[300] }, rollover && { backgroundColor: theme.primary }]}>
+                  <View style={[styles.toggleThumb, rollover && styles.toggleThumbActive]} />
+                </View>
+              </TouchableOpacity>
+
+              <View style={styles.editorActions}>
+                {selectedBudget && (
+                  <View style={styles.editorAction}>
+                    <Button onPress={handleRemove} variant="outline" fullWidth>Remover</Button>
+                  </View>
+                )}
+                <View style={styles.editorAction}>
+                  <Button onPress={handleSave} loading={isLoading} disabled={!limit.trim()} fullWidth>Salvar</Button>
+                </View>
+              </View>
+            </View>
+          )}
+
+          <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Categorias de despesa</Text>
+          {expenseCategories.map((cat) => {
+            const budget = budgets.find((b) => b.category_id === cat.id);
+            const isSelected = selectedCategory?.id === cat.id;
+            return (
+              <TouchableOpacity key={cat.id} onPress={() => handleSelectCategory(cat)} style={[styles.categoryRow, { backgroundColor: theme.surface, borderColor: isSelected ? theme.primary : theme.border }]}>
+                <View style={[styles.categoryIcon, { backgroundColor: cat.color + "20" }]}>
+                  <Ionicons name={cat.icon as keyof typeof Ionicons.glyphMap} size={20} color={cat.color} />
+                </View>
+                <View style={styles.categoryInfo}>
+                  <Text style={[styles.categoryName, { color: theme.text }]}>{cat.name}</Text>
+                  <Text style={[styles.categoryLimit, { color: theme.textSecondary }]}>
+                    {budget
+                      ? `${formatCurrency(Number(budget.monthly_limit))} por mes${budget.rollover ? " + sobra" : ""}`
+                      : "Sem limite"}
+                  </Text>
+                </View>
+                <Ionicons name="chevron-forward" size={20} color={theme.gray[400]} />
+              </TouchableOpacity>
+            );
+          })}
+
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  flex: { flex: 1 },
+  header: { paddingHorizontal: 20, paddingVertical: 16, borderBottomWidth: 1, flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+  closeButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center', marginLeft: -8 },
+  headerTitle: { fontSize: 18, fontWeight: '600' },
+  headerSpacer: { width: 40 },
+  scrollView: { flex: 1, paddingHorizontal: 16, paddingTop: 16 },
+  description: { fontSize: 14, marginBottom: 16 },
+  sectionLabel: { fontWeight: '500', marginBottom: 8 },
+  editor: { borderRadius: 16, borderWidth: 2, padding: 16, marginBottom: 24 },
+  editorHeader: { flexDirection: 'row', alignItems: 'center', marginBottom: 12 },
+  editorTitle: { fontSize: 16, fontWeight: '600', marginLeft: 8 },
+  editorActions: { flexDirection: 'row', gap: 12 },
+  editorAction: { flex: 1 },
+  toggleRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', padding: 16, borderRadius: 12, borderWidth: 1, marginBottom: 16 },
+  toggleLeft: { flexDirection: 'row', alignItems: 'center', flex: 1, marginRight: 12 },
+  toggleTextContainer: { marginLeft: 12, flex: 1 },
+  toggleLabel: { fontWeight: '500' },
+  toggleSublabel: { fontSize: 14 },
+  toggle: { width: 48, height: 28, borderRadius: 14, padding: 4 },
+  toggleThumb: { width: 20, height: 20, borderRadius: 10, backgroundColor: '#FFFFFF' },
+  toggleThumbActive: { alignSelf: 'flex-end' },
+  categoryRow: { flexDirection: 'row', alignItems: 'center', padding: 12, borderRadius: 12, borderWidth: 1, marginBottom: 8 },
+  categoryIcon: { width: 40, height: 40, borderRadius: 10, alignItems: 'center', justifyContent: 'center', marginRight: 12 },
+  categoryInfo: { flex: 1 },
+  categoryName: { fontWeight: '500' },
+  categoryLimit: { fontSize: 13, marginTop: 2 },
+  bottomSpacer: { height: 32 },
+});
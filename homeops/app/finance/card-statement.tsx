@@ -0,0 +1,199 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  StyleSheet,
+} from "react-native";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { Card } from "@/components/ui";
+import { Loading, EmptyState, StatusBadge } from "@/components/shared";
+import { useFinanceStore, formatCurrency, getCardStatement } from "@/stores/financeStore";
+import { useAuthStore } from "@/stores/authStore";
+import { useTheme } from "@/contexts/ThemeContext";
+import { addMonths } from "@/lib/calendar";
+import { getTodayKey } from "@/lib/recurrence";
+import { getStatementMonth, getStatementDates } from "@/lib/accounts";
+import type { Transaction } from "@/types";
+
+const formatDay = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString("pt-BR");
+
+export default function CardStatementScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { household } = useAuthStore();
+  const { accounts, bills, fetchAccounts, fetchBills } = useFinanceStore();
+  const { theme } = useTheme();
+
+  const account = accounts.find((a) => a.id === id);
+  const closingDay = account?.closing_day || 1;
+  const dueDay = account?.due_day || 1;
+  const todayKey = getTodayKey();
+  const openMonth = getStatementMonth(todayKey, closingDay, dueDay);
+
+  const [statementMonth, setStatementMonth] = useState<string | null>(null);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const month = statementMonth || openMonth;
+
+  useEffect(() => {
+    if (household?.id && !account) {
+      fetchAccounts(household.id);
+      fetchBills(household.id);
+    }
+  }, [household?.id]);
+
+  const loadData = useCallback(async () => {
+    if (!id || !account) return;
+    const result = await getCardStatement(id, month);
+    setTransactions(result.transactions);
+    setError(result.error);
+  }, [id, account?.id, month]);
+
+  useEffect(() => {
+    if (!account) return;
+    setLoading(true);
+    loadData().finally(() => setLoading(false));
+  }, [loadData]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadData();
+    setRefreshing(false);
+  }, [loadData]);
+
+  if (!account) {
+    return <Loading message="Carregando cartao..." />;
+  }
+
+  const { closingDate, dueDate } = getStatementDates(month, closingDay, dueDay);
+  const total = transactions.reduce((sum, t) => sum + (t.type === "expense" ? Number(t.amount) : -Number(t.amount)), 0);
+  const isClosed = todayKey > closingDate;
+  const invoice = bills.find((b) => b.invoice_account_id === account.id);
+  // A conta da fatura acompanha o mes corrente (vencimento neste mes)
+  const invoiceStatus = invoice && month === todayKey.slice(0, 7) ? invoice.current_month_status : null;
+  const monthLabel = new Date(`${month}-01T00:00:00`).toLocaleDateString("pt-BR", { month: "long", year: "numeric" });
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={["top"]}>
+      <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color={theme.gray[700]} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.text }]}>Fatura {account.name}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <View style={styles.monthRow}>
+        <TouchableOpacity onPress={() => setStatementMonth(addMonths(`${month}-01`, -1).slice(0, 7))} style={styles.monthButton}>
+          <Ionicons name="chevron-back" size={20} color={theme.textSecondary} />
+        </TouchableOpacity>
+        <Text style={[styles.monthText, { color: theme.textSecondary }]}>{monthLabel}</Text>
+        <TouchableOpacity onPress={() => setStatementMonth(addMonths(`${month}-01`, 1).slice(0, 7))} style={styles.monthButton}>
+          <Ionicons name="chevron-forward" size={20} color={theme.textSecondary} />
+        </TouchableOpacity>
+        {month !== openMonth && (
+          <TouchableOpacity onPress={() => setStatementMonth(null)}>
+            <Text style={[styles.monthTodayText, { color: theme.primary }]}>Fatura aberta</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={[theme.primary]} />}
+      >
+        <Card style={{ ...styles.summaryCard }}>
+          <View style={styles.summaryHeader}>
+            <Text style={[styles.summaryLabel, { color: theme.textSecondary }]}>Total da fatura</Text>
+            {invoiceStatus === "paid" ? (
+              <StatusBadge label="Paga" variant="success" />
+            ) : invoiceStatus === "overdue" ? (
+              <StatusBadge label="Atrasada" variant="danger" />
+            ) : (
+              <StatusBadge label={isClosed ? "Fechada" : "Aberta"} variant={isClosed ? "warning" : "info"} />
+            )}
+          </View>
+          <Text style={[styles.summaryValue, { color: theme.text }]}>{formatCurrency(total)}</Text>
+          <View style={styles.summaryDates}>
+            <Text style={[styles.summaryDate, { color: theme.textSecondary }]}>Fecha em {formatDay(closingDate)}</Text>
+            <Text style={[styles.summaryDate, { color: theme.textSecondary }]}>Vence em {formatDay(dueDate)}</Text>
+          </View>
+          {account.credit_limit ? (
+            <Text style={[styles.summaryDate, { color: theme.textMuted }]}>
+              Limite {formatCurrency(Number(account.credit_limit))}
+            </Text>
+          ) : null}
+        </Card>
+
+        {loading ? (
+          <Loading message="Carregando fatura..." />
+        ) : error ? (
+          <Text style={[styles.errorText, { color: theme.danger }]}>{error}</Text>
+        ) : transactions.length === 0 ? (
+          <EmptyState
+            icon="card-outline"
+            title="Fatura vazia"
+            description="Nenhuma compra neste cartao para esta fatura"
+          />
+        ) : (
+          transactions.map((transaction) => (
+            <View
+              key={transaction.id}
+              style={[styles.transactionRow, { backgroundColor: theme.surface, borderColor: theme.border }]}
+            >
+              <View style={styles.transactionInfo}>
+                <Text style={[styles.transactionDescription, { color: theme.text }]} numberOfLines={1}>
+                  {transaction.description}
+                </Text>
+                <Text style={[styles.transactionDetails, { color: theme.textSecondary }]}>
+                  {formatDay(transaction.date)}
+                  {transaction.category ? ` - ${transaction.category.name}` : ""}
+                </Text>
+              </View>
+              <Text style={[styles.transactionAmount, { color: transaction.type === "expense" ? theme.text : theme.success }]}>
+                {transaction.type === "expense" ? "" : "-"}{formatCurrency(Number(transaction.amount))}
+              </Text>
+            </View>
+          ))
+        )}
+
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: { paddingHorizontal: 20, paddingVertical: 16, borderBottomWidth: 1, flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+  headerButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center', marginLeft: -8 },
+  headerTitle: { fontSize: 18, fontWeight: '600' },
+  headerSpacer: { width: 40 },
+  monthRow: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 16, paddingTop: 12 },
+  monthButton: { padding: 4 },
+  monthText: { textTransform: 'capitalize', minWidth: 130, textAlign: 'center' },
+  monthTodayText: { fontSize: 13, fontWeight: '500', marginLeft: 8 },
+  scrollView: { flex: 1, paddingHorizontal: 16, paddingTop: 12 },
+  summaryCard: { marginBottom: 16 },
+  summaryHeader: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+  summaryLabel: { fontSize: 14 },
+  summaryValue: { fontSize: 28, fontWeight: '700', marginVertical: 8 },
+  summaryDates: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: 4 },
+  summaryDate: { fontSize: 13 },
+  errorText: { fontSize: 14, textAlign: 'center', marginTop: 24 },
+  transactionRow: { flexDirection: 'row', alignItems: 'center', padding: 12, borderRadius: 12, borderWidth: 1, marginBottom: 8 },
+  transactionInfo: { flex: 1, marginRight: 12 },
+  transactionDescription: { fontWeight: '500' },
+  transactionDetails: { fontSize: 13, marginTop: 2 },
+  transactionAmount: { fontWeight: '600' },
+  bottomSpacer: { height: 32 },
+});
@@ -14,14 +14,47 @@ import { useRouter, useLocalSearchParams } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { Button, Input } from "@/components/ui";
-import { useFinanceStore } from "@/stores/financeStore";
+import { SplitEditor, PaymentCodeField } from "@/components/finances";
+import {
+  useFinanceStore,
+  getBillPaymentHistory,
+  formatCurrency,
+  type TransactionSplitInput,
+} from "@/stores/financeStore";
+import { useAuthStore } from "@/stores/authStore";
+import { useHouseholdStore } from "@/stores/householdStore";
+import { validateSplit } from "@/lib/splits";
+import { ACCOUNT_TYPE_ICONS } from "@/lib/accounts";
+import { BILL_FREQUENCY_LABELS, getNextBillDueDate, type BillSchedule } from "@/lib/bills";
+import { getTodayKey } from "@/lib/recurrence";
+import type { PaymentCodeInfo } from "@/lib/paymentCodes";
 import { useTheme } from "@/contexts/ThemeContext";
-import type { FinanceCategory, Bill } from "@/types";
+import type { FinanceCategory, Bill, BillFrequency, BillPayment } from "@/types";
+
+const frequencies: BillFrequency[] = ["monthly", "bimonthly", "quarterly", "yearly", "installments"];
+
+// Aceita AAAA-MM-DD ou DD/MM/AAAA
+const parseDate = (dateStr: string): string | null => {
+  const text = dateStr.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  const parts = text.split(/[\/\-\.]/);
+  if (parts.length === 3 && parts[2].length === 4) return `${parts[2]}-${parts[1].padStart(2, "0")}-${parts[0].padStart(2, "0")}`;
+  return null;
+};
+
+const PAYMENT_STATUS_LABELS: Record<BillPayment["status"], string> = {
+  paid: "Pago",
+  pending: "Pendente",
+  overdue: "Atrasado",
+};
 
 export default function EditBillScreen() {
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id: string }>();
-  const { bills, categories, fetchCategories, updateBill, isLoading } = useFinanceStore();
+  const { bills, categories, accounts, fetchCategories, fetchAccounts, updateBill, markBillAsPaid, unmarkBillAsPaid, isLoading } =
+    useFinanceStore();
+  const { household } = useAuthStore();
+  const { members, fetchMembers } = useHouseholdStore();
   const { theme } = useTheme();
 
   const [bill, setBill] = useState<Bill | null>(null);
@@ -31,12 +64,34 @@ export default function EditBillScreen() {
   const [dueDay, setDueDay] = useState("");
   const [autoDebit, setAutoDebit] = useState(false);
   const [notes, setNotes] = useState("");
+  const [paidAmount, setPaidAmount] = useState("");
+  const [split, setSplit] = useState<TransactionSplitInput>({ type: null, shares: [] });
+  const [accountId, setAccountId] = useState<string | null>(null);
+  const [frequency, setFrequency] = useState<BillFrequency>("monthly");
+  const [firstDueDate, setFirstDueDate] = useState("");
+  const [installmentCount, setInstallmentCount] = useState("");
+  const [paymentCode, setPaymentCode] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [payments, setPayments] = useState<BillPayment[]>([]);
 
   useEffect(() => {
     fetchCategories();
   }, []);
 
+  useEffect(() => {
+    if (household?.id && members.length === 0) fetchMembers(household.id);
+    if (household?.id) fetchAccounts(household.id);
+  }, [household?.id]);
+
+  // Recarrega quando o pagamento do mes muda
+  useEffect(() => {
+    if (!id) return;
+    getBillPaymentHistory(id).then(({ payments, error }) => {
+      if (error) console.error("Error fetching bill payments:", error);
+      setPayments(payments);
+    });
+  }, [id, bill?.current_month_status, bill?.current_month_paid_amount]);
+
   useEffect(() => {
     const found = bills.find((b) => b.id === id);
     if (found) {
@@ -47,6 +102,15 @@ export default function EditBillScreen() {
       setDueDay(found.due_day?.toString() || "");
       setAutoDebit(found.auto_debit || false);
       setNotes(found.notes || "");
+      setPaidAmount(found.current_month_paid_amount?.toString() || "");
+      setSplit({ type: found.split_type || null, shares: found.split_shares || [] });
+      setAccountId(found.account_id || null);
+      setFrequency(found.frequency || "monthly");
+      // Conta avulsa antiga so tinha o dia: parte do vencimento calculado
+      const firstDue = found.first_due_date || (found.is_recurring ? null : found.next_due_date);
+      setFirstDueDate(firstDue ? new Date(`${firstDue}T00:00:00`).toLocaleDateString("pt-BR") : "");
+      setInstallmentCount(found.installment_count?.toString() || "");
+      setPaymentCode(found.payment_code || null);
       setLoading(false);
     } else {
       setLoading(false);
@@ -54,8 +118,36 @@ export default function EditBillScreen() {
   }, [id, bills]);
 
   const expenseCategories = categories.filter((c) => c.type === "expense");
+  const invoiceAccount = bill?.invoice_account_id ? accounts.find((a) => a.id === bill.invoice_account_id) : null;
+  // Fatura sai da conta corrente ou do dinheiro, nunca de outro cartao
+  const payingAccounts = bill?.invoice_account_id ? accounts.filter((a) => a.type !== "credit_card") : accounts;
+
+  const getPaymentStatusColor = (status: BillPayment["status"]) =>
+    status === "paid" ? theme.success : status === "overdue" ? theme.danger : theme.warning;
   const quickDays = [5, 10, 15, 20, 25];
 
+  // Previa do proximo vencimento (o banco calcula o definitivo).
+  // Conta avulsa vence uma vez, na data informada
+  const isOneOff = bill?.is_recurring === false;
+  const isMonthly = frequency === "monthly";
+  const schedule: BillSchedule = isOneOff
+    ? { frequency: "monthly", due_day: null, first_due_date: parseDate(firstDueDate), installment_count: null }
+    : {
+        frequency,
+        due_day: dueDay ? parseInt(dueDay) : null,
+        first_due_date: isMonthly ? null : parseDate(firstDueDate),
+        installment_count: frequency === "installments" ? parseInt(installmentCount) || null : null,
+      };
+  const nextDueDate = getNextBillDueDate(schedule, getTodayKey().slice(0, 7));
+
+  // Novo boleto (ex: conta de luz do mes) atualiza o valor; em conta avulsa, o vencimento
+  const handlePaymentCode = (info: PaymentCodeInfo | null) => {
+    setPaymentCode(info?.code || null);
+    if (!info) return;
+    if (info.amount) setAmount(info.amount.toFixed(2).replace(".", ","));
+    if (isOneOff && info.dueDate) setFirstDueDate(new Date(`${info.dueDate}T00:00:00`).toLocaleDateString("pt-BR"));
+  };
+
   const handleSubmit = async () => {
     if (!name.trim()) {
       Alert.alert("Erro", "Digite um nome para a conta");
@@ -69,14 +161,37 @@ export default function EditBillScreen() {
       Alert.alert("Erro", "Conta nao encontrada");
       return;
     }
+    if (isOneOff && !schedule.first_due_date) {
+      Alert.alert("Erro", "Informe a data de vencimento");
+      return;
+    }
+    if (!isOneOff && !isMonthly && !schedule.first_due_date) {
+      Alert.alert("Erro", "Informe a data do primeiro vencimento");
+      return;
+    }
+    if (!isOneOff && frequency === "installments" && !(schedule.installment_count && schedule.installment_count >= 2 && schedule.installment_count <= 48)) {
+      Alert.alert("Erro", "Informe de 2 a 48 parcelas");
+      return;
+    }
+    if (split.type) {
+      const splitError = validateSplit(split.type, split.shares, parseFloat(amount.replace(",", ".")));
+      if (splitError) {
+        Alert.alert("Erro", splitError);
+        return;
+      }
+    }
 
     const billData: Partial<Bill> = {
       name: name.trim(),
       amount: parseFloat(amount.replace(",", ".")),
       category_id: selectedCategory?.id || null,
-      due_day: dueDay ? parseInt(dueDay) : null,
+      ...schedule,
       auto_debit: autoDebit,
       notes: notes.trim() || null,
+      split_type: split.type,
+      split_shares: split.type ? split.shares : null,
+      account_id: accountId,
+      payment_code: paymentCode,
     };
 
     const { error } = await updateBill(bill.id, billData);
@@ -84,9 +199,38 @@ export default function EditBillScreen() {
       Alert.alert("Erro", error);
       return;
     }
+
+    // Corrigir o valor pago tambem atualiza o lancamento vinculado
+    const newPaidAmount = parseFloat(paidAmount.replace(",", "."));
+    if (bill.current_month_status === "paid" && newPaidAmount > 0 && newPaidAmount !== Number(bill.current_month_paid_amount)) {
+      const { error: payError } = await markBillAsPaid(bill.id, newPaidAmount);
+      if (payError) {
+        Alert.alert("Erro", payError);
+        return;
+      }
+    }
     router.back();
   };
 
+  const handleUnmarkPaid = () => {
+    if (!bill) return;
+    Alert.alert(
+      "Desmarcar pagamento",
+      "A conta volta a ficar pendente e o lancamento deste mes sera removido.",
+      [
+        { text: "Cancelar", style: "cancel" },
+        {
+          text: "Desmarcar",
+          style: "destructive",
+          onPress: async () => {
+            const { error } = await unmarkBillAsPaid(bill.id);
+            if (error) Alert.alert("Erro", error);
+          },
+        },
+      ]
+    );
+  };
+
   if (loading) {
     return (
       <SafeAreaView style={[styles.loadingContainer, { backgroundColor: theme.background }]}>
@@ -118,8 +262,24 @@ export default function EditBillScreen() {
         </View>
 
         <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          {bill.invoice_account_id && (
+            <View style={[styles.invoiceBanner, { backgroundColor: theme.primaryLight }]}>
+              <Ionicons name="card-outline" size={20} color={theme.primary} />
+              <View style={styles.invoiceInfo}>
+                <Text style={[styles.invoiceText, { color: theme.primary }]}>
+                  Fatura gerada automaticamente pelo cartao. O valor acompanha as compras do ciclo e o pagamento nao gera uma nova despesa.
+                </Text>
+                {invoiceAccount && (
+                  <TouchableOpacity onPress={() => router.push(`/finance/card-statement?id=${invoiceAccount.id}`)}>
+                    <Text style={[styles.invoiceLink, { color: theme.primary }]}>Ver fatura</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          )}
+
           <Input label="Nome da conta" placeholder="Ex: Aluguel, Internet, Luz" value={name} onChangeText={setName} autoCapitalize="sentences" icon="receipt-outline" />
-          <Input label="Valor (R$)" placeholder="0,00" value={amount} onChangeText={setAmount} keyboardType="numeric" icon="cash-outline" />
+          <Input label={!isOneOff && frequency === "installments" ? "Valor da parcela (R$)" : "Valor (R$)"} placeholder="0,00" value={amount} onChangeText={setAmount} keyboardType="numeric" icon="cash-outline" />
 
           <View style={styles.section}>
             <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Categoria</Text>
@@ -133,17 +293,57 @@ export default function EditBillScreen() {
             </ScrollView>
           </View>
 
-          <View style={styles.section}>
-            <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Dia do vencimento</Text>
-            <View style={styles.daysRow}>
-              {quickDays.map((day) => (
-                <TouchableOpacity key={day} onPress={() => setDueDay(day.toString())} style={[styles.dayButton, { backgroundColor: theme.border }, dueDay === day.toString() && { backgroundColor: theme.primary }]}>
-                  <Text style={[styles.dayButtonText, { color: theme.gray[700] }, dueDay === day.toString() && styles.dayButtonTextSelected]}>{day}</Text>
-                </TouchableOpacity>
-              ))}
+          {!bill.invoice_account_id && (
+            <View style={styles.section}>
+              <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Boleto ou Pix</Text>
+              <PaymentCodeField value={paymentCode} onChange={handlePaymentCode} />
             </View>
-            <Input placeholder="Dia (1-31)" value={dueDay} onChangeText={setDueDay} keyboardType="numeric" icon="calendar-outline" />
-          </View>
+          )}
+
+          {!bill.invoice_account_id && !isOneOff && (
+            <View style={styles.section}>
+              <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Frequencia</Text>
+              <View style={styles.accountsRow}>
+                {frequencies.map((f) => (
+                  <TouchableOpacity key={f} onPress={() => setFrequency(f)} style={[styles.accountChip, { backgroundColor: theme.gray[200] }, frequency === f && { backgroundColor: theme.primary }]}>
+                    <Text style={[styles.frequencyText, { color: theme.gray[700] }, frequency === f && styles.accountChipTextSelected]}>{BILL_FREQUENCY_LABELS[f]}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+
+          {isOneOff ? (
+            <View style={styles.section}>
+              <Input label="Vencimento" placeholder="DD/MM/AAAA" value={firstDueDate} onChangeText={setFirstDueDate} icon="calendar-outline" />
+            </View>
+          ) : isMonthly ? (
+            <View style={styles.section}>
+              <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Dia do vencimento</Text>
+              <View style={styles.daysRow}>
+                {quickDays.map((day) => (
+                  <TouchableOpacity key={day} onPress={() => setDueDay(day.toString())} style={[styles.dayButton, { backgroundColor: theme.border }, dueDay === day.toString() && { backgroundColor: theme.primary }]}>
+                    <Text style={[styles.dayButtonText, { color: theme.gray[700] }, dueDay === day.toString() && styles.dayButtonTextSelected]}>{day}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Input placeholder="Dia (1-31)" value={dueDay} onChangeText={setDueDay} keyboardType="numeric" icon="calendar-outline" />
+            </View>
+          ) : (
+            <View style={styles.section}>
+              <Input label="Primeiro vencimento" placeholder="DD/MM/AAAA" value={firstDueDate} onChangeText={setFirstDueDate} icon="calendar-outline" />
+              {frequency === "installments" && (
+                <Input label="Numero de parcelas" placeholder="Ex: 10" value={installmentCount} onChangeText={setInstallmentCount} keyboardType="numeric" icon="layers-outline" />
+              )}
+              <Text style={[styles.sectionHint, { color: theme.textSecondary }]}>
+                {nextDueDate
+                  ? `Proximo vencimento em ${new Date(`${nextDueDate}T00:00:00`).toLocaleDateString("pt-BR")}`
+                  : frequency === "installments" && schedule.first_due_date && schedule.installment_count
+                    ? "Todas as parcelas ja venceram"
+                    : ""}
+              </Text>
+            </View>
+          )}
 
           <TouchableOpacity onPress={() => setAutoDebit(!autoDebit)} style={[styles.toggleRow, { backgroundColor: theme.surface, borderColor: theme.border }]}>
             <View style={styles.toggleLeft}>
@@ -158,8 +358,77 @@ export default function EditBillScreen() {
             </View>
           </TouchableOpacity>
 
+          {payingAccounts.length > 0 && (
+            <View style={styles.section}>
+              <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Pago com</Text>
+              <View style={styles.accountsRow}>
+                {payingAccounts.map((account) => {
+                  const isSelected = accountId === account.id;
+                  return (
+                    <TouchableOpacity
+                      key={account.id}
+                      onPress={() => setAccountId(isSelected ? null : account.id)}
+                      style={[styles.accountChip, { backgroundColor: theme.gray[200] }, isSelected && { backgroundColor: theme.primary }]}
+                    >
+                      <Ionicons name={ACCOUNT_TYPE_ICONS[account.type] as keyof typeof Ionicons.glyphMap} size={14} color={isSelected ? "#FFFFFF" : theme.gray[700]} />
+                      <Text style={[styles.accountChipText, { color: theme.gray[700] }, isSelected && styles.accountChipTextSelected]}>{account.name}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+
+          {members.length > 1 && !bill.invoice_account_id && (
+            <View style={styles.section}>
+              <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Dividir entre moradores</Text>
+              <Text style={[styles.sectionHint, { color: theme.textSecondary }]}>Aplicada a cada pagamento; quem marca como paga e quem pagou</Text>
+              <SplitEditor members={members} amount={parseFloat(amount.replace(",", ".")) || 0} value={split} onChange={setSplit} />
+            </View>
+          )}
+
           <Input label="Observacoes (opcional)" placeholder="Anotacoes sobre esta conta..." value={notes} onChangeText={setNotes} multiline numberOfLines={2} autoCapitalize="sentences" />
 
+          {bill.current_month_status === "paid" && (
+            <View style={styles.section}>
+              <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>
+                {(bill.frequency || "monthly") === "monthly" && !isOneOff ? "Pagamento deste mes" : "Pagamento do vencimento atual"}
+              </Text>
+              <Input label="Valor pago (R$)" placeholder="0,00" value={paidAmount} onChangeText={setPaidAmount} keyboardType="numeric" icon="checkmark-circle-outline" />
+              <Button onPress={handleUnmarkPaid} variant="outline" fullWidth>Desmarcar pagamento</Button>
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Historico de pagamentos</Text>
+            {payments.length === 0 ? (
+              <Text style={[styles.historyEmpty, { color: theme.textSecondary }]}>Nenhum mes registrado ainda</Text>
+            ) : (
+              <View style={[styles.historyList, { backgroundColor: theme.surface, borderColor: theme.border }]}>
+                {payments.map((payment, index) => (
+                  <View key={payment.id} style={[styles.historyItem, index < payments.length - 1 && { borderBottomWidth: 1, borderBottomColor: theme.border }]}>
+                    <View style={styles.historyInfo}>
+                      <Text style={[styles.historyPeriod, { color: theme.text }]}>{new Date(payment.period + "T00:00:00").toLocaleDateString("pt-BR", { month: "long", year: "numeric" })}</Text>
+                      <Text style={[styles.historyDetail, { color: theme.textSecondary }]}>
+                        {payment.status === "paid" && payment.paid_at
+                          ? `Pago em ${new Date(payment.paid_at).toLocaleDateString("pt-BR")}`
+                          : payment.due_date
+                            ? `Vence em ${new Date(payment.due_date + "T00:00:00").toLocaleDateString("pt-BR")}`
+                            : "Sem vencimento"}
+                      </Text>
+                    </View>
+                    <View style={styles.historyRight}>
+                      <Text style={[styles.historyAmount, { color: theme.text }]}>{formatCurrency(Number(payment.paid_amount ?? payment.amount))}</Text>
+                      <View style={[styles.statusBadge, { backgroundColor: getPaymentStatusColor(payment.status) + "20" }]}>
+                        <Text style={[styles.statusBadgeText, { color: getPaymentStatusColor(payment.status) }]}>{PAYMENT_STATUS_LABELS[payment.status]}</Text>
+                      </View>
+                    </View>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+
           <View style={styles.submitContainer}>
             <Button onPress={handleSubmit} loading={isLoading} disabled={!name.trim() || !amount.trim()} fullWidth size="lg">Salvar Alteracoes</Button>
           </View>
@@ -181,6 +450,7 @@ const styles = StyleSheet.create({
   scrollView: { flex: 1, paddingHorizontal: 16, paddingTop: 16 },
   section: { marginBottom: 16 },
   sectionLabel: { fontWeight: '500', marginBottom: 8 },
+  sectionHint: { fontSize: 13, marginTop: -4, marginBottom: 8 },
   horizontalScroll: { marginHorizontal: -16 },
   horizontalScrollContent: { paddingHorizontal: 16 },
   categoryButton: { marginRight: 8, paddingHorizontal: 16, paddingVertical: 12, borderRadius: 12, flexDirection: 'row', alignItems: 'center', borderWidth: 2 },
@@ -197,5 +467,24 @@ const styles = StyleSheet.create({
   toggle: { width: 48, height: 28, borderRadius: 14, padding: 4 },
   toggleThumb: { width: 20, height: 20, borderRadius: 10, backgroundColor: '#FFFFFF' },
   toggleThumbActive: { alignSelf: 'flex-end' },
+  invoiceBanner: { flexDirection: 'row', alignItems: 'flex-start', borderRadius: 12, padding: 12, marginBottom: 16 },
+  invoiceInfo: { flex: 1, marginLeft: 8 },
+  invoiceText: { fontSize: 13 },
+  invoiceLink: { fontSize: 13, fontWeight: '600', marginTop: 6 },
+  accountsRow: { flexDirection: 'row', flexWrap: 'wrap' },
+  accountChip: { marginRight: 8, marginBottom: 8, paddingHorizontal: 12, paddingVertical: 8, borderRadius: 8, flexDirection: 'row', alignItems: 'center' },
+  accountChipText: { marginLeft: 6, fontSize: 14 },
+  accountChipTextSelected: { color: '#FFFFFF', fontWeight: '500' },
+  frequencyText: { fontSize: 14 },
+  historyEmpty: { fontSize: 14 },
+  historyList: { borderRadius: 12, borderWidth: 1 },
+  historyItem: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', padding: 12 },
+  historyInfo: { flex: 1, marginRight: 12 },
+  historyPeriod: { fontWeight: '500', textTransform: 'capitalize' },
+  historyDetail: { fontSize: 13, marginTop: 2 },
+  historyRight: { alignItems: 'flex-end', gap: 4 },
+  historyAmount: { fontWeight: '600' },
+  statusBadge: { paddingHorizontal: 8, paddingVertical: 2, borderRadius: 8 },
+  statusBadgeText: { fontSize: 12, fontWeight: '500' },
   submitContainer: { marginTop: 16, marginBottom: 32 },
 });
@@ -14,14 +14,33 @@ import { useRouter, useLocalSearchParams } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { Button, Input } from "@/components/ui";
-import { useFinanceStore } from "@/stores/financeStore";
+import { SplitEditor } from "@/components/finances";
+import { useFinanceStore, type TransactionSplitInput } from "@/stores/financeStore";
+import { useAuthStore } from "@/stores/authStore";
+import { useHouseholdStore } from "@/stores/householdStore";
+import { validateSplit } from "@/lib/splits";
+import { getRulePatternFromDescription } from "@/lib/categoryRules";
+import { ACCOUNT_TYPE_ICONS } from "@/lib/accounts";
 import { useTheme } from "@/contexts/ThemeContext";
 import type { FinanceCategory, Transaction } from "@/types";
 
 export default function EditTransactionScreen() {
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id: string }>();
-  const { transactions, categories, fetchCategories, updateTransaction, isLoading } = useFinanceStore();
+  const {
+    transactions,
+    categories,
+    accounts,
+    fetchCategories,
+    fetchCategoryRules,
+    fetchAccounts,
+    updateTransaction,
+    deleteInstallmentGroup,
+    learnCategoryRule,
+    isLoading,
+  } = useFinanceStore();
+  const { household } = useAuthStore();
+  const { members, fetchMembers } = useHouseholdStore();
   const { theme } = useTheme();
 
   const [transaction, setTransaction] = useState<Transaction | null>(null);
@@ -31,12 +50,23 @@ export default function EditTransactionScreen() {
   const [selectedCategory, setSelectedCategory] = useState<FinanceCategory | null>(null);
   const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
   const [notes, setNotes] = useState("");
+  const [paidBy, setPaidBy] = useState<string | null>(null);
+  const [split, setSplit] = useState<TransactionSplitInput>({ type: null, shares: [] });
+  const [accountId, setAccountId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     fetchCategories();
   }, []);
 
+  useEffect(() => {
+    if (household?.id && members.length === 0) fetchMembers(household.id);
+    if (household?.id) {
+      fetchCategoryRules(household.id);
+      fetchAccounts(household.id);
+    }
+  }, [household?.id]);
+
   useEffect(() => {
     const found = transactions.find((t) => t.id === id);
     if (found) {
@@ -47,6 +77,15 @@ export default function EditTransactionScreen() {
       setSelectedCategory(found.category || null);
       setDate(found.date || new Date().toISOString().split("T")[0]);
       setNotes(found.notes || "");
+      setPaidBy(found.paid_by || found.created_by || null);
+      setAccountId(found.account_id || null);
+      setSplit({
+        type: found.split_type || null,
+        shares: (found.splits || []).map((s) => ({
+          user_id: s.user_id,
+          value: found.split_type === "amount" ? Number(s.amount) : s.value ?? null,
+        })),
+      });
       setLoading(false);
     } else {
       setLoading(false);
@@ -85,23 +124,80 @@ export default function EditTransactionScreen() {
       return;
     }
 
+    const parsedAmount = parseFloat(amount.replace(",", "."));
+    const isSplit = type === "expense" && !!split.type;
+    if (isSplit && split.type) {
+      const splitError = validateSplit(split.type, split.shares, parsedAmount);
+      if (splitError) {
+        Alert.alert("Erro", splitError);
+        return;
+      }
+    }
+
     const transactionData: Partial<Transaction> = {
       description: description.trim(),
-      amount: parseFloat(amount.replace(",", ".")),
+      amount: parsedAmount,
       type,
       category_id: selectedCategory?.id || null,
       date: parseDate(date),
       notes: notes.trim() || null,
+      paid_by: type === "expense" ? paidBy : null,
+      account_id: accountId,
     };
 
-    const { error } = await updateTransaction(transaction.id, transactionData);
+    // Desfaz a divisao que existia (ou que virou receita)
+    const splitInput = isSplit ? split : transaction.split_type ? { type: null, shares: [] } : undefined;
+    const { error } = await updateTransaction(transaction.id, transactionData, splitInput);
     if (error) {
       Alert.alert("Erro", error);
       return;
     }
+
+    // Trocou a categoria: oferece criar regra para os proximos lancamentos
+    if (selectedCategory && selectedCategory.id !== transaction.category_id) {
+      const learned = { ...transaction, description: description.trim(), type };
+      const pattern = getRulePatternFromDescription(learned.description);
+      Alert.alert(
+        "Criar regra?",
+        `Categorizar automaticamente lancamentos com "${pattern}" como ${selectedCategory.name}?`,
+        [
+          { text: "Agora nao", style: "cancel", onPress: () => router.back() },
+          {
+            text: "Criar regra",
+            onPress: async () => {
+              const { error: ruleError } = await learnCategoryRule(learned, selectedCategory.id);
+              if (ruleError) Alert.alert("Erro", ruleError);
+              router.back();
+            },
+          },
+        ]
+      );
+      return;
+    }
+
     router.back();
   };
 
+  const handleDeleteInstallments = () => {
+    if (!transaction?.installment_group) return;
+    Alert.alert(
+      "Excluir parcelas",
+      `Excluir as ${transaction.installment_count} parcelas desta compra, inclusive as ja lancadas?`,
+      [
+        { text: "Cancelar", style: "cancel" },
+        {
+          text: "Excluir",
+          style: "destructive",
+          onPress: async () => {
+            const { error } = await deleteInstallmentGroup(transaction.installment_group!);
+            if (error) { Alert.alert("Erro", error); return; }
+            router.back();
+          },
+        },
+      ]
+    );
+  };
+
   if (loading) {
     return (
       <SafeAreaView style={[styles.loadingContainer, { backgroundColor: theme.background }]}>
@@ -133,6 +229,15 @@ export default function EditTransactionScreen() {
         </View>
 
         <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          {transaction.installment_group && (
+            <View style={[styles.installmentBanner, { backgroundColor: theme.primaryLight }]}>
+              <Ionicons name="layers-outline" size={18} color={theme.primary} />
+              <Text style={[styles.installmentText, { color: theme.primary }]}>
+                Parcela {transaction.installment_number}/{transaction.installment_count}. Alteracoes valem so para esta parcela.
+              </Text>
+            </View>
+          )}
+
           <View style={[styles.typeToggle, { backgroundColor: theme.surfaceVariant }]}>
             <TouchableOpacity onPress={() => { setType("expense"); setSelectedCategory(null); }} style={[styles.typeButton, type === "expense" && [styles.typeButtonActive, { backgroundColor: theme.surface }]]}>
               <Ionicons name="arrow-down-circle" size={20} color={type === "expense" ? theme.danger : theme.gray[400]} />
@@ -180,12 +285,47 @@ export default function EditTransactionScreen() {
             <Input placeholder="AAAA-MM-DD" value={date} onChangeText={setDate} icon="calendar-outline" />
           </View>
 
+          {accounts.length > 0 && (
+            <View style={styles.section}>
+              <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>{type === "expense" ? "Pago com" : "Recebido em"}</Text>
+              <View style={styles.accountsRow}>
+                {accounts.map((account) => {
+                  const isSelected = accountId === account.id;
+                  return (
+                    <TouchableOpacity
+                      key={account.id}
+                      onPress={() => setAccountId(isSelected ? null : account.id)}
+                      style={[styles.accountChip, { backgroundColor: theme.gray[200] }, isSelected && { backgroundColor: theme.primary }]}
+                    >
+                      <Ionicons name={ACCOUNT_TYPE_ICONS[account.type] as keyof typeof Ionicons.glyphMap} size={14} color={isSelected ? "#FFFFFF" : theme.gray[700]} />
+                      <Text style={[styles.accountChipText, { color: theme.gray[700] }, isSelected && styles.accountChipTextSelected]}>{account.name}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+
+          {type === "expense" && members.length > 1 && (
+            <View style={styles.section}>
+              <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Dividir despesa</Text>
+              <SplitEditor members={members} amount={parseFloat(amount.replace(",", ".")) || 0} value={split} onChange={setSplit} paidBy={paidBy} onPaidByChange={setPaidBy} />
+            </View>
+          )}
+
           <Input label="Observacoes (opcional)" placeholder="Detalhes adicionais..." value={notes} onChangeText={setNotes} multiline numberOfLines={2} autoCapitalize="sentences" />
 
           <View style={styles.submitContainer}>
             <Button onPress={handleSubmit} loading={isLoading} disabled={!description.trim() || !amount.trim()} fullWidth size="lg" variant={type === "income" ? "primary" : "danger"}>
               Salvar Alteracoes
             </Button>
+            {transaction.installment_group && (
+              <View style={styles.secondaryAction}>
+                <Button onPress={handleDeleteInstallments} variant="outline" fullWidth>
+                  Excluir todas as parcelas
+                </Button>
+              </View>
+            )}
           </View>
         </ScrollView>
       </KeyboardAvoidingView>
@@ -221,5 +361,12 @@ const styles = StyleSheet.create({
   quickDateButton: { marginRight: 8, paddingHorizontal: 16, paddingVertical: 8, borderRadius: 8 },
   quickDateText: {},
   quickDateTextSelected: { color: '#FFFFFF', fontWeight: '500' },
+  accountsRow: { flexDirection: 'row', flexWrap: 'wrap' },
+  accountChip: { marginRight: 8, marginBottom: 8, paddingHorizontal: 12, paddingVertical: 8, borderRadius: 8, flexDirection: 'row', alignItems: 'center' },
+  accountChipText: { marginLeft: 6, fontSize: 14 },
+  accountChipTextSelected: { color: '#FFFFFF', fontWeight: '500' },
+  installmentBanner: { flexDirection: 'row', alignItems: 'center', borderRadius: 12, padding: 12, marginBottom: 16 },
+  installmentText: { flex: 1, marginLeft: 8, fontSize: 13 },
   submitContainer: { marginTop: 16, marginBottom: 32 },
+  secondaryAction: { marginTop: 12 },
 });
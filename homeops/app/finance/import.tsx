@@ -0,0 +1,385 @@
+import { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  StyleSheet,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { Button, Input } from "@/components/ui";
+import { useFinanceStore, getTransactionsBetween, formatCurrency } from "@/stores/financeStore";
+import { useAuthStore } from "@/stores/authStore";
+import { useTheme } from "@/contexts/ThemeContext";
+import {
+  detectStatementFormat,
+  guessCsvMapping,
+  getCsvColumns,
+  parseCsv,
+  parseOfx,
+  findDuplicateRows,
+  type CsvMapping,
+  type CsvDelimiter,
+  type CsvDateFormat,
+  type CsvDecimal,
+  type ImportedRow,
+  type StatementFormat,
+} from "@/lib/statementImport";
+import { findMatchingRule } from "@/lib/categoryRules";
+
+const delimiters: { value: CsvDelimiter; label: string }[] = [
+  { value: ";", label: "Ponto e virgula" },
+  { value: ",", label: "Virgula" },
+  { value: "\t", label: "Tab" },
+];
+
+const dateFormats: CsvDateFormat[] = ["DD/MM/YYYY", "YYYY-MM-DD"];
+
+const decimals: { value: CsvDecimal; label: string }[] = [
+  { value: ",", label: "1.234,56" },
+  { value: ".", label: "1,234.56" },
+];
+
+export default function ImportStatementScreen() {
+  const router = useRouter();
+  const { user, household } = useAuthStore();
+  const { categoryRules, fetchCategoryRules, importTransactions, isLoading } = useFinanceStore();
+  const { theme } = useTheme();
+
+  const [text, setText] = useState("");
+  const [format, setFormat] = useState<StatementFormat | null>(null);
+  const [mapping, setMapping] = useState<CsvMapping | null>(null);
+  const [rows, setRows] = useState<ImportedRow[]>([]);
+  const [skipped, setSkipped] = useState(0);
+  const [duplicates, setDuplicates] = useState<Set<number>>(new Set());
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [checking, setChecking] = useState(false);
+
+  // So para a previa: quem categoriza de verdade e o banco ao inserir
+  useEffect(() => {
+    if (household?.id) fetchCategoryRules(household.id);
+  }, [household?.id]);
+
+  // Le o extrato e marca o que ja foi lancado (desmarcado por padrao)
+  const analyze = async (detected: StatementFormat, csvMapping: CsvMapping | null) => {
+    if (!household?.id) { Alert.alert("Erro", "Household nao encontrado"); return; }
+
+    const result = detected === "ofx" || !csvMapping ? parseOfx(text) : parseCsv(text, csvMapping);
+    setRows(result.rows);
+    setSkipped(result.skipped);
+
+    if (result.rows.length === 0) {
+      setDuplicates(new Set());
+      setSelected(new Set());
+      return;
+    }
+
+    const dates = result.rows.map((r) => r.date).sort();
+    setChecking(true);
+    const { transactions, error } = await getTransactionsBetween(household.id, dates[0], dates[dates.length - 1]);
+    setChecking(false);
+    if (error) Alert.alert("Erro", `Nao foi possivel verificar duplicados: ${error}`);
+
+    const found = findDuplicateRows(result.rows, transactions);
+    setDuplicates(found);
+    setSelected(new Set(result.rows.map((_, index) => index).filter((index) => !found.has(index))));
+  };
+
+  const handleAnalyze = () => {
+    if (!text.trim()) { Alert.alert("Erro", "Cole o conteudo do extrato"); return; }
+    const detected = detectStatementFormat(text);
+    const csvMapping = detected === "csv" ? guessCsvMapping(text) : null;
+    setFormat(detected);
+    setMapping(csvMapping);
+    analyze(detected, csvMapping);
+  };
+
+  const updateMapping = (updates: Partial<CsvMapping>) => {
+    if (!mapping) return;
+    const next = { ...mapping, ...updates };
+    setMapping(next);
+    analyze("csv", next);
+  };
+
+  const toggleRow = (index: number) => {
+    const next = new Set(selected);
+    if (next.has(index)) next.delete(index);
+    else next.add(index);
+    setSelected(next);
+  };
+
+  const handleReset = () => {
+    setFormat(null);
+    setMapping(null);
+    setRows([]);
+    setSelected(new Set());
+    setDuplicates(new Set());
+  };
+
+  const handleImport = async () => {
+    if (!household?.id) { Alert.alert("Erro", "Household nao encontrado"); return; }
+
+    const accepted = rows
+      .filter((_, index) => selected.has(index))
+      .map((row) => ({
+        description: row.description,
+        amount: row.amount,
+        type: row.type,
+        date: row.date,
+        created_by: user?.id,
+      }));
+
+    const { error, count } = await importTransactions(household.id, accepted);
+    if (error) { Alert.alert("Erro", error); return; }
+
+    Alert.alert("Extrato importado", `${count} lancamento${count === 1 ? "" : "s"} importado${count === 1 ? "" : "s"}.`, [
+      { text: "OK", onPress: () => router.back() },
+    ]);
+  };
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[styles.chip, { backgroundColor: theme.gray[200] }, isSelected && { backgroundColor: theme.primary }]}
+    >
+      <Text style={[styles.chipText, { color: theme.gray[700] }, isSelected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderToggle = (label: string, sublabel: string, value: boolean, onPress: () => void) => (
+    <TouchableOpacity onPress={onPress} style={[styles.toggleRow, { backgroundColor: theme.surface, borderColor: theme.border }]}>
+      <View style={styles.toggleTextContainer}>
+        <Text style={[styles.toggleLabel, { color: theme.gray[700] }, value && { color: theme.primary }]}>{label}</Text>
+        <Text style={[styles.toggleSublabel, { color: theme.textSecondary }]}>{sublabel}</Text>
+      </View>
+      <View style={[styles.toggle, { backgroundColor: theme.gray[300] }, value && { backgroundColor: theme.primary }]}>
+        <View style={[styles.toggleThumb, value && styles.toggleThumbActive]} />
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderMapping = () => {
+    if (!mapping) return null;
+    const columns = getCsvColumns(text, mapping);
+
+    const renderColumnPicker = (label: string, field: "dateColumn" | "descriptionColumn" | "amountColumn") => (
+      <>
+        <Text style={[styles.label, { color: theme.textSecondary }]}>{label}</Text>
+        <View style={styles.chipsRow}>
+          {columns.map((column, index) =>
+            renderChip(`${field}-${index}`, column || `Coluna ${index + 1}`, mapping[field] === index, () =>
+              updateMapping({ [field]: index })
+            )
+          )}
+        </View>
+      </>
+    );
+
+    return (
+      <View style={[styles.mappingCard, { backgroundColor: theme.surface, borderColor: theme.border }]}>
+        <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Colunas do CSV</Text>
+
+        <Text style={[styles.label, { color: theme.textSecondary }]}>Separador</Text>
+        <View style={styles.chipsRow}>
+          {delimiters.map((d) => renderChip(d.label, d.label, mapping.delimiter === d.value, () => updateMapping({ delimiter: d.value })))}
+        </View>
+
+        {renderColumnPicker("Data", "dateColumn")}
+        {renderColumnPicker("Descricao", "descriptionColumn")}
+        {renderColumnPicker("Valor", "amountColumn")}
+
+        <Text style={[styles.label, { color: theme.textSecondary }]}>Formato da data</Text>
+        <View style={styles.chipsRow}>
+          {dateFormats.map((f) => renderChip(f, f, mapping.dateFormat === f, () => updateMapping({ dateFormat: f })))}
+        </View>
+
+        <Text style={[styles.label, { color: theme.textSecondary }]}>Formato do valor</Text>
+        <View style={styles.chipsRow}>
+          {decimals.map((d) => renderChip(d.label, d.label, mapping.decimal === d.value, () => updateMapping({ decimal: d.value })))}
+        </View>
+
+        {renderToggle("Primeira linha e cabecalho", "Ignora a linha com os nomes das colunas", mapping.hasHeader, () =>
+          updateMapping({ hasHeader: !mapping.hasHeader })
+        )}
+        {renderToggle("Inverter sinal", "Para faturas de cartao, onde gastos vem positivos", mapping.invertSign, () =>
+          updateMapping({ invertSign: !mapping.invertSign })
+        )}
+      </View>
+    );
+  };
+
+  const selectedRows = rows.filter((_, index) => selected.has(index));
+  const selectedTotal = selectedRows.reduce((sum, r) => sum + (r.type === "expense" ? -r.amount : r.amount), 0);
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={["top"]}>
+      <KeyboardAvoidingView behavior={Platform.OS === "ios" ? "padding" : "height"} style={styles.flex}>
+        <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color={theme.gray[700]} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>Importar extrato</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          {!format ? (
+            <>
+              <Text style={[styles.description, { color: theme.textSecondary }]}>
+                Exporte o extrato do seu banco em CSV ou OFX, abra o arquivo e cole o conteudo abaixo.
+              </Text>
+              <Input
+                label="Conteudo do extrato"
+                placeholder={"Data;Descricao;Valor\n05/10/2026;Mercado;-123,45"}
+                value={text}
+                onChangeText={setText}
+                autoCapitalize="none"
+                multiline
+                numberOfLines={10}
+              />
+              <Button onPress={handleAnalyze} disabled={!text.trim()} fullWidth>Analisar</Button>
+            </>
+          ) : (
+            <>
+              <View style={styles.formatRow}>
+                <Text style={[styles.formatText, { color: theme.textSecondary }]}>
+                  Formato: <Text style={{ color: theme.text, fontWeight: "600" }}>{format.toUpperCase()}</Text>
+                </Text>
+                <TouchableOpacity onPress={handleReset}>
+                  <Text style={[styles.link, { color: theme.primary }]}>Trocar extrato</Text>
+                </TouchableOpacity>
+              </View>
+
+              {renderMapping()}
+
+              <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>
+                Previa ({rows.length} lancamento{rows.length === 1 ? "" : "s"})
+              </Text>
+              {skipped > 0 && (
+                <Text style={[styles.hint, { color: theme.textSecondary }]}>
+                  {skipped} linha{skipped === 1 ? "" : "s"} sem data ou valor ignorada{skipped === 1 ? "" : "s"}.
+                </Text>
+              )}
+              {duplicates.size > 0 && (
+                <Text style={[styles.hint, { color: theme.warning }]}>
+                  {duplicates.size} lancamento{duplicates.size === 1 ? " parece ja ter" : "s parecem ja ter"} sido registrado{duplicates.size === 1 ? "" : "s"} e {duplicates.size === 1 ? "ficou desmarcado" : "ficaram desmarcados"}.
+                </Text>
+              )}
+              {checking && (
+                <Text style={[styles.hint, { color: theme.textSecondary }]}>Verificando duplicados...</Text>
+              )}
+
+              {rows.length === 0 ? (
+                <View style={[styles.emptyState, { backgroundColor: theme.surface, borderColor: theme.border }]}>
+                  <Ionicons name="alert-circle-outline" size={32} color={theme.textMuted} />
+                  <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+                    Nenhum lancamento encontrado. Confira as colunas acima.
+                  </Text>
+                </View>
+              ) : (
+                rows.map((row, index) => {
+                  const isSelected = selected.has(index);
+                  const isDuplicate = duplicates.has(index);
+                  const category = findMatchingRule(categoryRules, row)?.category;
+                  return (
+                    <TouchableOpacity
+                      key={`${index}-${row.date}-${row.amount}`}
+                      onPress={() => toggleRow(index)}
+                      style={[styles.row, { backgroundColor: theme.surface, borderColor: isSelected ? theme.primary : theme.border }]}
+                    >
+                      <Ionicons
+                        name={isSelected ? "checkbox" : "square-outline"}
+                        size={22}
+                        color={isSelected ? theme.primary : theme.gray[400]}
+                      />
+                      <View style={styles.rowInfo}>
+                        <Text style={[styles.rowDescription, { color: isSelected ? theme.text : theme.textMuted }]} numberOfLines={1}>
+                          {row.description}
+                        </Text>
+                        <View style={styles.rowMeta}>
+                          <Text style={[styles.rowDate, { color: theme.textSecondary }]}>
+                            {new Date(row.date + "T00:00:00").toLocaleDateString("pt-BR")}
+                          </Text>
+                          {category && (
+                            <Text style={[styles.rowDate, { color: theme.textSecondary }]}> - {category.name}</Text>
+                          )}
+                          {isDuplicate && (
+                            <View style={[styles.badge, { backgroundColor: theme.warningLight }]}>
+                              <Text style={[styles.badgeText, { color: theme.warning }]}>Duplicado</Text>
+                            </View>
+                          )}
+                        </View>
+                      </View>
+                      <Text style={[styles.rowAmount, { color: row.type === "expense" ? theme.danger : theme.success }]}>
+                        {row.type === "expense" ? "-" : "+"}{formatCurrency(row.amount)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })
+              )}
+
+              {selectedRows.length > 0 && (
+                <Text style={[styles.totalText, { color: theme.textSecondary }]}>
+                  Saldo dos selecionados: {formatCurrency(selectedTotal)}
+                </Text>
+              )}
+
+              <Button onPress={handleImport} loading={isLoading} disabled={selectedRows.length === 0 || checking} fullWidth>
+                {`Importar ${selectedRows.length} lancamento${selectedRows.length === 1 ? "" : "s"}`}
+              </Button>
+            </>
+          )}
+
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  flex: { flex: 1 },
+  header: { paddingHorizontal: 20, paddingVertical: 16, borderBottomWidth: 1, flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+  closeButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center', marginLeft: -8 },
+  headerTitle: { fontSize: 18, fontWeight: '600' },
+  headerSpacer: { width: 40 },
+  scrollView: { flex: 1, paddingHorizontal: 16, paddingTop: 16 },
+  description: { fontSize: 14, marginBottom: 16 },
+  sectionLabel: { fontWeight: '500', marginBottom: 8 },
+  label: { fontSize: 13, marginBottom: 8 },
+  hint: { fontSize: 13, marginBottom: 8 },
+  link: { fontWeight: '500' },
+  formatRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 16 },
+  formatText: { fontSize: 14 },
+  mappingCard: { borderRadius: 16, borderWidth: 1, padding: 16, marginBottom: 24 },
+  chipsRow: { flexDirection: 'row', flexWrap: 'wrap', marginBottom: 8 },
+  chip: { marginRight: 8, marginBottom: 8, paddingHorizontal: 12, paddingVertical: 8, borderRadius: 8 },
+  chipText: { fontSize: 14 },
+  chipTextSelected: { color: '#FFFFFF', fontWeight: '500' },
+  toggleRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', padding: 12, borderRadius: 12, borderWidth: 1, marginTop: 8 },
+  toggleTextContainer: { flex: 1, marginRight: 12 },
+  toggleLabel: { fontWeight: '500' },
+  toggleSublabel: { fontSize: 13 },
+  toggle: { width: 48, height: 28, borderRadius: 14, padding: 4 },
+  toggleThumb: { width: 20, height: 20, borderRadius: 10, backgroundColor: '#FFFFFF' },
+  toggleThumbActive: { alignSelf: 'flex-end' },
+  emptyState: { alignItems: 'center', padding: 24, borderRadius: 12, borderWidth: 1, marginBottom: 16 },
+  emptyText: { marginTop: 8, textAlign: 'center' },
+  row: { flexDirection: 'row', alignItems: 'center', padding: 12, borderRadius: 12, borderWidth: 1, marginBottom: 8 },
+  rowInfo: { flex: 1, marginHorizontal: 12 },
+  rowDescription: { fontWeight: '500' },
+  rowMeta: { flexDirection: 'row', alignItems: 'center', marginTop: 2 },
+  rowDate: { fontSize: 12 },
+  badge: { paddingHorizontal: 6, paddingVertical: 2, borderRadius: 6, marginLeft: 8 },
+  badgeText: { fontSize: 11, fontWeight: '600' },
+  rowAmount: { fontWeight: '600' },
+  totalText: { fontSize: 13, textAlign: 'right', marginVertical: 12 },
+  bottomSpacer: { height: 32 },
+});
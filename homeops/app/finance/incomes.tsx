@@ -0,0 +1,246 @@
+import { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  StyleSheet,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { Button, Input } from "@/components/ui";
+import { useFinanceStore, formatCurrency } from "@/stores/financeStore";
+import { useAuthStore } from "@/stores/authStore";
+import { useTheme } from "@/contexts/ThemeContext";
+import { ACCOUNT_TYPE_ICONS } from "@/lib/accounts";
+import type { RecurringIncome } from "@/types";
+
+export default function IncomesScreen() {
+  const router = useRouter();
+  const { user, household } = useAuthStore();
+  const {
+    accounts,
+    recurringIncomes,
+    fetchAccounts,
+    fetchRecurringIncomes,
+    saveRecurringIncome,
+    deleteRecurringIncome,
+    isLoading,
+  } = useFinanceStore();
+  const { theme } = useTheme();
+
+  const [editing, setEditing] = useState<RecurringIncome | "new" | null>(null);
+  const [name, setName] = useState("");
+  const [amount, setAmount] = useState("");
+  const [day, setDay] = useState("");
+  const [accountId, setAccountId] = useState<string | null>(null);
+  const [isActive, setIsActive] = useState(true);
+
+  useEffect(() => {
+    if (household?.id) {
+      fetchAccounts(household.id);
+      fetchRecurringIncomes(household.id);
+    }
+  }, [household?.id]);
+
+  // Receita cai em conta corrente ou dinheiro, nunca no cartao
+  const receivingAccounts = accounts.filter((a) => a.type !== "credit_card");
+
+  const openEditor = (income: RecurringIncome | null) => {
+    setEditing(income || "new");
+    setName(income?.name || "");
+    setAmount(income ? String(income.amount).replace(".", ",") : "");
+    setDay(income ? String(income.day_of_month) : "");
+    setAccountId(income?.account_id || null);
+    setIsActive(income?.is_active ?? true);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) { Alert.alert("Erro", "Digite o nome da receita"); return; }
+    if (!household?.id) { Alert.alert("Erro", "Household nao encontrado"); return; }
+
+    const value = parseFloat(amount.replace(",", "."));
+    if (!value || value <= 0) { Alert.alert("Erro", "Digite um valor valido"); return; }
+    const dayOfMonth = parseInt(day, 10);
+    if (!(dayOfMonth >= 1 && dayOfMonth <= 31)) { Alert.alert("Erro", "Informe o dia do recebimento (1 a 31)"); return; }
+
+    const { error } = await saveRecurringIncome({
+      ...(editing && editing !== "new" ? { id: editing.id } : { created_by: user?.id }),
+      household_id: household.id,
+      name: name.trim(),
+      amount: value,
+      day_of_month: dayOfMonth,
+      account_id: accountId,
+      is_active: isActive,
+    });
+    if (error) { Alert.alert("Erro", error); return; }
+    setEditing(null);
+  };
+
+  const handleRemove = () => {
+    if (!editing || editing === "new") return;
+    Alert.alert("Remover receita", `Remover ${editing.name} da previsao? Os lancamentos ja feitos continuam.`, [
+      { text: "Cancelar", style: "cancel" },
+      {
+        text: "Remover",
+        style: "destructive",
+        onPress: async () => {
+          const { error } = await deleteRecurringIncome(editing.id);
+          if (error) { Alert.alert("Erro", error); return; }
+          setEditing(null);
+        },
+      },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={["top"]}>
+      <KeyboardAvoidingView behavior={Platform.OS === "ios" ? "padding" : "height"} style={styles.flex}>
+        <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color={theme.gray[700]} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>Receitas fixas</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          <Text style={[styles.description, { color: theme.textSecondary }]}>
+            Salario e outras entradas de todo mes entram na previsao de caixa. Ao receber, registre o lancamento normalmente.
+          </Text>
+
+          {editing ? (
+            <View style={[styles.editor, { backgroundColor: theme.surface, borderColor: theme.primary }]}>
+              <Text style={[styles.editorTitle, { color: theme.text }]}>{editing === "new" ? "Nova receita" : "Editar receita"}</Text>
+
+              <Input label="Nome" placeholder="Ex: Salario" value={name} onChangeText={setName} autoCapitalize="sentences" />
+              <View style={styles.daysRow}>
+                <View style={styles.dayField}>
+                  <Input label="Valor (R$)" placeholder="0,00" value={amount} onChangeText={setAmount} keyboardType="numeric" icon="cash-outline" />
+                </View>
+                <View style={styles.dayField}>
+                  <Input label="Dia do recebimento" placeholder="5" value={day} onChangeText={setDay} keyboardType="numeric" />
+                </View>
+              </View>
+
+              {receivingAccounts.length > 0 && (
+                <>
+                  <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Recebido em</Text>
+                  <View style={styles.chipsRow}>
+                    {receivingAccounts.map((account) => {
+                      const isSelected = accountId === account.id;
+                      return (
+                        <TouchableOpacity
+                          key={account.id}
+                          onPress={() => setAccountId(isSelected ? null : account.id)}
+                          style={[styles.chip, { backgroundColor: theme.gray[200] }, isSelected && { backgroundColor: theme.primary }]}
+                        >
+                          <Ionicons name={ACCOUNT_TYPE_ICONS[account.type] as keyof typeof Ionicons.glyphMap} size={14} color={isSelected ? "#FFFFFF" : theme.gray[700]} />
+                          <Text style={[styles.chipText, { color: theme.gray[700] }, isSelected && styles.chipTextSelected]}>{account.name}</Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </>
+              )}
+
+              <TouchableOpacity onPress={() => setIsActive(!isActive)} style={styles.activeRow}>
+                <Ionicons name={isActive ? "checkbox" : "square-outline"} size={22} color={isActive ? theme.primary : theme.gray[400]} />
+                <Text style={[styles.activeText, { color: theme.gray[700] }]}>Incluir na previsao</Text>
+              </TouchableOpacity>
+
+              <View style={styles.editorActions}>
+                <View style={styles.editorAction}>
+                  {editing === "new" ? (
+                    <Button onPress={() => setEditing(null)} variant="outline" fullWidth>Cancelar</Button>
+                  ) : (
+                    <Button onPress={handleRemove} variant="outline" fullWidth>Remover</Button>
+                  )}
+                </View>
+                <View style={styles.editorAction}>
+                  <Button onPress={handleSave} loading={isLoading} disabled={!name.trim()} fullWidth>Salvar</Button>
+                </View>
+              </View>
+            </View>
+          ) : (
+            <View style={styles.newButton}>
+              <Button onPress={() => openEditor(null)} fullWidth>Nova receita</Button>
+            </View>
+          )}
+
+          <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Receitas da casa</Text>
+          {recurringIncomes.length === 0 ? (
+            <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+              Nenhuma receita fixa cadastrada. Sem elas a previsao mostra apenas as contas a pagar.
+            </Text>
+          ) : (
+            recurringIncomes.map((income) => {
+              const isSelected = editing !== "new" && editing?.id === income.id;
+              const account = accounts.find((a) => a.id === income.account_id);
+              return (
+                <TouchableOpacity
+                  key={income.id}
+                  onPress={() => openEditor(income)}
+                  style={[styles.incomeRow, { backgroundColor: theme.surface, borderColor: isSelected ? theme.primary : theme.border }, !income.is_active && styles.incomeRowInactive]}
+                >
+                  <View style={[styles.incomeIcon, { backgroundColor: theme.success + "20" }]}>
+                    <Ionicons name="trending-up" size={20} color={theme.success} />
+                  </View>
+                  <View style={styles.incomeInfo}>
+                    <Text style={[styles.incomeName, { color: theme.text }]}>{income.name}</Text>
+                    <Text style={[styles.incomeDetails, { color: theme.textSecondary }]}>
+                      Todo dia {income.day_of_month}
+                      {account ? ` - ${account.name}` : ""}
+                      {income.is_active ? "" : " - fora da previsao"}
+                    </Text>
+                  </View>
+                  <Text style={[styles.incomeAmount, { color: theme.success }]}>{formatCurrency(Number(income.amount))}</Text>
+                </TouchableOpacity>
+              );
+            })
+          )}
+
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  flex: { flex: 1 },
+  header: { paddingHorizontal: 20, paddingVertical: 16, borderBottomWidth: 1, flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+  closeButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center', marginLeft: -8 },
+  headerTitle: { fontSize: 18, fontWeight: '600' },
+  headerSpacer: { width: 40 },
+  scrollView: { flex: 1, paddingHorizontal: 16, paddingTop: 16 },
+  description: { fontSize: 14, marginBottom: 16 },
+  sectionLabel: { fontWeight: '500', marginBottom: 8 },
+  editor: { borderRadius: 16, borderWidth: 2, padding: 16, marginBottom: 24 },
+  editorTitle: { fontSize: 16, fontWeight: '600', marginBottom: 12 },
+  editorActions: { flexDirection: 'row', gap: 12, marginTop: 8 },
+  editorAction: { flex: 1 },
+  newButton: { marginBottom: 24 },
+  daysRow: { flexDirection: 'row', gap: 12 },
+  dayField: { flex: 1 },
+  chipsRow: { flexDirection: 'row', flexWrap: 'wrap', marginBottom: 8 },
+  chip: { marginRight: 8, marginBottom: 8, paddingHorizontal: 12, paddingVertical: 8, borderRadius: 8, flexDirection: 'row', alignItems: 'center' },
+  chipText: { marginLeft: 6, fontSize: 14 },
+  chipTextSelected: { color: '#FFFFFF', fontWeight: '500' },
+  activeRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: 8 },
+  activeText: { marginLeft: 8, fontSize: 14 },
+  emptyText: { fontSize: 14 },
+  incomeRow: { flexDirection: 'row', alignItems: 'center', padding: 12, borderRadius: 12, borderWidth: 1, marginBottom: 8 },
+  incomeRowInactive: { opacity: 0.6 },
+  incomeIcon: { width: 40, height: 40, borderRadius: 10, alignItems: 'center', justifyContent: 'center', marginRight: 12 },
+  incomeInfo: { flex: 1 },
+  incomeName: { fontWeight: '500' },
+  incomeDetails: { fontSize: 13, marginTop: 2 },
+  incomeAmount: { fontWeight: '600' },
+  bottomSpacer: { height: 32 },
+});
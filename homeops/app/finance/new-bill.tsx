@@ -13,15 +13,34 @@ import { useRouter } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { Button, Input } from "@/components/ui";
-import { useFinanceStore } from "@/stores/financeStore";
+import { SplitEditor, PaymentCodeField } from "@/components/finances";
+import { useFinanceStore, type TransactionSplitInput } from "@/stores/financeStore";
 import { useAuthStore } from "@/stores/authStore";
+import { useHouseholdStore } from "@/stores/householdStore";
+import { validateSplit } from "@/lib/splits";
+import { ACCOUNT_TYPE_ICONS } from "@/lib/accounts";
+import { BILL_FREQUENCY_LABELS, getNextBillDueDate, type BillSchedule } from "@/lib/bills";
+import { getTodayKey } from "@/lib/recurrence";
+import type { PaymentCodeInfo } from "@/lib/paymentCodes";
 import { useTheme } from "@/contexts/ThemeContext";
-import type { FinanceCategory } from "@/types";
+import type { BillFrequency, FinanceCategory } from "@/types";
+
+const frequencies: BillFrequency[] = ["monthly", "bimonthly", "quarterly", "yearly", "installments"];
+
+// Aceita AAAA-MM-DD ou DD/MM/AAAA
+const parseDate = (dateStr: string): string | null => {
+  const text = dateStr.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  const parts = text.split(/[\/\-\.]/);
+  if (parts.length === 3 && parts[2].length === 4) return `${parts[2]}-${parts[1].padStart(2, "0")}-${parts[0].padStart(2, "0")}`;
+  return null;
+};
 
 export default function NewBillScreen() {
   const router = useRouter();
   const { user, household } = useAuthStore();
-  const { categories, fetchCategories, createBill, isLoading } = useFinanceStore();
+  const { categories, accounts, fetchCategories, fetchAccounts, createBill, isLoading } = useFinanceStore();
+  const { members, fetchMembers } = useHouseholdStore();
   const { theme } = useTheme();
 
   const [name, setName] = useState("");
@@ -30,28 +49,80 @@ export default function NewBillScreen() {
   const [dueDay, setDueDay] = useState("");
   const [autoDebit, setAutoDebit] = useState(false);
   const [notes, setNotes] = useState("");
+  const [split, setSplit] = useState<TransactionSplitInput>({ type: null, shares: [] });
+  const [accountId, setAccountId] = useState<string | null>(null);
+  const [frequency, setFrequency] = useState<BillFrequency>("monthly");
+  const [firstDueDate, setFirstDueDate] = useState("");
+  const [installmentCount, setInstallmentCount] = useState("");
+  const [isRecurring, setIsRecurring] = useState(true);
+  const [paymentCode, setPaymentCode] = useState<string | null>(null);
 
   useEffect(() => { fetchCategories(); }, []);
 
+  useEffect(() => {
+    if (household?.id && members.length === 0) fetchMembers(household.id);
+    if (household?.id) fetchAccounts(household.id);
+  }, [household?.id]);
+
   const expenseCategories = categories.filter((c) => c.type === "expense");
   const quickDays = [5, 10, 15, 20, 25];
 
+  // Previa do proximo vencimento (o banco calcula o definitivo).
+  // Conta avulsa vence uma vez, na data informada
+  const isMonthly = frequency === "monthly";
+  const schedule: BillSchedule = isRecurring
+    ? {
+        frequency,
+        due_day: dueDay ? parseInt(dueDay) : null,
+        first_due_date: isMonthly ? null : parseDate(firstDueDate),
+        installment_count: frequency === "installments" ? parseInt(installmentCount) || null : null,
+      }
+    : { frequency: "monthly", due_day: null, first_due_date: parseDate(firstDueDate), installment_count: null };
+  const nextDueDate = getNextBillDueDate(schedule, getTodayKey().slice(0, 7));
+
+  // Boleto com vencimento vira conta avulsa; o usuario pode voltar a repetir
+  const handlePaymentCode = (info: PaymentCodeInfo | null) => {
+    setPaymentCode(info?.code || null);
+    if (!info) return;
+    if (info.amount) setAmount(info.amount.toFixed(2).replace(".", ","));
+    if (!name.trim() && info.beneficiary) setName(info.beneficiary);
+    if (!notes.trim() && info.description) setNotes(info.description);
+    if (info.dueDate) {
+      setIsRecurring(false);
+      setFirstDueDate(new Date(`${info.dueDate}T00:00:00`).toLocaleDateString("pt-BR"));
+    }
+  };
+
   const handleSubmit = async () => {
     if (!name.trim()) { Alert.alert("Erro", "Digite um nome para a conta"); return; }
     if (!amount.trim()) { Alert.alert("Erro", "Digite o valor da conta"); return; }
     if (!household?.id) { Alert.alert("Erro", "Household nao encontrado"); return; }
+    if (!isRecurring && !schedule.first_due_date) { Alert.alert("Erro", "Informe a data de vencimento"); return; }
+    if (isRecurring && !isMonthly && !schedule.first_due_date) { Alert.alert("Erro", "Informe a data do primeiro vencimento"); return; }
+    if (isRecurring && frequency === "installments" && !(schedule.installment_count && schedule.installment_count >= 2 && schedule.installment_count <= 48)) {
+      Alert.alert("Erro", "Informe de 2 a 48 parcelas");
+      return;
+    }
+    if (split.type) {
+      const splitError = validateSplit(split.type, split.shares, parseFloat(amount.replace(",", ".")));
+      if (splitError) { Alert.alert("Erro", splitError); return; }
+    }
 
     const billData = {
       household_id: household.id,
       name: name.trim(),
       amount: parseFloat(amount.replace(",", ".")),
       category_id: selectedCategory?.id || null,
-      is_recurring: true,
-      due_day: dueDay ? parseInt(dueDay) : null,
+      is_recurring: isRecurring,
+      ...schedule,
       auto_debit: autoDebit,
       current_month_status: "pending" as const,
       alert_days_before: 3,
       notes: notes.trim() || null,
+      split_type: split.type,
+      split_shares: split.type ? split.shares : null,
+      account_id: accountId,
+      payment_code: paymentCode,
       created_by: user?.id,
     };
 
@@ -72,8 +143,14 @@ export default function NewBillScreen() {
         </View>
 
         <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          <View style={styles.section}>
+            <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Boleto ou Pix (opcional)</Text>
+            <Text style={[styles.sectionHint, { color: theme.textSecondary }]}>Preenche valor e vencimento e guarda o codigo para pagar depois</Text>
+            <PaymentCodeField value={paymentCode} onChange={handlePaymentCode} />
+          </View>
+
           <Input label="Nome da conta" placeholder="Ex: Aluguel, Internet, Luz" value={name} onChangeText={setName} autoCapitalize="sentences" icon="receipt-outline" />
-          <Input label="Valor (R$)" placeholder="0,00" value={amount} onChangeText={setAmount} keyboardType="numeric" icon="cash-outline" />
+          <Input label={isRecurring && frequency === "installments" ? "Valor da parcela (R$)" : "Valor (R$)"} placeholder="0,00" value={amount} onChangeText={setAmount} keyboardType="numeric" icon="cash-outline" />
 
           <View style={styles.section}>
             <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Categoria</Text>
@@ -87,17 +164,63 @@ export default function NewBillScreen() {
             </ScrollView>
           </View>
 
-          <View style={styles.section}>
-            <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Dia do vencimento</Text>
-            <View style={styles.daysRow}>
-              {quickDays.map((day) => (
-                <TouchableOpacity key={day} onPress={() => setDueDay(day.toString())} style={[styles.dayButton, { backgroundColor: theme.border }, dueDay === day.toString() && { backgroundColor: theme.primary }]}>
-                  <Text style={[styles.dayButtonText, { color: theme.gray[700] }, dueDay === day.toString() && styles.dayButtonTextSelected]}>{day}</Text>
-                </TouchableOpacity>
-              ))}
+          <TouchableOpacity onPress={() => setIsRecurring(!isRecurring)} style={[styles.toggleRow, { backgroundColor: theme.surface, borderColor: theme.border }]}>
+            <View style={styles.toggleLeft}>
+              <Ionicons name="calendar-outline" size={20} color={isRecurring ? theme.primary : theme.gray[400]} />
+              <View style={styles.toggleTextContainer}>
+                <Text style={[styles.toggleLabel, { color: theme.gray[700] }, isRecurring && { color: theme.primary }]}>Conta recorrente</Text>
+                <Text style={[styles.toggleSublabel, { color: theme.textSecondary }]}>{isRecurring ? "Vence todo periodo" : "Vence uma vez so"}</Text>
+              </View>
             </View>
-            <Input placeholder="Dia (1-31)" value={dueDay} onChangeText={setDueDay} keyboardType="numeric" icon="calendar-outline" />
-          </View>
+            <View style={[styles.toggle, { backgroundColor: theme.gray[300] }, isRecurring && { backgroundColor: theme.primary }]}>
+              <View style={[styles.toggleThumb, isRecurring && styles.toggleThumbActive]} />
+            </View>
+          </TouchableOpacity>
+
+          {!isRecurring ? (
+            <View style={styles.section}>
+              <Input label="Vencimento" placeholder="DD/MM/AAAA" value={firstDueDate} onChangeText={setFirstDueDate} icon="calendar-outline" />
+            </View>
+          ) : (
+            <>
+              <View style={styles.section}>
+                <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Frequencia</Text>
+                <View style={styles.accountsRow}>
+                  {frequencies.map((f) => (
+                    <TouchableOpacity key={f} onPress={() => setFrequency(f)} style={[styles.accountChip, { backgroundColor: theme.gray[200] }, frequency === f && { backgroundColor: theme.primary }]}>
+                      <Text style={[styles.frequencyText, { color: theme.gray[700] }, frequency === f && styles.accountChipTextSelected]}>{BILL_FREQUENCY_LABELS[f]}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              {isMonthly ? (
+                <View style={styles.section}>
+                  <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Dia do vencimento</Text>
+                  <View style={styles.daysRow}>
+                    {quickDays.map((day) => (
+                      <TouchableOpacity key={day} onPress={() => setDueDay(day.toString())} style={[styles.dayButton, { backgroundColor: theme.border }, dueDay === day.toString() && { backgroundColor: theme.primary }]}>
+                        <Text style={[styles.dayButtonText, { color: theme.gray[700] }, dueDay === day.toString() && styles.dayButtonTextSelected]}>{day}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <Input placeholder="Dia (1-31)" value={dueDay} onChangeText={setDueDay} keyboardType="numeric" icon="calendar-outline" />
+                </View>
+              ) : (
+                <View style={styles.section}>
+                  <Input label="Primeiro vencimento" placeholder="DD/MM/AAAA" value={firstDueDate} onChangeText={setFirstDueDate} icon="calendar-outline" />
+                  {frequency === "installments" && (
+                    <Input label="Numero de parcelas" placeholder="Ex: 10" value={installmentCount} onChangeText={setInstallmentCount} keyboardType="numeric" icon="layers-outline" />
+                  )}
+                  {nextDueDate && (
+                    <Text style={[styles.sectionHint, { color: theme.textSecondary }]}>
+                      Proximo vencimento em {new Date(`${nextDueDate}T00:00:00`).toLocaleDateString("pt-BR")}
+                    </Text>
+                  )}
+                </View>
+              )}
+            </>
+          )}
 
           <TouchableOpacity onPress={() => setAutoDebit(!autoDebit)} style={[styles.toggleRow, { backgroundColor: theme.surface, borderColor: theme.border }]}>
             <View style={styles.toggleLeft}>
@@ -112,6 +235,35 @@ export default function NewBillScreen() {
             </View>
           </TouchableOpacity>
 
+          {accounts.length > 0 && (
+            <View style={styles.section}>
+              <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Pago com</Text>
+              <View style={styles.accountsRow}>
+                {accounts.map((account) => {
+                  const isSelected = accountId === account.id;
+                  return (
+                    <TouchableOpacity
+                      key={account.id}
+                      onPress={() => setAccountId(isSelected ? null : account.id)}
+                      style={[styles.accountChip, { backgroundColor: theme.gray[200] }, isSelected && { backgroundColor: theme.primary }]}
+                    >
+                      <Ionicons name={ACCOUNT_TYPE_ICONS[account.type] as keyof typeof Ionicons.glyphMap} size={14} color={isSelected ? "#FFFFFF" : theme.gray[700]} />
+                      <Text style={[styles.accountChipText, { color: theme.gray[700] }, isSelected && styles.accountChipTextSelected]}>{account.name}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+
+          {members.length > 1 && (
+            <View style={styles.section}>
+              <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Dividir entre moradores</Text>
+              <Text style={[styles.sectionHint, { color: theme.textSecondary }]}>Aplicada a cada pagamento; quem marca como paga e quem pagou</Text>
+              <SplitEditor members={members} amount={parseFloat(amount.replace(",", ".")) || 0} value={split} onChange={setSplit} />
+            </View>
+          )}
+
           <Input label="Observacoes (opcional)" placeholder="Anotacoes sobre esta conta..." value={notes} onChangeText={setNotes} multiline numberOfLines={2} autoCapitalize="sentences" />
 
           <View style={styles.submitContainer}>
@@ -133,6 +285,7 @@ const styles = StyleSheet.create({
   scrollView: { flex: 1, paddingHorizontal: 16, paddingTop: 16 },
   section: { marginBottom: 16 },
   sectionLabel: { fontWeight: '500', marginBottom: 8 },
+  sectionHint: { fontSize: 13, marginTop: -4, marginBottom: 8 },
   horizontalScroll: { marginHorizontal: -16 },
   horizontalScrollContent: { paddingHorizontal: 16 },
   categoryButton: { marginRight: 8, paddingHorizontal: 16, paddingVertical: 12, borderRadius: 12, flexDirection: 'row', alignItems: 'center', borderWidth: 2 },
@@ -149,5 +302,10 @@ const styles = StyleSheet.create({
   toggle: { width: 48, height: 28, borderRadius: 14, padding: 4 },
   toggleThumb: { width: 20, height: 20, borderRadius: 10, backgroundColor: '#FFFFFF' },
   toggleThumbActive: { alignSelf: 'flex-end' },
+  accountsRow: { flexDirection: 'row', flexWrap: 'wrap' },
+  accountChip: { marginRight: 8, marginBottom: 8, paddingHorizontal: 12, paddingVertical: 8, borderRadius: 8, flexDirection: 'row', alignItems: 'center' },
+  accountChipText: { marginLeft: 6, fontSize: 14 },
+  accountChipTextSelected: { color: '#FFFFFF', fontWeight: '500' },
+  frequencyText: { fontSize: 14 },
   submitContainer: { marginTop: 16, marginBottom: 32 },
 });
@@ -13,29 +13,85 @@ import { useRouter, useLocalSearchParams } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { Button, Input } from "@/components/ui";
-import { useFinanceStore } from "@/stores/financeStore";
+import { SplitEditor } from "@/components/finances";
+import { useFinanceStore, formatCurrency, type TransactionSplitInput } from "@/stores/financeStore";
 import { useAuthStore } from "@/stores/authStore";
+import { useHouseholdStore } from "@/stores/householdStore";
+import { validateSplit } from "@/lib/splits";
+import { findMatchingRule } from "@/lib/categoryRules";
+import { ACCOUNT_TYPE_ICONS, MAX_INSTALLMENTS, getStatementMonth, getInstallmentAmounts } from "@/lib/accounts";
 import { useTheme } from "@/contexts/ThemeContext";
-import type { FinanceCategory } from "@/types";
+import type { FinanceCategory, PaymentAccount } from "@/types";
 
 export default function NewTransactionScreen() {
   const router = useRouter();
   const { type: initialType } = useLocalSearchParams<{ type?: string }>();
   const { user, household } = useAuthStore();
-  const { categories, fetchCategories, createTransaction, isLoading } = useFinanceStore();
+  const {
+    categories,
+    categoryRules,
+    accounts,
+    fetchCategories,
+    fetchCategoryRules,
+    fetchAccounts,
+    createTransaction,
+    createInstallmentPurchase,
+    isLoading,
+  } = useFinanceStore();
+  const { members, fetchMembers } = useHouseholdStore();
   const { theme } = useTheme();
 
   const [type, setType] = useState<"expense" | "income">(initialType === "income" ? "income" : "expense");
   const [description, setDescription] = useState("");
   const [amount, setAmount] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<FinanceCategory | null>(null);
+  const [categoryTouched, setCategoryTouched] = useState(false);
   const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
   const [notes, setNotes] = useState("");
+  const [paidBy, setPaidBy] = useState<string | null>(user?.id || null);
+  const [split, setSplit] = useState<TransactionSplitInput>({ type: null, shares: [] });
+  const [selectedAccount, setSelectedAccount] = useState<PaymentAccount | null>(null);
+  const [installments, setInstallments] = useState("1");
 
   useEffect(() => { fetchCategories(); }, []);
 
+  useEffect(() => {
+    if (household?.id && members.length === 0) fetchMembers(household.id);
+    if (household?.id) {
+      fetchCategoryRules(household.id);
+      fetchAccounts(household.id);
+    }
+  }, [household?.id]);
+
+  // Regras da casa sugerem a categoria ate o usuario escolher uma
+  const parsedAmount = parseFloat(amount.replace(",", ".")) || 0;
+  const matchedRule = description.trim()
+    ? findMatchingRule(categoryRules, { description: description.trim(), amount: parsedAmount, type })
+    : null;
+
+  useEffect(() => {
+    if (categoryTouched) return;
+    setSelectedCategory(categories.find((c) => c.id === matchedRule?.category_id) || null);
+  }, [matchedRule?.id, categories, categoryTouched]);
+
+  const handleSelectCategory = (category: FinanceCategory) => {
+    setSelectedCategory(category);
+    setCategoryTouched(true);
+  };
+
+  const handleTypeChange = (newType: "expense" | "income") => {
+    setType(newType);
+    setSelectedCategory(null);
+    setCategoryTouched(false);
+  };
+
   const filteredCategories = categories.filter((c) => c.type === type);
 
+  // Parcelamento so vale para despesa no cartao
+  const isCardExpense = type === "expense" && selectedAccount?.type === "credit_card";
+  const installmentCount = isCardExpense ? parseInt(installments, 10) || 1 : 1;
+  const installmentAmounts = installmentCount > 1 ? getInstallmentAmounts(parsedAmount, installmentCount) : [];
+
   const quickDates = [
     { label: "Hoje", getValue: () => new Date().toISOString().split("T")[0] },
     { label: "Ontem", getValue: () => { const d = new Date(); d.setDate(d.getDate() - 1); return d.toISOString().split("T")[0]; } },
@@ -52,23 +108,62 @@ export default function NewTransactionScreen() {
     return new Date().toISOString().split("T")[0];
   };
 
+  const firstStatement = isCardExpense && selectedAccount?.closing_day && selectedAccount?.due_day
+    ? new Date(`${getStatementMonth(parseDate(date), selectedAccount.closing_day, selectedAccount.due_day)}-01T00:00:00`)
+        .toLocaleDateString("pt-BR", { month: "long", year: "numeric" })
+    : null;
+
   const handleSubmit = async () => {
     if (!description.trim()) { Alert.alert("Erro", "Digite uma descricao"); return; }
     if (!amount.trim()) { Alert.alert("Erro", "Digite o valor"); return; }
     if (!household?.id) { Alert.alert("Erro", "Household nao encontrado"); return; }
 
+    if (installmentCount < 1 || installmentCount > MAX_INSTALLMENTS) {
+      Alert.alert("Erro", `Informe de 1 a ${MAX_INSTALLMENTS} parcelas`);
+      return;
+    }
+
+    const isSplit = type === "expense" && !!split.type;
+    if (isSplit && split.type && installmentCount > 1) {
+      if (split.type === "amount") { Alert.alert("Erro", "Use divisao igual ou por percentual em compras parceladas"); return; }
+      const splitError = validateSplit(split.type, split.shares, installmentAmounts[0]);
+      if (splitError) { Alert.alert("Erro", splitError); return; }
+    } else if (isSplit && split.type) {
+      const splitError = validateSplit(split.type, split.shares, parsedAmount);
+      if (splitError) { Alert.alert("Erro", splitError); return; }
+    }
+
+    if (installmentCount > 1) {
+      const { error } = await createInstallmentPurchase({
+        household_id: household.id,
+        description: description.trim(),
+        total_amount: parsedAmount,
+        installments: installmentCount,
+        date: parseDate(date),
+        account_id: selectedAccount?.id,
+        category_id: selectedCategory?.id || null,
+        paid_by: paidBy,
+        split: isSplit ? split : undefined,
+      });
+      if (error) { Alert.alert("Erro", error); return; }
+      router.back();
+      return;
+    }
+
     const transactionData = {
       household_id: household.id,
       description: description.trim(),
-      amount: parseFloat(amount.replace(",", ".")),
+      amount: parsedAmount,
       type,
       category_id: selectedCategory?.id || null,
       date: parseDate(date),
       notes: notes.trim() || null,
+      paid_by: type === "expense" ? paidBy : null,
+      account_id: selectedAccount?.id || null,
       created_by: user?.id,
     };
 
-    const { error } = await createTransaction(transactionData);
+    const { error } = await createTransaction(transactionData, isSplit ? split : undefined);
     if (error) { Alert.alert("Erro", error); return; }
     router.back();
   };
@@ -86,11 +181,11 @@ export default function NewTransactionScreen() {
 
         <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
           <View style={[styles.typeToggle, { backgroundColor: theme.surfaceVariant }]}>
-            <TouchableOpacity onPress={() => { setType("expense"); setSelectedCategory(null); }} style={[styles.typeButton, type === "expense" && [styles.typeButtonActive, { backgroundColor: theme.surface }]]}>
+            <TouchableOpacity onPress={() => handleTypeChange("expense")} style={[styles.typeButton, type === "expense" && [styles.typeButtonActive, { backgroundColor: theme.surface }]]}>
               <Ionicons name="arrow-down-circle" size={20} color={type === "expense" ? theme.danger : theme.gray[400]} />
               <Text style={[styles.typeButtonText, { color: theme.textSecondary }, type === "expense" && { color: theme.danger }]}>Despesa</Text>
             </TouchableOpacity>
-            <TouchableOpacity onPress={() => { setType("income"); setSelectedCategory(null); }} style={[styles.typeButton, type === "income" && [styles.typeButtonActive, { backgroundColor: theme.surface }]]}>
+            <TouchableOpacity onPress={() => handleTypeChange("income")} style={[styles.typeButton, type === "income" && [styles.typeButtonActive, { backgroundColor: theme.surface }]]}>
               <Ionicons name="arrow-up-circle" size={20} color={type === "income" ? theme.success : theme.gray[400]} />
               <Text style={[styles.typeButtonText, { color: theme.textSecondary }, type === "income" && { color: theme.success }]}>Receita</Text>
             </TouchableOpacity>
@@ -112,12 +207,15 @@ export default function NewTransactionScreen() {
             <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Categoria</Text>
             <View style={styles.categoriesRow}>
               {filteredCategories.map((cat) => (
-                <TouchableOpacity key={cat.id} onPress={() => setSelectedCategory(cat)} style={[styles.categoryButton, { borderColor: theme.border, backgroundColor: theme.surface }, selectedCategory?.id === cat.id && { borderColor: theme.primary, backgroundColor: theme.primaryLight }]}>
+                <TouchableOpacity key={cat.id} onPress={() => handleSelectCategory(cat)} style={[styles.categoryButton, { borderColor: theme.border, backgroundColor: theme.surface }, selectedCategory?.id === cat.id && { borderColor: theme.primary, backgroundColor: theme.primaryLight }]}>
                   <Ionicons name={cat.icon as keyof typeof Ionicons.glyphMap} size={16} color={selectedCategory?.id === cat.id ? theme.primary : cat.color} />
                   <Text style={[styles.categoryButtonText, { color: theme.gray[700] }, selectedCategory?.id === cat.id && { color: theme.primary }]}>{cat.name}</Text>
                 </TouchableOpacity>
               ))}
             </View>
+            {matchedRule && !categoryTouched && selectedCategory && (
+              <Text style={[styles.ruleHint, { color: theme.textSecondary }]}>Sugerida pela regra "{matchedRule.pattern}"</Text>
+            )}
           </View>
 
           <View style={styles.section}>
@@ -132,11 +230,51 @@ export default function NewTransactionScreen() {
             <Input placeholder="AAAA-MM-DD" value={date} onChangeText={setDate} icon="calendar-outline" />
           </View>
 
+          {accounts.length > 0 && (
+            <View style={styles.section}>
+              <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>{type === "expense" ? "Pago com" : "Recebido em"}</Text>
+              <View style={styles.accountsRow}>
+                {accounts.map((account) => {
+                  const isSelected = selectedAccount?.id === account.id;
+                  return (
+                    <TouchableOpacity
+                      key={account.id}
+                      onPress={() => setSelectedAccount(isSelected ? null : account)}
+                      style={[styles.accountChip, { backgroundColor: theme.gray[200] }, isSelected && { backgroundColor: theme.primary }]}
+                    >
+                      <Ionicons name={ACCOUNT_TYPE_ICONS[account.type] as keyof typeof Ionicons.glyphMap} size={14} color={isSelected ? "#FFFFFF" : theme.gray[700]} />
+                      <Text style={[styles.accountChipText, { color: theme.gray[700] }, isSelected && styles.accountChipTextSelected]}>{account.name}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              {isCardExpense && (
+                <>
+                  <Input label="Parcelas" placeholder="1" value={installments} onChangeText={setInstallments} keyboardType="numeric" icon="layers-outline" />
+                  {firstStatement && (
+                    <Text style={[styles.ruleHint, { color: theme.textSecondary }]}>
+                      {installmentCount > 1
+                        ? `${installmentCount}x de ${formatCurrency(installmentAmounts[installmentCount - 1])}, a primeira na fatura de ${firstStatement}`
+                        : `Entra na fatura de ${firstStatement}`}
+                    </Text>
+                  )}
+                </>
+              )}
+            </View>
+          )}
+
+          {type === "expense" && members.length > 1 && (
+            <View style={styles.section}>
+              <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Dividir despesa</Text>
+              <SplitEditor members={members} amount={installmentCount > 1 ? installmentAmounts[0] : parsedAmount} value={split} onChange={setSplit} paidBy={paidBy} onPaidByChange={setPaidBy} />
+            </View>
+          )}
+
           <Input label="Observacoes (opcional)" placeholder="Detalhes adicionais..." value={notes} onChangeText={setNotes} multiline numberOfLines={2} autoCapitalize="sentences" />
 
           <View style={styles.submitContainer}>
             <Button onPress={handleSubmit} loading={isLoading} disabled={!description.trim() || !amount.trim()} fullWidth size="lg" variant={type === "income" ? "primary" : "danger"}>
-              {type === "expense" ? "Registrar Despesa" : "Registrar Receita"}
+              {type === "expense" ? (installmentCount > 1 ? `Registrar ${installmentCount} parcelas` : "Registrar Despesa") : "Registrar Receita"}
             </Button>
           </View>
         </ScrollView>
@@ -167,6 +305,11 @@ const styles = StyleSheet.create({
   categoriesRow: { flexDirection: 'row', flexWrap: 'wrap' },
   categoryButton: { marginRight: 8, marginBottom: 8, paddingHorizontal: 12, paddingVertical: 8, borderRadius: 12, flexDirection: 'row', alignItems: 'center', borderWidth: 2 },
   categoryButtonText: { marginLeft: 6, fontSize: 14, fontWeight: '500' },
+  ruleHint: { fontSize: 12 },
+  accountsRow: { flexDirection: 'row', flexWrap: 'wrap' },
+  accountChip: { marginRight: 8, marginBottom: 8, paddingHorizontal: 12, paddingVertical: 8, borderRadius: 8, flexDirection: 'row', alignItems: 'center' },
+  accountChipText: { marginLeft: 6, fontSize: 14 },
+  accountChipTextSelected: { color: '#FFFFFF', fontWeight: '500' },
   quickDatesRow: { flexDirection: 'row', marginBottom: 8 },
   quickDateButton: { marginRight: 8, paddingHorizontal: 16, paddingVertical: 8, borderRadius: 8 },
   quickDateText: {},
@@ -0,0 +1,449 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  StyleSheet,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { Card } from "@/components/ui";
+import { Loading } from "@/components/shared";
+import {
+  useFinanceStore,
+  formatCurrency,
+  getFinanceTrends,
+  getCategoryTrends,
+  getPercentChange,
+  getCategoryTotals,
+} from "@/stores/financeStore";
+import { useAuthStore } from "@/stores/authStore";
+import { useTheme } from "@/contexts/ThemeContext";
+import type { MonthlyTrend, CategoryTrend } from "@/types";
+
+const periods = [6, 12];
+
+const CHART_HEIGHT = 120;
+
+const getMonthLabel = (month: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString("pt-BR", options);
+
+export default function FinanceReportsScreen() {
+  const router = useRouter();
+  const { household } = useAuthStore();
+  const { categories, selectedMonth, fetchCategories } = useFinanceStore();
+  const { theme } = useTheme();
+
+  const [months, setMonths] = useState(6);
+  const [trends, setTrends] = useState<MonthlyTrend[]>([]);
+  const [categoryTrends, setCategoryTrends] = useState<CategoryTrend[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Periodo termina no mes escolhido na aba de financas
+  const loadData = useCallback(async () => {
+    if (!household?.id) return;
+    const [monthly, byCategory] = await Promise.all([
+      getFinanceTrends(household.id, months, selectedMonth),
+      getCategoryTrends(household.id, months, selectedMonth),
+    ]);
+    setTrends(monthly.trends);
+    setCategoryTrends(byCategory.trends);
+    setError(monthly.error || byCategory.error);
+  }, [household?.id, months, selectedMonth]);
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    loadData().finally(() => setLoading(false));
+  }, [loadData]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadData();
+    setRefreshing(false);
+  }, [loadData]);
+
+  const monthKeys = trends.map((t) => t.month);
+  const totalIncome = trends.reduce((sum, t) => sum + t.total_income, 0);
+  const totalExpenses = trends.reduce((sum, t) => sum + t.total_expenses, 0);
+  const maxValue = Math.max(...trends.map((t) => Math.max(t.total_income, t.total_expenses)), 1);
+  const categoryTotals = getCategoryTotals(categoryTrends, monthKeys);
+
+  const renderDelta = (current: number, previous: number, higherIsBad: boolean) => {
+    const change = getPercentChange(current, previous);
+    if (change === null || Math.abs(change) < 0.5) {
+      return <Text style={[styles.deltaText, { color: theme.textMuted }]}>{change === null ? "-" : "="}</Text>;
+    }
+    const isBad = higherIsBad ? change > 0 : change < 0;
+    const color = isBad ? theme.danger : theme.success;
+    return (
+      <View style={styles.delta}>
+        <Ionicons name={change > 0 ? "arrow-up" : "arrow-down"} size={12} color={color} />
+        <Text style={[styles.deltaText, { color }]}>{Math.abs(Math.round(change))}%</Text>
+      </View>
+    );
+  };
+
+  const renderChart = () => (
+    <Card>
+      <View style={styles.chart}>
+        {trends.map((t) => (
+          <View key={t.month} style={styles.chartColumn}>
+            <View style={styles.chartBars}>
+              <View style={[styles.chartBar, { height: (t.total_income / maxValue) * CHART_HEIGHT, backgroundColor: theme.success }]} />
+              <View style={[styles.chartBar, { height: (t.total_expenses / maxValue) * CHART_HEIGHT, backgroundColor: theme.danger }]} />
+            </View>
+            <Text style={[styles.chartLabel, { color: t.month === selectedMonth ? theme.primary : theme.textSecondary }]}>
+              {getMonthLabel(t.month, { month: "short" }).replace(".", "")}
+            </Text>
+          </View>
+        ))}
+      </View>
+      <View style={styles.legend}>
+        <View style={[styles.legendDot, { backgroundColor: theme.success }]} />
+        <Text style={[styles.legendText, { color: theme.textSecondary }]}>Receitas</Text>
+        <View style={[styles.legendDot, { backgroundColor: theme.danger }]} />
+        <Text style={[styles.legendText, { color: theme.textSecondary }]}>Despesas</Text>
+      </View>
+    </Card>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={["top"]}>
+      <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color={theme.gray[700]} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.text }]}>Relatorios</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <View style={styles.periodRow}>
+        {periods.map((p) => (
+          <TouchableOpacity
+            key={p}
+            onPress={() => setMonths(p)}
+            style={[styles.periodChip, { backgroundColor: theme.gray[200] }, months === p && { backgroundColor: theme.primary }]}
+          >
+            <Text style={[styles.periodText, { color: theme.gray[700] }, months === p && styles.periodTextSelected]}>{p} meses</Text>
+          </TouchableOpacity>
+        ))}
+        <Text style={[styles.periodUntil, { color: theme.textSecondary }]}>
+          ate {getMonthLabel(selectedMonth, { month: "short", year: "numeric" })}
+        </Text>
+      </View>
+
+      {loading ? (
+        <Loading message="Carregando relatorio..." />
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={theme.primary} />}
+        >
+          {error && <Text style={[styles.errorText, { color: theme.danger }]}>{error}</Text>}
+
+          <View style={styles.summaryRow}>
+            <Card style={{ ...styles.summaryCard, backgroundColor: theme.success + "15" }}>
+              <Text style={[styles.summaryLabel, { color: theme.textSecondary }]}>Receitas</Text>
+              <Text style={[styles.summaryValue, { color: theme.success }]}>{formatCurrency(totalIncome)}</Text>
+            </Card>
+            <Card style={{ ...styles.summaryCard, backgroundColor: theme.danger + "15" }}>
+              <Text style={[styles.summaryLabel, { color: theme.textSecondary }]}>Despesas</Text>
+              <Text style={[styles.summaryValue, { color: theme.danger }]}>{formatCurrency(totalExpenses)}</Text>
+            </Card>
+          </View>
+          <Text style={[styles.summaryHint, { color: theme.textSecondary }]}>
+            Saldo do periodo {formatCurrency(totalIncome - totalExpenses)} - media de {formatCurrency(totalExpenses / Math.max(trends.length, 1))} de despesas por mes
+          </Text>
+
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Receitas x despesas</Text>
+          {renderChart()}
+
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Mes a mes</Text>
+          <Card>
+            <View style={[styles.tableRow, styles.tableHeader, { borderBottomColor: theme.border }]}>
+              <Text style={[styles.tableMonth, styles.tableHeaderText, { color: theme.textMuted }]}>Mes</Text>
+              <Text style={[styles.tableValue, styles.tableHeaderText, { color: theme.textMuted }]}>Despesas</Text>
+              <Text style={[styles.tableDelta, styles.tableHeaderText, { color: theme.textMuted }]}>vs ant.</Text>
+              <Text style={[styles.tableValue, styles.tableHeaderText, { color: theme.textMuted }]}>Saldo</Text>
+            </View>
+            {[...trends].reverse().map((t, index, list) => {
+              const previous = list[index + 1];
+              return (
+                <View
+                  key={t.month}
+                  style={{
+                    ...styles.tableRow,
+                    ...(index < list.length - 1 ? { borderBottomWidth: 1, borderBottomColor: theme.border } : {}),
+                  }}
+                >
+                  <Text style={[styles.tableMonth, { color: theme.text }]}>
+                    {getMonthLabel(t.month, { month: "short", year: "2-digit" })}
+                  </Text>
+                  <Text style={[styles.tableValue, { color: theme.text }]}>{formatCurrency(t.total_expenses)}</Text>
+                  <View style={styles.tableDelta}>{previous ? renderDelta(t.total_expenses, previous.total_expenses, true) : null}</View>
+                  <Text style={[styles.tableValue, { color: t.balance < 0 ? theme.danger : theme.success }]}>
+                    {formatCurrency(t.balance)}
+                  </Text>
+                </View>
+              );
+            })}
+          </Card>
+
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Despesas por categoria</Text>
+          {categoryTotals.length === 0 ? (
+            <Card>
+              <Text style={[styles.emptyText, { color: theme.textSecondary }]}>Nenhuma despesa no periodo</Text>
+            </Card>
+          ) : (
+            <Card>
+              {categoryTotals.map((item, index) => {
+                const category = categories.find((c) => c.id === item.categoryId);
+                const color = category?.color || theme.gray[500];
+                const seriesMax = Math.max(...item.series, 1);
+                const last = item.series[item.series.length - 1];
+                const previous = item.series[item.series.length - 2] || 0;
+                return (
+                  <View
+                    key={item.categoryId || "none"}
+                    style={{
+                      ...styles.categoryRow,
+                      ...(index < categoryTotals.length - 1 ? { borderBottomWidth: 1, borderBottomColor: theme.border } : {}),
+                    }}
+                  >
+                    <View style={styles.categoryHeader}>
+                      <Ionicons
+                        name={(category?.icon || "pricetag-outline") as keyof typeof Ionicons.glyphMap}
+                        size={16}
+                        color={color}
+                      />
+                      <Text style={[styles.categoryName, { color: theme.text }]}>{category?.name || "Sem categoria"}</Text>
+                      <Text style={[styles.categoryTotal, { color: theme.text }]}>{formatCurrency(item.total)}</Text>
+                    </View>
+                    <View style={styles.sparkRow}>
+                      <View style={styles.spark}>
+                        {item.series.map((value, i) => (
+                          <View
+                            key={monthKeys[i]}
+                            style={[styles.sparkBar, { height: Math.max((value / seriesMax) * 24, 2), backgroundColor: value > 0 ? color : theme.gray[200] }]}
+                          />
+                        ))}
+                      </View>
+                      {renderDelta(last, previous, true)}
+                    </View>
+                  </View>
+                );
+              })}
+            </Card>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: -8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  periodChip: {
+    marginRight: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  periodText: {
+    fontSize: 14,
+  },
+  periodTextSelected: {
+    color: '#FFFFFF', // Contraste sobre primary
+    fontWeight: '500',
+  },
+  periodUntil: {
+    fontSize: 13,
+    marginLeft: 'auto',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  errorText: {
+    marginBottom: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  summaryCard: {
+    flex: 1,
+  },
+  summaryLabel: {
+    fontSize: 13,
+  },
+  summaryValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 4,
+  },
+  summaryHint: {
+    fontSize: 13,
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    justifyContent: 'space-between',
+  },
+  chartColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  chartBars: {
+    height: CHART_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 2,
+  },
+  chartBar: {
+    width: 6,
+    borderTopLeftRadius: 3,
+    borderTopRightRadius: 3,
+  },
+  chartLabel: {
+    fontSize: 11,
+    marginTop: 6,
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 12,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 4,
+    marginLeft: 12,
+  },
+  legendText: {
+    fontSize: 12,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  tableHeader: {
+    borderBottomWidth: 1,
+    paddingTop: 0,
+  },
+  tableHeaderText: {
+    fontSize: 12,
+  },
+  tableMonth: {
+    flex: 1,
+    textTransform: 'capitalize',
+  },
+  tableValue: {
+    flex: 1.4,
+    textAlign: 'right',
+    fontSize: 13,
+  },
+  tableDelta: {
+    flex: 0.9,
+    alignItems: 'flex-end',
+    textAlign: 'right',
+  },
+  delta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  deltaText: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginLeft: 2,
+  },
+  emptyText: {
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  categoryRow: {
+    paddingVertical: 12,
+  },
+  categoryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  categoryName: {
+    flex: 1,
+    marginLeft: 8,
+    fontWeight: '500',
+  },
+  categoryTotal: {
+    fontWeight: '600',
+  },
+  sparkRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  spark: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 3,
+    height: 24,
+  },
+  sparkBar: {
+    width: 8,
+    borderRadius: 2,
+  },
+});
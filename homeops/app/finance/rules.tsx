@@ -0,0 +1,323 @@
+import { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  StyleSheet,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { Button, Input } from "@/components/ui";
+import { useFinanceStore, formatCurrency } from "@/stores/financeStore";
+import { useAuthStore } from "@/stores/authStore";
+import { useTheme } from "@/contexts/ThemeContext";
+import { CATEGORY_RULE_MATCH_LABELS, validateRule } from "@/lib/categoryRules";
+import type { CategoryRule, CategoryRuleMatch } from "@/types";
+
+type RuleType = "expense" | "income" | null;
+
+const matchTypes: CategoryRuleMatch[] = ["contains", "regex"];
+
+const ruleTypes: { value: RuleType; label: string }[] = [
+  { value: null, label: "Qualquer" },
+  { value: "expense", label: "Despesa" },
+  { value: "income", label: "Receita" },
+];
+
+const parseOptionalAmount = (text: string): number | null => {
+  const parsed = parseFloat(text.replace(",", "."));
+  return isNaN(parsed) ? null : parsed;
+};
+
+export default function CategoryRulesScreen() {
+  const router = useRouter();
+  const { user, household } = useAuthStore();
+  const {
+    categories,
+    categoryRules,
+    fetchCategories,
+    fetchCategoryRules,
+    saveCategoryRule,
+    deleteCategoryRule,
+    reapplyCategoryRules,
+    isLoading,
+  } = useFinanceStore();
+  const { theme } = useTheme();
+
+  const [editing, setEditing] = useState<CategoryRule | "new" | null>(null);
+  const [pattern, setPattern] = useState("");
+  const [matchType, setMatchType] = useState<CategoryRuleMatch>("contains");
+  const [ruleType, setRuleType] = useState<RuleType>("expense");
+  const [minAmount, setMinAmount] = useState("");
+  const [maxAmount, setMaxAmount] = useState("");
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCategories();
+    if (household?.id) fetchCategoryRules(household.id);
+  }, [household?.id]);
+
+  const availableCategories = categories.filter((c) => !ruleType || c.type === ruleType);
+
+  const openEditor = (rule: CategoryRule | null) => {
+    setEditing(rule || "new");
+    setPattern(rule?.pattern || "");
+    setMatchType(rule?.match_type || "contains");
+    setRuleType(rule ? rule.type || null : "expense");
+    setMinAmount(rule?.min_amount != null ? String(rule.min_amount).replace(".", ",") : "");
+    setMaxAmount(rule?.max_amount != null ? String(rule.max_amount).replace(".", ",") : "");
+    setCategoryId(rule?.category_id || null);
+  };
+
+  const handleRuleTypeChange = (value: RuleType) => {
+    setRuleType(value);
+    // Categoria de receita nao serve para regra de despesa (e vice-versa)
+    const category = categories.find((c) => c.id === categoryId);
+    if (value && category && category.type !== value) setCategoryId(null);
+  };
+
+  const handleSave = async () => {
+    if (!household?.id) { Alert.alert("Erro", "Household nao encontrado"); return; }
+    if (!categoryId) { Alert.alert("Erro", "Escolha a categoria"); return; }
+
+    const rule = {
+      pattern: pattern.trim(),
+      match_type: matchType,
+      min_amount: parseOptionalAmount(minAmount),
+      max_amount: parseOptionalAmount(maxAmount),
+    };
+    const ruleError = validateRule(rule);
+    if (ruleError) { Alert.alert("Erro", ruleError); return; }
+
+    const { error } = await saveCategoryRule({
+      ...rule,
+      ...(editing && editing !== "new" ? { id: editing.id } : { created_by: user?.id }),
+      household_id: household.id,
+      category_id: categoryId,
+      type: ruleType,
+    });
+    if (error) { Alert.alert("Erro", error); return; }
+    setEditing(null);
+  };
+
+  const handleRemove = () => {
+    if (!editing || editing === "new") return;
+    Alert.alert("Remover regra", `Remover a regra "${editing.pattern}"?`, [
+      { text: "Cancelar", style: "cancel" },
+      {
+        text: "Remover",
+        style: "destructive",
+        onPress: async () => {
+          const { error } = await deleteCategoryRule(editing.id);
+          if (error) { Alert.alert("Erro", error); return; }
+          setEditing(null);
+        },
+      },
+    ]);
+  };
+
+  const reapply = async (overwrite: boolean) => {
+    if (!household?.id) return;
+    const { error, count } = await reapplyCategoryRules(household.id, overwrite);
+    if (error) { Alert.alert("Erro", error); return; }
+    Alert.alert(
+      "Regras aplicadas",
+      count === 0 ? "Nenhum lancamento mudou de categoria." : `${count} lancamento${count === 1 ? "" : "s"} recategorizado${count === 1 ? "" : "s"}.`
+    );
+  };
+
+  const handleReapply = () => {
+    Alert.alert("Reaplicar regras", "Quais lancamentos devem passar pelas regras?", [
+      { text: "Cancelar", style: "cancel" },
+      { text: "So os sem categoria", onPress: () => reapply(false) },
+      { text: "Todos", onPress: () => reapply(true) },
+    ]);
+  };
+
+  const describeRule = (rule: CategoryRule): string => {
+    const parts = [CATEGORY_RULE_MATCH_LABELS[rule.match_type]];
+    if (rule.type) parts.push(rule.type === "expense" ? "despesas" : "receitas");
+    if (rule.min_amount != null && rule.max_amount != null) {
+      parts.push(`${formatCurrency(Number(rule.min_amount))} a ${formatCurrency(Number(rule.max_amount))}`);
+    } else if (rule.min_amount != null) {
+      parts.push(`a partir de ${formatCurrency(Number(rule.min_amount))}`);
+    } else if (rule.max_amount != null) {
+      parts.push(`ate ${formatCurrency(Number(rule.max_amount))}`);
+    }
+    return parts.join(" - ");
+  };
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[styles.chip, { backgroundColor: theme.gray[200] }, isSelected && { backgroundColor: theme.primary }]}
+    >
+      <Text style={[styles.chipText, { color: theme.gray[700] }, isSelected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={["top"]}>
+      <KeyboardAvoidingView behavior={Platform.OS === "ios" ? "padding" : "height"} style={styles.flex}>
+        <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color={theme.gray[700]} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>Regras de categoria</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          <Text style={[styles.description, { color: theme.textSecondary }]}>
+            Lancamentos sem categoria (digitados ou importados) recebem a categoria da regra mais recente que bater com a descricao.
+          </Text>
+
+          {editing ? (
+            <View style={[styles.editor, { backgroundColor: theme.surface, borderColor: theme.primary }]}>
+              <Text style={[styles.editorTitle, { color: theme.text }]}>{editing === "new" ? "Nova regra" : "Editar regra"}</Text>
+
+              <Text style={[styles.label, { color: theme.textSecondary }]}>Como comparar</Text>
+              <View style={styles.chipsRow}>
+                {matchTypes.map((m) => renderChip(m, CATEGORY_RULE_MATCH_LABELS[m], matchType === m, () => setMatchType(m)))}
+              </View>
+
+              <Input
+                label={matchType === "regex" ? "Expressao regular" : "Descricao contem"}
+                placeholder={matchType === "regex" ? "^(uber|99)" : "Ex: iFood"}
+                value={pattern}
+                onChangeText={setPattern}
+                autoCapitalize="none"
+              />
+
+              <Text style={[styles.label, { color: theme.textSecondary }]}>Tipo</Text>
+              <View style={styles.chipsRow}>
+                {ruleTypes.map((t) => renderChip(t.label, t.label, ruleType === t.value, () => handleRuleTypeChange(t.value)))}
+              </View>
+
+              <View style={styles.amountRow}>
+                <View style={styles.amountField}>
+                  <Input label="Valor minimo" placeholder="Opcional" value={minAmount} onChangeText={setMinAmount} keyboardType="numeric" />
+                </View>
+                <View style={styles.amountField}>
+                  <Input label="Valor maximo" placeholder="Opcional" value={maxAmount} onChangeText={setMaxAmount} keyboardType="numeric" />
+                </View>
+              </View>
+
+              <Text style={[styles.label, { color: theme.textSecondary }]}>Categoria</Text>
+              <View style={styles.chipsRow}>
+                {availableCategories.map((cat) => (
+                  <TouchableOpacity
+                    key={cat.id}
+                    onPress={() => setCategoryId(cat.id)}
+                    style={[styles.categoryButton, { borderColor: theme.border, backgroundColor: theme.background }, categoryId === cat.id && { borderColor: theme.primary, backgroundColor: theme.primaryLight }]}
+                  >
+                    <Ionicons name={cat.icon as keyof typeof Ionicons.glyphMap} size={16} color={categoryId === cat.id ? theme.primary : cat.color} />
+                    <Text style={[styles.categoryButtonText, { color: theme.gray[700] }, categoryId === cat.id && { color: theme.primary }]}>{cat.name}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <View style={styles.editorActions}>
+                <View style={styles.editorAction}>
+                  {editing === "new" ? (
+                    <Button onPress={() => setEditing(null)} variant="outline" fullWidth>Cancelar</Button>
+                  ) : (
+                    <Button onPress={handleRemove} variant="outline" fullWidth>Remover</Button>
+                  )}
+                </View>
+                <View style={styles.editorAction}>
+                  <Button onPress={handleSave} loading={isLoading} disabled={!pattern.trim() || !categoryId} fullWidth>Salvar</Button>
+                </View>
+              </View>
+            </View>
+          ) : (
+            <View style={styles.actionsRow}>
+              <View style={styles.editorAction}>
+                <Button onPress={() => openEditor(null)} fullWidth>Nova regra</Button>
+              </View>
+              <View style={styles.editorAction}>
+                <Button onPress={handleReapply} variant="outline" loading={isLoading} disabled={categoryRules.length === 0} fullWidth>
+                  Reaplicar regras
+                </Button>
+              </View>
+            </View>
+          )}
+
+          <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Regras da casa</Text>
+          {categoryRules.length === 0 ? (
+            <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+              Nenhuma regra ainda. Ao trocar a categoria de um lancamento, voce pode criar uma regra a partir dele.
+            </Text>
+          ) : (
+            categoryRules.map((rule) => {
+              const isSelected = editing !== "new" && editing?.id === rule.id;
+              return (
+                <TouchableOpacity
+                  key={rule.id}
+                  onPress={() => openEditor(rule)}
+                  style={[styles.ruleRow, { backgroundColor: theme.surface, borderColor: isSelected ? theme.primary : theme.border }]}
+                >
+                  <View style={[styles.categoryIcon, { backgroundColor: (rule.category?.color || theme.gray[400]) + "20" }]}>
+                    <Ionicons
+                      name={(rule.category?.icon || "pricetag-outline") as keyof typeof Ionicons.glyphMap}
+                      size={20}
+                      color={rule.category?.color || theme.gray[400]}
+                    />
+                  </View>
+                  <View style={styles.ruleInfo}>
+                    <Text style={[styles.rulePattern, { color: theme.text }]} numberOfLines={1}>
+                      {rule.category?.name || "Categoria"}: "{rule.pattern}"
+                    </Text>
+                    <Text style={[styles.ruleDetails, { color: theme.textSecondary }]}>{describeRule(rule)}</Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={20} color={theme.gray[400]} />
+                </TouchableOpacity>
+              );
+            })
+          )}
+
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  flex: { flex: 1 },
+  header: { paddingHorizontal: 20, paddingVertical: 16, borderBottomWidth: 1, flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+  closeButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center', marginLeft: -8 },
+  headerTitle: { fontSize: 18, fontWeight: '600' },
+  headerSpacer: { width: 40 },
+  scrollView: { flex: 1, paddingHorizontal: 16, paddingTop: 16 },
+  description: { fontSize: 14, marginBottom: 16 },
+  sectionLabel: { fontWeight: '500', marginBottom: 8 },
+  label: { fontSize: 13, marginBottom: 8 },
+  editor: { borderRadius: 16, borderWidth: 2, padding: 16, marginBottom: 24 },
+  editorTitle: { fontSize: 16, fontWeight: '600', marginBottom: 12 },
+  editorActions: { flexDirection: 'row', gap: 12, marginTop: 8 },
+  editorAction: { flex: 1 },
+  actionsRow: { flexDirection: 'row', gap: 12, marginBottom: 24 },
+  chipsRow: { flexDirection: 'row', flexWrap: 'wrap', marginBottom: 8 },
+  chip: { marginRight: 8, marginBottom: 8, paddingHorizontal: 12, paddingVertical: 8, borderRadius: 8 },
+  chipText: { fontSize: 14 },
+  chipTextSelected: { color: '#FFFFFF', fontWeight: '500' },
+  amountRow: { flexDirection: 'row', gap: 12 },
+  amountField: { flex: 1 },
+  categoryButton: { marginRight: 8, marginBottom: 8, paddingHorizontal: 12, paddingVertical: 8, borderRadius: 12, flexDirection: 'row', alignItems: 'center', borderWidth: 2 },
+  categoryButtonText: { marginLeft: 6, fontSize: 14, fontWeight: '500' },
+  emptyText: { fontSize: 14 },
+  ruleRow: { flexDirection: 'row', alignItems: 'center', padding: 12, borderRadius: 12, borderWidth: 1, marginBottom: 8 },
+  categoryIcon: { width: 40, height: 40, borderRadius: 10, alignItems: 'center', justifyContent: 'center', marginRight: 12 },
+  ruleInfo: { flex: 1 },
+  rulePattern: { fontWeight: '500' },
+  ruleDetails: { fontSize: 13, marginTop: 2 },
+  bottomSpacer: { height: 32 },
+});
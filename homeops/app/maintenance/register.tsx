@@ -13,7 +13,7 @@ import { useRouter, useLocalSearchParams } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { Button, Input, Card } from "@/components/ui";
-import { useMaintenanceStore } from "@/stores/maintenanceStore";
+import { useMaintenanceStore, isUnderWarranty } from "@/stores/maintenanceStore";
 import { useTheme } from "@/contexts/ThemeContext";
 
 export default function RegisterMaintenanceScreen() {
@@ -45,6 +45,9 @@ export default function RegisterMaintenanceScreen() {
     return new Date().toISOString().split("T")[0];
   };
 
+  // Reparo dentro da garantia pode ser coberto pelo fabricante
+  const coveredByWarranty = !!item && isUnderWarranty(item, parseDate(maintenanceDate));
+
   const handleSubmit = async () => {
     if (!itemId) { Alert.alert("Erro", "Item nao encontrado"); return; }
     const data = {
@@ -92,6 +95,18 @@ export default function RegisterMaintenanceScreen() {
             </Card>
           )}
 
+          {coveredByWarranty && (
+            <View style={[styles.warrantyCard, { backgroundColor: theme.warning + '15', borderColor: theme.warning + '40' }]}>
+              <Ionicons name="shield-checkmark" size={22} color={theme.warning} />
+              <View style={styles.warrantyContent}>
+                <Text style={[styles.warrantyTitle, { color: theme.warning }]}>Item na garantia</Text>
+                <Text style={[styles.warrantyText, { color: theme.warning }]}>
+                  A garantia vale ate {new Date(item.warranty_until + "T00:00:00").toLocaleDateString("pt-BR")}. Antes de pagar pelo reparo, acione o fabricante ou a loja.
+                </Text>
+              </View>
+            </View>
+          )}
+
           <View style={styles.section}>
             <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Data da manutencao</Text>
             <View style={styles.quickDatesRow}>
@@ -132,6 +147,10 @@ const styles = StyleSheet.create({
   itemInfo: { marginLeft: 12 },
   itemName: { fontWeight: '600', fontSize: 18 },
   itemBrand: { fontSize: 14 },
+  warrantyCard: { flexDirection: 'row', alignItems: 'flex-start', borderWidth: 1, borderRadius: 12, padding: 12, marginBottom: 16 },
+  warrantyContent: { flex: 1, marginLeft: 12 },
+  warrantyTitle: { fontWeight: '600' },
+  warrantyText: { fontSize: 14, marginTop: 2 },
   section: { marginBottom: 16 },
   sectionLabel: { fontWeight: '500', marginBottom: 8 },
   quickDatesRow: { flexDirection: 'row', marginBottom: 8 },
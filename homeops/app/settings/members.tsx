@@ -14,11 +14,24 @@ interface MemberItemProps {
   email: string;
   role: "admin" | "member";
   isCurrentUser: boolean;
+  isAway: boolean;
   onRemove?: () => void;
+  onToggleAway?: () => void;
   canRemove: boolean;
+  canToggleAway: boolean;
 }
 
-function MemberItem({ name, email, role, isCurrentUser, onRemove, canRemove }: MemberItemProps) {
+function MemberItem({
+  name,
+  email,
+  role,
+  isCurrentUser,
+  isAway,
+  onRemove,
+  onToggleAway,
+  canRemove,
+  canToggleAway,
+}: MemberItemProps) {
   const { theme } = useTheme();
 
   return (
@@ -56,9 +69,25 @@ function MemberItem({ name, email, role, isCurrentUser, onRemove, canRemove }: M
               {role === 'admin' ? 'Administrador' : 'Membro'}
             </Text>
           </View>
+          {isAway && (
+            <View style={[styles.roleBadge, styles.awayBadge, { backgroundColor: theme.primary + '20' }]}>
+              <Ionicons name="airplane" size={12} color={theme.primary} />
+              <Text style={[styles.roleText, { color: theme.primary }]}>Ausente</Text>
+            </View>
+          )}
         </View>
       </View>
 
+      {canToggleAway && (
+        <TouchableOpacity onPress={onToggleAway} style={styles.removeButton}>
+          <Ionicons
+            name={isAway ? "airplane" : "airplane-outline"}
+            size={22}
+            color={isAway ? theme.primary : theme.textSecondary}
+          />
+        </TouchableOpacity>
+      )}
+
       {canRemove && !isCurrentUser && (
         <TouchableOpacity onPress={onRemove} style={styles.removeButton}>
           <Ionicons name="close-circle" size={24} color={theme.danger} />
@@ -73,7 +102,7 @@ export default function MembersScreen() {
   const { theme } = useTheme();
 
   const { user, household } = useAuthStore();
-  const { members, isLoading, fetchMembers, removeMember } = useHouseholdStore();
+  const { members, isLoading, fetchMembers, removeMember, setMemberAway } = useHouseholdStore();
 
   const planType = (household?.plan_type || 'free') as PlanType;
   const memberLimit = PLAN_LIMITS[planType];
@@ -126,6 +155,14 @@ export default function MembersScreen() {
     );
   };
 
+  // Ausentes sao pulados no rodizio de tarefas
+  const handleToggleAway = async (memberId: string, isAway: boolean) => {
+    const { error } = await setMemberAway(memberId, !isAway);
+    if (error) {
+      Alert.alert("Erro", error);
+    }
+  };
+
   const canAddMore = members.length < memberLimit;
 
   return (
@@ -219,8 +256,11 @@ export default function MembersScreen() {
                   email={member.user?.email || ""}
                   role={member.role}
                   isCurrentUser={member.user_id === user?.id}
+                  isAway={member.is_away ?? false}
                   canRemove={isAdmin}
+                  canToggleAway={isAdmin || member.user_id === user?.id}
                   onRemove={() => handleRemoveMember(member.id, member.user?.name || "Usuario")}
+                  onToggleAway={() => handleToggleAway(member.id, member.is_away ?? false)}
                 />
               ))
             )}
@@ -422,6 +462,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginLeft: 4,
   },
+  awayBadge: {
+    marginLeft: 6,
+  },
   removeButton: {
     padding: 8,
   },
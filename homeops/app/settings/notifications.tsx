@@ -7,6 +7,7 @@ import * as Notifications from "expo-notifications";
 import { Card, Button } from "@/components/ui";
 import { useTheme } from "@/contexts/ThemeContext";
 import { requestNotificationPermissions, getNotificationPreferences, saveNotificationPreferences, sendTestNotification, type NotificationPreferences } from "@/services/notificationService";
+import { rescheduleAllReminders } from "@/services/dailyDigest";
 
 interface ToggleItemProps {
   icon: keyof typeof Ionicons.glyphMap;
@@ -107,6 +108,8 @@ export default function NotificationsSettingsScreen() {
     const updated = { ...preferences, [key]: value };
     setPreferences(updated);
     await saveNotificationPreferences({ [key]: value });
+    // Horario e modo de resumo mudam todos os agendamentos
+    if (key === "dailyDigest" || key === "reminderTime") rescheduleAllReminders();
   };
 
   const handleTestNotification = async () => {
@@ -120,7 +123,9 @@ export default function NotificationsSettingsScreen() {
     { label: "09:00", value: "09:00" }, { label: "10:00", value: "10:00" }, { label: "12:00", value: "12:00" },
     { label: "18:00", value: "18:00" }, { label: "20:00", value: "20:00" },
   ];
+  const taskOffsetOptions = [{ label: "Na hora", value: "0" }, { label: "15 min antes", value: "15" }, { label: "30 min antes", value: "30" }, { label: "1 h antes", value: "60" }, { label: "1 h e 1 dia antes", value: "60,1440" }, { label: "1 dia antes", value: "1440" }];
   const billDaysOptions = [{ label: "1 dia antes", value: 1 }, { label: "2 dias antes", value: 2 }, { label: "3 dias antes", value: 3 }, { label: "5 dias antes", value: 5 }, { label: "7 dias antes", value: 7 }];
+  const expirationDaysOptions = [{ label: "1 dia antes", value: 1 }, { label: "2 dias antes", value: 2 }, { label: "3 dias antes", value: 3 }, { label: "5 dias antes", value: 5 }, { label: "7 dias antes", value: 7 }];
   const maintenanceDaysOptions = [{ label: "3 dias antes", value: 3 }, { label: "5 dias antes", value: 5 }, { label: "7 dias antes", value: 7 }, { label: "14 dias antes", value: 14 }, { label: "30 dias antes", value: 30 }];
 
   if (loading || !preferences) {
@@ -158,6 +163,7 @@ export default function NotificationsSettingsScreen() {
           <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>GERAL</Text>
           <Card>
             <ToggleItem icon="notifications" label="Notificacoes" sublabel="Ativar todas as notificacoes" value={preferences.enabled} onToggle={() => updatePreference("enabled", !preferences.enabled)} iconColor={theme.primary} disabled={!permissionGranted} />
+            <ToggleItem icon="newspaper-outline" label="Resumo diario" sublabel="Um resumo da casa no horario dos lembretes, no lugar dos avisos avulsos" value={preferences.dailyDigest} onToggle={() => updatePreference("dailyDigest", !preferences.dailyDigest)} iconColor={theme.success} disabled={!preferences.enabled || !permissionGranted} />
             <View style={styles.lastItem}>
               <SelectItem label="Horario dos lembretes" value={preferences.reminderTime} options={timeOptions} onSelect={(v) => updatePreference("reminderTime", v as string)} disabled={!preferences.enabled || !permissionGranted} />
             </View>
@@ -169,8 +175,13 @@ export default function NotificationsSettingsScreen() {
           <Card>
             <ToggleItem icon="checkbox-outline" label="Tarefas" sublabel="Lembretes de tarefas pendentes" value={preferences.taskReminders} onToggle={() => updatePreference("taskReminders", !preferences.taskReminders)} iconColor={theme.primary} disabled={!preferences.enabled || !permissionGranted} />
             <ToggleItem icon="wallet-outline" label="Contas a pagar" sublabel="Alertas de vencimento" value={preferences.billReminders} onToggle={() => updatePreference("billReminders", !preferences.billReminders)} iconColor={theme.danger} disabled={!preferences.enabled || !permissionGranted} />
+            <ToggleItem icon="pie-chart-outline" label="Orcamentos" sublabel="Gastos em 80% e 100% do limite da categoria" value={preferences.budgetAlerts} onToggle={() => updatePreference("budgetAlerts", !preferences.budgetAlerts)} iconColor={theme.danger} disabled={!preferences.enabled || !permissionGranted} />
+            <ToggleItem icon="construct-outline" label="Manutencoes" sublabel="Lembretes de manutencao" value={preferences.maintenanceReminders} onToggle={() => updatePreference("maintenanceReminders", !preferences.maintenanceReminders)} iconColor={theme.warning} disabled={!preferences.enabled || !permissionGranted} />
+            <ToggleItem icon="shield-checkmark-outline" label="Garantias" sublabel="Aviso 30 e 7 dias antes do fim da garantia" value={preferences.warrantyReminders} onToggle={() => updatePreference("warrantyReminders", !preferences.warrantyReminders)} iconColor={theme.warning} disabled={!preferences.enabled || !permissionGranted} />
+            <ToggleItem icon="hourglass-outline" label="Validade" sublabel="Itens do estoque perto de vencer" value={preferences.expirationReminders} onToggle={() => updatePreference("expirationReminders", !preferences.expirationReminders)} iconColor={theme.success} disabled={!preferences.enabled || !permissionGranted} />
+            <ToggleItem icon="trending-down-outline" label="Estoque baixo" sublabel="Quando um item fica abaixo do minimo" value={preferences.lowStockAlerts} onToggle={() => updatePreference("lowStockAlerts", !preferences.lowStockAlerts)} iconColor={theme.success} disabled={!preferences.enabled || !permissionGranted} />
             <View style={styles.lastItem}>
-              <ToggleItem icon="construct-outline" label="Manutencoes" sublabel="Lembretes de manutencao" value={preferences.maintenanceReminders} onToggle={() => updatePreference("maintenanceReminders", !preferences.maintenanceReminders)} iconColor={theme.warning} disabled={!preferences.enabled || !permissionGranted} />
+              <ToggleItem icon="cart-outline" label="Recompra" sublabel="Itens recorrentes na hora de comprar" value={preferences.repurchaseReminders} onToggle={() => updatePreference("repurchaseReminders", !preferences.repurchaseReminders)} iconColor={theme.success} disabled={!preferences.enabled || !permissionGranted} />
             </View>
           </Card>
         </View>
@@ -178,9 +189,11 @@ export default function NotificationsSettingsScreen() {
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>ANTECEDENCIA</Text>
           <Card>
+            <SelectItem label="Tarefas" value={preferences.taskReminderOffsets.join(",")} options={taskOffsetOptions} onSelect={(v) => updatePreference("taskReminderOffsets", String(v).split(",").map(Number))} disabled={!preferences.enabled || !preferences.taskReminders || !permissionGranted} />
             <SelectItem label="Contas a pagar" value={preferences.billReminderDaysBefore} options={billDaysOptions} onSelect={(v) => updatePreference("billReminderDaysBefore", v as number)} disabled={!preferences.enabled || !preferences.billReminders || !permissionGranted} />
+            <SelectItem label="Manutencoes" value={preferences.maintenanceReminderDaysBefore} options={maintenanceDaysOptions} onSelect={(v) => updatePreference("maintenanceReminderDaysBefore", v as number)} disabled={!preferences.enabled || !preferences.maintenanceReminders || !permissionGranted} />
             <View style={styles.lastItem}>
-              <SelectItem label="Manutencoes" value={preferences.maintenanceReminderDaysBefore} options={maintenanceDaysOptions} onSelect={(v) => updatePreference("maintenanceReminderDaysBefore", v as number)} disabled={!preferences.enabled || !preferences.maintenanceReminders || !permissionGranted} />
+              <SelectItem label="Validade" value={preferences.expirationReminderDaysBefore} options={expirationDaysOptions} onSelect={(v) => updatePreference("expirationReminderDaysBefore", v as number)} disabled={!preferences.enabled || !preferences.expirationReminders || !permissionGranted} />
             </View>
           </Card>
         </View>
@@ -11,21 +11,47 @@ import {
 import { useRouter, useLocalSearchParams } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
-import { Button, Card } from "@/components/ui";
+import { Button, Card, Input } from "@/components/ui";
 import { StatusBadge } from "@/components/shared";
 import { useTaskStore } from "@/stores/taskStore";
 import { useAuthStore } from "@/stores/authStore";
+import { useHouseholdStore } from "@/stores/householdStore";
 import { useTheme } from "@/contexts/ThemeContext";
+import { getRecurrenceRule, describeRecurrence } from "@/lib/recurrence";
+import { hasRotation, getAwayUserIds, getUpcomingRotation, getMemberName } from "@/lib/rotation";
+import { getTaskHistory, isCompletedOnTime } from "@/lib/taskStats";
+import { getTaskPoints, getCompletionPoints } from "@/lib/gamification";
+import { getChecklist, getChecklistProgress } from "@/lib/checklist";
 import type { Task } from "@/types";
 
 export default function TaskDetailScreen() {
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id: string }>();
-  const { user } = useAuthStore();
-  const { tasks, completeTask, skipTask, deleteTask, isLoading } = useTaskStore();
+  const { user, household } = useAuthStore();
+  const {
+    tasks,
+    completions,
+    fetchCompletions,
+    completeTask,
+    skipTask,
+    deleteTask,
+    toggleChecklistItem,
+    isLoading,
+  } = useTaskStore();
+  const { members, fetchMembers } = useHouseholdStore();
   const { theme } = useTheme();
 
   const [task, setTask] = useState<Task | null>(null);
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (household?.id) {
+      fetchCompletions(household.id);
+      if (members.length === 0) {
+        fetchMembers(household.id);
+      }
+    }
+  }, [household?.id]);
 
   useEffect(() => {
     const found = tasks.find((t) => t.id === id);
@@ -35,17 +61,25 @@ export default function TaskDetailScreen() {
   const handleComplete = async () => {
     if (!task || !user?.id) return;
 
-    const { error } = await completeTask(task.id, user.id);
+    const { error } = await completeTask(task.id, user.id, notes);
     if (error) {
       Alert.alert("Erro", error);
       return;
     }
 
+    setNotes("");
+
     if (!task.is_recurring) {
       router.back();
     }
   };
 
+  const handleToggleItem = async (itemId: string) => {
+    if (!task || !user?.id) return;
+    const { error } = await toggleChecklistItem(task.id, itemId, user.id);
+    if (error) Alert.alert("Erro", error);
+  };
+
   const handleSkip = async () => {
     if (!task) return;
 
@@ -104,19 +138,6 @@ export default function TaskDetailScreen() {
     return timeStr.substring(0, 5);
   };
 
-  const getRecurrenceLabel = (type?: string | null) => {
-    switch (type) {
-      case "daily":
-        return "Diariamente";
-      case "weekly":
-        return "Semanalmente";
-      case "monthly":
-        return "Mensalmente";
-      default:
-        return "";
-    }
-  };
-
   const getPriorityLabel = (priority: number) => {
     switch (priority) {
       case 1:
@@ -144,6 +165,9 @@ export default function TaskDetailScreen() {
     task.due_date &&
     task.due_date < new Date().toISOString().split("T")[0];
   const priorityInfo = getPriorityLabel(task.priority);
+  const history = getTaskHistory(task, completions).slice(0, 10);
+  const checklist = getChecklist(task);
+  const checklistProgress = getChecklistProgress(task);
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={["top"]}>
@@ -234,11 +258,32 @@ export default function TaskDetailScreen() {
             <View style={styles.infoRowSimple}>
               <Ionicons name="repeat" size={18} color={theme.primary} />
               <Text style={[styles.recurrenceText, { color: theme.primary }]}>
-                {getRecurrenceLabel(task.recurrence_type)}
+                {describeRecurrence(getRecurrenceRule(task), task.due_date)}
               </Text>
             </View>
           )}
 
+          {/* Rotation */}
+          {hasRotation(task) && (
+            <View style={styles.infoRowSimple}>
+              <Ionicons name="people-outline" size={18} color={theme.gray[500]} />
+              <Text style={[styles.infoText, { color: theme.gray[700] }]}>
+                Rodizio:{" "}
+                {getUpcomingRotation(task, getAwayUserIds(members))
+                  .map((turn) => getMemberName(members, turn.userId))
+                  .join(" > ")}
+              </Text>
+            </View>
+          )}
+
+          {/* Points */}
+          <View style={styles.infoRowSimple}>
+            <Ionicons name="star-outline" size={18} color={theme.warning} />
+            <Text style={[styles.recurrenceText, { color: theme.gray[700] }]}>
+              Vale {getTaskPoints(task)} pontos
+            </Text>
+          </View>
+
           {/* Estimated Time */}
           {task.estimated_minutes && (
             <View style={styles.infoRowSimple}>
@@ -250,6 +295,52 @@ export default function TaskDetailScreen() {
           )}
         </Card>
 
+        {/* Checklist */}
+        {checklist.length > 0 && (
+          <Card style={styles.checklistCard}>
+            <View style={styles.checklistHeader}>
+              <Text style={[styles.historyTitle, { color: theme.text }]}>Checklist</Text>
+              <Text style={[styles.checklistCount, { color: theme.textSecondary }]}>
+                {checklistProgress.done}/{checklistProgress.total}
+              </Text>
+            </View>
+            <View style={[styles.progressTrack, { backgroundColor: theme.surfaceVariant }]}>
+              <View
+                style={[
+                  styles.progressBar,
+                  {
+                    backgroundColor: theme.success,
+                    width: `${(checklistProgress.done / checklistProgress.total) * 100}%`,
+                  },
+                ]}
+              />
+            </View>
+            {checklist.map((item) => (
+              <TouchableOpacity
+                key={item.id}
+                onPress={() => handleToggleItem(item.id)}
+                disabled={isCompleted}
+                style={styles.checklistItem}
+              >
+                <Ionicons
+                  name={item.is_done ? "checkbox" : "square-outline"}
+                  size={22}
+                  color={item.is_done ? theme.success : theme.gray[400]}
+                />
+                <Text
+                  style={[
+                    styles.checklistText,
+                    { color: theme.text },
+                    item.is_done && { color: theme.textMuted, textDecorationLine: 'line-through' },
+                  ]}
+                >
+                  {item.title}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </Card>
+        )}
+
         {/* Completion Info */}
         {isCompleted && task.completed_at && (
           <Card style={[styles.completedCard, { backgroundColor: theme.successLight }]}>
@@ -273,6 +364,13 @@ export default function TaskDetailScreen() {
         {/* Actions */}
         {!isCompleted && (
           <View style={styles.actionsContainer}>
+            <Input
+              label="Observacao (opcional)"
+              placeholder="Ex: faltou produto de limpeza"
+              value={notes}
+              onChangeText={setNotes}
+              autoCapitalize="sentences"
+            />
             <Button
               onPress={handleComplete}
               loading={isLoading}
@@ -293,6 +391,52 @@ export default function TaskDetailScreen() {
             )}
           </View>
         )}
+
+        {/* History */}
+        {history.length > 0 && (
+          <Card style={styles.historyCard}>
+            <Text style={[styles.historyTitle, { color: theme.text }]}>Historico</Text>
+            {history.map((completion, index) => {
+              const onTime = isCompletedOnTime(completion);
+              return (
+                <View
+                  key={completion.id}
+                  style={[
+                    styles.historyItem,
+                    index < history.length - 1 && [styles.historyItemBorder, { borderBottomColor: theme.border }],
+                  ]}
+                >
+                  <View style={styles.historyRow}>
+                    <Text style={[styles.historyName, { color: theme.text }]}>
+                      {getMemberName(members, completion.completed_by)}
+                    </Text>
+                    <StatusBadge
+                      label={onTime ? "No prazo" : "Atrasada"}
+                      variant={onTime ? "success" : "warning"}
+                    />
+                  </View>
+                  <Text style={[styles.historyDate, { color: theme.textSecondary }]}>
+                    {new Date(completion.completed_at).toLocaleDateString("pt-BR", {
+                      day: "2-digit",
+                      month: "short",
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}
+                    {completion.points ? ` - +${getCompletionPoints(completion)} pts` : ""}
+                    {completion.due_date &&
+                      ` - prevista ${new Date(completion.due_date + "T00:00:00").toLocaleDateString("pt-BR", {
+                        day: "2-digit",
+                        month: "short",
+                      })}`}
+                  </Text>
+                  {completion.notes && (
+                    <Text style={[styles.historyNotes, { color: theme.gray[600] }]}>{completion.notes}</Text>
+                  )}
+                </View>
+              );
+            })}
+          </Card>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -415,4 +559,67 @@ const styles = StyleSheet.create({
   skipButtonText: {
     fontWeight: '500',
   },
+  checklistCard: {
+    marginBottom: 16,
+  },
+  checklistHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  checklistCount: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    marginBottom: 8,
+  },
+  progressBar: {
+    height: 6,
+    borderRadius: 3,
+  },
+  checklistItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  checklistText: {
+    flex: 1,
+    marginLeft: 12,
+    fontSize: 16,
+  },
+  historyCard: {
+    marginTop: 24,
+    marginBottom: 16,
+  },
+  historyTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  historyItem: {
+    paddingVertical: 10,
+  },
+  historyItemBorder: {
+    borderBottomWidth: 1,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  historyName: {
+    fontWeight: '500',
+  },
+  historyDate: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  historyNotes: {
+    fontSize: 14,
+    marginTop: 4,
+  },
 });
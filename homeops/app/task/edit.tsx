@@ -14,16 +14,38 @@ import { useRouter, useLocalSearchParams } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { Button, Input } from "@/components/ui";
+import { RecurrencePicker, RotationPicker, ChecklistEditor, ReminderPicker } from "@/components/tasks";
 import { useTaskStore } from "@/stores/taskStore";
+import { useAuthStore } from "@/stores/authStore";
+import { useHouseholdStore } from "@/stores/householdStore";
 import { useTheme } from "@/contexts/ThemeContext";
-import type { TaskCategory, Task } from "@/types";
-
-type RecurrenceType = "daily" | "weekly" | "monthly" | null;
+import { getNotificationPreferences } from "@/services/notificationService";
+import {
+  DEFAULT_RECURRENCE_RULE,
+  getRecurrenceRule,
+  getRecurrenceFields,
+  getFirstOccurrenceOnOrAfter,
+  getTodayKey,
+  type RecurrenceRule,
+} from "@/lib/recurrence";
+import { getDefaultTaskPoints } from "@/lib/gamification";
+import { DEFAULT_TASK_REMINDER_OFFSETS, parseTime } from "@/lib/reminders";
+import { toChecklistDrafts, type ChecklistDraft } from "@/lib/checklist";
+import {
+  DEFAULT_ROTATION_SETTINGS,
+  getRotationFields,
+  getRotationSettings,
+  hasRotation,
+  type RotationSettings,
+} from "@/lib/rotation";
+import type { TaskCategory, Task, RecurrenceAnchor } from "@/types";
 
 export default function EditTaskScreen() {
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id: string }>();
-  const { tasks, categories, fetchCategories, updateTask, isLoading } = useTaskStore();
+  const { tasks, categories, fetchCategories, updateTask, saveChecklist, isLoading } = useTaskStore();
+  const { household } = useAuthStore();
+  const { members, fetchMembers } = useHouseholdStore();
   const { theme } = useTheme();
 
   const [task, setTask] = useState<Task | null>(null);
@@ -33,13 +55,24 @@ export default function EditTaskScreen() {
   const [priority, setPriority] = useState<1 | 2 | 3>(2);
   const [dueDate, setDueDate] = useState<string>("");
   const [dueTime, setDueTime] = useState<string>("");
+  const [reminderOffsets, setReminderOffsets] = useState<number[] | null>(null);
+  const [defaultReminderOffsets, setDefaultReminderOffsets] = useState(DEFAULT_TASK_REMINDER_OFFSETS);
   const [isRecurring, setIsRecurring] = useState(false);
-  const [recurrenceType, setRecurrenceType] = useState<RecurrenceType>(null);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule>(DEFAULT_RECURRENCE_RULE);
+  const [recurrenceAnchor, setRecurrenceAnchor] = useState<RecurrenceAnchor>("due_date");
+  const [isRotating, setIsRotating] = useState(false);
+  const [rotation, setRotation] = useState<RotationSettings>(DEFAULT_ROTATION_SETTINGS);
   const [estimatedMinutes, setEstimatedMinutes] = useState<string>("");
+  const [points, setPoints] = useState<string>("");
+  const [checklist, setChecklist] = useState<ChecklistDraft[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     fetchCategories();
+    if (household?.id && members.length === 0) {
+      fetchMembers(household.id);
+    }
+    getNotificationPreferences().then((prefs) => setDefaultReminderOffsets(prefs.taskReminderOffsets));
   }, []);
 
   useEffect(() => {
@@ -51,10 +84,16 @@ export default function EditTaskScreen() {
       setSelectedCategory(found.category || null);
       setPriority((found.priority as 1 | 2 | 3) || 2);
       setDueDate(found.due_date || "");
-      setDueTime(found.due_time || "");
+      setDueTime(found.due_time?.slice(0, 5) || "");
+      setReminderOffsets(found.reminder_offsets ?? null);
       setIsRecurring(found.is_recurring || false);
-      setRecurrenceType((found.recurrence_type as RecurrenceType) || null);
+      setRecurrence(getRecurrenceRule(found) || DEFAULT_RECURRENCE_RULE);
+      setRecurrenceAnchor(found.recurrence_anchor || "due_date");
+      setIsRotating(hasRotation(found));
+      setRotation(getRotationSettings(found));
       setEstimatedMinutes(found.estimated_minutes?.toString() || "");
+      setPoints(found.points?.toString() || "");
+      setChecklist(toChecklistDrafts(found));
       setLoading(false);
     } else {
       setLoading(false);
@@ -67,12 +106,6 @@ export default function EditTaskScreen() {
     { value: 3, label: "Alta", color: theme.danger },
   ];
 
-  const recurrenceOptions = [
-    { value: "daily", label: "Diaria", icon: "today-outline" },
-    { value: "weekly", label: "Semanal", icon: "calendar-outline" },
-    { value: "monthly", label: "Mensal", icon: "calendar-number-outline" },
-  ];
-
   const quickDates = [
     { label: "Hoje", getValue: () => new Date().toISOString().split("T")[0] },
     {
@@ -122,16 +155,36 @@ export default function EditTaskScreen() {
       return;
     }
 
+    if (isRecurring && recurrence.type === "custom" && recurrence.days.length === 0) {
+      Alert.alert("Erro", "Escolha pelo menos um dia da semana");
+      return;
+    }
+
+    const useRotation = isRecurring && isRotating;
+    if (useRotation && rotation.members.length < 2) {
+      Alert.alert("Erro", "Escolha pelo menos 2 moradores para o rodizio");
+      return;
+    }
+
+    const rule = isRecurring ? recurrence : null;
+    const parsedDueDate = parseDate(dueDate);
+    const nextDueDate =
+      rule && !parsedDueDate ? getFirstOccurrenceOnOrAfter(rule, getTodayKey()) : parsedDueDate;
+
     const taskData: Partial<Task> = {
       title: title.trim(),
       description: description.trim() || null,
       category_id: selectedCategory?.id || null,
       priority,
-      due_date: parseDate(dueDate),
+      due_date: nextDueDate,
       due_time: dueTime || null,
+      reminder_offsets: reminderOffsets,
       is_recurring: isRecurring,
-      recurrence_type: isRecurring ? recurrenceType : null,
+      recurrence_anchor: recurrenceAnchor,
+      ...getRecurrenceFields(rule, nextDueDate),
+      ...getRotationFields(useRotation ? rotation : null, nextDueDate, task),
       estimated_minutes: estimatedMinutes ? parseInt(estimatedMinutes) : null,
+      points: points ? parseInt(points) : null,
     };
 
     const { error } = await updateTask(task.id, taskData);
@@ -141,6 +194,13 @@ export default function EditTaskScreen() {
       return;
     }
 
+    const { error: checklistError } = await saveChecklist(task.id, checklist);
+
+    if (checklistError) {
+      Alert.alert("Erro", checklistError);
+      return;
+    }
+
     router.back();
   };
 
@@ -278,6 +338,12 @@ export default function EditTaskScreen() {
             </View>
           </View>
 
+          {/* Checklist */}
+          <View style={styles.section}>
+            <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Checklist (opcional)</Text>
+            <ChecklistEditor value={checklist} onChange={setChecklist} />
+          </View>
+
           {/* Due Date */}
           <View style={styles.section}>
             <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Data</Text>
@@ -323,6 +389,17 @@ export default function EditTaskScreen() {
             icon="time-outline"
           />
 
+          {/* Reminders */}
+          <View style={styles.section}>
+            <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Lembretes</Text>
+            <ReminderPicker
+              value={reminderOffsets}
+              onChange={setReminderOffsets}
+              hasDueTime={!!parseTime(dueTime)}
+              defaultOffsets={defaultReminderOffsets}
+            />
+          </View>
+
           {/* Recurrence */}
           <View style={styles.section}>
             <TouchableOpacity
@@ -356,37 +433,54 @@ export default function EditTaskScreen() {
             </TouchableOpacity>
 
             {isRecurring && (
-              <View style={styles.recurrenceRow}>
-                {recurrenceOptions.map((opt, index) => (
-                  <TouchableOpacity
-                    key={opt.value}
-                    onPress={() => setRecurrenceType(opt.value as RecurrenceType)}
+              <RecurrencePicker
+                value={recurrence}
+                onChange={setRecurrence}
+                anchorDate={parseDate(dueDate)}
+                anchorMode={recurrenceAnchor}
+                onAnchorModeChange={setRecurrenceAnchor}
+              />
+            )}
+          </View>
+
+          {/* Rotation */}
+          {isRecurring && (
+            <View style={styles.section}>
+              <TouchableOpacity
+                onPress={() => setIsRotating(!isRotating)}
+                style={[styles.toggleRow, { backgroundColor: theme.surface, borderColor: theme.border }]}
+              >
+                <View style={styles.toggleLeft}>
+                  <Ionicons
+                    name="people-outline"
+                    size={20}
+                    color={isRotating ? theme.primary : theme.gray[400]}
+                  />
+                  <Text
                     style={[
-                      styles.recurrenceButton,
-                      { borderColor: theme.border, backgroundColor: theme.surface },
-                      recurrenceType === opt.value && { borderColor: theme.primary, backgroundColor: theme.primaryLight },
-                      index < recurrenceOptions.length - 1 && styles.recurrenceButtonMargin,
+                      styles.toggleText,
+                      { color: theme.gray[700] },
+                      isRotating && { color: theme.primary },
                     ]}
                   >
-                    <Ionicons
-                      name={opt.icon as keyof typeof Ionicons.glyphMap}
-                      size={20}
-                      color={recurrenceType === opt.value ? theme.primary : theme.gray[400]}
-                    />
-                    <Text
-                      style={[
-                        styles.recurrenceButtonText,
-                        { color: theme.gray[600] },
-                        recurrenceType === opt.value && { color: theme.primary },
-                      ]}
-                    >
-                      {opt.label}
-                    </Text>
-                  </TouchableOpacity>
-                ))}
-              </View>
-            )}
-          </View>
+                    Rodizio entre moradores
+                  </Text>
+                </View>
+                <View style={[styles.toggle, { backgroundColor: theme.gray[300] }, isRotating && { backgroundColor: theme.primary }]}>
+                  <View
+                    style={[
+                      styles.toggleThumb,
+                      isRotating && styles.toggleThumbActive,
+                    ]}
+                  />
+                </View>
+              </TouchableOpacity>
+
+              {isRotating && (
+                <RotationPicker members={members} value={rotation} onChange={setRotation} />
+              )}
+            </View>
+          )}
 
           {/* Estimated Time */}
           <Input
@@ -398,6 +492,19 @@ export default function EditTaskScreen() {
             icon="hourglass-outline"
           />
 
+          {/* Points */}
+          <Input
+            label="Pontos (opcional)"
+            placeholder={`Padrao: ${getDefaultTaskPoints({
+              priority,
+              estimated_minutes: estimatedMinutes ? parseInt(estimatedMinutes) : null,
+            })}`}
+            value={points}
+            onChangeText={setPoints}
+            keyboardType="numeric"
+            icon="star-outline"
+          />
+
           {/* Submit Button */}
           <View style={styles.submitContainer}>
             <Button
@@ -550,25 +657,6 @@ const styles = StyleSheet.create({
   toggleThumbActive: {
     alignSelf: 'flex-end',
   },
-  recurrenceRow: {
-    flexDirection: 'row',
-    marginTop: 12,
-  },
-  recurrenceButton: {
-    flex: 1,
-    paddingVertical: 12,
-    borderRadius: 12,
-    alignItems: 'center',
-    borderWidth: 2,
-  },
-  recurrenceButtonMargin: {
-    marginRight: 8,
-  },
-  recurrenceButtonText: {
-    marginTop: 4,
-    fontSize: 14,
-    fontWeight: '500',
-  },
   submitContainer: {
     marginTop: 16,
     marginBottom: 32,
@@ -0,0 +1,293 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  StyleSheet,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { Card } from "@/components/ui";
+import { useTaskStore } from "@/stores/taskStore";
+import { useAuthStore } from "@/stores/authStore";
+import { useHouseholdStore } from "@/stores/householdStore";
+import { useTheme } from "@/contexts/ThemeContext";
+import { getMemberName } from "@/lib/rotation";
+import { getPeriodStart } from "@/lib/taskStats";
+import { getBadgesByIds } from "@/lib/gamification";
+import type { LeaderboardEntry } from "@/types";
+
+const medalColors = ["#F59E0B", "#9CA3AF", "#B45309"]; // Ouro, prata, bronze
+
+export default function LeaderboardScreen() {
+  const router = useRouter();
+  const { user, household } = useAuthStore();
+  const { leaderboard, fetchLeaderboard } = useTaskStore();
+  const { members, fetchMembers } = useHouseholdStore();
+  const { theme } = useTheme();
+
+  const [refreshing, setRefreshing] = useState(false);
+  const weekStart = getPeriodStart("week");
+
+  const loadData = useCallback(async () => {
+    if (!household?.id) return;
+    await Promise.all([
+      fetchLeaderboard(household.id, weekStart),
+      fetchMembers(household.id),
+    ]);
+  }, [household?.id, weekStart]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadData();
+    setRefreshing(false);
+  }, [loadData]);
+
+  // Moradores sem pontos na semana tambem aparecem no ranking
+  const ranking: LeaderboardEntry[] = [
+    ...leaderboard,
+    ...members
+      .filter((m) => !leaderboard.some((entry) => entry.user_id === m.user_id))
+      .map((m) => ({ user_id: m.user_id, points: 0, completions: 0, on_time: 0, current_streak: 0, badges: [] })),
+  ];
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={["top"]}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color={theme.gray[700]} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.text }]}>Ranking da Semana</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={theme.primary} />
+        }
+      >
+        <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+          Desde{" "}
+          {new Date(weekStart + "T00:00:00").toLocaleDateString("pt-BR", {
+            weekday: "long",
+            day: "2-digit",
+            month: "2-digit",
+          })}
+        </Text>
+
+        {ranking.map((entry, index) => {
+          const isMe = entry.user_id === user?.id;
+          const badges = getBadgesByIds(entry.badges);
+          const hasMedal = index < medalColors.length && entry.points > 0;
+
+          return (
+            <Card
+              key={entry.user_id}
+              style={isMe ? { ...styles.entryCard, borderWidth: 2, borderColor: theme.primary } : styles.entryCard}
+            >
+              <View style={styles.entryRow}>
+                <View
+                  style={[
+                    styles.position,
+                    { backgroundColor: hasMedal ? medalColors[index] : theme.surfaceVariant },
+                  ]}
+                >
+                  {hasMedal ? (
+                    <Ionicons name="trophy" size={16} color={theme.surface} />
+                  ) : (
+                    <Text style={[styles.positionText, { color: theme.textSecondary }]}>{index + 1}</Text>
+                  )}
+                </View>
+
+                <View style={styles.entryInfo}>
+                  <Text style={[styles.entryName, { color: theme.text }]}>
+                    {getMemberName(members, entry.user_id)}
+                    {isMe ? " (voce)" : ""}
+                  </Text>
+                  <Text style={[styles.entryMeta, { color: theme.textSecondary }]}>
+                    {entry.completions} tarefa{entry.completions !== 1 ? "s" : ""} - {entry.on_time} no prazo
+                  </Text>
+                </View>
+
+                <View style={styles.entryPoints}>
+                  <Text style={[styles.pointsValue, { color: theme.primary }]}>{entry.points}</Text>
+                  <Text style={[styles.pointsLabel, { color: theme.textSecondary }]}>pts</Text>
+                </View>
+              </View>
+
+              {entry.current_streak > 1 && (
+                <View style={styles.streakRow}>
+                  <Ionicons name="flame" size={14} color={theme.danger} />
+                  <Text style={[styles.streakText, { color: theme.danger }]}>
+                    {entry.current_streak} seguidas no prazo
+                  </Text>
+                </View>
+              )}
+
+              {badges.length > 0 && (
+                <View style={styles.badgesRow}>
+                  {badges.map((badge) => (
+                    <View
+                      key={badge.id}
+                      style={[styles.badge, { backgroundColor: theme.warning + "20" }]}
+                    >
+                      <Ionicons
+                        name={badge.icon as keyof typeof Ionicons.glyphMap}
+                        size={12}
+                        color={theme.warning}
+                      />
+                      <Text style={[styles.badgeText, { color: theme.warning }]}>{badge.label}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+            </Card>
+          );
+        })}
+
+        {/* How it works */}
+        <Card style={styles.infoCard}>
+          <View style={styles.infoRow}>
+            <Ionicons name="information-circle-outline" size={20} color={theme.textSecondary} />
+            <Text style={[styles.infoText, { color: theme.textSecondary }]}>
+              Cada tarefa vale pontos conforme prioridade e tempo estimado. Concluir no prazo varias vezes seguidas da ate +5 pontos de bonus por tarefa.
+            </Text>
+          </View>
+        </Card>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: -8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  subtitle: {
+    fontSize: 14,
+    marginBottom: 12,
+    textTransform: 'capitalize',
+  },
+  entryCard: {
+    marginBottom: 8,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  position: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  positionText: {
+    fontWeight: '600',
+  },
+  entryInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  entryName: {
+    fontWeight: '600',
+  },
+  entryMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  entryPoints: {
+    alignItems: 'flex-end',
+  },
+  pointsValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+  pointsLabel: {
+    fontSize: 12,
+  },
+  streakRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    marginLeft: 44,
+  },
+  streakText: {
+    fontSize: 12,
+    marginLeft: 4,
+    fontWeight: '500',
+  },
+  badgesRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+    marginLeft: 44,
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 999,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  badgeText: {
+    fontSize: 12,
+    marginLeft: 4,
+    fontWeight: '500',
+  },
+  infoCard: {
+    marginTop: 16,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  infoText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+});
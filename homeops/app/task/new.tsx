@@ -13,17 +13,30 @@ import { useRouter } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { Button, Input, Card } from "@/components/ui";
+import { RecurrencePicker, RotationPicker, ChecklistEditor, ReminderPicker } from "@/components/tasks";
 import { useTaskStore } from "@/stores/taskStore";
 import { useAuthStore } from "@/stores/authStore";
+import { useHouseholdStore } from "@/stores/householdStore";
 import { useTheme } from "@/contexts/ThemeContext";
-import type { TaskCategory } from "@/types";
-
-type RecurrenceType = "daily" | "weekly" | "monthly" | null;
+import { getNotificationPreferences } from "@/services/notificationService";
+import {
+  DEFAULT_RECURRENCE_RULE,
+  getRecurrenceFields,
+  getFirstOccurrenceOnOrAfter,
+  getTodayKey,
+  type RecurrenceRule,
+} from "@/lib/recurrence";
+import { getDefaultTaskPoints } from "@/lib/gamification";
+import { DEFAULT_TASK_REMINDER_OFFSETS, parseTime } from "@/lib/reminders";
+import type { ChecklistDraft } from "@/lib/checklist";
+import { DEFAULT_ROTATION_SETTINGS, getRotationFields, type RotationSettings } from "@/lib/rotation";
+import type { TaskCategory, RecurrenceAnchor } from "@/types";
 
 export default function NewTaskScreen() {
   const router = useRouter();
   const { user, household } = useAuthStore();
   const { categories, fetchCategories, createTask, isLoading } = useTaskStore();
+  const { members, fetchMembers } = useHouseholdStore();
   const { theme } = useTheme();
 
   const [title, setTitle] = useState("");
@@ -32,12 +45,23 @@ export default function NewTaskScreen() {
   const [priority, setPriority] = useState<1 | 2 | 3>(2);
   const [dueDate, setDueDate] = useState<string>("");
   const [dueTime, setDueTime] = useState<string>("");
+  const [reminderOffsets, setReminderOffsets] = useState<number[] | null>(null);
+  const [defaultReminderOffsets, setDefaultReminderOffsets] = useState(DEFAULT_TASK_REMINDER_OFFSETS);
   const [isRecurring, setIsRecurring] = useState(false);
-  const [recurrenceType, setRecurrenceType] = useState<RecurrenceType>(null);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule>(DEFAULT_RECURRENCE_RULE);
+  const [recurrenceAnchor, setRecurrenceAnchor] = useState<RecurrenceAnchor>("due_date");
+  const [isRotating, setIsRotating] = useState(false);
+  const [rotation, setRotation] = useState<RotationSettings>(DEFAULT_ROTATION_SETTINGS);
   const [estimatedMinutes, setEstimatedMinutes] = useState<string>("");
+  const [points, setPoints] = useState<string>("");
+  const [checklist, setChecklist] = useState<ChecklistDraft[]>([]);
 
   useEffect(() => {
     fetchCategories();
+    if (household?.id && members.length === 0) {
+      fetchMembers(household.id);
+    }
+    getNotificationPreferences().then((prefs) => setDefaultReminderOffsets(prefs.taskReminderOffsets));
   }, []);
 
   const priorityOptions = [
@@ -46,12 +70,6 @@ export default function NewTaskScreen() {
     { value: 3, label: "Alta", color: theme.danger },
   ];
 
-  const recurrenceOptions = [
-    { value: "daily", label: "Diaria", icon: "today-outline" },
-    { value: "weekly", label: "Semanal", icon: "calendar-outline" },
-    { value: "monthly", label: "Mensal", icon: "calendar-number-outline" },
-  ];
-
   const quickDates = [
     { label: "Hoje", getValue: () => new Date().toISOString().split("T")[0] },
     {
@@ -101,23 +119,46 @@ export default function NewTaskScreen() {
       return;
     }
 
+    if (isRecurring && recurrence.type === "custom" && recurrence.days.length === 0) {
+      Alert.alert("Erro", "Escolha pelo menos um dia da semana");
+      return;
+    }
+
+    const useRotation = isRecurring && isRotating;
+    if (useRotation && rotation.members.length < 2) {
+      Alert.alert("Erro", "Escolha pelo menos 2 moradores para o rodizio");
+      return;
+    }
+
+    const rule = isRecurring ? recurrence : null;
+    const parsedDueDate = parseDate(dueDate);
+    // Recorrente sem data comeca na primeira ocorrencia a partir de hoje
+    const firstDueDate =
+      rule && !parsedDueDate ? getFirstOccurrenceOnOrAfter(rule, getTodayKey()) : parsedDueDate;
+
     const taskData = {
       household_id: household.id,
       title: title.trim(),
       description: description.trim() || null,
       category_id: selectedCategory?.id || null,
       priority,
-      due_date: parseDate(dueDate),
+      due_date: firstDueDate,
       due_time: dueTime || null,
+      reminder_offsets: reminderOffsets,
       is_recurring: isRecurring,
-      recurrence_type: isRecurring ? recurrenceType : null,
-      recurrence_interval: 1,
+      recurrence_anchor: recurrenceAnchor,
+      ...getRecurrenceFields(rule, firstDueDate),
+      ...getRotationFields(useRotation ? rotation : null, firstDueDate),
       estimated_minutes: estimatedMinutes ? parseInt(estimatedMinutes) : null,
+      points: points ? parseInt(points) : null,
       status: "pending" as const,
       created_by: user?.id,
     };
 
-    const { error } = await createTask(taskData);
+    const { error } = await createTask(
+      taskData,
+      checklist.map((item) => item.title)
+    );
 
     if (error) {
       Alert.alert("Erro", error);
@@ -242,6 +283,12 @@ export default function NewTaskScreen() {
             </View>
           </View>
 
+          {/* Checklist */}
+          <View style={styles.section}>
+            <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Checklist (opcional)</Text>
+            <ChecklistEditor value={checklist} onChange={setChecklist} />
+          </View>
+
           {/* Due Date */}
           <View style={styles.section}>
             <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Data</Text>
@@ -287,6 +334,17 @@ export default function NewTaskScreen() {
             icon="time-outline"
           />
 
+          {/* Reminders */}
+          <View style={styles.section}>
+            <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>Lembretes</Text>
+            <ReminderPicker
+              value={reminderOffsets}
+              onChange={setReminderOffsets}
+              hasDueTime={!!parseTime(dueTime)}
+              defaultOffsets={defaultReminderOffsets}
+            />
+          </View>
+
           {/* Recurrence */}
           <View style={styles.section}>
             <TouchableOpacity
@@ -320,37 +378,54 @@ export default function NewTaskScreen() {
             </TouchableOpacity>
 
             {isRecurring && (
-              <View style={styles.recurrenceRow}>
-                {recurrenceOptions.map((opt, index) => (
-                  <TouchableOpacity
-                    key={opt.value}
-                    onPress={() => setRecurrenceType(opt.value as RecurrenceType)}
+              <RecurrencePicker
+                value={recurrence}
+                onChange={setRecurrence}
+                anchorDate={parseDate(dueDate)}
+                anchorMode={recurrenceAnchor}
+                onAnchorModeChange={setRecurrenceAnchor}
+              />
+            )}
+          </View>
+
+          {/* Rotation */}
+          {isRecurring && (
+            <View style={styles.section}>
+              <TouchableOpacity
+                onPress={() => setIsRotating(!isRotating)}
+                style={[styles.toggleRow, { backgroundColor: theme.surface, borderColor: theme.border }]}
+              >
+                <View style={styles.toggleLeft}>
+                  <Ionicons
+                    name="people-outline"
+                    size={20}
+                    color={isRotating ? theme.primary : theme.gray[400]}
+                  />
+                  <Text
                     style={[
-                      styles.recurrenceButton,
-                      { borderColor: theme.border, backgroundColor: theme.surface },
-                      recurrenceType === opt.value && { borderColor: theme.primary, backgroundColor: theme.primaryLight },
-                      index < recurrenceOptions.length - 1 && styles.recurrenceButtonMargin,
+                      styles.toggleText,
+                      { color: theme.gray[700] },
+                      isRotating && { color: theme.primary },
                     ]}
                   >
-                    <Ionicons
-                      name={opt.icon as keyof typeof Ionicons.glyphMap}
-                      size={20}
-                      color={recurrenceType === opt.value ? theme.primary : theme.gray[400]}
-                    />
-                    <Text
-                      style={[
-                        styles.recurrenceButtonText,
-                        { color: theme.gray[600] },
-                        recurrenceType === opt.value && { color: theme.primary },
-                      ]}
-                    >
-                      {opt.label}
-                    </Text>
-                  </TouchableOpacity>
-                ))}
-              </View>
-            )}
-          </View>
+                    Rodizio entre moradores
+                  </Text>
+                </View>
+                <View style={[styles.toggle, { backgroundColor: theme.gray[300] }, isRotating && { backgroundColor: theme.primary }]}>
+                  <View
+                    style={[
+                      styles.toggleThumb,
+                      isRotating && styles.toggleThumbActive,
+                    ]}
+                  />
+                </View>
+              </TouchableOpacity>
+
+              {isRotating && (
+                <RotationPicker members={members} value={rotation} onChange={setRotation} />
+              )}
+            </View>
+          )}
 
           {/* Estimated Time */}
           <Input
@@ -362,6 +437,19 @@ export default function NewTaskScreen() {
             icon="hourglass-outline"
           />
 
+          {/* Points */}
+          <Input
+            label="Pontos (opcional)"
+            placeholder={`Padrao: ${getDefaultTaskPoints({
+              priority,
+              estimated_minutes: estimatedMinutes ? parseInt(estimatedMinutes) : null,
+            })}`}
+            value={points}
+            onChangeText={setPoints}
+            keyboardType="numeric"
+            icon="star-outline"
+          />
+
           {/* Submit Button */}
           <View style={styles.submitContainer}>
             <Button
@@ -504,25 +592,6 @@ const styles = StyleSheet.create({
   toggleThumbActive: {
     alignSelf: 'flex-end',
   },
-  recurrenceRow: {
-    flexDirection: 'row',
-    marginTop: 12,
-  },
-  recurrenceButton: {
-    flex: 1,
-    paddingVertical: 12,
-    borderRadius: 12,
-    alignItems: 'center',
-    borderWidth: 2,
-  },
-  recurrenceButtonMargin: {
-    marginRight: 8,
-  },
-  recurrenceButtonText: {
-    marginTop: 4,
-    fontSize: 14,
-    fontWeight: '500',
-  },
   submitContainer: {
     marginTop: 16,
     marginBottom: 32,
@@ -0,0 +1,233 @@
+import { useState } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  StyleSheet,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { Button, Input } from "@/components/ui";
+import { useTaskStore, getPendingTasks } from "@/stores/taskStore";
+import { useTemplateStore } from "@/stores/templateStore";
+import { useAuthStore } from "@/stores/authStore";
+import { useTheme } from "@/contexts/ThemeContext";
+import { describeRecurrence, getRecurrenceRule } from "@/lib/recurrence";
+import { taskToTemplateItem } from "@/lib/templates";
+
+export default function SaveTemplateScreen() {
+  const router = useRouter();
+  const { user, household } = useAuthStore();
+  const { tasks } = useTaskStore();
+  const { saveTemplate, isLoading } = useTemplateStore();
+  const { theme } = useTheme();
+
+  const pendingTasks = getPendingTasks(tasks);
+
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  // Por padrao leva as tarefas recorrentes (a rotina da casa)
+  const [selectedIds, setSelectedIds] = useState<string[]>(
+    pendingTasks.filter((t) => t.is_recurring).map((t) => t.id)
+  );
+
+  const toggleTask = (taskId: string) => {
+    setSelectedIds((ids) =>
+      ids.includes(taskId) ? ids.filter((id) => id !== taskId) : [...ids, taskId]
+    );
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert("Erro", "Digite um nome para o modelo");
+      return;
+    }
+
+    if (selectedIds.length === 0) {
+      Alert.alert("Erro", "Escolha pelo menos uma tarefa");
+      return;
+    }
+
+    if (!household?.id) {
+      Alert.alert("Erro", "Household nao encontrado");
+      return;
+    }
+
+    const { error } = await saveTemplate({
+      household_id: household.id,
+      name: name.trim(),
+      description: description.trim() || null,
+      icon: "albums-outline",
+      items: pendingTasks.filter((t) => selectedIds.includes(t.id)).map(taskToTemplateItem),
+      created_by: user?.id,
+    });
+
+    if (error) {
+      Alert.alert("Erro", error);
+      return;
+    }
+
+    router.back();
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={["top"]}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.flex}
+      >
+        {/* Header */}
+        <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color={theme.gray[700]} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>Salvar como Modelo</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Input
+            label="Nome do modelo"
+            placeholder="Ex: Rotina do apartamento"
+            value={name}
+            onChangeText={setName}
+            autoCapitalize="sentences"
+          />
+
+          <Input
+            label="Descricao (opcional)"
+            placeholder="Para que serve este modelo?"
+            value={description}
+            onChangeText={setDescription}
+            autoCapitalize="sentences"
+          />
+
+          <Text style={[styles.sectionLabel, { color: theme.gray[700] }]}>
+            Tarefas ({selectedIds.length})
+          </Text>
+
+          {pendingTasks.length === 0 ? (
+            <Text style={[styles.emptyText, { color: theme.textMuted }]}>Nenhuma tarefa pendente</Text>
+          ) : (
+            pendingTasks.map((task) => {
+              const selected = selectedIds.includes(task.id);
+              return (
+                <TouchableOpacity
+                  key={task.id}
+                  onPress={() => toggleTask(task.id)}
+                  style={[
+                    styles.taskRow,
+                    { borderColor: theme.border, backgroundColor: theme.surface },
+                    selected && { borderColor: theme.primary, backgroundColor: theme.primaryLight },
+                  ]}
+                >
+                  <Ionicons
+                    name={selected ? "checkbox" : "square-outline"}
+                    size={22}
+                    color={selected ? theme.primary : theme.gray[400]}
+                  />
+                  <View style={styles.taskContent}>
+                    <Text style={[styles.taskTitle, { color: theme.text }]}>{task.title}</Text>
+                    <Text style={[styles.taskMeta, { color: theme.textSecondary }]}>
+                      {task.is_recurring
+                        ? describeRecurrence(getRecurrenceRule(task), task.due_date)
+                        : "Uma vez"}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            })
+          )}
+
+          <View style={styles.submitContainer}>
+            <Button
+              onPress={handleSave}
+              loading={isLoading}
+              disabled={!name.trim() || selectedIds.length === 0}
+              fullWidth
+              size="lg"
+            >
+              Salvar Modelo
+            </Button>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  flex: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: -8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  sectionLabel: {
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  emptyText: {
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  taskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+    marginBottom: 8,
+  },
+  taskContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  taskTitle: {
+    fontWeight: '500',
+  },
+  taskMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  submitContainer: {
+    marginTop: 16,
+    marginBottom: 32,
+  },
+});
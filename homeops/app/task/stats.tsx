@@ -0,0 +1,362 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  StyleSheet,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { Card } from "@/components/ui";
+import { useTaskStore, getOverdueTasks } from "@/stores/taskStore";
+import { useAuthStore } from "@/stores/authStore";
+import { useHouseholdStore } from "@/stores/householdStore";
+import { useTheme } from "@/contexts/ThemeContext";
+import { getMemberName } from "@/lib/rotation";
+import {
+  mergeCompletedTasks,
+  getMemberStats,
+  getWeeklyCounts,
+  getOverdueRatio,
+  type StatsPeriod,
+} from "@/lib/taskStats";
+
+const periodOptions: { key: StatsPeriod; label: string }[] = [
+  { key: "week", label: "Esta semana" },
+  { key: "month", label: "Este mes" },
+];
+
+const formatPercent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+export default function TaskStatsScreen() {
+  const router = useRouter();
+  const { user, household } = useAuthStore();
+  const { tasks, completions, fetchTasks, fetchCompletions } = useTaskStore();
+  const { members, fetchMembers } = useHouseholdStore();
+  const { theme } = useTheme();
+
+  const [period, setPeriod] = useState<StatsPeriod>("week");
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadData = useCallback(async () => {
+    if (!household?.id) return;
+    await Promise.all([
+      fetchCompletions(household.id),
+      fetchMembers(household.id),
+    ]);
+  }, [household?.id]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const onRefresh = useCallback(async () => {
+    if (!household?.id) return;
+    setRefreshing(true);
+    await Promise.all([loadData(), fetchTasks(household.id)]);
+    setRefreshing(false);
+  }, [household?.id, loadData]);
+
+  const allCompletions = mergeCompletedTasks(completions, tasks);
+  const userIds = members.map((m) => m.user_id);
+  const stats = getMemberStats(allCompletions, userIds, period);
+  const weekly = getWeeklyCounts(allCompletions, 4);
+  const maxWeekly = Math.max(
+    1,
+    ...weekly.map((w) => Object.values(w.counts).reduce((sum, n) => sum + n, 0))
+  );
+
+  const periodTotal = stats.reduce((sum, s) => sum + s.total, 0);
+  const periodLate = stats.reduce((sum, s) => sum + s.late, 0);
+  const overdueCount = getOverdueTasks(tasks).length;
+  const overdueRatio = getOverdueRatio(tasks);
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={["top"]}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color={theme.gray[700]} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.text }]}>Estatisticas</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={theme.primary} />
+        }
+      >
+        {/* Period */}
+        <View style={[styles.tabContainer, { backgroundColor: theme.surfaceVariant }]}>
+          {periodOptions.map((opt) => (
+            <TouchableOpacity
+              key={opt.key}
+              onPress={() => setPeriod(opt.key)}
+              style={[styles.tab, period === opt.key && { backgroundColor: theme.surface }]}
+            >
+              <Text
+                style={[
+                  styles.tabText,
+                  { color: theme.textSecondary },
+                  period === opt.key && { color: theme.primary },
+                ]}
+              >
+                {opt.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Summary */}
+        <View style={styles.summaryRow}>
+          <Card style={styles.summaryCard}>
+            <Text style={[styles.summaryValue, { color: theme.text }]}>{periodTotal}</Text>
+            <Text style={[styles.summaryLabel, { color: theme.textSecondary }]}>Concluidas</Text>
+          </Card>
+          <Card style={styles.summaryCard}>
+            <Text style={[styles.summaryValue, { color: theme.success }]}>
+              {formatPercent(periodTotal > 0 ? (periodTotal - periodLate) / periodTotal : 0)}
+            </Text>
+            <Text style={[styles.summaryLabel, { color: theme.textSecondary }]}>No prazo</Text>
+          </Card>
+          <Card style={styles.summaryCard}>
+            <Text style={[styles.summaryValue, { color: overdueCount > 0 ? theme.danger : theme.text }]}>
+              {overdueCount}
+            </Text>
+            <Text style={[styles.summaryLabel, { color: theme.textSecondary }]}>
+              Atrasadas ({formatPercent(overdueRatio)})
+            </Text>
+          </Card>
+        </View>
+
+        {/* Members */}
+        <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>POR MORADOR</Text>
+        {stats.length === 0 ? (
+          <Card>
+            <Text style={[styles.emptyText, { color: theme.textMuted }]}>Nenhum morador encontrado</Text>
+          </Card>
+        ) : (
+          stats.map((s, index) => (
+            <Card key={s.userId} style={styles.memberCard}>
+              <View style={styles.memberHeader}>
+                <View style={[styles.rankBadge, { backgroundColor: index === 0 && s.total > 0 ? theme.primary : theme.surfaceVariant }]}>
+                  <Text
+                    style={[
+                      styles.rankText,
+                      { color: index === 0 && s.total > 0 ? theme.surface : theme.textSecondary },
+                    ]}
+                  >
+                    {index + 1}
+                  </Text>
+                </View>
+                <Text style={[styles.memberName, { color: theme.text }]}>
+                  {getMemberName(members, s.userId)}
+                  {s.userId === user?.id ? " (voce)" : ""}
+                </Text>
+                <Text style={[styles.memberTotal, { color: theme.primary }]}>{s.total}</Text>
+              </View>
+
+              <View style={styles.memberStatsRow}>
+                <View style={styles.memberStat}>
+                  <Ionicons name="checkmark-circle-outline" size={14} color={theme.success} />
+                  <Text style={[styles.memberStatText, { color: theme.textSecondary }]}>
+                    {s.onTime} no prazo
+                  </Text>
+                </View>
+                <View style={styles.memberStat}>
+                  <Ionicons name="time-outline" size={14} color={s.late > 0 ? theme.warning : theme.textMuted} />
+                  <Text style={[styles.memberStatText, { color: theme.textSecondary }]}>
+                    {s.late} atrasada{s.late !== 1 ? "s" : ""} ({formatPercent(s.lateRatio)})
+                  </Text>
+                </View>
+                <View style={styles.memberStat}>
+                  <Ionicons name="flame-outline" size={14} color={s.currentStreak > 0 ? theme.danger : theme.textMuted} />
+                  <Text style={[styles.memberStatText, { color: theme.textSecondary }]}>
+                    {s.currentStreak} dia{s.currentStreak !== 1 ? "s" : ""} (recorde {s.bestStreak})
+                  </Text>
+                </View>
+              </View>
+            </Card>
+          ))
+        )}
+
+        {/* Weekly */}
+        <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>ULTIMAS 4 SEMANAS</Text>
+        <Card>
+          {weekly.map((week) => {
+            const total = Object.values(week.counts).reduce((sum, n) => sum + n, 0);
+            return (
+              <View key={week.weekStart} style={styles.weekRow}>
+                <Text style={[styles.weekLabel, { color: theme.textSecondary }]}>
+                  {new Date(week.weekStart + "T00:00:00").toLocaleDateString("pt-BR", {
+                    day: "2-digit",
+                    month: "2-digit",
+                  })}
+                </Text>
+                <View style={[styles.weekBarTrack, { backgroundColor: theme.surfaceVariant }]}>
+                  <View
+                    style={[
+                      styles.weekBar,
+                      { backgroundColor: theme.primary, width: `${(total / maxWeekly) * 100}%` },
+                    ]}
+                  />
+                </View>
+                <Text style={[styles.weekTotal, { color: theme.text }]}>{total}</Text>
+              </View>
+            );
+          })}
+        </Card>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: -8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  tabContainer: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 16,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  tabText: {
+    fontWeight: '500',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    marginHorizontal: -4,
+    marginBottom: 8,
+  },
+  summaryCard: {
+    flex: 1,
+    marginHorizontal: 4,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  memberCard: {
+    marginBottom: 8,
+  },
+  memberHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rankBadge: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rankText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  memberName: {
+    flex: 1,
+    marginLeft: 12,
+    fontWeight: '600',
+  },
+  memberTotal: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  memberStatsRow: {
+    marginTop: 8,
+    marginLeft: 40,
+  },
+  memberStat: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  memberStatText: {
+    fontSize: 12,
+    marginLeft: 6,
+  },
+  weekRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  weekLabel: {
+    width: 48,
+    fontSize: 12,
+  },
+  weekBarTrack: {
+    flex: 1,
+    height: 10,
+    borderRadius: 5,
+    overflow: 'hidden',
+  },
+  weekBar: {
+    height: 10,
+    borderRadius: 5,
+  },
+  weekTotal: {
+    width: 32,
+    textAlign: 'right',
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,393 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  Share,
+  StyleSheet,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { Button, Card, Input } from "@/components/ui";
+import { useAuthStore } from "@/stores/authStore";
+import { useTemplateStore, findTemplateByCode } from "@/stores/templateStore";
+import { useTheme } from "@/contexts/ThemeContext";
+import { ROUTINE_PACKS } from "@/constants/routinePacks";
+import { describeRecurrence } from "@/lib/recurrence";
+import { getTemplateRule } from "@/lib/templates";
+import type { TaskTemplate } from "@/types";
+
+interface TemplateCardProps {
+  template: TaskTemplate;
+  onApply: () => void;
+  onShare?: () => void;
+  onDelete?: () => void;
+}
+
+function TemplateCard({ template, onApply, onShare, onDelete }: TemplateCardProps) {
+  const { theme } = useTheme();
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <Card style={styles.templateCard}>
+      <TouchableOpacity onPress={() => setExpanded(!expanded)} style={styles.templateHeader}>
+        <View style={[styles.templateIcon, { backgroundColor: theme.primary + "20" }]}>
+          <Ionicons
+            name={template.icon as keyof typeof Ionicons.glyphMap}
+            size={22}
+            color={theme.primary}
+          />
+        </View>
+        <View style={styles.templateInfo}>
+          <Text style={[styles.templateName, { color: theme.text }]}>{template.name}</Text>
+          <Text style={[styles.templateMeta, { color: theme.textSecondary }]}>
+            {template.items.length} tarefa{template.items.length !== 1 ? "s" : ""}
+            {template.description ? ` - ${template.description}` : ""}
+          </Text>
+        </View>
+        <Ionicons
+          name={expanded ? "chevron-up" : "chevron-down"}
+          size={20}
+          color={theme.textMuted}
+        />
+      </TouchableOpacity>
+
+      {expanded && (
+        <View style={[styles.itemsList, { borderTopColor: theme.border }]}>
+          {template.items.map((item, index) => (
+            <View key={`${item.title}_${index}`} style={styles.itemRow}>
+              <Ionicons name="ellipse" size={6} color={theme.textMuted} />
+              <View style={styles.itemContent}>
+                <Text style={[styles.itemTitle, { color: theme.text }]}>{item.title}</Text>
+                <Text style={[styles.itemMeta, { color: theme.textSecondary }]}>
+                  {item.recurrence ? describeRecurrence(getTemplateRule(item.recurrence)) : "Uma vez"}
+                  {item.estimated_minutes ? ` - ~${item.estimated_minutes} min` : ""}
+                </Text>
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.templateActions}>
+        {onDelete && (
+          <TouchableOpacity onPress={onDelete} style={styles.iconAction}>
+            <Ionicons name="trash-outline" size={20} color={theme.danger} />
+          </TouchableOpacity>
+        )}
+        {onShare && template.share_code && (
+          <TouchableOpacity onPress={onShare} style={styles.shareAction}>
+            <Ionicons name="share-outline" size={18} color={theme.primary} />
+            <Text style={[styles.shareCode, { color: theme.primary }]}>{template.share_code}</Text>
+          </TouchableOpacity>
+        )}
+        <View style={styles.flex} />
+        <TouchableOpacity
+          onPress={onApply}
+          style={[styles.applyButton, { backgroundColor: theme.primary }]}
+        >
+          <Ionicons name="add" size={18} color={theme.surface} />
+          <Text style={[styles.applyText, { color: theme.surface }]}>Aplicar</Text>
+        </TouchableOpacity>
+      </View>
+    </Card>
+  );
+}
+
+export default function TemplatesScreen() {
+  const router = useRouter();
+  const { user, household } = useAuthStore();
+  const { templates, isLoading, fetchTemplates, deleteTemplate, applyTemplate } = useTemplateStore();
+  const { theme } = useTheme();
+
+  const [code, setCode] = useState("");
+  const [searching, setSearching] = useState(false);
+  const [imported, setImported] = useState<TaskTemplate | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    if (household?.id) {
+      await fetchTemplates(household.id);
+    }
+  }, [household?.id]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const handleApply = (template: TaskTemplate) => {
+    if (!household?.id) return;
+
+    Alert.alert(
+      "Aplicar modelo",
+      `Criar ${template.items.length} tarefa${template.items.length !== 1 ? "s" : ""} de "${template.name}"?`,
+      [
+        { text: "Cancelar", style: "cancel" },
+        {
+          text: "Criar",
+          onPress: async () => {
+            const { error, count } = await applyTemplate(template.items, household.id, user?.id);
+            if (error) {
+              Alert.alert("Erro", error);
+              return;
+            }
+            Alert.alert("Pronto", `${count} tarefa${count !== 1 ? "s" : ""} criada${count !== 1 ? "s" : ""}`);
+          },
+        },
+      ]
+    );
+  };
+
+  const handleShare = async (template: TaskTemplate) => {
+    try {
+      await Share.share({
+        message: `Use meu modelo de rotina "${template.name}" no HomeOps!\n\nCodigo do modelo: ${template.share_code}`,
+      });
+    } catch (error) {
+      console.error("Error sharing:", error);
+    }
+  };
+
+  const handleDelete = (template: TaskTemplate) => {
+    Alert.alert("Excluir modelo", `Excluir "${template.name}"? As tarefas ja criadas continuam.`, [
+      { text: "Cancelar", style: "cancel" },
+      {
+        text: "Excluir",
+        style: "destructive",
+        onPress: async () => {
+          const { error } = await deleteTemplate(template.id);
+          if (error) Alert.alert("Erro", error);
+        },
+      },
+    ]);
+  };
+
+  const handleSearch = async () => {
+    if (!code.trim()) return;
+    setSearching(true);
+    const { template, error } = await findTemplateByCode(code);
+    setSearching(false);
+
+    if (error || !template) {
+      Alert.alert("Erro", error || "Codigo de modelo invalido");
+      return;
+    }
+
+    setImported(template);
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={["top"]}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color={theme.gray[700]} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.text }]}>Modelos de Rotina</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl refreshing={isLoading} onRefresh={loadTemplates} tintColor={theme.primary} />
+        }
+      >
+        {/* Curated packs */}
+        <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>PACOTES PRONTOS</Text>
+        {ROUTINE_PACKS.map((pack) => (
+          <TemplateCard key={pack.id} template={pack} onApply={() => handleApply(pack)} />
+        ))}
+
+        {/* Household templates */}
+        <View style={styles.sectionHeader}>
+          <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>MODELOS DA CASA</Text>
+          <TouchableOpacity onPress={() => router.push("/task/save-template")}>
+            <Text style={[styles.sectionAction, { color: theme.primary }]}>+ Salvar tarefas</Text>
+          </TouchableOpacity>
+        </View>
+        {templates.length === 0 ? (
+          <Card>
+            <Text style={[styles.emptyText, { color: theme.textMuted }]}>
+              Salve as tarefas da sua casa como modelo para reutilizar ou compartilhar.
+            </Text>
+          </Card>
+        ) : (
+          templates.map((template) => (
+            <TemplateCard
+              key={template.id}
+              template={template}
+              onApply={() => handleApply(template)}
+              onShare={() => handleShare(template)}
+              onDelete={() => handleDelete(template)}
+            />
+          ))
+        )}
+
+        {/* Import */}
+        <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>IMPORTAR DE OUTRA CASA</Text>
+        <Card>
+          <Input
+            placeholder="Codigo do modelo"
+            value={code}
+            onChangeText={setCode}
+            autoCapitalize="characters"
+            icon="key-outline"
+          />
+          <Button onPress={handleSearch} loading={searching} disabled={!code.trim()} variant="outline" fullWidth>
+            Buscar modelo
+          </Button>
+        </Card>
+        {imported && (
+          <View style={styles.importedContainer}>
+            <TemplateCard template={imported} onApply={() => handleApply(imported)} />
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  flex: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: -8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  sectionAction: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginTop: 8,
+  },
+  emptyText: {
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+  templateCard: {
+    marginBottom: 8,
+  },
+  templateHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  templateIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  templateInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  templateName: {
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  templateMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  itemsList: {
+    marginTop: 12,
+    paddingTop: 8,
+    borderTopWidth: 1,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  itemContent: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  itemTitle: {
+    fontWeight: '500',
+  },
+  itemMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  templateActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  iconAction: {
+    padding: 6,
+    marginRight: 8,
+  },
+  shareAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 6,
+  },
+  shareCode: {
+    marginLeft: 6,
+    fontWeight: '600',
+    letterSpacing: 1,
+  },
+  applyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  applyText: {
+    marginLeft: 4,
+    fontWeight: '600',
+  },
+  importedContainer: {
+    marginTop: 8,
+  },
+});
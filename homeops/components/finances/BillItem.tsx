@@ -3,6 +3,7 @@ import { Ionicons } from "@expo/vector-icons";
 import type { Bill } from "@/types";
 import { useTheme } from "@/contexts/ThemeContext";
 import { formatCurrency } from "@/stores/financeStore";
+import { getBillScheduleLabel } from "@/lib/bills";
 
 interface BillItemProps {
   bill: Bill;
@@ -52,6 +53,13 @@ export function BillItem({ bill, onPress, onMarkPaid }: BillItemProps) {
   };
 
   const status = getStatusConfig();
+  const scheduleLabel = getBillScheduleLabel(bill);
+  // Mensal mostra o dia; anuais e parceladas mostram a data da ocorrencia
+  const dueLabel = !scheduleLabel
+    ? `Dia ${bill.due_day}`
+    : bill.next_due_date
+      ? new Date(`${bill.next_due_date}T00:00:00`).toLocaleDateString("pt-BR")
+      : null;
 
   return (
     <TouchableOpacity
@@ -74,7 +82,10 @@ export function BillItem({ bill, onPress, onMarkPaid }: BillItemProps) {
           <Text style={[styles.name, { color: theme.text }]}>{bill.name}</Text>
           <View style={styles.metaRow}>
             <Ionicons name="calendar-outline" size={14} color={theme.textMuted} />
-            <Text style={[styles.metaText, { color: theme.textSecondary }]}>Dia {bill.due_day}</Text>
+            {dueLabel && <Text style={[styles.metaText, { color: theme.textSecondary }]}>{dueLabel}</Text>}
+            {scheduleLabel && (
+              <Text style={[styles.scheduleText, { color: theme.textMuted }]}>{scheduleLabel}</Text>
+            )}
             {bill.auto_debit && (
               <View style={styles.autoDebit}>
                 <Ionicons name="repeat" size={14} color={theme.primary} />
@@ -142,6 +153,10 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginLeft: 4,
   },
+  scheduleText: {
+    fontSize: 13,
+    marginLeft: 8,
+  },
   autoDebit: {
     flexDirection: 'row',
     alignItems: 'center',
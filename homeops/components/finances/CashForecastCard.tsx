@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { Card } from "@/components/ui";
+import { useTheme } from "@/contexts/ThemeContext";
+import { formatCurrency } from "@/stores/financeStore";
+import { FORECAST_HORIZONS, type CashForecast, type ForecastHorizon } from "@/lib/forecast";
+import { WEEKDAY_SHORT_LABELS, getWeekday } from "@/lib/recurrence";
+
+interface CashForecastCardProps {
+  forecast: CashForecast;
+  horizon: ForecastHorizon;
+  onHorizonChange: (horizon: ForecastHorizon) => void;
+  // Sem saldo conferido a previsao parte de zero
+  hasBalance: boolean;
+  onSetBalance: () => void;
+}
+
+// Dias com movimento exibidos antes de "Ver todos"
+const COLLAPSED_DAYS = 6;
+
+const formatShortDate = (date: string) => `${date.slice(8, 10)}/${date.slice(5, 7)}`;
+
+export function CashForecastCard({ forecast, horizon, onHorizonChange, hasBalance, onSetBalance }: CashForecastCardProps) {
+  const { theme } = useTheme();
+  const [expanded, setExpanded] = useState(false);
+
+  const visibleDays = expanded ? forecast.days : forecast.days.slice(0, COLLAPSED_DAYS);
+  const getBalanceColor = (balance: number) => (balance < 0 ? theme.danger : theme.text);
+
+  return (
+    <Card>
+      <View style={styles.horizonRow}>
+        {FORECAST_HORIZONS.map((h) => (
+          <TouchableOpacity
+            key={h}
+            onPress={() => onHorizonChange(h)}
+            style={[styles.horizonChip, { backgroundColor: theme.gray[200] }, horizon === h && { backgroundColor: theme.primary }]}
+          >
+            <Text style={[styles.horizonText, { color: theme.gray[700] }, horizon === h && styles.horizonTextSelected]}>{h} dias</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.statsRow}>
+        <View style={styles.stat}>
+          <Text style={[styles.statLabel, { color: theme.textSecondary }]}>Saldo hoje</Text>
+          <Text style={[styles.statValue, { color: getBalanceColor(forecast.startBalance) }]}>{formatCurrency(forecast.startBalance)}</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={[styles.statLabel, { color: theme.textSecondary }]}>Menor saldo</Text>
+          <Text style={[styles.statValue, { color: getBalanceColor(forecast.lowestBalance) }]}>{formatCurrency(forecast.lowestBalance)}</Text>
+          {forecast.lowestDate && (
+            <Text style={[styles.statDetail, { color: theme.textMuted }]}>em {formatShortDate(forecast.lowestDate)}</Text>
+          )}
+        </View>
+        <View style={styles.stat}>
+          <Text style={[styles.statLabel, { color: theme.textSecondary }]}>Em {horizon} dias</Text>
+          <Text style={[styles.statValue, { color: getBalanceColor(forecast.endBalance) }]}>{formatCurrency(forecast.endBalance)}</Text>
+        </View>
+      </View>
+
+      {forecast.firstNegativeDate && (
+        <View style={[styles.alert, { backgroundColor: theme.dangerLight }]}>
+          <Ionicons name="warning-outline" size={18} color={theme.danger} />
+          <Text style={[styles.alertText, { color: theme.danger }]}>
+            O saldo fica negativo em {formatShortDate(forecast.firstNegativeDate)}. Antecipe receitas ou adie pagamentos.
+          </Text>
+        </View>
+      )}
+
+      {!hasBalance && (
+        <TouchableOpacity onPress={onSetBalance} style={[styles.alert, { backgroundColor: theme.primaryLight }]}>
+          <Ionicons name="wallet-outline" size={18} color={theme.primary} />
+          <Text style={[styles.alertText, { color: theme.primary }]}>
+            Informe o saldo das suas contas para a previsao partir do saldo real.
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {forecast.days.length === 0 ? (
+        <Text style={[styles.emptyText, { color: theme.textMuted }]}>Nenhuma conta ou receita prevista no periodo</Text>
+      ) : (
+        <View style={styles.timeline}>
+          {visibleDays.map((day, index) => {
+            const isNegative = day.balance < 0;
+            const isLast = index === visibleDays.length - 1;
+            return (
+              <View key={day.date} style={styles.dayRow}>
+                <View style={styles.dayDate}>
+                  <Text style={[styles.dayDateText, { color: theme.text }]}>{formatShortDate(day.date)}</Text>
+                  <Text style={[styles.dayWeekday, { color: theme.textMuted }]}>{WEEKDAY_SHORT_LABELS[getWeekday(day.date)]}</Text>
+                </View>
+                <View style={styles.dayLine}>
+                  <View style={[styles.dayDot, { backgroundColor: isNegative ? theme.danger : theme.primary }]} />
+                  {!isLast && <View style={[styles.dayConnector, { backgroundColor: theme.border }]} />}
+                </View>
+                <View style={[styles.dayContent, isNegative && { backgroundColor: theme.dangerLight }]}>
+                  {day.events.map((event) => (
+                    <View key={event.id} style={styles.eventRow}>
+                      <Text style={[styles.eventName, { color: theme.textSecondary }]} numberOfLines={1}>{event.name}</Text>
+                      <Text style={[styles.eventAmount, { color: event.amount > 0 ? theme.success : theme.text }]}>
+                        {event.amount > 0 ? "+" : "-"}{formatCurrency(Math.abs(event.amount))}
+                      </Text>
+                    </View>
+                  ))}
+                  <Text style={[styles.dayBalance, { color: getBalanceColor(day.balance) }]}>Saldo {formatCurrency(day.balance)}</Text>
+                </View>
+              </View>
+            );
+          })}
+          {forecast.days.length > COLLAPSED_DAYS && (
+            <TouchableOpacity onPress={() => setExpanded(!expanded)} style={styles.expandButton}>
+              <Text style={[styles.expandText, { color: theme.primary }]}>
+                {expanded ? "Ver menos" : `Ver todos (${forecast.days.length} dias)`}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  horizonRow: { flexDirection: 'row', marginBottom: 12 },
+  horizonChip: { marginRight: 8, paddingHorizontal: 12, paddingVertical: 6, borderRadius: 8 },
+  horizonText: { fontSize: 13 },
+  horizonTextSelected: { color: '#FFFFFF', fontWeight: '500' },
+  statsRow: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: 12 },
+  stat: { flex: 1 },
+  statLabel: { fontSize: 12 },
+  statValue: { fontSize: 15, fontWeight: '600', marginTop: 2 },
+  statDetail: { fontSize: 11 },
+  alert: { flexDirection: 'row', alignItems: 'center', borderRadius: 10, padding: 10, marginBottom: 12 },
+  alertText: { flex: 1, fontSize: 13, marginLeft: 8 },
+  emptyText: { fontSize: 14, textAlign: 'center', paddingVertical: 12 },
+  timeline: { marginTop: 4 },
+  dayRow: { flexDirection: 'row' },
+  dayDate: { width: 44, alignItems: 'flex-end', paddingTop: 6 },
+  dayDateText: { fontSize: 13, fontWeight: '600' },
+  dayWeekday: { fontSize: 11 },
+  dayLine: { width: 24, alignItems: 'center' },
+  dayDot: { width: 10, height: 10, borderRadius: 5, marginTop: 10 },
+  dayConnector: { width: 2, flex: 1, marginTop: 2 },
+  dayContent: { flex: 1, borderRadius: 8, paddingVertical: 6, paddingHorizontal: 8, marginBottom: 8 },
+  eventRow: { flexDirection: 'row', justifyContent: 'space-between' },
+  eventName: { flex: 1, fontSize: 13, marginRight: 8 },
+  eventAmount: { fontSize: 13, fontWeight: '500' },
+  dayBalance: { fontSize: 12, fontWeight: '600', marginTop: 4, textAlign: 'right' },
+  expandButton: { alignItems: 'center', paddingTop: 4 },
+  expandText: { fontSize: 14, fontWeight: '500' },
+});
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { View, Text, TouchableOpacity, Share, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { Button, Input } from "@/components/ui";
+import { useTheme } from "@/contexts/ThemeContext";
+import { formatCurrency } from "@/stores/financeStore";
+import { parsePaymentCode, formatPaymentCode, PAYMENT_CODE_LABELS, type PaymentCodeInfo } from "@/lib/paymentCodes";
+
+interface PaymentCodeFieldProps {
+  value: string | null;
+  // Codigo lido e validado (null = removido); quem usa decide o que preencher
+  onChange: (info: PaymentCodeInfo | null) => void;
+}
+
+export const sharePaymentCode = async (code: string) => {
+  try {
+    await Share.share({ message: code });
+  } catch (error) {
+    console.error("Error sharing:", error);
+  }
+};
+
+export function PaymentCodeField({ value, onChange }: PaymentCodeFieldProps) {
+  const { theme } = useTheme();
+  const [text, setText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // Releitura do codigo salvo para mostrar o resumo
+  const info = value ? parsePaymentCode(value).info : null;
+
+  const handleRead = () => {
+    const result = parsePaymentCode(text);
+    setError(result.error);
+    if (!result.info) return;
+    setText("");
+    onChange(result.info);
+  };
+
+  if (value) {
+    const details = [
+      info?.beneficiary,
+      info?.amount ? formatCurrency(info.amount) : null,
+      info?.dueDate ? `vence em ${new Date(`${info.dueDate}T00:00:00`).toLocaleDateString("pt-BR")}` : null,
+    ].filter(Boolean);
+
+    return (
+      <View style={[styles.card, { backgroundColor: theme.surface, borderColor: theme.border }]}>
+        <View style={styles.cardHeader}>
+          <Ionicons name={info?.kind === "pix" ? "qr-code-outline" : "barcode-outline"} size={20} color={theme.primary} />
+          <Text style={[styles.cardTitle, { color: theme.text }]}>{info ? PAYMENT_CODE_LABELS[info.kind] : "Codigo de pagamento"}</Text>
+          <TouchableOpacity onPress={() => onChange(null)} hitSlop={8}>
+            <Ionicons name="close-circle" size={20} color={theme.gray[400]} />
+          </TouchableOpacity>
+        </View>
+        {details.length > 0 && (
+          <Text style={[styles.details, { color: theme.textSecondary }]}>{details.join(" - ")}</Text>
+        )}
+        <Text selectable numberOfLines={3} style={[styles.code, { color: theme.text, backgroundColor: theme.background }]}>
+          {formatPaymentCode(value)}
+        </Text>
+        <Button onPress={() => sharePaymentCode(value)} variant="outline" size="sm" fullWidth>Copiar ou compartilhar</Button>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      <Input
+        placeholder="Cole a linha digitavel ou o Pix copia e cola"
+        value={text}
+        onChangeText={(t) => { setText(t); setError(null); }}
+        multiline
+        numberOfLines={2}
+        autoCapitalize="none"
+        icon="barcode-outline"
+        error={error || undefined}
+      />
+      <Button onPress={handleRead} variant="outline" size="sm" disabled={!text.trim()} fullWidth>Ler codigo</Button>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: { borderRadius: 12, borderWidth: 1, padding: 12, gap: 8 },
+  cardHeader: { flexDirection: 'row', alignItems: 'center' },
+  cardTitle: { flex: 1, marginLeft: 8, fontWeight: '500' },
+  details: { fontSize: 13 },
+  code: { fontSize: 13, padding: 8, borderRadius: 8 },
+});
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "@/contexts/ThemeContext";
+import { formatCurrency, type TransactionSplitInput } from "@/stores/financeStore";
+import { SPLIT_TYPE_LABELS, getSplitAmounts } from "@/lib/splits";
+import { getMemberName } from "@/lib/rotation";
+import type { HouseholdMember, SplitType } from "@/types";
+
+interface SplitEditorProps {
+  members: HouseholdMember[];
+  amount: number;
+  value: TransactionSplitInput;
+  onChange: (value: TransactionSplitInput) => void;
+  // Sem paidBy (contas) quem paga e quem marca a conta como paga
+  paidBy?: string | null;
+  onPaidByChange?: (userId: string) => void;
+}
+
+const splitTypes: SplitType[] = ["equal", "percentage", "amount"];
+
+export function SplitEditor({ members, amount, value, onChange, paidBy, onPaidByChange }: SplitEditorProps) {
+  const { theme } = useTheme();
+
+  // Texto digitado por morador (aceita virgula enquanto digita)
+  const [texts, setTexts] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      value.shares.filter((s) => s.value != null).map((s) => [s.user_id, String(s.value).replace(".", ",")])
+    )
+  );
+
+  if (members.length < 2) {
+    return (
+      <Text style={[styles.hint, { color: theme.textSecondary }]}>
+        Convide outros moradores para dividir despesas.
+      </Text>
+    );
+  }
+
+  const setType = (type: SplitType | null) => {
+    // Ao ligar a divisao, todos participam por padrao
+    const shares = value.shares.length > 0 ? value.shares : members.map((m) => ({ user_id: m.user_id }));
+    onChange({ type, shares });
+  };
+
+  const toggleMember = (userId: string) => {
+    const included = value.shares.some((s) => s.user_id === userId);
+    onChange({
+      ...value,
+      shares: included
+        ? value.shares.filter((s) => s.user_id !== userId)
+        : [...value.shares, { user_id: userId, value: parseFloat((texts[userId] || "").replace(",", ".")) || null }],
+    });
+  };
+
+  const setShareValue = (userId: string, text: string) => {
+    setTexts({ ...texts, [userId]: text });
+    const parsed = parseFloat(text.replace(",", "."));
+    onChange({
+      ...value,
+      shares: value.shares.map((s) => (s.user_id === userId ? { ...s, value: isNaN(parsed) ? null : parsed } : s)),
+    });
+  };
+
+  const amounts = value.type && amount > 0 ? getSplitAmounts(value.type, value.shares, amount) : {};
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[styles.chip, { backgroundColor: theme.gray[200] }, isSelected && { backgroundColor: theme.primary }]}
+    >
+      <Text style={[styles.chipText, { color: theme.gray[700] }, isSelected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      {onPaidByChange && (
+        <>
+          <Text style={[styles.label, { color: theme.textSecondary }]}>Quem pagou</Text>
+          <View style={styles.chipsRow}>
+            {members.map((m) =>
+              renderChip(m.user_id, getMemberName(members, m.user_id), paidBy === m.user_id, () => onPaidByChange(m.user_id))
+            )}
+          </View>
+        </>
+      )}
+
+      <Text style={[styles.label, { color: theme.textSecondary }]}>Divisao</Text>
+      <View style={styles.chipsRow}>
+        {renderChip("none", "Nao dividir", !value.type, () => setType(null))}
+        {splitTypes.map((type) => renderChip(type, SPLIT_TYPE_LABELS[type], value.type === type, () => setType(type)))}
+      </View>
+
+      {value.type &&
+        members.map((member) => {
+          const share = value.shares.find((s) => s.user_id === member.user_id);
+          const included = !!share;
+
+          return (
+            <View
+              key={member.id}
+              style={[
+                styles.memberRow,
+                { borderColor: theme.border, backgroundColor: theme.surface },
+                included && { borderColor: theme.primary },
+              ]}
+            >
+              <TouchableOpacity onPress={() => toggleMember(member.user_id)} style={styles.memberToggle}>
+                <Ionicons
+                  name={included ? "checkbox" : "square-outline"}
+                  size={22}
+                  color={included ? theme.primary : theme.gray[400]}
+                />
+                <Text style={[styles.memberName, { color: included ? theme.text : theme.textMuted }]}>
+                  {getMemberName(members, member.user_id)}
+                </Text>
+              </TouchableOpacity>
+
+              {included && value.type !== "equal" && (
+                <View style={[styles.valueInput, { borderColor: theme.border }]}>
+                  {value.type === "amount" && <Text style={[styles.valueAffix, { color: theme.textMuted }]}>R$</Text>}
+                  <TextInput
+                    value={texts[member.user_id] || ""}
+                    onChangeText={(text) => setShareValue(member.user_id, text)}
+                    keyboardType="numeric"
+                    placeholder="0"
+                    placeholderTextColor={theme.textMuted}
+                    style={[styles.valueText, { color: theme.text }]}
+                  />
+                  {value.type === "percentage" && <Text style={[styles.valueAffix, { color: theme.textMuted }]}>%</Text>}
+                </View>
+              )}
+
+              {included && amounts[member.user_id] !== undefined && (
+                <Text style={[styles.shareAmount, { color: theme.textSecondary }]}>
+                  {formatCurrency(amounts[member.user_id])}
+                </Text>
+              )}
+            </View>
+          );
+        })}
+
+      {value.type && value.shares.length < members.length && (
+        <Text style={[styles.hint, { color: theme.textSecondary }]}>
+          Moradores desmarcados ficam fora desta despesa.
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 4,
+  },
+  label: {
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  chipsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF', // Contraste sobre primary
+    fontWeight: '500',
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  memberToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  memberName: {
+    marginLeft: 8,
+    fontWeight: '500',
+  },
+  valueInput: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    marginLeft: 8,
+    width: 96,
+  },
+  valueText: {
+    flex: 1,
+    paddingVertical: 6,
+    textAlign: 'right',
+  },
+  valueAffix: {
+    fontSize: 13,
+    marginHorizontal: 2,
+  },
+  shareAmount: {
+    marginLeft: 8,
+    fontSize: 13,
+    minWidth: 72,
+    textAlign: 'right',
+  },
+  hint: {
+    fontSize: 12,
+  },
+});
@@ -1,2 +1,5 @@
 export { BillItem } from "./BillItem";
 export { TransactionItem } from "./TransactionItem";
+export { SplitEditor } from "./SplitEditor";
+export { PaymentCodeField, sharePaymentCode } from "./PaymentCodeField";
+export { CashForecastCard } from "./CashForecastCard";
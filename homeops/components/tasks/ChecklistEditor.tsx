@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "@/contexts/ThemeContext";
+import type { ChecklistDraft } from "@/lib/checklist";
+
+interface ChecklistEditorProps {
+  value: ChecklistDraft[];
+  onChange: (value: ChecklistDraft[]) => void;
+}
+
+export function ChecklistEditor({ value, onChange }: ChecklistEditorProps) {
+  const { theme } = useTheme();
+  const [newItem, setNewItem] = useState("");
+
+  const handleAdd = () => {
+    if (!newItem.trim()) return;
+    onChange([...value, { title: newItem.trim() }]);
+    setNewItem("");
+  };
+
+  const handleChangeTitle = (index: number, title: string) => {
+    onChange(value.map((item, i) => (i === index ? { ...item, title } : item)));
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const handleMoveUp = (index: number) => {
+    if (index === 0) return;
+    const items = [...value];
+    [items[index - 1], items[index]] = [items[index], items[index - 1]];
+    onChange(items);
+  };
+
+  return (
+    <View>
+      {value.map((item, index) => (
+        <View
+          key={item.id || `new_${index}`}
+          style={[styles.itemRow, { backgroundColor: theme.surface, borderColor: theme.border }]}
+        >
+          <TouchableOpacity onPress={() => handleMoveUp(index)} disabled={index === 0} style={styles.iconButton}>
+            <Ionicons name="chevron-up" size={18} color={index === 0 ? theme.gray[300] : theme.gray[500]} />
+          </TouchableOpacity>
+          <TextInput
+            value={item.title}
+            onChangeText={(text) => handleChangeTitle(index, text)}
+            style={[styles.itemInput, { color: theme.text }]}
+            placeholderTextColor={theme.textMuted}
+          />
+          <TouchableOpacity onPress={() => handleRemove(index)} style={styles.iconButton}>
+            <Ionicons name="close" size={18} color={theme.danger} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View style={[styles.itemRow, { backgroundColor: theme.surface, borderColor: theme.border }]}>
+        <View style={styles.iconButton}>
+          <Ionicons name="add" size={18} color={theme.primary} />
+        </View>
+        <TextInput
+          value={newItem}
+          onChangeText={setNewItem}
+          onSubmitEditing={handleAdd}
+          placeholder="Adicionar item"
+          placeholderTextColor={theme.textMuted}
+          returnKeyType="done"
+          blurOnSubmit={false}
+          style={[styles.itemInput, { color: theme.text }]}
+        />
+        {newItem.trim().length > 0 && (
+          <TouchableOpacity onPress={handleAdd} style={styles.iconButton}>
+            <Text style={[styles.addText, { color: theme.primary }]}>OK</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    marginBottom: 8,
+  },
+  iconButton: {
+    width: 32,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  itemInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  addText: {
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,370 @@
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "@/contexts/ThemeContext";
+import {
+  WEEKDAY_SHORT_LABELS,
+  getOccurrencesBetween,
+  getTodayKey,
+  addDays,
+  describeRecurrence,
+  type RecurrenceRule,
+} from "@/lib/recurrence";
+import type { RecurrenceType, MonthlyRecurrenceRule, RecurrenceAnchor } from "@/types";
+
+interface RecurrencePickerProps {
+  value: RecurrenceRule;
+  onChange: (value: RecurrenceRule) => void;
+  anchorDate?: string | null;
+  anchorMode?: RecurrenceAnchor;
+  onAnchorModeChange?: (mode: RecurrenceAnchor) => void;
+}
+
+const typeOptions: { value: RecurrenceType; label: string; icon: string }[] = [
+  { value: "daily", label: "Diaria", icon: "today-outline" },
+  { value: "weekly", label: "Semanal", icon: "calendar-outline" },
+  { value: "monthly", label: "Mensal", icon: "calendar-number-outline" },
+  { value: "custom", label: "Dias", icon: "options-outline" },
+];
+
+const monthlyOptions: { value: MonthlyRecurrenceRule; label: string }[] = [
+  { value: "day_of_month", label: "Mesmo dia" },
+  { value: "nth_weekday", label: "Dia da semana" },
+  { value: "last_day", label: "Ultimo dia" },
+  { value: "last_business_day", label: "Ultimo dia util" },
+];
+
+const weekOfMonthOptions = [
+  { value: 1, label: "1o" },
+  { value: 2, label: "2o" },
+  { value: 3, label: "3o" },
+  { value: 4, label: "4o" },
+  { value: -1, label: "Ultimo" },
+];
+
+const anchorOptions: { value: RecurrenceAnchor; label: string; description: string }[] = [
+  { value: "due_date", label: "Data prevista", description: "Calendario fixo, mesmo se concluir atrasado" },
+  { value: "completion", label: "Conclusao", description: "Proxima data conta a partir de quando foi feita" },
+];
+
+const intervalUnits: Record<RecurrenceType, [string, string]> = {
+  daily: ["dia", "dias"],
+  weekly: ["semana", "semanas"],
+  custom: ["semana", "semanas"],
+  monthly: ["mes", "meses"],
+};
+
+export function RecurrencePicker({
+  value,
+  onChange,
+  anchorDate,
+  anchorMode = "due_date",
+  onAnchorModeChange,
+}: RecurrencePickerProps) {
+  const { theme } = useTheme();
+
+  const update = (changes: Partial<RecurrenceRule>) => onChange({ ...value, ...changes });
+
+  const toggleDay = (day: number) => {
+    const days = value.days.includes(day)
+      ? value.days.filter((d) => d !== day)
+      : [...value.days, day].sort((a, b) => a - b);
+    update({ days });
+  };
+
+  const showWeekdays = value.type === "weekly" || value.type === "custom";
+  const isNthWeekday = value.type === "monthly" && value.monthlyRule === "nth_weekday";
+  const [unitSingular, unitPlural] = intervalUnits[value.type];
+
+  // Preview das proximas datas
+  const today = getTodayKey();
+  const anchor = anchorDate || today;
+  const preview = getOccurrencesBetween(value, anchor < today ? today : anchor, addDays(today, 730), anchor, 3);
+
+  const renderChip = (key: string | number, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        { backgroundColor: theme.gray[200] },
+        selected && { backgroundColor: theme.primary },
+      ]}
+    >
+      <Text style={[styles.chipText, { color: theme.gray[700] }, selected && styles.chipTextSelected]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      {/* Type */}
+      <View style={styles.typeRow}>
+        {typeOptions.map((opt, index) => (
+          <TouchableOpacity
+            key={opt.value}
+            onPress={() => update({ type: opt.value })}
+            style={[
+              styles.typeButton,
+              { borderColor: theme.border, backgroundColor: theme.surface },
+              value.type === opt.value && { borderColor: theme.primary, backgroundColor: theme.primaryLight },
+              index < typeOptions.length - 1 && styles.typeButtonMargin,
+            ]}
+          >
+            <Ionicons
+              name={opt.icon as keyof typeof Ionicons.glyphMap}
+              size={20}
+              color={value.type === opt.value ? theme.primary : theme.gray[400]}
+            />
+            <Text
+              style={[
+                styles.typeButtonText,
+                { color: theme.gray[600] },
+                value.type === opt.value && { color: theme.primary },
+              ]}
+            >
+              {opt.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Interval */}
+      <View style={[styles.intervalRow, { backgroundColor: theme.surface, borderColor: theme.border }]}>
+        <Text style={[styles.intervalLabel, { color: theme.gray[700] }]}>A cada</Text>
+        <View style={styles.stepper}>
+          <TouchableOpacity
+            onPress={() => update({ interval: Math.max(1, value.interval - 1) })}
+            style={[styles.stepperButton, { backgroundColor: theme.gray[200] }]}
+          >
+            <Ionicons name="remove" size={18} color={theme.gray[700]} />
+          </TouchableOpacity>
+          <Text style={[styles.stepperValue, { color: theme.text }]}>{value.interval}</Text>
+          <TouchableOpacity
+            onPress={() => update({ interval: Math.min(52, value.interval + 1) })}
+            style={[styles.stepperButton, { backgroundColor: theme.gray[200] }]}
+          >
+            <Ionicons name="add" size={18} color={theme.gray[700]} />
+          </TouchableOpacity>
+        </View>
+        <Text style={[styles.intervalLabel, { color: theme.gray[700] }]}>
+          {value.interval === 1 ? unitSingular : unitPlural}
+        </Text>
+      </View>
+
+      {/* Weekdays */}
+      {showWeekdays && (
+        <View style={styles.block}>
+          <Text style={[styles.blockLabel, { color: theme.textSecondary }]}>
+            {value.type === "custom" ? "Nos dias" : "No dia (opcional)"}
+          </Text>
+          <View style={styles.chipsRow}>
+            {WEEKDAY_SHORT_LABELS.map((label, day) =>
+              renderChip(day, label, value.days.includes(day), () => toggleDay(day))
+            )}
+          </View>
+        </View>
+      )}
+
+      {/* Monthly */}
+      {value.type === "monthly" && (
+        <View style={styles.block}>
+          <Text style={[styles.blockLabel, { color: theme.textSecondary }]}>Quando</Text>
+          <View style={styles.chipsRow}>
+            {monthlyOptions.map((opt) =>
+              renderChip(opt.value, opt.label, value.monthlyRule === opt.value, () =>
+                update({ monthlyRule: opt.value })
+              )
+            )}
+          </View>
+
+          {isNthWeekday && (
+            <>
+              <View style={styles.chipsRow}>
+                {weekOfMonthOptions.map((opt) =>
+                  renderChip(opt.value, opt.label, value.weekOfMonth === opt.value, () =>
+                    update({ weekOfMonth: opt.value })
+                  )
+                )}
+              </View>
+              <View style={styles.chipsRow}>
+                {WEEKDAY_SHORT_LABELS.map((label, day) =>
+                  renderChip(day, label, value.days[0] === day, () => update({ days: [day] }))
+                )}
+              </View>
+            </>
+          )}
+        </View>
+      )}
+
+      {/* Anchor */}
+      {onAnchorModeChange && (
+        <View style={styles.block}>
+          <Text style={[styles.blockLabel, { color: theme.textSecondary }]}>Repetir a partir da</Text>
+          {anchorOptions.map((opt) => (
+            <TouchableOpacity
+              key={opt.value}
+              onPress={() => onAnchorModeChange(opt.value)}
+              style={[
+                styles.anchorOption,
+                { borderColor: theme.border, backgroundColor: theme.surface },
+                anchorMode === opt.value && { borderColor: theme.primary, backgroundColor: theme.primaryLight },
+              ]}
+            >
+              <Ionicons
+                name={anchorMode === opt.value ? "radio-button-on" : "radio-button-off"}
+                size={20}
+                color={anchorMode === opt.value ? theme.primary : theme.gray[400]}
+              />
+              <View style={styles.anchorContent}>
+                <Text style={[styles.anchorLabel, { color: anchorMode === opt.value ? theme.primary : theme.gray[700] }]}>
+                  {opt.label}
+                </Text>
+                <Text style={[styles.anchorDescription, { color: theme.textSecondary }]}>{opt.description}</Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Preview */}
+      <View style={[styles.preview, { backgroundColor: theme.primaryLight }]}>
+        <Ionicons name="repeat" size={16} color={theme.primary} />
+        <View style={styles.previewContent}>
+          <Text style={[styles.previewTitle, { color: theme.primary }]}>
+            {describeRecurrence(value, anchorDate)}
+          </Text>
+          {preview.length > 0 && (
+            <Text style={[styles.previewText, { color: theme.gray[700] }]}>
+              Proximas:{" "}
+              {preview
+                .map((d) =>
+                  new Date(d + "T00:00:00").toLocaleDateString("pt-BR", {
+                    weekday: "short",
+                    day: "2-digit",
+                    month: "2-digit",
+                  })
+                )
+                .join(" | ")}
+            </Text>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  typeRow: {
+    flexDirection: 'row',
+  },
+  typeButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 2,
+  },
+  typeButtonMargin: {
+    marginRight: 8,
+  },
+  typeButtonText: {
+    marginTop: 4,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  intervalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  intervalLabel: {
+    fontWeight: '500',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 12,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperValue: {
+    minWidth: 32,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  block: {
+    marginTop: 12,
+  },
+  blockLabel: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  chipsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF', // Contraste sobre primary
+    fontWeight: '500',
+  },
+  anchorOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+    marginBottom: 8,
+  },
+  anchorContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  anchorLabel: {
+    fontWeight: '500',
+  },
+  anchorDescription: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  preview: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+  },
+  previewContent: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  previewTitle: {
+    fontWeight: '500',
+  },
+  previewText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,99 @@
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { useTheme } from "@/contexts/ThemeContext";
+import {
+  REMINDER_OFFSET_OPTIONS,
+  DEFAULT_TASK_REMINDER_OFFSETS,
+  describeReminderOffsets,
+} from "@/lib/reminders";
+
+interface ReminderPickerProps {
+  value: number[] | null; // null = padrao das preferencias
+  onChange: (value: number[] | null) => void;
+  hasDueTime: boolean;
+  defaultOffsets?: number[];
+}
+
+export function ReminderPicker({
+  value,
+  onChange,
+  hasDueTime,
+  defaultOffsets = DEFAULT_TASK_REMINDER_OFFSETS,
+}: ReminderPickerProps) {
+  const { theme } = useTheme();
+
+  const useDefault = value === null;
+  const selected = value ?? defaultOffsets;
+
+  const toggleOffset = (offset: number) => {
+    const offsets = selected.includes(offset)
+      ? selected.filter((o) => o !== offset)
+      : [...selected, offset].sort((a, b) => a - b);
+    onChange(offsets);
+  };
+
+  const renderChip = (key: string | number, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        { backgroundColor: theme.gray[200] },
+        isSelected && { backgroundColor: theme.primary },
+      ]}
+    >
+      <Text style={[styles.chipText, { color: theme.gray[700] }, isSelected && styles.chipTextSelected]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  // Sem horario so a antecedencia em dias faz diferenca
+  const options = hasDueTime
+    ? REMINDER_OFFSET_OPTIONS
+    : REMINDER_OFFSET_OPTIONS.filter((o) => o.value === 0 || o.value % (24 * 60) === 0);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chipsRow}>
+        {renderChip("default", "Padrao", useDefault, () => onChange(useDefault ? [...defaultOffsets] : null))}
+        {options.map((opt) =>
+          renderChip(opt.value, hasDueTime || opt.value > 0 ? opt.label : "No dia", !useDefault && selected.includes(opt.value), () =>
+            toggleOffset(opt.value)
+          )
+        )}
+      </View>
+
+      <Text style={[styles.hint, { color: theme.textSecondary }]}>
+        {useDefault ? `Padrao: ${describeReminderOffsets(defaultOffsets)}` : describeReminderOffsets(selected)}
+        {hasDueTime ? "" : ". Sem horario, o lembrete sai no horario padrao dos lembretes"}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 4,
+  },
+  chipsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF', // Contraste sobre primary
+    fontWeight: '500',
+  },
+  hint: {
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,237 @@
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "@/contexts/ThemeContext";
+import type { HouseholdMember, RotationMode } from "@/types";
+import type { RotationSettings } from "@/lib/rotation";
+
+interface RotationPickerProps {
+  members: HouseholdMember[];
+  value: RotationSettings;
+  onChange: (value: RotationSettings) => void;
+}
+
+const modeOptions: { value: RotationMode; label: string; icon: string }[] = [
+  { value: "completion", label: "A cada conclusao", icon: "checkmark-done-outline" },
+  { value: "weekly", label: "Por semana", icon: "calendar-outline" },
+];
+
+export function RotationPicker({ members, value, onChange }: RotationPickerProps) {
+  const { theme } = useTheme();
+
+  const update = (changes: Partial<RotationSettings>) => onChange({ ...value, ...changes });
+
+  // A ordem da escala e a ordem em que os moradores sao tocados
+  const toggleMember = (userId: string) => {
+    const selected = value.members.includes(userId)
+      ? value.members.filter((id) => id !== userId)
+      : [...value.members, userId];
+    update({ members: selected });
+  };
+
+  if (members.length < 2) {
+    return (
+      <Text style={[styles.hint, { color: theme.textSecondary }]}>
+        Convide outros moradores para usar o rodizio.
+      </Text>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.label, { color: theme.textSecondary }]}>
+        Toque nos moradores na ordem da escala
+      </Text>
+
+      {members.map((member) => {
+        const position = value.members.indexOf(member.user_id);
+        const selected = position >= 0;
+
+        return (
+          <TouchableOpacity
+            key={member.id}
+            onPress={() => toggleMember(member.user_id)}
+            style={[
+              styles.memberRow,
+              { borderColor: theme.border, backgroundColor: theme.surface },
+              selected && { borderColor: theme.primary, backgroundColor: theme.primaryLight },
+            ]}
+          >
+            <View
+              style={[
+                styles.position,
+                { backgroundColor: theme.gray[200] },
+                selected && { backgroundColor: theme.primary },
+              ]}
+            >
+              {selected ? (
+                <Text style={styles.positionText}>{position + 1}</Text>
+              ) : (
+                <Ionicons name="add" size={14} color={theme.gray[500]} />
+              )}
+            </View>
+            <Text style={[styles.memberName, { color: selected ? theme.primary : theme.gray[700] }]}>
+              {member.user?.name || "Morador"}
+            </Text>
+            {member.is_away && (
+              <View style={[styles.awayBadge, { backgroundColor: theme.warning + "20" }]}>
+                <Text style={[styles.awayText, { color: theme.warning }]}>Ausente</Text>
+              </View>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+
+      {value.members.length > 0 && value.members.length < 2 && (
+        <Text style={[styles.hint, { color: theme.textSecondary }]}>
+          Escolha pelo menos 2 moradores.
+        </Text>
+      )}
+
+      {/* Mode */}
+      <View style={styles.modeRow}>
+        {modeOptions.map((opt, index) => (
+          <TouchableOpacity
+            key={opt.value}
+            onPress={() => update({ mode: opt.value })}
+            style={[
+              styles.modeButton,
+              { borderColor: theme.border, backgroundColor: theme.surface },
+              value.mode === opt.value && { borderColor: theme.primary, backgroundColor: theme.primaryLight },
+              index < modeOptions.length - 1 && styles.modeButtonMargin,
+            ]}
+          >
+            <Ionicons
+              name={opt.icon as keyof typeof Ionicons.glyphMap}
+              size={18}
+              color={value.mode === opt.value ? theme.primary : theme.gray[400]}
+            />
+            <Text
+              style={[
+                styles.modeButtonText,
+                { color: theme.gray[600] },
+                value.mode === opt.value && { color: theme.primary },
+              ]}
+            >
+              {opt.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Skip away */}
+      <TouchableOpacity
+        onPress={() => update({ skipAway: !value.skipAway })}
+        style={[styles.toggleRow, { backgroundColor: theme.surface, borderColor: theme.border }]}
+      >
+        <View style={styles.toggleLeft}>
+          <Ionicons name="airplane-outline" size={20} color={value.skipAway ? theme.primary : theme.gray[400]} />
+          <Text style={[styles.toggleText, { color: value.skipAway ? theme.primary : theme.gray[700] }]}>
+            Pular moradores ausentes
+          </Text>
+        </View>
+        <View style={[styles.toggle, { backgroundColor: theme.gray[300] }, value.skipAway && { backgroundColor: theme.primary }]}>
+          <View style={[styles.toggleThumb, value.skipAway && styles.toggleThumbActive]} />
+        </View>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  label: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 14,
+    marginTop: 8,
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+    marginBottom: 8,
+  },
+  position: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  positionText: {
+    color: '#FFFFFF', // Contraste sobre primary
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  memberName: {
+    flex: 1,
+    marginLeft: 12,
+    fontWeight: '500',
+  },
+  awayBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 999,
+  },
+  awayText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  modeRow: {
+    flexDirection: 'row',
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 2,
+  },
+  modeButtonMargin: {
+    marginRight: 8,
+  },
+  modeButtonText: {
+    marginTop: 4,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  toggleLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  toggleText: {
+    marginLeft: 12,
+    fontWeight: '500',
+  },
+  toggle: {
+    width: 48,
+    height: 28,
+    borderRadius: 14,
+    padding: 4,
+  },
+  toggleThumb: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: '#FFFFFF', // Toggle thumb sempre branco
+  },
+  toggleThumbActive: {
+    alignSelf: 'flex-end',
+  },
+});
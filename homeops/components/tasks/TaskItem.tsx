@@ -3,6 +3,7 @@ import { Ionicons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
 import type { Task } from "@/types";
 import { useTheme } from "@/contexts/ThemeContext";
+import { getChecklistProgress } from "@/lib/checklist";
 
 interface TaskItemProps {
   task: Task;
@@ -20,6 +21,7 @@ export function TaskItem({ task, onComplete, onPress }: TaskItemProps) {
     task.due_date < new Date().toISOString().split("T")[0];
 
   const categoryColor = task.category?.color || theme.textMuted;
+  const checklist = getChecklistProgress(task);
 
   const formatDate = (dateStr?: string) => {
     if (!dateStr) return null;
@@ -149,6 +151,20 @@ export function TaskItem({ task, onComplete, onPress }: TaskItemProps) {
               </View>
             )}
 
+            {/* Checklist */}
+            {checklist.total > 0 && (
+              <View style={styles.metaItem}>
+                <Ionicons
+                  name="list-outline"
+                  size={12}
+                  color={checklist.done === checklist.total ? theme.success : theme.textMuted}
+                />
+                <Text style={[styles.metaText, { color: theme.textSecondary }]}>
+                  {checklist.done}/{checklist.total}
+                </Text>
+              </View>
+            )}
+
             {/* Recurring */}
             {task.is_recurring && (
               <View style={styles.metaItem}>
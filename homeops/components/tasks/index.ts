@@ -1,2 +1,6 @@
 export { TaskItem } from "./TaskItem";
 export { TaskList } from "./TaskList";
+export { RecurrencePicker } from "./RecurrencePicker";
+export { RotationPicker } from "./RotationPicker";
+export { ChecklistEditor } from "./ChecklistEditor";
+export { ReminderPicker } from "./ReminderPicker";
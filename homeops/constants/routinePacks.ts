@@ -0,0 +1,122 @@
+import type { TaskTemplate } from "@/types";
+
+// Pacotes de rotina prontos (aplicados com um toque).
+// `category` usa o nome em task_categories.
+export const ROUTINE_PACKS: TaskTemplate[] = [
+  {
+    id: "pack_limpeza_semanal",
+    name: "Limpeza semanal",
+    description: "O basico para manter a casa em ordem",
+    icon: "sparkles-outline",
+    items: [
+      {
+        title: "Limpar banheiro",
+        category: "Limpeza",
+        priority: 2,
+        estimated_minutes: 40,
+        recurrence: { type: "weekly", days: [6] },
+        checklist: ["Vaso sanitario", "Pia e espelho", "Box", "Chao", "Trocar toalhas"],
+      },
+      {
+        title: "Aspirar e passar pano na casa",
+        category: "Limpeza",
+        priority: 2,
+        estimated_minutes: 60,
+        recurrence: { type: "weekly", days: [6] },
+      },
+      {
+        title: "Trocar roupa de cama",
+        category: "Lavanderia",
+        priority: 1,
+        estimated_minutes: 20,
+        recurrence: { type: "weekly", interval: 2, days: [0] },
+      },
+      {
+        title: "Lavar roupas",
+        category: "Lavanderia",
+        priority: 2,
+        estimated_minutes: 30,
+        recurrence: { type: "custom", days: [3, 6] },
+      },
+      {
+        title: "Tirar o lixo",
+        category: "Limpeza",
+        priority: 3,
+        estimated_minutes: 5,
+        recurrence: { type: "custom", days: [1, 3, 5] },
+      },
+      {
+        title: "Limpar geladeira",
+        category: "Cozinha",
+        priority: 1,
+        estimated_minutes: 30,
+        recurrence: { type: "monthly", monthlyRule: "nth_weekday", weekOfMonth: 1, days: [0] },
+      },
+    ],
+  },
+  {
+    id: "pack_plantas",
+    name: "Cuidados com plantas",
+    description: "Rega, adubo e poda em dia",
+    icon: "leaf-outline",
+    items: [
+      {
+        title: "Regar plantas",
+        category: "Plantas",
+        priority: 2,
+        estimated_minutes: 10,
+        recurrence: { type: "custom", days: [1, 4] },
+      },
+      {
+        title: "Adubar plantas",
+        category: "Plantas",
+        priority: 1,
+        estimated_minutes: 15,
+        recurrence: { type: "monthly", monthlyRule: "day_of_month", monthDay: 1 },
+      },
+      {
+        title: "Podar e limpar folhas secas",
+        category: "Plantas",
+        priority: 1,
+        estimated_minutes: 20,
+        recurrence: { type: "monthly", interval: 2, monthlyRule: "nth_weekday", weekOfMonth: 2, days: [6] },
+      },
+    ],
+  },
+  {
+    id: "pack_pet",
+    name: "Pet",
+    description: "Rotina do seu bichinho",
+    icon: "paw-outline",
+    items: [
+      {
+        title: "Trocar agua e comida",
+        category: "Pet",
+        priority: 3,
+        estimated_minutes: 5,
+        recurrence: { type: "daily" },
+      },
+      {
+        title: "Limpar caixa de areia / tapete higienico",
+        category: "Pet",
+        priority: 2,
+        estimated_minutes: 10,
+        recurrence: { type: "daily", interval: 2 },
+      },
+      {
+        title: "Dar banho no pet",
+        category: "Pet",
+        priority: 1,
+        estimated_minutes: 45,
+        recurrence: { type: "weekly", interval: 2, days: [6] },
+      },
+      {
+        title: "Vermifugo / antipulgas",
+        category: "Pet",
+        priority: 2,
+        estimated_minutes: 5,
+        recurrence: { type: "monthly", monthlyRule: "day_of_month", monthDay: 10 },
+      },
+    ],
+  },
+];
@@ -0,0 +1,41 @@
+import { getCalendarEvents } from "@/lib/calendar";
+import type { Task } from "@/types";
+
+const task = (overrides: Partial<Task>): Task => ({
+  id: "t1",
+  household_id: "h1",
+  title: "Regar plantas",
+  is_recurring: true,
+  recurrence_type: "daily",
+  recurrence_interval: 1,
+  status: "pending",
+  priority: 2,
+  created_by: "u1",
+  created_at: "2024-01-01T00:00:00Z",
+  updated_at: "2024-01-01T00:00:00Z",
+  ...overrides,
+});
+
+const getTaskDates = (tasks: Task[], start: string, end: string, today: string) =>
+  getCalendarEvents({ tasks, bills: [], maintenanceItems: [], inventoryItems: [] }, start, end, today)
+    .filter((event) => event.type === "task")
+    .map((event) => event.date);
+
+describe("getCalendarEvents - tarefas", () => {
+  it("projeta o mes inteiro mesmo com vencimento atrasado ha meses", () => {
+    const dates = getTaskDates([task({ due_date: "2024-01-01" })], "2024-05-01", "2024-05-31", "2024-05-01");
+    expect(dates).toHaveLength(31);
+    expect(dates[0]).toBe("2024-05-01");
+    expect(dates[30]).toBe("2024-05-31");
+  });
+
+  it("mostra o vencimento em aberto e as proximas ocorrencias", () => {
+    const dates = getTaskDates(
+      [task({ due_date: "2024-01-04", recurrence_type: "weekly", recurrence_days: [4] })],
+      "2024-01-01",
+      "2024-01-31",
+      "2024-01-01"
+    );
+    expect(dates).toEqual(["2024-01-04", "2024-01-11", "2024-01-18", "2024-01-25"]);
+  });
+});
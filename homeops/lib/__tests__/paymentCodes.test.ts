@@ -0,0 +1,113 @@
+import { parsePaymentCode } from "@/lib/paymentCodes";
+
+// Troca um digito por outro (o verificador deixa de conferir)
+const tamper = (code: string, index: number) =>
+  code.slice(0, index) + ((Number(code[index]) + 1) % 10) + code.slice(index + 1);
+
+describe("parsePaymentCode - boleto bancario", () => {
+  const line = "34191091233456788012434567890008710160000015050";
+  const barcode = "34197101600000150501091234567880123456789000";
+
+  it("le a linha digitavel de 47 digitos", () => {
+    const { info, error } = parsePaymentCode("34191.09123 34567.880124 34567.890008 7 10160000015050", "2025-03-01");
+    expect(error).toBeNull();
+    expect(info).toMatchObject({
+      kind: "boleto",
+      code: line,
+      amount: 150.5,
+      dueDate: "2025-03-10",
+      beneficiary: "Itau",
+    });
+  });
+
+  it("le o codigo de barras de 44 digitos", () => {
+    const { info, error } = parsePaymentCode(barcode, "2025-03-01");
+    expect(error).toBeNull();
+    expect(info).toMatchObject({ kind: "boleto", code: barcode, amount: 150.5, dueDate: "2025-03-10" });
+  });
+
+  it("rejeita campo da linha com digito alterado (modulo 10)", () => {
+    expect(parsePaymentCode(tamper(line, 2), "2025-03-01").error).toBe("Digito verificador do campo 1 nao confere");
+    expect(parsePaymentCode(tamper(line, 15), "2025-03-01").error).toBe("Digito verificador do campo 2 nao confere");
+    expect(parsePaymentCode(tamper(line, 25), "2025-03-01").error).toBe("Digito verificador do campo 3 nao confere");
+  });
+
+  it("rejeita valor alterado (DV geral modulo 11)", () => {
+    expect(parsePaymentCode(tamper(line, 40), "2025-03-01").error).toBe("Digito verificador do boleto nao confere");
+    expect(parsePaymentCode(tamper(barcode, 10), "2025-03-01").error).toBe("Digito verificador do boleto nao confere");
+  });
+
+  it("usa o ciclo do fator de vencimento mais proximo de hoje", () => {
+    // Mesmo fator 1016: 19/07/2000 no ciclo antigo, 10/03/2025 no novo
+    expect(parsePaymentCode(barcode, "2000-07-01").info?.dueDate).toBe("2000-07-19");
+    expect(parsePaymentCode(barcode, "2025-03-01").info?.dueDate).toBe("2025-03-10");
+  });
+});
+
+describe("parsePaymentCode - convenio", () => {
+  it("le a linha de 48 digitos com DV modulo 10", () => {
+    const { info, error } = parsePaymentCode("836600000019 234500000125 345678901231 456789012345");
+    expect(error).toBeNull();
+    expect(info).toMatchObject({
+      kind: "arrecadacao",
+      amount: 123.45,
+      dueDate: null,
+      beneficiary: "Energia eletrica e gas",
+    });
+  });
+
+  it("le a linha de 48 digitos com DV modulo 11", () => {
+    const { info, error } = parsePaymentCode("838100000019234500000120345678901235456789012341");
+    expect(error).toBeNull();
+    expect(info).toMatchObject({ kind: "arrecadacao", amount: 123.45 });
+  });
+
+  it("le o codigo de barras de 44 digitos", () => {
+    const { info, error } = parsePaymentCode("83660000001234500000123456789012345678901234");
+    expect(error).toBeNull();
+    expect(info?.amount).toBe(123.45);
+  });
+
+  it("rejeita bloco ou codigo com digito alterado", () => {
+    expect(parsePaymentCode(tamper("836600000019234500000125345678901231456789012345", 14)).error).toBe(
+      "Digito verificador do bloco 2 nao confere"
+    );
+    expect(parsePaymentCode(tamper("838100000019234500000120345678901235456789012341", 40)).error).toBe(
+      "Digito verificador do bloco 4 nao confere"
+    );
+    expect(parsePaymentCode(tamper("83660000001234500000123456789012345678901234", 8)).error).toBe(
+      "Digito verificador do boleto nao confere"
+    );
+  });
+});
+
+describe("parsePaymentCode - Pix", () => {
+  const pix =
+    "00020126690014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-4266554400000207Aluguel" +
+    "52040000530398654071250.005802BR5910Joao Silva6009SAO PAULO62070503***6304B564";
+
+  it("le valor, recebedor e descricao", () => {
+    const { info, error } = parsePaymentCode(pix);
+    expect(error).toBeNull();
+    expect(info).toMatchObject({
+      kind: "pix",
+      code: pix,
+      amount: 1250,
+      beneficiary: "Joao Silva",
+      description: "Aluguel",
+    });
+  });
+
+  it("aceita o exemplo do BCB sem valor", () => {
+    const { info, error } = parsePaymentCode(
+      "00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-4266554400005204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***63041D3D"
+    );
+    expect(error).toBeNull();
+    expect(info).toMatchObject({ kind: "pix", amount: null, beneficiary: "Fulano de Tal" });
+  });
+
+  it("rejeita codigo alterado ou com CRC errado", () => {
+    expect(parsePaymentCode(pix.replace("1250.00", "9250.00")).error).toBe("Codigo Pix corrompido (CRC nao confere)");
+    expect(parsePaymentCode(pix.slice(0, -4) + "0000").error).toBe("Codigo Pix corrompido (CRC nao confere)");
+  });
+});
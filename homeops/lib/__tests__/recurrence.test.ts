@@ -0,0 +1,214 @@
+import {
+  DEFAULT_RECURRENCE_RULE,
+  getFirstOccurrenceOnOrAfter,
+  getNextOccurrence,
+  getNextTaskDate,
+  type RecurrenceRule,
+} from "@/lib/recurrence";
+
+const rule = (overrides: Partial<RecurrenceRule>): RecurrenceRule => ({ ...DEFAULT_RECURRENCE_RULE, ...overrides });
+
+type TaskInput = Parameters<typeof getNextTaskDate>[0];
+
+const task = (overrides: Partial<TaskInput>): TaskInput => ({
+  is_recurring: true,
+  recurrence_type: "weekly",
+  recurrence_days: null,
+  recurrence_interval: 1,
+  recurrence_monthly_rule: null,
+  recurrence_month_day: null,
+  recurrence_week_of_month: null,
+  recurrence_anchor: "due_date",
+  due_date: null,
+  ...overrides,
+});
+
+describe("getNextOccurrence", () => {
+  describe("dia 31 em meses curtos", () => {
+    const day31 = rule({ type: "monthly", monthlyRule: "day_of_month", monthDay: 31 });
+
+    it("cai no ultimo dia de fevereiro em ano bissexto", () => {
+      expect(getNextOccurrence(day31, "2024-01-31")).toBe("2024-02-29");
+    });
+
+    it("cai no ultimo dia de fevereiro em ano comum", () => {
+      expect(getNextOccurrence(day31, "2023-01-31")).toBe("2023-02-28");
+    });
+
+    it("volta ao dia 31 depois do mes curto", () => {
+      expect(getNextOccurrence(day31, "2024-02-29")).toBe("2024-03-31");
+      expect(getNextOccurrence(day31, "2024-04-30")).toBe("2024-05-31");
+    });
+
+    it("usa o dia do anchor quando a regra nao fixa o dia", () => {
+      const monthly = rule({ type: "monthly", monthlyRule: "day_of_month" });
+      expect(getNextOccurrence(monthly, "2024-01-30", "2024-01-30")).toBe("2024-02-29");
+    });
+  });
+
+  describe("29 de fevereiro", () => {
+    const day29Yearly = rule({ type: "monthly", monthlyRule: "day_of_month", monthDay: 29, interval: 12 });
+
+    it("vira 28 de fevereiro em ano comum", () => {
+      expect(getNextOccurrence(day29Yearly, "2024-02-29")).toBe("2025-02-28");
+    });
+
+    it("volta ao dia 29 no proximo ano bissexto", () => {
+      expect(getNextOccurrence(day29Yearly, "2027-02-28")).toBe("2028-02-29");
+    });
+  });
+
+  describe("ultimo dia util", () => {
+    const lastBusinessDay = rule({ type: "monthly", monthlyRule: "last_business_day" });
+
+    it("recua do sabado para a sexta", () => {
+      expect(getNextOccurrence(lastBusinessDay, "2024-08-01")).toBe("2024-08-30");
+    });
+
+    it("recua do domingo para a sexta", () => {
+      expect(getNextOccurrence(lastBusinessDay, "2024-03-01")).toBe("2024-03-29");
+    });
+
+    it("mantem o ultimo dia quando ja e dia util", () => {
+      expect(getNextOccurrence(lastBusinessDay, "2024-08-30")).toBe("2024-09-30");
+    });
+
+    it("considera fevereiro bissexto", () => {
+      expect(getNextOccurrence(lastBusinessDay, "2024-01-31")).toBe("2024-02-29");
+    });
+  });
+
+  describe("enesimo dia da semana", () => {
+    it("segunda terca do mes", () => {
+      const secondTuesday = rule({ type: "monthly", monthlyRule: "nth_weekday", days: [2], weekOfMonth: 2 });
+      expect(getNextOccurrence(secondTuesday, "2024-01-31")).toBe("2024-02-13");
+    });
+
+    it("ultima sexta do mes", () => {
+      const lastFriday = rule({ type: "monthly", monthlyRule: "nth_weekday", days: [5], weekOfMonth: -1 });
+      expect(getNextOccurrence(lastFriday, "2024-03-01")).toBe("2024-03-29");
+      expect(getNextOccurrence(lastFriday, "2024-03-29")).toBe("2024-04-26");
+    });
+  });
+
+  describe("a cada N semanas", () => {
+    it("pula as semanas do intervalo", () => {
+      const everyOtherMonday = rule({ type: "weekly", interval: 2, days: [1] });
+      expect(getNextOccurrence(everyOtherMonday, "2024-01-01")).toBe("2024-01-15");
+    });
+
+    it("completa os dias da semana atual antes de pular", () => {
+      const everyOtherMonWed = rule({ type: "weekly", interval: 2, days: [1, 3] });
+      expect(getNextOccurrence(everyOtherMonWed, "2024-01-01")).toBe("2024-01-03");
+      expect(getNextOccurrence(everyOtherMonWed, "2024-01-03")).toBe("2024-01-15");
+    });
+
+    it("usa o dia da semana do anchor sem dias definidos", () => {
+      const everyThreeWeeks = rule({ type: "weekly", interval: 3 });
+      expect(getNextOccurrence(everyThreeWeeks, "2024-01-04", "2024-01-04")).toBe("2024-01-25");
+    });
+  });
+
+  it("diaria soma o intervalo, inclusive na virada de fevereiro", () => {
+    expect(getNextOccurrence(rule({ type: "daily", interval: 2 }), "2024-02-28")).toBe("2024-03-01");
+    expect(getNextOccurrence(rule({ type: "daily", interval: 2 }), "2023-02-28")).toBe("2023-03-02");
+  });
+});
+
+describe("getFirstOccurrenceOnOrAfter", () => {
+  const thursday = rule({ type: "weekly", days: [4] });
+
+  it("inclui a propria data quando casa com a regra", () => {
+    expect(getFirstOccurrenceOnOrAfter(thursday, "2024-01-04")).toBe("2024-01-04");
+  });
+
+  it("avanca ate o proximo dia da regra", () => {
+    expect(getFirstOccurrenceOnOrAfter(thursday, "2024-01-05")).toBe("2024-01-11");
+  });
+
+  it("ignora o intervalo para a primeira ocorrencia", () => {
+    expect(getFirstOccurrenceOnOrAfter({ ...thursday, interval: 3 }, "2024-01-05")).toBe("2024-01-11");
+  });
+
+  it("dia 31 a partir do inicio de fevereiro", () => {
+    const day31 = rule({ type: "monthly", monthlyRule: "day_of_month", monthDay: 31 });
+    expect(getFirstOccurrenceOnOrAfter(day31, "2024-02-01")).toBe("2024-02-29");
+    expect(getFirstOccurrenceOnOrAfter(day31, "2023-02-01")).toBe("2023-02-28");
+  });
+
+  it("ultimo dia util no proprio dia", () => {
+    const lastBusinessDay = rule({ type: "monthly", monthlyRule: "last_business_day" });
+    expect(getFirstOccurrenceOnOrAfter(lastBusinessDay, "2024-08-30")).toBe("2024-08-30");
+    expect(getFirstOccurrenceOnOrAfter(lastBusinessDay, "2024-08-31")).toBe("2024-09-30");
+  });
+
+  it("diaria devolve a propria data", () => {
+    expect(getFirstOccurrenceOnOrAfter(rule({ type: "daily", interval: 5 }), "2024-02-29")).toBe("2024-02-29");
+  });
+});
+
+describe("getNextTaskDate", () => {
+  it("tarefa sem recorrencia nao tem proxima data", () => {
+    expect(getNextTaskDate(task({ is_recurring: false, due_date: "2024-01-01" }), "2024-01-01")).toBeNull();
+  });
+
+  it("dia 31 segue o calendario pelos meses curtos", () => {
+    const monthly31 = { recurrence_type: "monthly" as const, recurrence_monthly_rule: "day_of_month" as const, recurrence_month_day: 31 };
+    expect(getNextTaskDate(task({ ...monthly31, due_date: "2024-01-31" }), "2024-01-31")).toBe("2024-02-29");
+    expect(getNextTaskDate(task({ ...monthly31, due_date: "2024-02-29" }), "2024-02-29")).toBe("2024-03-31");
+  });
+
+  it("concluir atrasado pula os periodos perdidos sem deslocar a grade", () => {
+    const monthly31 = task({ recurrence_type: "monthly", recurrence_monthly_rule: "day_of_month", recurrence_month_day: 31, due_date: "2024-01-31" });
+    expect(getNextTaskDate(monthly31, "2024-03-05")).toBe("2024-03-31");
+
+    const everyOtherMonday = task({ recurrence_interval: 2, recurrence_days: [1], due_date: "2024-01-01" });
+    expect(getNextTaskDate(everyOtherMonday, "2024-01-20")).toBe("2024-01-29");
+  });
+
+  it("enesimo dia da semana em fevereiro bissexto", () => {
+    const lastThursday = task({
+      recurrence_type: "monthly",
+      recurrence_monthly_rule: "nth_weekday",
+      recurrence_days: [4],
+      recurrence_week_of_month: -1,
+      due_date: "2024-01-25",
+    });
+    expect(getNextTaskDate(lastThursday, "2024-01-25")).toBe("2024-02-29");
+  });
+
+  describe("ancora na conclusao", () => {
+    it("concluir adiantado nao devolve o mesmo vencimento", () => {
+      const weeklyThursday = task({ recurrence_anchor: "completion", recurrence_days: [4], due_date: "2024-01-04" });
+      expect(getNextTaskDate(weeklyThursday, "2024-01-01")).toBe("2024-01-08");
+
+      const monthly10 = task({
+        recurrence_anchor: "completion",
+        recurrence_type: "monthly",
+        recurrence_monthly_rule: "day_of_month",
+        recurrence_month_day: 10,
+        due_date: "2024-01-10",
+      });
+      expect(getNextTaskDate(monthly10, "2024-01-05")).toBe("2024-02-05");
+    });
+
+    it("soma o intervalo a data de conclusao, sem voltar ao dia da regra", () => {
+      const everyTwoWeeks = task({ recurrence_anchor: "completion", recurrence_interval: 2, recurrence_days: [4], due_date: "2024-01-04" });
+      expect(getNextTaskDate(everyTwoWeeks, "2024-01-09")).toBe("2024-01-23");
+
+      const everyThreeDays = task({ recurrence_anchor: "completion", recurrence_type: "daily", recurrence_interval: 3, due_date: "2024-02-27" });
+      expect(getNextTaskDate(everyThreeDays, "2024-02-27")).toBe("2024-03-01");
+    });
+
+    it("mes curto usa o ultimo dia", () => {
+      const monthly = task({ recurrence_anchor: "completion", recurrence_type: "monthly", due_date: "2024-01-31" });
+      expect(getNextTaskDate(monthly, "2024-01-31")).toBe("2024-02-29");
+      expect(getNextTaskDate({ ...monthly, due_date: "2023-01-31" }, "2023-01-31")).toBe("2023-02-28");
+    });
+
+    it("avanca ate passar de um vencimento distante", () => {
+      const daily = task({ recurrence_anchor: "completion", recurrence_type: "daily", recurrence_interval: 2, due_date: "2024-01-10" });
+      expect(getNextTaskDate(daily, "2024-01-01")).toBe("2024-01-11");
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { parseCsv, parseOfx, parseStatementDate, type CsvMapping } from "@/lib/statementImport";
+
+describe("parseStatementDate", () => {
+  it("aceita datas validas nos dois formatos", () => {
+    expect(parseStatementDate("29/02/2024", "DD/MM/YYYY")).toBe("2024-02-29");
+    expect(parseStatementDate("5/3/24", "DD/MM/YYYY")).toBe("2024-03-05");
+    expect(parseStatementDate("2024-12-31", "YYYY-MM-DD")).toBe("2024-12-31");
+  });
+
+  it("rejeita datas impossiveis", () => {
+    expect(parseStatementDate("31/02/2024", "DD/MM/YYYY")).toBeNull();
+    expect(parseStatementDate("29/02/2023", "DD/MM/YYYY")).toBeNull();
+    expect(parseStatementDate("10/13/2024", "DD/MM/YYYY")).toBeNull();
+    expect(parseStatementDate("2024-04-31", "YYYY-MM-DD")).toBeNull();
+    expect(parseStatementDate("2024-00-10", "YYYY-MM-DD")).toBeNull();
+  });
+});
+
+describe("importacao com datas invalidas", () => {
+  const mapping: CsvMapping = {
+    delimiter: ";",
+    hasHeader: false,
+    dateColumn: 0,
+    descriptionColumn: 1,
+    amountColumn: 2,
+    dateFormat: "DD/MM/YYYY",
+    decimal: ",",
+    invertSign: false,
+  };
+
+  it("CSV ignora a linha e conta como pulada", () => {
+    const { rows, skipped } = parseCsv("31/02/2024;Mercado;-10,00\n28/02/2024;Padaria;-5,50", mapping);
+    expect(rows.map((r) => r.date)).toEqual(["2024-02-28"]);
+    expect(skipped).toBe(1);
+  });
+
+  it("OFX ignora a linha e conta como pulada", () => {
+    const ofx = [
+      "<BANKTRANLIST>",
+      "<STMTTRN><TRNAMT>-10.00<DTPOSTED>20240231<MEMO>Mercado</STMTTRN>",
+      "<STMTTRN><TRNAMT>-5.50<DTPOSTED>20240228<MEMO>Padaria</STMTTRN>",
+      "</BANKTRANLIST>",
+    ].join("\n");
+    const { rows, skipped } = parseOfx(ofx);
+    expect(rows.map((r) => r.date)).toEqual(["2024-02-28"]);
+    expect(skipped).toBe(1);
+  });
+});
@@ -0,0 +1,57 @@
+import type { PaymentAccountType } from "@/types";
+import { addMonths } from "@/lib/calendar";
+
+// Contas de pagamento e faturas de cartao. O banco calcula a fatura de cada
+// lancamento (statement_month); aqui so repetimos a conta para a previa.
+
+export const ACCOUNT_TYPE_LABELS: Record<PaymentAccountType, string> = {
+  cash: "Dinheiro",
+  checking: "Conta corrente",
+  credit_card: "Cartao de credito",
+};
+
+export const ACCOUNT_TYPE_ICONS: Record<PaymentAccountType, string> = {
+  cash: "cash-outline",
+  checking: "business-outline",
+  credit_card: "card-outline",
+};
+
+export const MAX_INSTALLMENTS = 48;
+
+const toCents = (value: number): number => Math.round(value * 100);
+
+// Dia 31 vira o ultimo dia de meses curtos (igual a bill_period_due_date)
+export const getDayInMonth = (month: string, day: number): string => {
+  const lastDay = new Date(Number(month.slice(0, 4)), Number(month.slice(5, 7)), 0).getDate();
+  return `${month}-${String(Math.min(day, lastDay)).padStart(2, "0")}`;
+};
+
+// Manter igual a card_statement_month() em 017_payment_accounts.sql.
+// Retorna o mes de vencimento da fatura (YYYY-MM)
+export const getStatementMonth = (date: string, closingDay: number, dueDay: number): string => {
+  const month = date.slice(0, 7);
+  const afterClosing = date > getDayInMonth(month, closingDay);
+  const offset = (afterClosing ? 1 : 0) + (dueDay <= closingDay ? 1 : 0);
+  return addMonths(`${month}-01`, offset).slice(0, 7);
+};
+
+// Fechamento e vencimento da fatura de um mes
+export const getStatementDates = (
+  statementMonth: string,
+  closingDay: number,
+  dueDay: number
+): { closingDate: string; dueDate: string } => {
+  const closingMonth = dueDay <= closingDay ? addMonths(`${statementMonth}-01`, -1).slice(0, 7) : statementMonth;
+  return {
+    closingDate: getDayInMonth(closingMonth, closingDay),
+    dueDate: getDayInMonth(statementMonth, dueDay),
+  };
+};
+
+// Manter igual a create_installment_purchase(): centavos na primeira parcela
+export const getInstallmentAmounts = (total: number, count: number): number[] => {
+  if (count < 1) return [];
+  const installment = Math.floor(toCents(total) / count);
+  const first = toCents(total) - installment * (count - 1);
+  return Array.from({ length: count }, (_, index) => (index === 0 ? first : installment) / 100);
+};
@@ -0,0 +1,86 @@
+import type { Bill, BillFrequency } from "@/types";
+
+// Agendamento das contas. O banco calcula a ocorrencia em aberto
+// (next_due_date); aqui repetimos a conta para a agenda e a previa do formulario
+
+export const BILL_FREQUENCY_LABELS: Record<BillFrequency, string> = {
+  monthly: "Mensal",
+  bimonthly: "Bimestral",
+  quarterly: "Trimestral",
+  yearly: "Anual",
+  installments: "Parcelada",
+};
+
+// Meses entre uma ocorrencia e a seguinte
+export const BILL_FREQUENCY_MONTHS: Record<BillFrequency, number> = {
+  monthly: 1,
+  bimonthly: 2,
+  quarterly: 3,
+  yearly: 12,
+  installments: 1,
+};
+
+// Meses como numero (ano * 12 + mes) para contar e somar sem Date
+const toMonthIndex = (month: string): number => Number(month.slice(0, 4)) * 12 + Number(month.slice(5, 7)) - 1;
+
+const fromMonthIndex = (index: number): string =>
+  `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}`;
+
+// Dia 31 vira o ultimo dia de meses curtos (igual a bill_period_due_date)
+const getDueDateInMonth = (month: string, day: number): string => {
+  const lastDay = new Date(Number(month.slice(0, 4)), Number(month.slice(5, 7)), 0).getDate();
+  return `${month}-${String(Math.min(day, lastDay)).padStart(2, "0")}`;
+};
+
+// Campos do agendamento (a previa do formulario ainda nao tem a conta salva)
+export type BillSchedule = Pick<Bill, "due_day" | "frequency" | "first_due_date" | "installment_count">;
+
+const getDueDay = (bill: BillSchedule): number | null =>
+  bill.first_due_date ? Number(bill.first_due_date.slice(8, 10)) : bill.due_day || null;
+
+// Manter igual a bill_next_due_date() em 018_bill_schedules.sql (contas
+// recorrentes). Primeira ocorrencia no mes (YYYY-MM) ou depois; null = sem
+// dia de vencimento ou parcelas encerradas
+export const getNextBillDueDate = (bill: BillSchedule, month: string): string | null => {
+  const dueDay = getDueDay(bill);
+  if (!dueDay) return null;
+  if (!bill.first_due_date) return getDueDateInMonth(month, dueDay);
+
+  const first = toMonthIndex(bill.first_due_date);
+  const step = BILL_FREQUENCY_MONTHS[bill.frequency || "monthly"];
+  const index = Math.max(0, Math.ceil((toMonthIndex(month) - first) / step));
+  if (bill.frequency === "installments" && index >= (bill.installment_count || 0)) return null;
+
+  return getDueDateInMonth(fromMonthIndex(first + index * step), dueDay);
+};
+
+// Vencimento da conta no mes (null = nenhuma ocorrencia no mes)
+export const getBillDueDateInMonth = (bill: BillSchedule, month: string): string | null => {
+  const next = getNextBillDueDate(bill, month);
+  return next?.startsWith(month) ? next : null;
+};
+
+// Numero da parcela em aberto (so contas parceladas)
+export const getBillInstallmentNumber = (bill: Bill): number | null => {
+  if (bill.frequency !== "installments" || !bill.first_due_date || !bill.next_due_date) return null;
+  return toMonthIndex(bill.next_due_date) - toMonthIndex(bill.first_due_date) + 1;
+};
+
+// Parcelas encerradas: a conta nao tem mais vencimentos
+export const isBillFinished = (bill: Bill): boolean =>
+  bill.frequency === "installments" && !bill.next_due_date;
+
+// Rotulo do agendamento (null = mensal)
+export const getBillScheduleLabel = (bill: Bill): string | null => {
+  const frequency = bill.frequency || "monthly";
+  if (frequency === "monthly") return null;
+  if (frequency === "installments") {
+    const number = getBillInstallmentNumber(bill);
+    return number ? `Parcela ${number}/${bill.installment_count}` : "Parcelas encerradas";
+  }
+  return BILL_FREQUENCY_LABELS[frequency];
+};
+
+// Ordena pelo vencimento em aberto (sem vencimento no fim)
+export const compareBillsByDueDate = (a: Bill, b: Bill): number =>
+  (a.next_due_date || "9999-12-31").localeCompare(b.next_due_date || "9999-12-31");
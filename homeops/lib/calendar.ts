@@ -0,0 +1,224 @@
+import type { Task, Bill, MaintenanceItem, InventoryItem } from "@/types";
+import {
+  parseDateKey,
+  toDateKey,
+  addDays,
+  getWeekday,
+  getTodayKey,
+  getRecurrenceRule,
+  getNextOccurrence,
+} from "@/lib/recurrence";
+import { getBillDueDateInMonth } from "@/lib/bills";
+
+// Agenda unificada: projeta tarefas, contas, manutencoes, garantias e validades em datas
+
+export type CalendarEventType = "task" | "bill" | "maintenance" | "warranty" | "expiration";
+
+export interface CalendarEvent {
+  id: string;
+  type: CalendarEventType;
+  date: string;
+  title: string;
+  subtitle?: string;
+  route: string;
+  isOverdue: boolean;
+  isProjected: boolean; // ocorrencia futura de algo recorrente
+}
+
+export interface CalendarSources {
+  tasks: Task[];
+  bills: Bill[];
+  maintenanceItems: MaintenanceItem[];
+  inventoryItems: InventoryItem[];
+}
+
+export const CALENDAR_EVENT_META: Record<CalendarEventType, { label: string; icon: string; color: string }> = {
+  task: { label: "Tarefa", icon: "checkbox-outline", color: "#3B82F6" },
+  bill: { label: "Conta", icon: "wallet-outline", color: "#EF4444" },
+  maintenance: { label: "Manutencao", icon: "build-outline", color: "#F59E0B" },
+  warranty: { label: "Garantia", icon: "shield-checkmark-outline", color: "#8B5CF6" },
+  expiration: { label: "Validade", icon: "cube-outline", color: "#10B981" },
+};
+
+// Limite de ocorrencias projetadas por tarefa (tarefas diarias num mes inteiro)
+const MAX_PROJECTED_PER_TASK = 62;
+
+// Passos ate chegar ao periodo (vencimento atrasado ha muito tempo)
+const MAX_PROJECTION_STEPS = 5000;
+
+const inRange = (date: string | null | undefined, start: string, end: string): date is string => {
+  return !!date && date >= start && date <= end;
+};
+
+export const getMonthStart = (key: string): string => key.slice(0, 8) + "01";
+
+export const addMonths = (key: string, months: number): string => {
+  const date = parseDateKey(key);
+  const day = date.getUTCDate();
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return toDateKey(target);
+};
+
+export const getWeekStart = (key: string): string => addDays(key, -getWeekday(key));
+
+// Semanas (domingo a sabado) que cobrem o mes de `key`
+export const getMonthGrid = (key: string): string[][] => {
+  const monthStart = getMonthStart(key);
+  const monthEnd = addDays(addMonths(monthStart, 1), -1);
+  const weeks: string[][] = [];
+
+  let cursor = getWeekStart(monthStart);
+  while (cursor <= monthEnd) {
+    weeks.push(Array.from({ length: 7 }, (_, i) => addDays(cursor, i)));
+    cursor = addDays(cursor, 7);
+  }
+
+  return weeks;
+};
+
+const getTaskEvents = (tasks: Task[], start: string, end: string, today: string): CalendarEvent[] => {
+  const events: CalendarEvent[] = [];
+
+  tasks
+    .filter((t) => t.status === "pending" && t.due_date)
+    .forEach((task) => {
+      const dueDate = task.due_date as string;
+      const base = {
+        type: "task" as const,
+        title: task.title,
+        subtitle: task.category?.name,
+        route: `/task/${task.id}`,
+      };
+
+      if (inRange(dueDate, start, end)) {
+        events.push({
+          ...base,
+          id: `task_${task.id}_${dueDate}`,
+          date: dueDate,
+          isOverdue: dueDate < today,
+          isProjected: false,
+        });
+      }
+
+      // Proximas ocorrencias da serie
+      const rule = getRecurrenceRule(task);
+      if (!rule) return;
+
+      // So conta o que entra no periodo: antes de `start` apenas avanca
+      let next = getNextOccurrence(rule, dueDate, dueDate);
+      let projected = 0;
+      for (let step = 0; next <= end && projected < MAX_PROJECTED_PER_TASK && step < MAX_PROJECTION_STEPS; step++) {
+        if (next >= start) {
+          events.push({ ...base, id: `task_${task.id}_${next}`, date: next, isOverdue: false, isProjected: true });
+          projected++;
+        }
+        next = getNextOccurrence(rule, next, dueDate);
+      }
+    });
+
+  return events;
+};
+
+// Contas aparecem nos vencimentos do agendamento; a ocorrencia em aberto e
+// next_due_date e as seguintes sao projetadas
+const getBillEvents = (bills: Bill[], start: string, end: string, today: string): CalendarEvent[] => {
+  const events: CalendarEvent[] = [];
+  const currentMonth = getMonthStart(today);
+
+  bills.forEach((bill) => {
+    const dates: string[] = [];
+    if (!bill.is_recurring) {
+      if (bill.next_due_date) dates.push(bill.next_due_date);
+    } else {
+      // Meses passados ja foram tratados
+      for (let month = getMonthStart(start); month <= end; month = addMonths(month, 1)) {
+        if (month < currentMonth) continue;
+        const date = getBillDueDateInMonth(bill, month.slice(0, 7));
+        if (date) dates.push(date);
+      }
+    }
+
+    dates.forEach((date) => {
+      if (!inRange(date, start, end)) return;
+      const isOpen = date === bill.next_due_date;
+      if (isOpen && bill.current_month_status === "paid") return;
+
+      events.push({
+        id: `bill_${bill.id}_${date}`,
+        type: "bill",
+        date,
+        title: bill.name,
+        subtitle: `R$ ${bill.amount.toFixed(2).replace(".", ",")}`,
+        route: `/finance/edit-bill?id=${bill.id}`,
+        isOverdue: date < today,
+        isProjected: !isOpen,
+      });
+    });
+  });
+
+  return events;
+};
+
+export const getCalendarEvents = (
+  sources: CalendarSources,
+  start: string,
+  end: string,
+  today: string = getTodayKey()
+): CalendarEvent[] => {
+  const events: CalendarEvent[] = [
+    ...getTaskEvents(sources.tasks, start, end, today),
+    ...getBillEvents(sources.bills, start, end, today),
+  ];
+
+  sources.maintenanceItems.forEach((item) => {
+    if (inRange(item.next_maintenance_date, start, end)) {
+      events.push({
+        id: `maintenance_${item.id}`,
+        type: "maintenance",
+        date: item.next_maintenance_date,
+        title: item.name,
+        subtitle: item.category?.name,
+        route: `/maintenance/${item.id}`,
+        isOverdue: item.next_maintenance_date < today,
+        isProjected: false,
+      });
+    }
+    if (inRange(item.warranty_until, start, end)) {
+      events.push({
+        id: `warranty_${item.id}`,
+        type: "warranty",
+        date: item.warranty_until,
+        title: `Garantia: ${item.name}`,
+        route: `/maintenance/${item.id}`,
+        isOverdue: item.warranty_until < today,
+        isProjected: false,
+      });
+    }
+  });
+
+  sources.inventoryItems.forEach((item) => {
+    if (inRange(item.expiration_date, start, end)) {
+      events.push({
+        id: `expiration_${item.id}`,
+        type: "expiration",
+        date: item.expiration_date,
+        title: item.name,
+        subtitle: "Vence",
+        route: `/inventory/${item.id}`,
+        isOverdue: item.expiration_date < today,
+        isProjected: false,
+      });
+    }
+  });
+
+  return events.sort((a, b) => a.date.localeCompare(b.date) || a.type.localeCompare(b.type));
+};
+
+export const groupEventsByDate = (events: CalendarEvent[]): Record<string, CalendarEvent[]> => {
+  return events.reduce<Record<string, CalendarEvent[]>>((groups, event) => {
+    (groups[event.date] = groups[event.date] || []).push(event);
+    return groups;
+  }, {});
+};
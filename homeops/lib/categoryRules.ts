@@ -0,0 +1,65 @@
+import type { CategoryRule, CategoryRuleMatch, Transaction } from "@/types";
+
+// Categorizacao automatica: quem grava a categoria e o banco
+// (trigger transactions_auto_category). Aqui so sugerimos na tela.
+
+export const CATEGORY_RULE_MATCH_LABELS: Record<CategoryRuleMatch, string> = {
+  contains: "Contem o texto",
+  regex: "Expressao regular",
+};
+
+type RuleTarget = Pick<Transaction, "description" | "amount" | "type">;
+
+const matchesPattern = (rule: CategoryRule, description: string): boolean => {
+  if (rule.match_type === "regex") {
+    try {
+      return new RegExp(rule.pattern, "i").test(description);
+    } catch {
+      return false;
+    }
+  }
+  return description.toLowerCase().includes(rule.pattern.trim().toLowerCase());
+};
+
+// Manter igual a match_category_rule() em 015_category_rules.sql
+export const findMatchingRule = (rules: CategoryRule[], target: RuleTarget): CategoryRule | null => {
+  const sorted = [...rules].sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  return (
+    sorted.find((rule) => {
+      if (rule.category && rule.category.type !== target.type) return false;
+      if (rule.type && rule.type !== target.type) return false;
+      if (rule.min_amount != null && target.amount < Number(rule.min_amount)) return false;
+      if (rule.max_amount != null && target.amount > Number(rule.max_amount)) return false;
+      return matchesPattern(rule, target.description);
+    }) || null
+  );
+};
+
+export const validateRule = (
+  rule: Pick<CategoryRule, "pattern" | "match_type" | "min_amount" | "max_amount">
+): string | null => {
+  if (!rule.pattern.trim()) return "Digite o texto da regra";
+
+  if (rule.match_type === "regex") {
+    try {
+      new RegExp(rule.pattern);
+    } catch {
+      return "Expressao regular invalida";
+    }
+  }
+
+  if (rule.min_amount != null && rule.max_amount != null && rule.min_amount > rule.max_amount) {
+    return "O valor minimo deve ser menor que o maximo";
+  }
+
+  return null;
+};
+
+// Texto da regra aprendida: a descricao ate o primeiro numero
+// ("UBER *TRIP 12/10" -> "UBER *TRIP"), para pegar as proximas cobrancas
+export const getRulePatternFromDescription = (description: string): string => {
+  const trimmed = description.trim();
+  const prefix = trimmed.split(/\d/)[0].replace(/[\s\-*#:/.,]+$/, "").trim();
+  return prefix.length >= 3 ? prefix : trimmed;
+};
@@ -0,0 +1,25 @@
+import type { Task, TaskChecklistItem } from "@/types";
+
+// Checklist (subtarefas) de uma tarefa
+
+// Item em edicao no formulario (sem id = ainda nao salvo)
+export interface ChecklistDraft {
+  id?: string;
+  title: string;
+}
+
+export const getChecklist = (task: Pick<Task, "checklist">): TaskChecklistItem[] => {
+  return [...(task.checklist || [])].sort((a, b) => a.position - b.position);
+};
+
+export const getChecklistProgress = (task: Pick<Task, "checklist">): { done: number; total: number } => {
+  const items = task.checklist || [];
+  return {
+    done: items.filter((item) => item.is_done).length,
+    total: items.length,
+  };
+};
+
+export const toChecklistDrafts = (task: Pick<Task, "checklist">): ChecklistDraft[] => {
+  return getChecklist(task).map((item) => ({ id: item.id, title: item.title }));
+};
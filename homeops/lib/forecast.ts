@@ -0,0 +1,123 @@
+import type { Bill, RecurringIncome } from "@/types";
+import { addDays } from "@/lib/recurrence";
+import { addMonths } from "@/lib/calendar";
+import { getNextBillDueDate } from "@/lib/bills";
+
+// Previsao de caixa: parte do saldo atual e aplica, dia a dia, as contas em
+// aberto e as receitas fixas ate o fim do horizonte. Tudo aqui e puro
+
+export const FORECAST_HORIZONS = [30, 60, 90] as const;
+
+export type ForecastHorizon = (typeof FORECAST_HORIZONS)[number];
+
+export interface ForecastEvent {
+  id: string; // bill_<id>_<data> ou income_<id>_<data>
+  kind: "bill" | "income";
+  name: string;
+  amount: number; // positivo = entra, negativo = sai
+}
+
+// Dia com movimento; balance = saldo ao fim do dia
+export interface ForecastDay {
+  date: string;
+  events: ForecastEvent[];
+  balance: number;
+}
+
+export interface CashForecast {
+  startBalance: number;
+  endBalance: number;
+  totalIncome: number;
+  totalBills: number;
+  lowestBalance: number;
+  lowestDate: string | null; // null = saldo nunca cai abaixo do inicial
+  firstNegativeDate: string | null;
+  days: ForecastDay[];
+}
+
+const getNextMonth = (date: string): string => addMonths(`${date.slice(0, 7)}-01`, 1).slice(0, 7);
+
+// Dia 31 vira o ultimo dia de meses curtos
+const getDateInMonth = (month: string, day: number): string => {
+  const lastDay = new Date(Number(month.slice(0, 4)), Number(month.slice(5, 7)), 0).getDate();
+  return `${month}-${String(Math.min(day, lastDay)).padStart(2, "0")}`;
+};
+
+// Vencimentos ainda nao pagos ate endKey. Atrasada conta hoje; a fatura do
+// cartao so tem o valor da fatura atual, entao entra uma vez
+export const getBillOccurrencesUntil = (bill: Bill, todayKey: string, endKey: string): string[] => {
+  if (!bill.next_due_date) return [];
+
+  const dates: string[] = [];
+  if (bill.current_month_status !== "paid") {
+    dates.push(bill.next_due_date < todayKey ? todayKey : bill.next_due_date);
+  }
+  if (!bill.is_recurring || bill.invoice_account_id) return dates.filter((date) => date <= endKey);
+
+  // Parcela em aberto atrasada: as seguintes que ja venceram tambem contam hoje
+  let next = getNextBillDueDate(bill, getNextMonth(bill.next_due_date));
+  while (next && next <= endKey) {
+    dates.push(next < todayKey ? todayKey : next);
+    next = getNextBillDueDate(bill, getNextMonth(next));
+  }
+  return dates.filter((date) => date <= endKey);
+};
+
+// Recebimentos depois de hoje: a receita de hoje ja entra no saldo quando lancada
+export const getIncomeDatesUntil = (income: RecurringIncome, todayKey: string, endKey: string): string[] => {
+  const dates: string[] = [];
+  for (let month = todayKey.slice(0, 7); month <= endKey.slice(0, 7); month = getNextMonth(`${month}-01`)) {
+    const date = getDateInMonth(month, income.day_of_month);
+    if (date > todayKey && date <= endKey) dates.push(date);
+  }
+  return dates;
+};
+
+export const buildCashForecast = (
+  startBalance: number,
+  bills: Bill[],
+  incomes: RecurringIncome[],
+  todayKey: string,
+  horizon: ForecastHorizon
+): CashForecast => {
+  const endKey = addDays(todayKey, horizon);
+  const byDate = new Map<string, ForecastEvent[]>();
+  const push = (date: string, event: ForecastEvent) => byDate.set(date, [...(byDate.get(date) || []), event]);
+
+  bills.forEach((bill) =>
+    getBillOccurrencesUntil(bill, todayKey, endKey).forEach((date) =>
+      push(date, { id: `bill_${bill.id}_${date}`, kind: "bill", name: bill.name, amount: -Number(bill.amount) })
+    )
+  );
+  incomes
+    .filter((income) => income.is_active)
+    .forEach((income) =>
+      getIncomeDatesUntil(income, todayKey, endKey).forEach((date) =>
+        push(date, { id: `income_${income.id}_${date}`, kind: "income", name: income.name, amount: Number(income.amount) })
+      )
+    );
+
+  let balance = startBalance;
+  let totalIncome = 0;
+  let totalBills = 0;
+  let lowestBalance = startBalance;
+  let lowestDate: string | null = null;
+  let firstNegativeDate: string | null = null;
+
+  const days = [...byDate.keys()].sort().map((date) => {
+    const events = byDate.get(date)!.sort((a, b) => a.amount - b.amount);
+    events.forEach((event) => {
+      balance += event.amount;
+      if (event.amount > 0) totalIncome += event.amount;
+      else totalBills -= event.amount;
+    });
+    if (balance < lowestBalance) {
+      lowestBalance = balance;
+      lowestDate = date;
+    }
+    if (balance < 0 && !firstNegativeDate) firstNegativeDate = date;
+    return { date, events, balance };
+  });
+
+  return { startBalance, endBalance: balance, totalIncome, totalBills, lowestBalance, lowestDate, firstNegativeDate, days };
+};
@@ -0,0 +1,40 @@
+import type { Task, TaskCompletion } from "@/types";
+
+// Gamificacao leve: os pontos oficiais sao gravados pelo banco
+// (trigger award_task_completion) e os badges vem do ranking. Aqui so exibimos.
+
+// Manter igual a task_default_points() em 007_task_gamification.sql
+export const getDefaultTaskPoints = (task: Pick<Task, "priority" | "estimated_minutes">): number => {
+  const byTime = Math.min(Math.floor((task.estimated_minutes || 0) / 10), 20);
+  return (task.priority || 2) * 5 + byTime;
+};
+
+export const getTaskPoints = (task: Pick<Task, "points" | "priority" | "estimated_minutes">): number => {
+  return task.points ?? getDefaultTaskPoints(task);
+};
+
+export const getCompletionPoints = (completion: Pick<TaskCompletion, "points" | "bonus_points">): number => {
+  return (completion.points || 0) + (completion.bonus_points || 0);
+};
+
+export interface Badge {
+  id: string;
+  label: string;
+  description: string;
+  icon: string;
+}
+
+// Manter os ids iguais a get_task_leaderboard() em 022_task_leaderboard_badges.sql
+export const BADGES: Badge[] = [
+  { id: "first_task", label: "Primeira tarefa", description: "Concluiu a primeira tarefa", icon: "ribbon-outline" },
+  { id: "streak_5", label: "Em sequencia", description: "5 conclusoes seguidas no prazo", icon: "flame-outline" },
+  { id: "streak_20", label: "Imparavel", description: "20 conclusoes seguidas no prazo", icon: "flame" },
+  { id: "points_100", label: "Centenario", description: "100 pontos acumulados", icon: "star-outline" },
+  { id: "points_500", label: "Dono da casa", description: "500 pontos acumulados", icon: "star" },
+  { id: "weekly_champion", label: "Campeao da semana", description: "Liderou o ranking da semana passada", icon: "trophy-outline" },
+];
+
+// Badges vem calculados no ranking (get_task_leaderboard)
+export const getBadgesByIds = (ids: string[]): Badge[] => {
+  return BADGES.filter((badge) => ids.includes(badge.id));
+};
@@ -0,0 +1,278 @@
+import { addDays, diffInDays, getTodayKey } from "@/lib/recurrence";
+
+// Leitura de boletos (linha digitavel ou codigo de barras) e Pix copia e cola.
+// Tudo aqui e puro: valida os digitos e extrai o que o codigo carrega.
+
+export type PaymentCodeKind = "boleto" | "arrecadacao" | "pix";
+
+export interface PaymentCodeInfo {
+  kind: PaymentCodeKind;
+  code: string; // como deve ser copiado na hora de pagar
+  amount: number | null;
+  dueDate: string | null; // YYYY-MM-DD
+  beneficiary: string | null; // banco emissor, segmento do convenio ou recebedor do Pix
+  description: string | null;
+}
+
+export interface PaymentCodeResult {
+  info: PaymentCodeInfo | null;
+  error: string | null;
+}
+
+export const PAYMENT_CODE_LABELS: Record<PaymentCodeKind, string> = {
+  boleto: "Boleto bancario",
+  arrecadacao: "Boleto de convenio",
+  pix: "Pix copia e cola",
+};
+
+// Bancos mais comuns (os 3 primeiros digitos do boleto)
+const BANK_NAMES: Record<string, string> = {
+  "001": "Banco do Brasil",
+  "033": "Santander",
+  "077": "Banco Inter",
+  "104": "Caixa",
+  "208": "BTG Pactual",
+  "212": "Banco Original",
+  "237": "Bradesco",
+  "260": "Nubank",
+  "336": "C6 Bank",
+  "341": "Itau",
+  "422": "Safra",
+  "748": "Sicredi",
+  "756": "Sicoob",
+};
+
+// Segundo digito dos boletos de convenio (comecam com 8)
+const SEGMENT_NAMES: Record<string, string> = {
+  "1": "Prefeitura",
+  "2": "Saneamento",
+  "3": "Energia eletrica e gas",
+  "4": "Telecomunicacoes",
+  "5": "Orgao governamental",
+  "6": "Carne",
+  "7": "Multa de transito",
+  "9": "Uso exclusivo do banco",
+};
+
+// ---------- Digitos verificadores ----------
+
+const mod10 = (digits: string): number => {
+  let sum = 0;
+  let weight = 2;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const product = Number(digits[i]) * weight;
+    sum += product > 9 ? product - 9 : product;
+    weight = weight === 2 ? 1 : 2;
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+const mod11Sum = (digits: string): number => {
+  let sum = 0;
+  let weight = 2;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    sum += Number(digits[i]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+  return sum % 11;
+};
+
+// Boleto bancario: 0, 10 e 11 viram 1
+const mod11Boleto = (digits: string): number => {
+  const dv = 11 - mod11Sum(digits);
+  return dv === 0 || dv === 10 || dv === 11 ? 1 : dv;
+};
+
+// Convenio: resto 0 ou 1 vira 0
+const mod11Arrecadacao = (digits: string): number => {
+  const rest = mod11Sum(digits);
+  return rest < 2 ? 0 : 11 - rest;
+};
+
+// ---------- Boleto bancario ----------
+
+// O fator conta dias desde 07/10/1997 e recomecou em 1000 no dia 22/02/2025:
+// vale o ciclo mais proximo de hoje
+const getDueDateFromFactor = (factor: number, todayKey: string): string | null => {
+  if (factor === 0) return null;
+  const candidates = [addDays("1997-10-07", factor), addDays("2025-02-22", factor - 1000)];
+  return candidates.reduce((best, date) =>
+    Math.abs(diffInDays(todayKey, date)) < Math.abs(diffInDays(todayKey, best)) ? date : best
+  );
+};
+
+const parseBankBarcode = (barcode: string, code: string, todayKey: string): PaymentCodeResult => {
+  if (mod11Boleto(barcode.slice(0, 4) + barcode.slice(5)) !== Number(barcode[4])) {
+    return { info: null, error: "Digito verificador do boleto nao confere" };
+  }
+
+  const amount = Number(barcode.slice(9, 19)) / 100;
+  return {
+    info: {
+      kind: "boleto",
+      code,
+      amount: amount > 0 ? amount : null,
+      dueDate: getDueDateFromFactor(Number(barcode.slice(5, 9)), todayKey),
+      beneficiary: BANK_NAMES[barcode.slice(0, 3)] || `Banco ${barcode.slice(0, 3)}`,
+      description: null,
+    },
+    error: null,
+  };
+};
+
+// Linha digitavel (47): tres campos com DV modulo 10, DV geral, fator e valor
+const parseBankLine = (line: string, todayKey: string): PaymentCodeResult => {
+  const fields = [line.slice(0, 10), line.slice(10, 21), line.slice(21, 32)];
+  const invalid = fields.findIndex((field) => mod10(field.slice(0, -1)) !== Number(field.slice(-1)));
+  if (invalid >= 0) {
+    return { info: null, error: `Digito verificador do campo ${invalid + 1} nao confere` };
+  }
+
+  const barcode = line.slice(0, 4) + line[32] + line.slice(33, 47) + line.slice(4, 9) + line.slice(10, 20) + line.slice(21, 31);
+  return parseBankBarcode(barcode, line, todayKey);
+};
+
+// ---------- Convenio (agua, luz, tributos) ----------
+
+const parseArrecadacaoBarcode = (barcode: string, code: string): PaymentCodeResult => {
+  const valueType = barcode[2];
+  if (!["6", "7", "8", "9"].includes(valueType)) {
+    return { info: null, error: "Codigo de convenio invalido" };
+  }
+
+  const check = valueType === "6" || valueType === "7" ? mod10 : mod11Arrecadacao;
+  if (check(barcode.slice(0, 3) + barcode.slice(4)) !== Number(barcode[3])) {
+    return { info: null, error: "Digito verificador do boleto nao confere" };
+  }
+
+  // 7 e 9 trazem uma quantidade de referencia, nao o valor em reais
+  const amount = valueType === "6" || valueType === "8" ? Number(barcode.slice(4, 15)) / 100 : 0;
+  return {
+    info: {
+      kind: "arrecadacao",
+      code,
+      amount: amount > 0 ? amount : null,
+      dueDate: null,
+      beneficiary: SEGMENT_NAMES[barcode[1]] || null,
+      description: null,
+    },
+    error: null,
+  };
+};
+
+// Linha digitavel (48): quatro blocos de 11 digitos + DV
+const parseArrecadacaoLine = (line: string): PaymentCodeResult => {
+  const blocks = [0, 1, 2, 3].map((i) => line.slice(i * 12, i * 12 + 12));
+  const check = line[2] === "6" || line[2] === "7" ? mod10 : mod11Arrecadacao;
+  const invalid = blocks.findIndex((block) => check(block.slice(0, 11)) !== Number(block[11]));
+  if (invalid >= 0) {
+    return { info: null, error: `Digito verificador do bloco ${invalid + 1} nao confere` };
+  }
+
+  return parseArrecadacaoBarcode(blocks.map((block) => block.slice(0, 11)).join(""), line);
+};
+
+// ---------- Pix (BR Code / EMV) ----------
+
+// Bytes UTF-8 (nomes com acento)
+const toUtf8Bytes = (text: string): number[] => {
+  const bytes: number[] = [];
+  const encoded = encodeURIComponent(text);
+  for (let i = 0; i < encoded.length; i++) {
+    if (encoded[i] === "%") {
+      bytes.push(parseInt(encoded.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(encoded.charCodeAt(i));
+    }
+  }
+  return bytes;
+};
+
+// CRC16-CCITT (polinomio 0x1021, inicio 0xFFFF)
+const crc16 = (text: string): string => {
+  let crc = 0xffff;
+  toUtf8Bytes(text).forEach((byte) => {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  });
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+};
+
+// Campos ID (2) + tamanho (2) + valor; null = estrutura quebrada
+const parseTlv = (text: string): Record<string, string> | null => {
+  const fields: Record<string, string> = {};
+  let i = 0;
+  while (i < text.length) {
+    const id = text.slice(i, i + 2);
+    const length = text.slice(i + 2, i + 4);
+    if (!/^\d{2}$/.test(id) || !/^\d{2}$/.test(length) || i + 4 + Number(length) > text.length) return null;
+    fields[id] = text.slice(i + 4, i + 4 + Number(length));
+    i += 4 + Number(length);
+  }
+  return fields;
+};
+
+const parsePix = (payload: string): PaymentCodeResult => {
+  const fields = parseTlv(payload);
+  if (!fields || fields["00"] !== "01") {
+    return { info: null, error: "Codigo Pix invalido" };
+  }
+  if (!payload.slice(-8, -4).startsWith("6304") || crc16(payload.slice(0, -4)) !== payload.slice(-4).toUpperCase()) {
+    return { info: null, error: "Codigo Pix corrompido (CRC nao confere)" };
+  }
+
+  // Dados da chave ficam num dos campos 26 a 51 com o GUI do Pix
+  const account = Object.keys(fields)
+    .filter((id) => Number(id) >= 26 && Number(id) <= 51)
+    .map((id) => parseTlv(fields[id]))
+    .find((sub) => sub?.["00"]?.toLowerCase() === "br.gov.bcb.pix");
+  if (!account) {
+    return { info: null, error: "O codigo nao e um Pix" };
+  }
+
+  const amount = fields["54"] ? Number(fields["54"]) : 0;
+  return {
+    info: {
+      kind: "pix",
+      code: payload,
+      amount: amount > 0 ? amount : null,
+      dueDate: null,
+      beneficiary: fields["59"]?.trim() || null,
+      description: account["02"]?.trim() || null,
+    },
+    error: null,
+  };
+};
+
+// ---------- Entrada ----------
+
+// Aceita linha digitavel (47 ou 48 digitos), codigo de barras (44) ou Pix
+export const parsePaymentCode = (input: string, todayKey: string = getTodayKey()): PaymentCodeResult => {
+  const text = input.trim();
+  if (!text) return { info: null, error: "Cole o codigo do boleto ou do Pix" };
+  if (text.startsWith("000201")) return parsePix(text);
+
+  const digits = text.replace(/\D/g, "");
+  if (/[^\d\s.\-]/.test(text)) {
+    return { info: null, error: "Codigo nao reconhecido" };
+  }
+  if (digits.length === 47) return parseBankLine(digits, todayKey);
+  if (digits.length === 48 && digits[0] === "8") return parseArrecadacaoLine(digits);
+  if (digits.length === 44) {
+    return digits[0] === "8" ? parseArrecadacaoBarcode(digits, digits) : parseBankBarcode(digits, digits, todayKey);
+  }
+  return { info: null, error: `Linha digitavel com ${digits.length} digitos (esperado 47 ou 48)` };
+};
+
+// Linha digitavel em blocos para leitura (Pix fica como esta)
+export const formatPaymentCode = (code: string): string => {
+  if (code.startsWith("000201")) return code;
+  if (code.length === 47) {
+    return `${code.slice(0, 5)}.${code.slice(5, 10)} ${code.slice(10, 15)}.${code.slice(15, 21)} ${code.slice(21, 26)}.${code.slice(26, 32)} ${code[32]} ${code.slice(33)}`;
+  }
+  if (code.length === 48) return [0, 1, 2, 3].map((i) => `${code.slice(i * 12, i * 12 + 11)}-${code[i * 12 + 11]}`).join(" ");
+  return code;
+};
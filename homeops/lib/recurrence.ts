@@ -0,0 +1,360 @@
+import type { Task, RecurrenceType, MonthlyRecurrenceRule } from "@/types";
+
+// Motor de recorrencia de tarefas.
+// Todas as datas sao strings "YYYY-MM-DD" e os calculos sao feitos em UTC,
+// entao o resultado nao depende do fuso nem de horario de verao do aparelho.
+
+export interface RecurrenceRule {
+  type: RecurrenceType;
+  interval: number;
+  days: number[]; // dias da semana (0 = domingo ... 6 = sabado)
+  monthlyRule: MonthlyRecurrenceRule;
+  monthDay: number | null; // 1-31, para "day_of_month"
+  weekOfMonth: number | null; // 1-4 ou -1 (ultima), para "nth_weekday"
+}
+
+type RecurrenceSource = Pick<
+  Task,
+  | "is_recurring"
+  | "recurrence_type"
+  | "recurrence_days"
+  | "recurrence_interval"
+  | "recurrence_monthly_rule"
+  | "recurrence_month_day"
+  | "recurrence_week_of_month"
+  | "recurrence_anchor"
+  | "due_date"
+>;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const WEEKDAY_SHORT_LABELS = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sab"];
+const WEEKDAY_LABELS = ["domingo", "segunda", "terca", "quarta", "quinta", "sexta", "sabado"];
+const WEEK_OF_MONTH_LABELS: Record<number, string> = {
+  1: "1o",
+  2: "2o",
+  3: "3o",
+  4: "4o",
+  [-1]: "ultimo",
+};
+
+// Date helpers (UTC)
+export const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+export const toDateKey = (date: Date): string => {
+  return date.toISOString().split("T")[0];
+};
+
+// Data local do aparelho como "YYYY-MM-DD"
+export const getTodayKey = (now: Date = new Date()): string => {
+  return toDateKey(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())));
+};
+
+export const addDays = (key: string, days: number): string => {
+  const date = parseDateKey(key);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateKey(date);
+};
+
+export const getWeekday = (key: string): number => parseDateKey(key).getUTCDay();
+
+export const diffInDays = (from: string, to: string): number => {
+  return Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / DAY_MS);
+};
+
+const daysInMonth = (year: number, monthIndex: number): number => {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+};
+
+const makeKey = (year: number, monthIndex: number, day: number): string => {
+  return toDateKey(new Date(Date.UTC(year, monthIndex, day)));
+};
+
+// Dia do mes para a regra mensal escolhida (ano/mes ja normalizados)
+const resolveMonthlyDate = (
+  rule: RecurrenceRule,
+  year: number,
+  monthIndex: number,
+  anchor: string
+): string => {
+  const lastDay = daysInMonth(year, monthIndex);
+
+  switch (rule.monthlyRule) {
+    case "last_day":
+      return makeKey(year, monthIndex, lastDay);
+
+    case "last_business_day": {
+      let day = lastDay;
+      let weekday = new Date(Date.UTC(year, monthIndex, day)).getUTCDay();
+      while (weekday === 0 || weekday === 6) {
+        day -= 1;
+        weekday = (weekday + 6) % 7;
+      }
+      return makeKey(year, monthIndex, day);
+    }
+
+    case "nth_weekday": {
+      const weekday = rule.days[0] ?? getWeekday(anchor);
+      const week = rule.weekOfMonth ?? Math.min(4, Math.ceil(parseDateKey(anchor).getUTCDate() / 7));
+
+      if (week === -1) {
+        const lastWeekday = new Date(Date.UTC(year, monthIndex, lastDay)).getUTCDay();
+        return makeKey(year, monthIndex, lastDay - ((lastWeekday - weekday + 7) % 7));
+      }
+
+      const firstWeekday = new Date(Date.UTC(year, monthIndex, 1)).getUTCDay();
+      const firstMatch = 1 + ((weekday - firstWeekday + 7) % 7);
+      return makeKey(year, monthIndex, firstMatch + (week - 1) * 7);
+    }
+
+    case "day_of_month":
+    default: {
+      const day = rule.monthDay ?? parseDateKey(anchor).getUTCDate();
+      // Dia 31 em mes de 30 dias (ou 29/30/31 em fevereiro) cai no ultimo dia do mes
+      return makeKey(year, monthIndex, Math.min(day, lastDay));
+    }
+  }
+};
+
+const nextMonthlyOccurrence = (rule: RecurrenceRule, after: string, anchor: string): string => {
+  const base = parseDateKey(after);
+  const year = base.getUTCFullYear();
+  const monthIndex = base.getUTCMonth();
+
+  // Ainda da tempo neste mes (ex: tarefa criada no dia 10 para todo dia 31)
+  const sameMonth = resolveMonthlyDate(rule, year, monthIndex, anchor);
+  if (sameMonth > after) return sameMonth;
+
+  let step = rule.interval;
+  // Loop curto: so repete se a data calculada nao avancar
+  for (let attempt = 0; attempt < 24; attempt++) {
+    const target = new Date(Date.UTC(year, monthIndex + step, 1));
+    const candidate = resolveMonthlyDate(rule, target.getUTCFullYear(), target.getUTCMonth(), anchor);
+    if (candidate > after) return candidate;
+    step += rule.interval;
+  }
+
+  return addDays(after, 1);
+};
+
+// Semanas comecam no domingo; "a cada N semanas" conta a partir da semana de `after`
+const nextWeeklyOccurrence = (rule: RecurrenceRule, after: string, anchor: string): string => {
+  const days = rule.days.length > 0 ? [...rule.days].sort((a, b) => a - b) : [getWeekday(anchor)];
+  const weekday = getWeekday(after);
+
+  const laterThisWeek = days.find((d) => d > weekday);
+  if (laterThisWeek !== undefined) {
+    return addDays(after, laterThisWeek - weekday);
+  }
+
+  const weekStart = addDays(after, -weekday);
+  return addDays(weekStart, rule.interval * 7 + days[0]);
+};
+
+// Soma `times` intervalos da regra a uma data (dias, semanas ou meses).
+// Sempre a partir da data original para o dia 31 nao encolher mes a mes
+const addRuleInterval = (rule: RecurrenceRule, key: string, times: number = 1): string => {
+  switch (rule.type) {
+    case "daily":
+      return addDays(key, rule.interval * times);
+    case "weekly":
+    case "custom":
+      return addDays(key, rule.interval * 7 * times);
+    case "monthly": {
+      const date = parseDateKey(key);
+      const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + rule.interval * times, 1));
+      const lastDay = daysInMonth(target.getUTCFullYear(), target.getUTCMonth());
+      return makeKey(target.getUTCFullYear(), target.getUTCMonth(), Math.min(date.getUTCDate(), lastDay));
+    }
+  }
+};
+
+// Monta a regra a partir dos campos da tarefa
+export const getRecurrenceRule = (task: RecurrenceSource): RecurrenceRule | null => {
+  if (!task.is_recurring || !task.recurrence_type) return null;
+
+  return {
+    type: task.recurrence_type,
+    interval: Math.max(1, task.recurrence_interval || 1),
+    days: (task.recurrence_days || []).filter((d) => d >= 0 && d <= 6),
+    monthlyRule: task.recurrence_monthly_rule || "day_of_month",
+    monthDay: task.recurrence_month_day ?? null,
+    weekOfMonth: task.recurrence_week_of_month ?? null,
+  };
+};
+
+// Proxima ocorrencia estritamente depois de `after`.
+// `anchor` e a data de referencia da serie (normalmente o due_date) usada
+// quando a regra nao define dia da semana/dia do mes explicitamente.
+export const getNextOccurrence = (
+  rule: RecurrenceRule,
+  after: string,
+  anchor: string = after
+): string => {
+  switch (rule.type) {
+    case "daily":
+      return addDays(after, rule.interval);
+    case "weekly":
+    case "custom":
+      return nextWeeklyOccurrence(rule, after, anchor);
+    case "monthly":
+      return nextMonthlyOccurrence(rule, after, anchor);
+  }
+};
+
+// Primeira ocorrencia em `date` ou depois dele.
+// O intervalo so vale entre ocorrencias: a primeira e sempre o proximo dia que casa com a regra.
+export const getFirstOccurrenceOnOrAfter = (
+  rule: RecurrenceRule,
+  date: string,
+  anchor: string = date
+): string => {
+  if (rule.type === "daily") return date;
+  return getNextOccurrence({ ...rule, interval: 1 }, addDays(date, -1), anchor);
+};
+
+// Lista ocorrencias a partir de `start` (inclusive) ate `end` (inclusive)
+export const getOccurrencesBetween = (
+  rule: RecurrenceRule,
+  start: string,
+  end: string,
+  anchor: string = start,
+  limit: number = 366
+): string[] => {
+  const occurrences: string[] = [];
+  let current = getFirstOccurrenceOnOrAfter(rule, start, anchor);
+
+  while (current <= end && occurrences.length < limit) {
+    occurrences.push(current);
+    current = getNextOccurrence(rule, current, anchor);
+  }
+
+  return occurrences;
+};
+
+// Proxima data da tarefa, a partir de `today`:
+// - "due_date" (calendario fixo): anda na grade da serie a partir do due_date,
+//   pulando periodos perdidos, entao concluir atrasado nao desloca o calendario
+// - "completion" (flutuante): `today` (conclusao) + intervalo, sempre depois
+//   do due_date pendente para concluir adiantado nao repetir a mesma data
+export const getNextTaskDate = (task: RecurrenceSource, today: string = getTodayKey()): string | null => {
+  const rule = getRecurrenceRule(task);
+  if (!rule) return null;
+
+  if (task.recurrence_anchor === "completion") {
+    let next = addRuleInterval(rule, today);
+    for (let times = 2; task.due_date && next <= task.due_date && times < 5000; times++) {
+      next = addRuleInterval(rule, today, times);
+    }
+    return next;
+  }
+
+  if (!task.due_date) {
+    return getNextOccurrence(rule, today, today);
+  }
+
+  let next = getNextOccurrence(rule, task.due_date, task.due_date);
+  // Limite de seguranca para tarefas diarias paradas ha muito tempo
+  for (let attempt = 0; next <= today && attempt < 5000; attempt++) {
+    next = getNextOccurrence(rule, next, task.due_date);
+  }
+  return next;
+};
+
+// Descricao legivel da regra (pt-BR, sem acentos como o resto do app)
+export const describeRecurrence = (rule: RecurrenceRule | null, anchor?: string | null): string => {
+  if (!rule) return "";
+
+  const every = (singular: string, plural: string) =>
+    rule.interval === 1 ? singular : `A cada ${rule.interval} ${plural}`;
+
+  const weekdayList = (days: number[]) =>
+    [...days].sort((a, b) => a - b).map((d) => WEEKDAY_SHORT_LABELS[d]).join(", ");
+
+  switch (rule.type) {
+    case "daily":
+      return every("Diariamente", "dias");
+
+    case "weekly":
+    case "custom": {
+      const base = every("Semanalmente", "semanas");
+      const days = rule.days.length > 0 ? rule.days : anchor ? [getWeekday(anchor)] : [];
+      return days.length > 0 ? `${base} (${weekdayList(days)})` : base;
+    }
+
+    case "monthly": {
+      const base = every("Mensalmente", "meses");
+      switch (rule.monthlyRule) {
+        case "last_day":
+          return `${base}, no ultimo dia`;
+        case "last_business_day":
+          return `${base}, no ultimo dia util`;
+        case "nth_weekday": {
+          const weekday = rule.days[0] ?? (anchor ? getWeekday(anchor) : null);
+          const week = WEEK_OF_MONTH_LABELS[rule.weekOfMonth ?? 1];
+          return weekday === null ? base : `${base}, ${week} ${WEEKDAY_LABELS[weekday]}`;
+        }
+        default: {
+          const day = rule.monthDay ?? (anchor ? parseDateKey(anchor).getUTCDate() : null);
+          return day ? `${base}, dia ${day}` : base;
+        }
+      }
+    }
+  }
+};
+
+export const DEFAULT_RECURRENCE_RULE: RecurrenceRule = {
+  type: "weekly",
+  interval: 1,
+  days: [],
+  monthlyRule: "day_of_month",
+  monthDay: null,
+  weekOfMonth: null,
+};
+
+// Converte a regra do formulario nos campos da tabela tasks.
+// Valores implicitos (dia do mes, dia da semana) sao fixados a partir de `anchor`
+// para a serie nao "andar" quando o due_date mudar.
+export const getRecurrenceFields = (
+  rule: RecurrenceRule | null,
+  anchor: string | null
+): Partial<Task> => {
+  if (!rule) {
+    return {
+      recurrence_type: null,
+      recurrence_days: null,
+      recurrence_interval: 1,
+      recurrence_monthly_rule: null,
+      recurrence_month_day: null,
+      recurrence_week_of_month: null,
+    };
+  }
+
+  const isMonthly = rule.type === "monthly";
+  const anchorDay = anchor ? parseDateKey(anchor).getUTCDate() : null;
+  const anchorWeekday = anchor ? getWeekday(anchor) : null;
+
+  let days: number[] | null = rule.days.length > 0 ? [...rule.days].sort((a, b) => a - b) : null;
+  if (isMonthly && rule.monthlyRule === "nth_weekday" && !days && anchorWeekday !== null) {
+    days = [anchorWeekday];
+  }
+  if (isMonthly && rule.monthlyRule !== "nth_weekday") {
+    days = null;
+  }
+
+  return {
+    recurrence_type: rule.type,
+    recurrence_days: rule.type === "daily" ? null : days,
+    recurrence_interval: Math.max(1, rule.interval),
+    recurrence_monthly_rule: isMonthly ? rule.monthlyRule : null,
+    recurrence_month_day:
+      isMonthly && rule.monthlyRule === "day_of_month" ? rule.monthDay ?? anchorDay : null,
+    recurrence_week_of_month:
+      isMonthly && rule.monthlyRule === "nth_weekday"
+        ? rule.weekOfMonth ?? (anchorDay ? Math.min(4, Math.ceil(anchorDay / 7)) : 1)
+        : null,
+  };
+};
@@ -0,0 +1,84 @@
+import type { Task } from "@/types";
+import { addDays } from "@/lib/recurrence";
+
+// Lembretes de tarefas: antecedencias em minutos antes do vencimento
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const DEFAULT_TASK_REMINDER_OFFSETS = [30];
+
+export const REMINDER_OFFSET_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: "Na hora" },
+  { value: 15, label: "15 min antes" },
+  { value: 30, label: "30 min antes" },
+  { value: 60, label: "1 h antes" },
+  { value: 120, label: "2 h antes" },
+  { value: MINUTES_PER_DAY, label: "1 dia antes" },
+  { value: 2 * MINUTES_PER_DAY, label: "2 dias antes" },
+];
+
+export const describeReminderOffset = (minutes: number): string => {
+  const option = REMINDER_OFFSET_OPTIONS.find((o) => o.value === minutes);
+  if (option) return option.label;
+  if (minutes % MINUTES_PER_DAY === 0) return `${minutes / MINUTES_PER_DAY} dias antes`;
+  if (minutes % 60 === 0) return `${minutes / 60} h antes`;
+  return `${minutes} min antes`;
+};
+
+export const describeReminderOffsets = (offsets: number[]): string => {
+  if (offsets.length === 0) return "Sem lembretes";
+  return [...offsets].sort((a, b) => a - b).map(describeReminderOffset).join(", ");
+};
+
+// "HH:MM" ou "HH:MM:SS" (coluna TIME) -> [horas, minutos]
+export const parseTime = (time: string | null | undefined): [number, number] | null => {
+  const match = time?.match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return [hours, minutes];
+};
+
+export const formatTime = (time: string | null | undefined): string | null => {
+  const parsed = parseTime(time);
+  if (!parsed) return null;
+  return parsed.map((n) => String(n).padStart(2, "0")).join(":");
+};
+
+// Override da tarefa ou padrao das preferencias
+export const getTaskReminderOffsets = (
+  task: Pick<Task, "reminder_offsets">,
+  defaults: number[] = DEFAULT_TASK_REMINDER_OFFSETS
+): number[] => {
+  return task.reminder_offsets ?? defaults;
+};
+
+// Datas (horario local) dos lembretes de um vencimento.
+// Com horario: vencimento - antecedencia. Sem horario: so conta os dias
+// de antecedencia e dispara no horario padrao dos lembretes.
+export const getReminderDates = (
+  dueDateKey: string,
+  dueTime: string | null | undefined,
+  offsets: number[],
+  reminderTime: string
+): Date[] => {
+  const time = parseTime(dueTime);
+  const dates = new Map<number, Date>();
+
+  offsets.forEach((offset) => {
+    let date: Date;
+    if (time) {
+      date = new Date(dueDateKey + "T00:00:00");
+      date.setHours(time[0], time[1], 0, 0);
+      date.setMinutes(date.getMinutes() - offset);
+    } else {
+      const [hours, minutes] = parseTime(reminderTime) || [9, 0];
+      date = new Date(addDays(dueDateKey, -Math.floor(offset / MINUTES_PER_DAY)) + "T00:00:00");
+      date.setHours(hours, minutes, 0, 0);
+    }
+    dates.set(date.getTime(), date);
+  });
+
+  return Array.from(dates.values()).sort((a, b) => a.getTime() - b.getTime());
+};
@@ -0,0 +1,166 @@
+import type { Task, HouseholdMember, RotationMode } from "@/types";
+import { getTodayKey, getWeekday, addDays, diffInDays, getRecurrenceRule, getNextOccurrence } from "@/lib/recurrence";
+
+// Rodizio de tarefas entre moradores ("Modo Republica").
+// rotation_members guarda os user_ids na ordem da escala.
+
+type RotationSource = Pick<
+  Task,
+  | "assigned_to"
+  | "rotation_members"
+  | "rotation_mode"
+  | "rotation_skip_away"
+  | "rotation_start_date"
+>;
+
+export const hasRotation = (task: RotationSource): boolean => {
+  return (task.rotation_members?.length || 0) > 1;
+};
+
+export const getAwayUserIds = (members: HouseholdMember[]): string[] => {
+  return members.filter((m) => m.is_away).map((m) => m.user_id);
+};
+
+// Primeiro membro disponivel a partir de `startIndex` (inclusive)
+const pickAvailable = (order: string[], startIndex: number, awayIds: string[], skipAway: boolean): string => {
+  const n = order.length;
+  const start = ((startIndex % n) + n) % n;
+
+  if (skipAway) {
+    for (let offset = 0; offset < n; offset++) {
+      const candidate = order[(start + offset) % n];
+      if (!awayIds.includes(candidate)) return candidate;
+    }
+  }
+
+  // Todos ausentes (ou sem pular): segue a ordem normal
+  return order[start];
+};
+
+const weekStart = (key: string): string => addDays(key, -getWeekday(key));
+
+// Quem e responsavel na semana de `date` (modo semanal)
+const getWeeklyAssignee = (task: RotationSource, date: string, awayIds: string[]): string | null => {
+  const order = task.rotation_members || [];
+  if (order.length === 0) return null;
+
+  const start = task.rotation_start_date || date;
+  const weeks = Math.floor(diffInDays(weekStart(start), weekStart(date)) / 7);
+
+  return pickAvailable(order, weeks, awayIds, task.rotation_skip_away !== false);
+};
+
+// Proximo responsavel depois de concluir/pular a ocorrencia atual.
+// `nextDate` e a data da proxima ocorrencia (usada no modo semanal).
+export const getNextAssignee = (
+  task: RotationSource,
+  nextDate: string | null,
+  awayIds: string[] = []
+): string | null => {
+  const order = task.rotation_members || [];
+  if (order.length === 0) return task.assigned_to || null;
+
+  if (task.rotation_mode === "weekly") {
+    return getWeeklyAssignee(task, nextDate || getTodayKey(), awayIds);
+  }
+
+  const currentIndex = task.assigned_to ? order.indexOf(task.assigned_to) : -1;
+  return pickAvailable(order, currentIndex + 1, awayIds, task.rotation_skip_away !== false);
+};
+
+// Responsavel atual: no modo semanal vem da semana do due_date
+export const getCurrentAssignee = (
+  task: RotationSource & Pick<Task, "due_date">,
+  awayIds: string[] = []
+): string | null => {
+  if (task.rotation_mode === "weekly" && hasRotation(task)) {
+    return getWeeklyAssignee(task, task.due_date || getTodayKey(), awayIds);
+  }
+  return task.assigned_to || task.rotation_members?.[0] || null;
+};
+
+export interface RotationTurn {
+  userId: string;
+  date: string | null;
+}
+
+// Proximas vezes da escala (incluindo a atual), simulando as proximas ocorrencias
+export const getUpcomingRotation = (
+  task: Task,
+  awayIds: string[] = [],
+  count: number = 4
+): RotationTurn[] => {
+  if (!hasRotation(task)) return [];
+
+  const rule = getRecurrenceRule(task);
+  const turns: RotationTurn[] = [];
+  let date = task.due_date || null;
+  let assignee = getCurrentAssignee(task, awayIds);
+
+  for (let i = 0; i < count && assignee; i++) {
+    turns.push({ userId: assignee, date });
+
+    const nextDate = rule && date ? getNextOccurrence(rule, date, task.due_date || date) : null;
+    assignee = getNextAssignee({ ...task, assigned_to: assignee }, nextDate, awayIds);
+    date = nextDate;
+  }
+
+  return turns;
+};
+
+export const getMemberName = (members: HouseholdMember[], userId?: string | null): string => {
+  if (!userId) return "Ninguem";
+  const member = members.find((m) => m.user_id === userId);
+  return member?.user?.name?.split(" ")[0] || "Morador";
+};
+
+export interface RotationSettings {
+  members: string[];
+  mode: RotationMode;
+  skipAway: boolean;
+}
+
+export const DEFAULT_ROTATION_SETTINGS: RotationSettings = {
+  members: [],
+  mode: "completion",
+  skipAway: true,
+};
+
+export const getRotationSettings = (task: RotationSource): RotationSettings => ({
+  members: task.rotation_members || [],
+  mode: task.rotation_mode || "completion",
+  skipAway: task.rotation_skip_away !== false,
+});
+
+// Converte o formulario nos campos da tabela tasks.
+// O responsavel atual e mantido se continuar na escala; senao comeca pelo primeiro.
+export const getRotationFields = (
+  settings: RotationSettings | null,
+  dueDate: string | null,
+  current?: Pick<Task, "assigned_to" | "rotation_start_date"> | null
+): Partial<Task> => {
+  if (!settings || settings.members.length < 2) {
+    return {
+      rotation_members: null,
+      rotation_mode: "completion",
+      rotation_skip_away: true,
+      rotation_start_date: null,
+    };
+  }
+
+  const fields: Partial<Task> = {
+    rotation_members: settings.members,
+    rotation_mode: settings.mode,
+    rotation_skip_away: settings.skipAway,
+    // Mantem o inicio original para a escala semanal nao "pular" ao editar
+    rotation_start_date: current?.rotation_start_date || dueDate || getTodayKey(),
+  };
+
+  const currentAssignee = current?.assigned_to;
+  fields.assigned_to =
+    currentAssignee && settings.members.includes(currentAssignee)
+      ? currentAssignee
+      : settings.members[0];
+
+  return fields;
+};
@@ -0,0 +1,85 @@
+import type { SplitType, SplitShare, MemberBalance } from "@/types";
+
+// Divisao de despesas: as partes oficiais sao gravadas pelo banco
+// (set_transaction_split). Aqui so validamos, exibimos e sugerimos acertos.
+
+export const SPLIT_TYPE_LABELS: Record<SplitType, string> = {
+  equal: "Igual",
+  percentage: "Percentual",
+  amount: "Valores",
+};
+
+const toCents = (value: number): number => Math.round(value * 100);
+
+// Manter igual a set_transaction_split() em 014_expense_splits.sql
+export const getSplitAmounts = (
+  type: SplitType,
+  shares: SplitShare[],
+  amount: number
+): Record<string, number> => {
+  if (shares.length === 0) return {};
+
+  const cents = shares.map((share) => {
+    if (type === "equal") return toCents(amount / shares.length);
+    if (type === "percentage") return toCents((amount * (share.value || 0)) / 100);
+    return toCents(share.value || 0);
+  });
+
+  // Centavos de arredondamento ficam com a maior parte
+  const difference = toCents(amount) - cents.reduce((sum, c) => sum + c, 0);
+  const largest = cents.indexOf(Math.max(...cents));
+  cents[largest] += difference;
+
+  return Object.fromEntries(shares.map((share, index) => [share.user_id, cents[index] / 100]));
+};
+
+export const validateSplit = (type: SplitType, shares: SplitShare[], amount: number): string | null => {
+  if (shares.length === 0) return "Escolha quem participa da divisao";
+
+  if (type === "percentage") {
+    const total = shares.reduce((sum, s) => sum + (s.value || 0), 0);
+    if (Math.abs(total - 100) > 0.001) return "Os percentuais devem somar 100%";
+  }
+
+  if (type === "amount") {
+    const total = shares.reduce((sum, s) => sum + toCents(s.value || 0), 0);
+    if (total !== toCents(amount)) return "Os valores devem somar o total da despesa";
+  }
+
+  return null;
+};
+
+export interface SettleUpPayment {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+// Acertos sugeridos: quem mais deve paga quem mais tem a receber,
+// ate zerar (no maximo moradores - 1 pagamentos)
+export const getSettleUpPayments = (balances: MemberBalance[]): SettleUpPayment[] => {
+  const debtors = balances
+    .filter((b) => toCents(b.balance) < 0)
+    .map((b) => ({ userId: b.user_id, cents: -toCents(b.balance) }))
+    .sort((a, b) => b.cents - a.cents);
+  const creditors = balances
+    .filter((b) => toCents(b.balance) > 0)
+    .map((b) => ({ userId: b.user_id, cents: toCents(b.balance) }))
+    .sort((a, b) => b.cents - a.cents);
+
+  const payments: SettleUpPayment[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < debtors.length && j < creditors.length) {
+    const cents = Math.min(debtors[i].cents, creditors[j].cents);
+    payments.push({ from: debtors[i].userId, to: creditors[j].userId, amount: cents / 100 });
+
+    debtors[i].cents -= cents;
+    creditors[j].cents -= cents;
+    if (debtors[i].cents === 0) i++;
+    if (creditors[j].cents === 0) j++;
+  }
+
+  return payments;
+};
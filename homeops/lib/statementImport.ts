@@ -0,0 +1,233 @@
+import type { Transaction } from "@/types";
+import { parseDateKey, toDateKey } from "@/lib/recurrence";
+
+// Importacao de extratos (OFX e CSV dos bancos brasileiros).
+// Tudo aqui e puro: a tela cuida da previa e o store da gravacao.
+
+export type StatementFormat = "ofx" | "csv";
+
+export interface ImportedRow {
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number; // sempre positivo; o sinal vira o tipo
+  type: "expense" | "income";
+}
+
+export type CsvDelimiter = ";" | "," | "\t";
+export type CsvDateFormat = "DD/MM/YYYY" | "YYYY-MM-DD";
+export type CsvDecimal = "," | ".";
+
+export interface CsvMapping {
+  delimiter: CsvDelimiter;
+  hasHeader: boolean;
+  dateColumn: number;
+  descriptionColumn: number;
+  amountColumn: number;
+  dateFormat: CsvDateFormat;
+  decimal: CsvDecimal;
+  // Faturas de cartao listam gastos como valores positivos
+  invertSign: boolean;
+}
+
+export interface ParseResult {
+  rows: ImportedRow[];
+  skipped: number; // linhas que nao viraram lancamento
+}
+
+export const detectStatementFormat = (text: string): StatementFormat =>
+  /<OFX>|OFXHEADER|<STMTTRN>/i.test(text) ? "ofx" : "csv";
+
+// "1.234,56" / "-1234.56" / "R$ 10,00" / "(10,00)"
+export const parseAmount = (raw: string, decimal: CsvDecimal): number | null => {
+  let value = raw.replace(/R\$|\s/g, "");
+  const negative = /^\(.*\)$/.test(value) || /^-/.test(value) || /-$/.test(value);
+  value = value.replace(/[()\-+]/g, "");
+  value = decimal === "," ? value.replace(/\./g, "").replace(",", ".") : value.replace(/,/g, "");
+  if (!/^\d+(\.\d+)?$/.test(value)) return null;
+  const parsed = parseFloat(value);
+  return negative ? -parsed : parsed;
+};
+
+// Datas impossiveis (31/02, mes 13) nao voltam iguais do Date
+const toValidDateKey = (key: string): string | null => (toDateKey(parseDateKey(key)) === key ? key : null);
+
+export const parseStatementDate = (raw: string, format: CsvDateFormat): string | null => {
+  const value = raw.trim();
+  if (format === "YYYY-MM-DD") {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    return match ? toValidDateKey(`${match[1]}-${match[2]}-${match[3]}`) : null;
+  }
+  const match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})(?!\d)/);
+  if (!match) return null;
+  const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+  return toValidDateKey(`${year}-${match[2].padStart(2, "0")}-${match[1].padStart(2, "0")}`);
+};
+
+// ---------- OFX ----------
+
+// Le o valor de uma tag em SGML (sem fechamento) ou XML
+const getOfxTag = (block: string, tag: string): string | null => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? match[1].trim() : null;
+};
+
+export const parseOfx = (text: string): ParseResult => {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+  const rows: ImportedRow[] = [];
+  let skipped = 0;
+
+  for (const block of blocks) {
+    const rawAmount = getOfxTag(block, "TRNAMT");
+    const rawDate = getOfxTag(block, "DTPOSTED");
+    const amount = rawAmount ? parseAmount(rawAmount, rawAmount.includes(",") ? "," : ".") : null;
+    const dateMatch = rawDate?.match(/^(\d{4})(\d{2})(\d{2})/);
+    const date = dateMatch ? toValidDateKey(`${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}`) : null;
+
+    if (amount === null || amount === 0 || !date) {
+      skipped++;
+      continue;
+    }
+
+    rows.push({
+      date,
+      description: getOfxTag(block, "MEMO") || getOfxTag(block, "NAME") || "Lancamento importado",
+      amount: Math.abs(amount),
+      type: amount < 0 ? "expense" : "income",
+    });
+  }
+
+  return { rows, skipped };
+};
+
+// ---------- CSV ----------
+
+// Divide uma linha respeitando aspas ("a;b" vira um campo so)
+export const splitCsvLine = (line: string, delimiter: CsvDelimiter): string[] => {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      fields.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+};
+
+const getCsvLines = (text: string): string[] =>
+  text.replace(/^\uFEFF/, "").split(/\r?\n/).filter((line) => line.trim().length > 0);
+
+const normalizeHeader = (value: string): string =>
+  value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+const DATE_HEADERS = ["data", "date", "dt"];
+const DESCRIPTION_HEADERS = ["descricao", "historico", "lancamento", "title", "description", "estabelecimento"];
+const AMOUNT_HEADERS = ["valor", "amount", "value", "quantia"];
+
+const findHeader = (headers: string[], candidates: string[]): number =>
+  headers.findIndex((h) => candidates.some((c) => normalizeHeader(h).startsWith(c)));
+
+// Chuta delimitador, cabecalho e colunas; a tela deixa o usuario corrigir
+export const guessCsvMapping = (text: string): CsvMapping => {
+  const lines = getCsvLines(text);
+  const first = lines[0] || "";
+  const delimiter: CsvDelimiter = first.includes(";") ? ";" : first.includes("\t") ? "\t" : ",";
+  const headers = splitCsvLine(first, delimiter);
+  const hasHeader = !headers.some((h) => parseStatementDate(h, "DD/MM/YYYY") || parseStatementDate(h, "YYYY-MM-DD"));
+
+  const sample = splitCsvLine(lines[hasHeader ? 1 : 0] || "", delimiter);
+  const dateColumn = hasHeader ? findHeader(headers, DATE_HEADERS) : -1;
+  const descriptionColumn = hasHeader ? findHeader(headers, DESCRIPTION_HEADERS) : -1;
+  const amountColumn = hasHeader ? findHeader(headers, AMOUNT_HEADERS) : -1;
+
+  const sampleDate = sample[Math.max(dateColumn, 0)] || "";
+  const sampleAmount = sample[amountColumn >= 0 ? amountColumn : sample.length - 1] || "";
+
+  return {
+    delimiter,
+    hasHeader,
+    dateColumn: Math.max(dateColumn, 0),
+    descriptionColumn: descriptionColumn >= 0 ? descriptionColumn : Math.min(1, sample.length - 1),
+    amountColumn: amountColumn >= 0 ? amountColumn : Math.max(sample.length - 1, 0),
+    dateFormat: parseStatementDate(sampleDate, "YYYY-MM-DD") ? "YYYY-MM-DD" : "DD/MM/YYYY",
+    // "1.234,56" ou "10,00": virgula decimal (padrao dos bancos brasileiros)
+    decimal: /,\d{1,2}$/.test(sampleAmount.trim()) || delimiter === ";" ? "," : ".",
+    invertSign: false,
+  };
+};
+
+export const getCsvColumns = (text: string, mapping: Pick<CsvMapping, "delimiter" | "hasHeader">): string[] => {
+  const first = splitCsvLine(getCsvLines(text)[0] || "", mapping.delimiter);
+  return mapping.hasHeader ? first : first.map((_, index) => `Coluna ${index + 1}`);
+};
+
+export const parseCsv = (text: string, mapping: CsvMapping): ParseResult => {
+  const lines = getCsvLines(text).slice(mapping.hasHeader ? 1 : 0);
+  const rows: ImportedRow[] = [];
+  let skipped = 0;
+
+  for (const line of lines) {
+    const fields = splitCsvLine(line, mapping.delimiter);
+    const date = parseStatementDate(fields[mapping.dateColumn] || "", mapping.dateFormat);
+    const parsed = parseAmount(fields[mapping.amountColumn] || "", mapping.decimal);
+    const amount = parsed !== null && mapping.invertSign ? -parsed : parsed;
+
+    if (!date || amount === null || amount === 0) {
+      skipped++;
+      continue;
+    }
+
+    rows.push({
+      date,
+      description: fields[mapping.descriptionColumn] || "Lancamento importado",
+      amount: Math.abs(amount),
+      type: amount < 0 ? "expense" : "income",
+    });
+  }
+
+  return { rows, skipped };
+};
+
+// ---------- Duplicados ----------
+
+const normalizeDescription = (value: string): string =>
+  normalizeHeader(value).replace(/[^a-z0-9]/g, "");
+
+// Mesmo dia e valor, e uma descricao contem a outra (bancos cortam o texto)
+export const isDuplicateTransaction = (
+  row: ImportedRow,
+  existing: Pick<Transaction, "date" | "amount" | "description" | "type">
+): boolean => {
+  if (existing.date !== row.date || existing.type !== row.type) return false;
+  if (Math.round(Number(existing.amount) * 100) !== Math.round(row.amount * 100)) return false;
+
+  const a = normalizeDescription(row.description);
+  const b = normalizeDescription(existing.description);
+  return a === b || (a.length > 0 && b.length > 0 && (a.includes(b) || b.includes(a)));
+};
+
+// Indices das linhas que ja foram lancadas (repeticoes no proprio arquivo
+// sao mantidas: duas compras iguais no mesmo dia sao comuns)
+export const findDuplicateRows = (
+  rows: ImportedRow[],
+  existing: Pick<Transaction, "date" | "amount" | "description" | "type">[]
+): Set<number> => {
+  const duplicates = new Set<number>();
+  rows.forEach((row, index) => {
+    if (existing.some((t) => isDuplicateTransaction(row, t))) duplicates.add(index);
+  });
+  return duplicates;
+};
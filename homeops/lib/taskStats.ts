@@ -0,0 +1,165 @@
+import type { Task, TaskCompletion } from "@/types";
+import { getTodayKey, getWeekday, addDays } from "@/lib/recurrence";
+
+// Estatisticas de conclusao de tarefas por morador.
+// Fonte: task_completions + tarefas avulsas concluidas sem registro no historico.
+
+export type StatsPeriod = "week" | "month";
+
+export interface MemberStats {
+  userId: string;
+  total: number;
+  onTime: number;
+  late: number;
+  lateRatio: number;
+  currentStreak: number;
+  bestStreak: number;
+}
+
+export interface WeeklyCount {
+  weekStart: string;
+  counts: Record<string, number>;
+}
+
+// Dia (local) em que a conclusao aconteceu
+export const getCompletionDay = (completion: Pick<TaskCompletion, "completed_at">): string => {
+  return getTodayKey(new Date(completion.completed_at));
+};
+
+// on_time vem do banco (trigger de gamificacao); calculo local so para conclusoes antigas
+export const isCompletedOnTime = (
+  completion: Pick<TaskCompletion, "completed_at" | "due_date" | "on_time">
+): boolean => {
+  if (typeof completion.on_time === "boolean") return completion.on_time;
+  if (!completion.due_date) return true;
+  return getCompletionDay(completion) <= completion.due_date;
+};
+
+// Tarefas avulsas concluidas antes do historico existir entram como conclusoes "virtuais"
+export const mergeCompletedTasks = (completions: TaskCompletion[], tasks: Task[]): TaskCompletion[] => {
+  const recorded = new Set(completions.map((c) => c.task_id));
+
+  const legacy: TaskCompletion[] = tasks
+    .filter(
+      (t) =>
+        t.status === "completed" &&
+        t.completed_at &&
+        t.completed_by &&
+        !recorded.has(t.id)
+    )
+    .map((t) => ({
+      id: `task_${t.id}`,
+      task_id: t.id,
+      completed_by: t.completed_by as string,
+      completed_at: t.completed_at as string,
+      due_date: t.due_date,
+      task: { id: t.id, title: t.title, household_id: t.household_id },
+    }));
+
+  return [...completions, ...legacy].sort((a, b) => b.completed_at.localeCompare(a.completed_at));
+};
+
+export const getTaskHistory = (task: Task, completions: TaskCompletion[]): TaskCompletion[] => {
+  return mergeCompletedTasks(
+    completions.filter((c) => c.task_id === task.id),
+    [task]
+  );
+};
+
+export const getPeriodStart = (period: StatsPeriod, today: string = getTodayKey()): string => {
+  if (period === "week") {
+    return addDays(today, -getWeekday(today));
+  }
+  return today.slice(0, 8) + "01";
+};
+
+// Sequencia de dias seguidos com pelo menos uma conclusao.
+// A atual conta ate hoje (ou ontem, se hoje ainda nao houve conclusao).
+const getStreaks = (days: Set<string>, today: string): { current: number; best: number } => {
+  const sorted = Array.from(days).sort();
+  let best = 0;
+  let run = 0;
+  let previous: string | null = null;
+
+  for (const day of sorted) {
+    run = previous && addDays(previous, 1) === day ? run + 1 : 1;
+    best = Math.max(best, run);
+    previous = day;
+  }
+
+  let current = 0;
+  let cursor = days.has(today) ? today : addDays(today, -1);
+  while (days.has(cursor)) {
+    current++;
+    cursor = addDays(cursor, -1);
+  }
+
+  return { current, best };
+};
+
+export const getMemberStats = (
+  completions: TaskCompletion[],
+  userIds: string[],
+  period: StatsPeriod,
+  today: string = getTodayKey()
+): MemberStats[] => {
+  const periodStart = getPeriodStart(period, today);
+
+  return userIds
+    .map((userId) => {
+      const mine = completions.filter((c) => c.completed_by === userId);
+      const inPeriod = mine.filter((c) => {
+        const day = getCompletionDay(c);
+        return day >= periodStart && day <= today;
+      });
+      const onTime = inPeriod.filter(isCompletedOnTime).length;
+      const late = inPeriod.length - onTime;
+      const streaks = getStreaks(new Set(mine.map(getCompletionDay)), today);
+
+      return {
+        userId,
+        total: inPeriod.length,
+        onTime,
+        late,
+        lateRatio: inPeriod.length > 0 ? late / inPeriod.length : 0,
+        currentStreak: streaks.current,
+        bestStreak: streaks.best,
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+};
+
+// Conclusoes por morador nas ultimas `weeks` semanas (mais antiga primeiro)
+export const getWeeklyCounts = (
+  completions: TaskCompletion[],
+  weeks: number = 4,
+  today: string = getTodayKey()
+): WeeklyCount[] => {
+  const currentWeek = getPeriodStart("week", today);
+  const result: WeeklyCount[] = [];
+
+  for (let i = weeks - 1; i >= 0; i--) {
+    const weekStart = addDays(currentWeek, -7 * i);
+    const weekEnd = addDays(weekStart, 6);
+    const counts: Record<string, number> = {};
+
+    completions.forEach((c) => {
+      const day = getCompletionDay(c);
+      if (day >= weekStart && day <= weekEnd) {
+        counts[c.completed_by] = (counts[c.completed_by] || 0) + 1;
+      }
+    });
+
+    result.push({ weekStart, counts });
+  }
+
+  return result;
+};
+
+// Proporcao de tarefas pendentes ja atrasadas
+export const getOverdueRatio = (tasks: Task[], today: string = getTodayKey()): number => {
+  const pending = tasks.filter((t) => t.status === "pending");
+  if (pending.length === 0) return 0;
+  const overdue = pending.filter((t) => t.due_date && t.due_date < today);
+  return overdue.length / pending.length;
+};
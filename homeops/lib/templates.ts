@@ -0,0 +1,95 @@
+import type { Task, TaskCategory, TaskTemplateItem, TaskTemplateRecurrence } from "@/types";
+import {
+  DEFAULT_RECURRENCE_RULE,
+  getRecurrenceRule,
+  getRecurrenceFields,
+  getFirstOccurrenceOnOrAfter,
+  getTodayKey,
+  type RecurrenceRule,
+} from "@/lib/recurrence";
+import { getChecklist } from "@/lib/checklist";
+
+// Modelos de rotina: converte itens de modelo <-> tarefas
+
+export interface TemplateTaskDraft {
+  task: Partial<Task>;
+  checklist: string[];
+}
+
+export const getTemplateRule = (recurrence?: TaskTemplateRecurrence | null): RecurrenceRule | null => {
+  if (!recurrence) return null;
+
+  return {
+    ...DEFAULT_RECURRENCE_RULE,
+    type: recurrence.type,
+    interval: Math.max(1, recurrence.interval || 1),
+    days: recurrence.days || [],
+    monthlyRule: recurrence.monthlyRule || DEFAULT_RECURRENCE_RULE.monthlyRule,
+    monthDay: recurrence.monthDay ?? null,
+    weekOfMonth: recurrence.weekOfMonth ?? null,
+  };
+};
+
+const findCategory = (categories: TaskCategory[], name?: string | null): TaskCategory | undefined => {
+  const normalized = (name || "").trim().toLowerCase();
+  return (
+    categories.find((c) => c.name.toLowerCase() === normalized) ||
+    categories.find((c) => c.name.toLowerCase() === "outros")
+  );
+};
+
+// Cria as tarefas de um modelo. Recorrentes comecam na primeira ocorrencia a partir de hoje.
+export const buildTasksFromTemplate = (
+  items: TaskTemplateItem[],
+  options: { householdId: string; userId?: string; categories: TaskCategory[]; today?: string }
+): TemplateTaskDraft[] => {
+  const today = options.today || getTodayKey();
+
+  return items.map((item) => {
+    const rule = getTemplateRule(item.recurrence);
+    const dueDate = rule ? getFirstOccurrenceOnOrAfter(rule, today) : today;
+
+    return {
+      task: {
+        household_id: options.householdId,
+        title: item.title,
+        description: item.description || null,
+        category_id: findCategory(options.categories, item.category)?.id || null,
+        priority: item.priority || 2,
+        due_date: dueDate,
+        is_recurring: !!rule,
+        recurrence_anchor: "due_date",
+        ...getRecurrenceFields(rule, dueDate),
+        estimated_minutes: item.estimated_minutes ?? null,
+        status: "pending",
+        created_by: options.userId,
+      },
+      checklist: item.checklist || [],
+    };
+  });
+};
+
+// Tarefa da casa -> item de modelo (sem datas, responsaveis nem historico)
+export const taskToTemplateItem = (task: Task): TaskTemplateItem => {
+  const rule = getRecurrenceRule(task);
+  const checklist = getChecklist(task).map((item) => item.title);
+
+  return {
+    title: task.title,
+    description: task.description || null,
+    category: task.category?.name || null,
+    priority: task.priority,
+    estimated_minutes: task.estimated_minutes ?? null,
+    recurrence: rule
+      ? {
+          type: rule.type,
+          interval: rule.interval,
+          days: rule.days,
+          monthlyRule: rule.monthlyRule,
+          monthDay: rule.monthDay,
+          weekOfMonth: rule.weekOfMonth,
+        }
+      : null,
+    ...(checklist.length > 0 ? { checklist } : {}),
+  };
+};
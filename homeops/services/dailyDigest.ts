@@ -0,0 +1,99 @@
+import * as Notifications from "expo-notifications";
+import { useTaskStore, getTasksForToday } from "@/stores/taskStore";
+import { useFinanceStore, getBillsDueWithin } from "@/stores/financeStore";
+import { useMaintenanceStore, getOverdueMaintenance } from "@/stores/maintenanceStore";
+import { useInventoryStore, getExpiringItems, getRepurchaseItems } from "@/stores/inventoryStore";
+import { addDays, getTodayKey } from "@/lib/recurrence";
+import {
+  getNotificationPreferences,
+  scheduleNotification,
+  cancelNotificationsByTag,
+  cancelAllNotifications,
+  scheduleAllTaskReminders,
+  scheduleAllBillReminders,
+  scheduleAllMaintenanceReminders,
+  scheduleAllInventoryReminders,
+} from "./notificationService";
+
+const DIGEST_TAG = "daily_digest";
+
+// Agenda os proximos dias; o app reagenda sempre que os dados sao recarregados
+const DIGEST_DAYS_AHEAD = 3;
+
+export interface DailyDigest {
+  tasks: number;
+  bills: number;
+  overdueMaintenance: number;
+  expiringItems: number;
+}
+
+const plural = (count: number, singular: string, pluralForm: string) =>
+  `${count} ${count === 1 ? singular : pluralForm}`;
+
+// Resumo do dia `date` com os dados ja carregados nos stores
+export function buildDailyDigest(date: Date, billDaysBefore: number): DailyDigest {
+  const dateKey = getTodayKey(date);
+
+  return {
+    tasks: getTasksForToday(useTaskStore.getState().tasks, dateKey).length,
+    bills: getBillsDueWithin(useFinanceStore.getState().bills, billDaysBefore, date).length,
+    overdueMaintenance: getOverdueMaintenance(useMaintenanceStore.getState().items, dateKey).length,
+    expiringItems: getExpiringItems(useInventoryStore.getState().items, 7, date).length,
+  };
+}
+
+export function formatDailyDigest(digest: DailyDigest): string | null {
+  const parts = [
+    digest.tasks > 0 && plural(digest.tasks, "tarefa para hoje", "tarefas para hoje"),
+    digest.bills > 0 && plural(digest.bills, "conta a vencer", "contas a vencer"),
+    digest.overdueMaintenance > 0 &&
+      plural(digest.overdueMaintenance, "manutencao atrasada", "manutencoes atrasadas"),
+    digest.expiringItems > 0 &&
+      plural(digest.expiringItems, "item vencendo na semana", "itens vencendo na semana"),
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+// Schedule the morning digest for the next days
+export async function scheduleDailyDigest(): Promise<void> {
+  await cancelNotificationsByTag(DIGEST_TAG);
+
+  const prefs = await getNotificationPreferences();
+  if (!prefs.enabled || !prefs.dailyDigest) return;
+
+  const [hours, minutes] = prefs.reminderTime.split(":").map(Number);
+  const now = new Date();
+
+  for (let day = 0; day <= DIGEST_DAYS_AHEAD; day++) {
+    const date = new Date(addDays(getTodayKey(now), day) + "T00:00:00");
+    date.setHours(hours, minutes, 0, 0);
+    if (date <= now) continue;
+
+    // Dia sem nada para contar nao gera notificacao
+    const body = formatDailyDigest(buildDailyDigest(date, prefs.billReminderDaysBefore));
+    if (!body) continue;
+
+    await scheduleNotification(
+      "Resumo do dia",
+      body,
+      { type: Notifications.SchedulableTriggerInputTypes.DATE, date },
+      { type: "digest", tag: DIGEST_TAG },
+      "default"
+    );
+  }
+}
+
+// Troca entre resumo e lembretes avulsos usando os dados carregados
+export async function rescheduleAllReminders(): Promise<void> {
+  await cancelAllNotifications();
+
+  await scheduleAllTaskReminders(useTaskStore.getState().tasks.filter((t) => t.status === "pending"));
+  await scheduleAllBillReminders(
+    useFinanceStore.getState().bills.filter((b) => b.current_month_status !== "paid")
+  );
+  await scheduleAllMaintenanceReminders(useMaintenanceStore.getState().items);
+  const inventoryItems = useInventoryStore.getState().items;
+  await scheduleAllInventoryReminders(inventoryItems, getRepurchaseItems(inventoryItems));
+  await scheduleDailyDigest();
+}
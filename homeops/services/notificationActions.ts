@@ -0,0 +1,125 @@
+import { DEFAULT_ACTION_IDENTIFIER, type NotificationResponse } from "expo-notifications";
+import { router } from "expo-router";
+import { useAuthStore } from "@/stores/authStore";
+import { useTaskStore } from "@/stores/taskStore";
+import { useFinanceStore } from "@/stores/financeStore";
+import {
+  NOTIFICATION_ACTIONS,
+  getNotificationPreferences,
+  snoozeNotification,
+  dismissNotification,
+} from "./notificationService";
+import { openNotificationTarget } from "./notificationRouter";
+
+// Respostas ja tratadas (o listener e o cold start podem entregar a mesma)
+const handledResponses = new Set<string>();
+
+const getResponseKey = (response: NotificationResponse) =>
+  `${response.notification.request.identifier}:${response.actionIdentifier}`;
+
+// Amanha no horario padrao dos lembretes
+async function getTomorrowReminderDate(): Promise<Date> {
+  const prefs = await getNotificationPreferences();
+  const [hours, minutes] = prefs.reminderTime.split(":").map(Number);
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+}
+
+// dueDate: ocorrencia do lembrete (undefined = lembrete antigo, sem a data)
+async function completeTaskFromNotification(taskId: string, dueDate: string | null | undefined): Promise<void> {
+  const { user, household } = useAuthStore.getState();
+  if (!user || !household) return;
+
+  // Estado atual do banco: no cold start os stores estao vazios e outro
+  // morador pode ter concluido ou remarcado a tarefa depois do lembrete
+  await useTaskStore.getState().fetchTasks(household.id);
+
+  const task = useTaskStore.getState().tasks.find((t) => t.id === taskId);
+  if (!task || task.status !== "pending" || (dueDate !== undefined && (task.due_date || null) !== dueDate)) {
+    console.log("Ignoring stale task notification:", taskId);
+    return;
+  }
+
+  const { error } = await useTaskStore.getState().completeTask(taskId, user.id);
+  if (error) console.error("Error completing task from notification:", error);
+}
+
+// dueDate: ocorrencia do lembrete (undefined = lembrete antigo, sem a data)
+async function markBillPaidFromNotification(billId: string, dueDate: string | null | undefined): Promise<void> {
+  const { household } = useAuthStore.getState();
+  if (!household) return;
+
+  // Estado atual do banco: a conta pode ja ter sido paga ou virado o periodo
+  await useFinanceStore.getState().fetchBills(household.id);
+
+  const bill = useFinanceStore.getState().bills.find((b) => b.id === billId);
+  if (!bill) return;
+
+  // Lembrete antigo: pagar de novo sobrescreveria o valor ou quitaria a
+  // ocorrencia seguinte; abre a conta para conferir
+  if (
+    bill.current_month_status === "paid" ||
+    dueDate === undefined ||
+    (bill.next_due_date || null) !== dueDate
+  ) {
+    console.log("Ignoring stale bill notification:", billId);
+    router.push(`/finance/edit-bill?id=${billId}`);
+    return;
+  }
+
+  // Sem conta de pagamento (saldo conferido) a conta abre para escolher
+  const { error } = await useFinanceStore.getState().markBillAsPaid(billId);
+  if (error) {
+    console.error("Error marking bill as paid from notification:", error);
+    router.push(`/finance/edit-bill?id=${billId}`);
+  }
+}
+
+// Trata o toque na notificacao: botoes de acao ou abrir o detalhe
+export async function handleNotificationResponse(response: NotificationResponse): Promise<void> {
+  const key = getResponseKey(response);
+  if (handledResponses.has(key)) return;
+  handledResponses.add(key);
+
+  const { request } = response.notification;
+  const data = request.content.data || {};
+
+  switch (response.actionIdentifier) {
+    case DEFAULT_ACTION_IDENTIFIER:
+      await openNotificationTarget(data);
+      return;
+
+    case NOTIFICATION_ACTIONS.completeTask:
+      await completeTaskFromNotification(
+        String(data.taskId),
+        data.dueDate === undefined ? undefined : (data.dueDate as string | null)
+      );
+      break;
+
+    case NOTIFICATION_ACTIONS.markBillPaid:
+      await markBillPaidFromNotification(
+        String(data.billId),
+        data.dueDate === undefined ? undefined : (data.dueDate as string | null)
+      );
+      break;
+
+    case NOTIFICATION_ACTIONS.registerMaintenance:
+      router.push(`/maintenance/register?itemId=${data.itemId}`);
+      break;
+
+    case NOTIFICATION_ACTIONS.snoozeHour:
+      await snoozeNotification(request, new Date(Date.now() + 60 * 60 * 1000));
+      break;
+
+    case NOTIFICATION_ACTIONS.snoozeTomorrow:
+      await snoozeNotification(request, await getTomorrowReminderDate());
+      break;
+
+    default:
+      return;
+  }
+
+  await dismissNotification(request.identifier);
+}
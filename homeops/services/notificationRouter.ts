@@ -0,0 +1,82 @@
+import { Alert } from "react-native";
+import { router, type Href } from "expo-router";
+import { supabase } from "@/lib/supabase";
+
+// Destino de cada tipo de notificacao: tabela para conferir se o registro
+// ainda existe, tela de detalhe e aba usada quando ele foi excluido
+interface NotificationTarget {
+  table: string;
+  idKey: string;
+  getRoute: (id: string) => Href;
+  fallback: Href;
+  missingMessage: string;
+}
+
+const NOTIFICATION_TARGETS: Record<string, NotificationTarget> = {
+  task: {
+    table: "tasks",
+    idKey: "taskId",
+    getRoute: (id) => `/task/${id}`,
+    fallback: "/(tabs)/tasks",
+    missingMessage: "Esta tarefa foi excluida.",
+  },
+  bill: {
+    table: "bills",
+    idKey: "billId",
+    getRoute: (id) => `/finance/edit-bill?id=${id}`,
+    fallback: "/(tabs)/finances",
+    missingMessage: "Esta conta foi excluida.",
+  },
+  maintenance: {
+    table: "maintenance_items",
+    idKey: "itemId",
+    getRoute: (id) => `/maintenance/${id}`,
+    fallback: "/(tabs)/maintenance",
+    missingMessage: "Este item de manutencao foi excluido.",
+  },
+  inventory: {
+    table: "inventory_items",
+    idKey: "itemId",
+    getRoute: (id) => `/inventory/${id}`,
+    fallback: "/(tabs)/inventory",
+    missingMessage: "Este item do estoque foi excluido.",
+  },
+};
+
+// Abre a tela de detalhe do payload; se o registro sumiu, cai na aba
+export async function openNotificationTarget(data: Record<string, unknown>): Promise<void> {
+  // Resumo diario abre a agenda
+  if (data.type === "digest") {
+    router.push("/calendar");
+    return;
+  }
+
+  if (data.type === "repurchase") {
+    router.push("/(tabs)/inventory");
+    return;
+  }
+
+  if (data.type === "budget") {
+    router.push("/(tabs)/finances");
+    return;
+  }
+
+  const target = NOTIFICATION_TARGETS[String(data.type)];
+  const id = target && data[target.idKey];
+  if (!target || !id) return;
+
+  const { data: found, error } = await supabase
+    .from(target.table)
+    .select("id")
+    .eq("id", String(id))
+    .maybeSingle();
+
+  if (!found && !error) {
+    router.push(target.fallback);
+    Alert.alert("Aviso", target.missingMessage);
+    return;
+  }
+
+  // Sem conexao tenta abrir mesmo assim
+  router.push(target.getRoute(String(id)));
+}
@@ -3,7 +3,14 @@ import * as Device from "expo-device";
 import Constants from "expo-constants";
 import { Platform } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import type { Task, MaintenanceItem, Bill } from "@/types";
+import type { Task, MaintenanceItem, Bill, InventoryItem, BudgetProgress } from "@/types";
+import { getNextTaskDate, getTodayKey, addDays, diffInDays } from "@/lib/recurrence";
+import {
+  DEFAULT_TASK_REMINDER_OFFSETS,
+  getTaskReminderOffsets,
+  getReminderDates,
+  formatTime,
+} from "@/lib/reminders";
 
 // Check if running in Expo Go (notifications limited since SDK 53)
 const isExpoGo = Constants.appOwnership === "expo";
@@ -21,17 +28,52 @@ if (!isExpoGo) {
   });
 }
 
+// Categorias com botoes de acao
+export const NOTIFICATION_CATEGORIES = {
+  task: "task_reminder",
+  bill: "bill_reminder",
+  maintenance: "maintenance_reminder",
+} as const;
+
+export const NOTIFICATION_ACTIONS = {
+  completeTask: "complete_task",
+  snoozeHour: "snooze_1h",
+  snoozeTomorrow: "snooze_tomorrow",
+  markBillPaid: "mark_bill_paid",
+  registerMaintenance: "register_maintenance",
+} as const;
+
+const CHANNEL_BY_TYPE: Record<string, string> = {
+  task: "tasks",
+  bill: "bills",
+  maintenance: "maintenance",
+  inventory: "inventory",
+  repurchase: "inventory",
+  budget: "bills",
+};
+
 // Notification preferences storage key
 const NOTIFICATION_PREFS_KEY = "@homeops_notification_prefs";
 
+// Maior faixa de orcamento ja avisada por orcamento no mes ("id:YYYY-MM")
+const BUDGET_ALERTS_KEY = "@homeops_budget_alerts";
+
 export interface NotificationPreferences {
   enabled: boolean;
   taskReminders: boolean;
   billReminders: boolean;
   maintenanceReminders: boolean;
+  warrantyReminders: boolean;
+  expirationReminders: boolean;
+  lowStockAlerts: boolean;
+  repurchaseReminders: boolean;
+  budgetAlerts: boolean;
+  dailyDigest: boolean; // um resumo pela manha no lugar dos lembretes avulsos
   reminderTime: string; // HH:mm format
+  taskReminderOffsets: number[]; // minutos antes do vencimento
   billReminderDaysBefore: number;
   maintenanceReminderDaysBefore: number;
+  expirationReminderDaysBefore: number;
 }
 
 const DEFAULT_PREFERENCES: NotificationPreferences = {
@@ -39,9 +81,17 @@ const DEFAULT_PREFERENCES: NotificationPreferences = {
   taskReminders: true,
   billReminders: true,
   maintenanceReminders: true,
+  warrantyReminders: true,
+  expirationReminders: true,
+  lowStockAlerts: true,
+  repurchaseReminders: true,
+  budgetAlerts: true,
+  dailyDigest: false,
   reminderTime: "09:00",
+  taskReminderOffsets: DEFAULT_TASK_REMINDER_OFFSETS,
   billReminderDaysBefore: 3,
   maintenanceReminderDaysBefore: 7,
+  expirationReminderDaysBefore: 3,
 };
 
 // Request notification permissions
@@ -98,6 +148,12 @@ export async function requestNotificationPermissions(): Promise<boolean> {
         importance: Notifications.AndroidImportance.DEFAULT,
         lightColor: "#3B82F6",
       });
+
+      await Notifications.setNotificationChannelAsync("inventory", {
+        name: "Estoque",
+        importance: Notifications.AndroidImportance.DEFAULT,
+        lightColor: "#10B981",
+      });
     }
 
     return true;
@@ -107,6 +163,35 @@ export async function requestNotificationPermissions(): Promise<boolean> {
   }
 }
 
+// Register notification categories (action buttons).
+// Todas as acoes abrem o app: precisam da sessao e dos stores, que so
+// existem com o JS rodando (inclusive quando o app estava fechado)
+export async function registerNotificationCategories(): Promise<void> {
+  if (isExpoGo) return;
+
+  const foreground = { opensAppToForeground: true };
+
+  try {
+    await Notifications.setNotificationCategoryAsync(NOTIFICATION_CATEGORIES.task, [
+      { identifier: NOTIFICATION_ACTIONS.completeTask, buttonTitle: "Concluir", options: foreground },
+      { identifier: NOTIFICATION_ACTIONS.snoozeHour, buttonTitle: "Adiar 1h", options: foreground },
+      { identifier: NOTIFICATION_ACTIONS.snoozeTomorrow, buttonTitle: "Amanha", options: foreground },
+    ]);
+
+    await Notifications.setNotificationCategoryAsync(NOTIFICATION_CATEGORIES.bill, [
+      { identifier: NOTIFICATION_ACTIONS.markBillPaid, buttonTitle: "Marcar como paga", options: foreground },
+      { identifier: NOTIFICATION_ACTIONS.snoozeTomorrow, buttonTitle: "Lembrar amanha", options: foreground },
+    ]);
+
+    await Notifications.setNotificationCategoryAsync(NOTIFICATION_CATEGORIES.maintenance, [
+      { identifier: NOTIFICATION_ACTIONS.registerMaintenance, buttonTitle: "Registrar manutencao", options: foreground },
+      { identifier: NOTIFICATION_ACTIONS.snoozeTomorrow, buttonTitle: "Lembrar amanha", options: foreground },
+    ]);
+  } catch (error) {
+    console.log("Error registering notification categories:", error);
+  }
+}
+
 // Get notification preferences
 export async function getNotificationPreferences(): Promise<NotificationPreferences> {
   try {
@@ -139,7 +224,8 @@ export async function scheduleNotification(
   body: string,
   trigger: Notifications.NotificationTriggerInput,
   data?: Record<string, unknown>,
-  channelId?: string
+  channelId?: string,
+  categoryIdentifier?: string
 ): Promise<string> {
   // Skip if running in Expo Go
   if (isExpoGo) return "";
@@ -151,6 +237,7 @@ export async function scheduleNotification(
         body,
         data,
         sound: true,
+        ...(categoryIdentifier ? { categoryIdentifier } : {}),
         ...(Platform.OS === "android" && channelId ? { channelId } : {}),
       },
       trigger,
@@ -174,12 +261,14 @@ export async function cancelNotification(identifier: string): Promise<void> {
 }
 
 // Cancel all notifications with a specific tag
-export async function cancelNotificationsByTag(tag: string): Promise<void> {
+// (keepSnoozed: reagendamentos preservam o que o usuario adiou)
+export async function cancelNotificationsByTag(tag: string, keepSnoozed: boolean = false): Promise<void> {
   if (isExpoGo) return;
   try {
     const scheduled = await Notifications.getAllScheduledNotificationsAsync();
     for (const notification of scheduled) {
-      if (notification.content.data?.tag === tag) {
+      const data = notification.content.data;
+      if (data?.tag === tag && !(keepSnoozed && data?.snoozed)) {
         await cancelNotification(notification.identifier);
       }
     }
@@ -219,33 +308,51 @@ function createDateTrigger(date: Date): Notifications.DateTriggerInput {
   };
 }
 
-// Schedule task reminder
+// Schedule task reminders (one per offset, all sharing the task tag)
 export async function scheduleTaskReminder(
   task: Task,
-  reminderTime: string = "09:00"
-): Promise<string | null> {
+  reminderTime?: string,
+  defaultOffsets?: number[]
+): Promise<string[]> {
   const prefs = await getNotificationPreferences();
-  if (!prefs.enabled || !prefs.taskReminders) return null;
+  if (!prefs.enabled || !prefs.taskReminders) return [];
 
-  if (!task.due_date) return null;
+  // Cancel existing reminders for this task
+  await cancelNotificationsByTag(`task_${task.id}`, true);
 
-  const [hours, minutes] = reminderTime.split(":").map(Number);
-  const dueDate = new Date(task.due_date);
-  dueDate.setHours(hours, minutes, 0, 0);
+  // O resumo diario substitui os lembretes avulsos
+  if (prefs.dailyDigest) return [];
 
-  // Don't schedule if due date is in the past
-  if (dueDate <= new Date()) return null;
+  // Recorrentes sem data usam a primeira ocorrencia a partir de hoje
+  const dueDateKey = task.due_date || getNextTaskDate(task, addDays(getTodayKey(), -1));
+  if (!dueDateKey) return [];
 
-  // Cancel existing reminder for this task
-  await cancelNotificationsByTag(`task_${task.id}`);
+  const offsets = getTaskReminderOffsets(task, defaultOffsets ?? prefs.taskReminderOffsets);
+  const dueTime = formatTime(task.due_time);
+  const now = new Date();
 
-  return scheduleNotification(
-    "Tarefa pendente",
-    `${task.title} vence hoje!`,
-    createDateTrigger(dueDate),
-    { type: "task", taskId: task.id, tag: `task_${task.id}` },
-    "tasks"
-  );
+  const identifiers: string[] = [];
+  for (const date of getReminderDates(dueDateKey, dueTime, offsets, reminderTime ?? prefs.reminderTime)) {
+    // Don't schedule reminders in the past
+    if (date <= now) continue;
+
+    const daysUntil = diffInDays(getTodayKey(date), dueDateKey);
+    const when =
+      daysUntil === 0 ? "hoje" : daysUntil === 1 ? "amanha" : `em ${daysUntil} dias`;
+
+    const identifier = await scheduleNotification(
+      "Tarefa pendente",
+      `${task.title} vence ${when}${dueTime ? ` as ${dueTime}` : ""}!`,
+      createDateTrigger(date),
+      // dueDate identifica a ocorrencia: "Concluir" so vale para ela
+      { type: "task", taskId: task.id, dueDate: task.due_date || null, tag: `task_${task.id}` },
+      "tasks",
+      NOTIFICATION_CATEGORIES.task
+    );
+    if (identifier) identifiers.push(identifier);
+  }
+
+  return identifiers;
 }
 
 // Schedule bill reminder
@@ -257,16 +364,15 @@ export async function scheduleBillReminder(
   const prefs = await getNotificationPreferences();
   if (!prefs.enabled || !prefs.billReminders) return null;
 
-  if (!bill.due_day || bill.current_month_status === "paid") return null;
+  if (prefs.dailyDigest) {
+    await cancelNotificationsByTag(`bill_${bill.id}`, true);
+    return null;
+  }
 
-  // Calculate due date for current month
-  const now = new Date();
-  const dueDate = new Date(now.getFullYear(), now.getMonth(), bill.due_day);
+  // Vencimento da ocorrencia em aberto (mensal, anual, parcela...)
+  if (!bill.next_due_date || bill.current_month_status === "paid") return null;
 
-  // If due day already passed this month, schedule for next month
-  if (dueDate < now) {
-    dueDate.setMonth(dueDate.getMonth() + 1);
-  }
+  const dueDate = new Date(`${bill.next_due_date}T00:00:00`);
 
   // Calculate reminder date
   const reminderDate = new Date(dueDate);
@@ -292,7 +398,7 @@ export async function scheduleBillReminder(
   }
 
   // Cancel existing reminder for this bill
-  await cancelNotificationsByTag(`bill_${bill.id}`);
+  await cancelNotificationsByTag(`bill_${bill.id}`, true);
 
   const daysUntilDue = Math.ceil(
     (dueDate.getTime() - reminderDate.getTime()) / (1000 * 60 * 60 * 24)
@@ -302,8 +408,10 @@ export async function scheduleBillReminder(
     "Conta a vencer",
     `${bill.name} (R$ ${bill.amount.toFixed(2)}) vence em ${daysUntilDue} dia${daysUntilDue !== 1 ? "s" : ""}`,
     createDateTrigger(reminderDate),
-    { type: "bill", billId: bill.id, tag: `bill_${bill.id}` },
-    "bills"
+    // dueDate identifica a ocorrencia: "Marcar como paga" so vale para ela
+    { type: "bill", billId: bill.id, dueDate: bill.next_due_date, tag: `bill_${bill.id}` },
+    "bills",
+    NOTIFICATION_CATEGORIES.bill
   );
 }
 
@@ -316,6 +424,11 @@ export async function scheduleMaintenanceReminder(
   const prefs = await getNotificationPreferences();
   if (!prefs.enabled || !prefs.maintenanceReminders) return null;
 
+  if (prefs.dailyDigest) {
+    await cancelNotificationsByTag(`maintenance_${item.id}`, true);
+    return null;
+  }
+
   if (!item.next_maintenance_date) return null;
 
   const maintenanceDate = new Date(item.next_maintenance_date);
@@ -342,7 +455,7 @@ export async function scheduleMaintenanceReminder(
   }
 
   // Cancel existing reminder for this item
-  await cancelNotificationsByTag(`maintenance_${item.id}`);
+  await cancelNotificationsByTag(`maintenance_${item.id}`, true);
 
   const daysUntil = Math.ceil(
     (maintenanceDate.getTime() - reminderDate.getTime()) / (1000 * 60 * 60 * 24)
@@ -353,10 +466,222 @@ export async function scheduleMaintenanceReminder(
     `${item.name} precisa de manutencao em ${daysUntil} dia${daysUntil !== 1 ? "s" : ""}`,
     createDateTrigger(reminderDate),
     { type: "maintenance", itemId: item.id, tag: `maintenance_${item.id}` },
-    "maintenance"
+    "maintenance",
+    NOTIFICATION_CATEGORIES.maintenance
+  );
+}
+
+// Avisos antes do fim da garantia (dias de antecedencia)
+const WARRANTY_REMINDER_DAYS = [30, 7];
+
+// Schedule warranty expiration reminders
+export async function scheduleWarrantyReminders(
+  item: MaintenanceItem,
+  reminderTime?: string
+): Promise<string[]> {
+  const prefs = await getNotificationPreferences();
+  if (!prefs.enabled || !prefs.warrantyReminders) return [];
+
+  // Cancel existing reminders for this item
+  await cancelNotificationsByTag(`warranty_${item.id}`, true);
+
+  if (!item.warranty_until) return [];
+
+  const [hours, minutes] = (reminderTime ?? prefs.reminderTime).split(":").map(Number);
+
+  const identifiers: string[] = [];
+  for (const daysBefore of WARRANTY_REMINDER_DAYS) {
+    const reminderDate = new Date(item.warranty_until + "T00:00:00");
+    reminderDate.setDate(reminderDate.getDate() - daysBefore);
+    reminderDate.setHours(hours, minutes, 0, 0);
+
+    // Don't schedule if reminder date is in the past
+    if (reminderDate <= new Date()) continue;
+
+    const identifier = await scheduleNotification(
+      "Garantia acabando",
+      `A garantia de ${item.name} termina em ${daysBefore} dias. Verifique se algo precisa de reparo.`,
+      createDateTrigger(reminderDate),
+      { type: "maintenance", itemId: item.id, tag: `warranty_${item.id}` },
+      "maintenance"
+    );
+    if (identifier) identifiers.push(identifier);
+  }
+
+  return identifiers;
+}
+
+// Schedule inventory expiration reminder
+export async function scheduleExpirationReminder(
+  item: InventoryItem,
+  reminderTime?: string,
+  daysBefore?: number
+): Promise<string | null> {
+  const prefs = await getNotificationPreferences();
+  if (!prefs.enabled || !prefs.expirationReminders) return null;
+
+  // Cancel existing reminder for this item
+  await cancelNotificationsByTag(`expiration_${item.id}`, true);
+
+  // O resumo diario ja lista os itens vencendo
+  if (prefs.dailyDigest || !item.expiration_date || item.quantity <= 0) return null;
+
+  const [hours, minutes] = (reminderTime ?? prefs.reminderTime).split(":").map(Number);
+  const expirationDate = new Date(item.expiration_date + "T00:00:00");
+  const reminderDate = new Date(expirationDate);
+  reminderDate.setDate(reminderDate.getDate() - (daysBefore ?? prefs.expirationReminderDaysBefore));
+  reminderDate.setHours(hours, minutes, 0, 0);
+
+  // Don't schedule if reminder date is in the past
+  if (reminderDate <= new Date()) {
+    // If reminder date passed but expiration hasn't, schedule for today
+    if (expirationDate > new Date()) {
+      const today = new Date();
+      today.setHours(hours, minutes, 0, 0);
+      if (today > new Date()) {
+        reminderDate.setTime(today.getTime());
+      } else {
+        return null;
+      }
+    } else {
+      return null;
+    }
+  }
+
+  const daysUntil = Math.ceil(
+    (expirationDate.getTime() - reminderDate.getTime()) / (1000 * 60 * 60 * 24)
+  );
+
+  return scheduleNotification(
+    "Item perto do vencimento",
+    `${item.name} vence em ${daysUntil} dia${daysUntil !== 1 ? "s" : ""}`,
+    createDateTrigger(reminderDate),
+    { type: "inventory", itemId: item.id, tag: `expiration_${item.id}` },
+    "inventory"
   );
 }
 
+// Alerta imediato quando o consumo deixa o item abaixo do minimo
+export async function sendLowStockAlert(item: InventoryItem): Promise<string | null> {
+  const prefs = await getNotificationPreferences();
+  if (!prefs.enabled || !prefs.lowStockAlerts) return null;
+
+  return scheduleNotification(
+    item.quantity <= 0 ? "Item acabou" : "Estoque baixo",
+    item.quantity <= 0
+      ? `${item.name} acabou. Hora de comprar mais!`
+      : `Restam ${item.quantity} ${item.unit} de ${item.name}`,
+    null,
+    { type: "inventory", itemId: item.id, tag: `low_stock_${item.id}` },
+    "inventory"
+  );
+}
+
+// Um lembrete agrupado com os itens que ja passaram do intervalo de recompra
+export async function scheduleRepurchaseReminder(
+  items: InventoryItem[],
+  reminderTime?: string
+): Promise<string | null> {
+  const prefs = await getNotificationPreferences();
+  if (!prefs.enabled || !prefs.repurchaseReminders) return null;
+
+  await cancelNotificationsByTag("repurchase", true);
+  if (items.length === 0) return null;
+
+  // Proximo horario dos lembretes (hoje ou amanha)
+  const [hours, minutes] = (reminderTime ?? prefs.reminderTime).split(":").map(Number);
+  const reminderDate = new Date();
+  reminderDate.setHours(hours, minutes, 0, 0);
+  if (reminderDate <= new Date()) {
+    reminderDate.setDate(reminderDate.getDate() + 1);
+  }
+
+  const names = items.slice(0, 3).map((item) => item.name).join(", ");
+  const more = items.length > 3 ? ` e mais ${items.length - 3}` : "";
+
+  return scheduleNotification(
+    "Hora de recomprar",
+    `${names}${more}`,
+    createDateTrigger(reminderDate),
+    { type: "repurchase", tag: "repurchase" },
+    "inventory"
+  );
+}
+
+// Faixas de gasto que geram alerta (fracao do limite)
+export const BUDGET_ALERT_THRESHOLDS = [0.8, 1];
+
+// Alerta imediato quando os gastos de uma categoria atingem 80% e 100% do
+// orcamento; cada faixa avisa uma vez por mes
+export async function sendBudgetAlerts(progress: BudgetProgress[], month: string): Promise<void> {
+  const prefs = await getNotificationPreferences();
+  if (!prefs.enabled || !prefs.budgetAlerts) return;
+
+  let sent: Record<string, number> = {};
+  try {
+    const stored = await AsyncStorage.getItem(BUDGET_ALERTS_KEY);
+    if (stored) sent = JSON.parse(stored);
+  } catch (error) {
+    console.error("Error reading budget alerts:", error);
+  }
+
+  // Mantem so o mes atual
+  const current: Record<string, number> = Object.fromEntries(
+    Object.entries(sent).filter(([key]) => key.endsWith(`:${month}`))
+  );
+
+  for (const { budget, limit, spent, ratio } of progress) {
+    const threshold = [...BUDGET_ALERT_THRESHOLDS].reverse().find((t) => ratio >= t);
+    const key = `${budget.id}:${month}`;
+    if (!threshold || (current[key] ?? 0) >= threshold) continue;
+
+    current[key] = threshold;
+    const name = budget.category?.name || "Categoria";
+    await scheduleNotification(
+      threshold >= 1 ? "Orcamento estourado" : "Orcamento quase no limite",
+      threshold >= 1
+        ? `${name}: R$ ${spent.toFixed(2)} gastos de R$ ${limit.toFixed(2)} no mes`
+        : `${name}: ${Math.round(ratio * 100)}% do orcamento do mes ja foi usado`,
+      null,
+      { type: "budget", budgetId: budget.id, tag: `budget_${budget.id}` },
+      "bills"
+    );
+  }
+
+  try {
+    await AsyncStorage.setItem(BUDGET_ALERTS_KEY, JSON.stringify(current));
+  } catch (error) {
+    console.error("Error saving budget alerts:", error);
+  }
+}
+
+// Reagenda o mesmo lembrete para mais tarde (acao "Adiar")
+export async function snoozeNotification(
+  request: Notifications.NotificationRequest,
+  until: Date
+): Promise<string> {
+  const { title, body, data, categoryIdentifier } = request.content;
+
+  return scheduleNotification(
+    title || "HomeOps",
+    body || "",
+    createDateTrigger(until),
+    { ...data, snoozed: true },
+    CHANNEL_BY_TYPE[String(data?.type)],
+    categoryIdentifier || undefined
+  );
+}
+
+// Dismiss a delivered notification
+export async function dismissNotification(identifier: string): Promise<void> {
+  if (isExpoGo) return;
+  try {
+    await Notifications.dismissNotificationAsync(identifier);
+  } catch (error) {
+    console.log("Error dismissing notification:", error);
+  }
+}
+
 // Schedule all reminders for tasks
 export async function scheduleAllTaskReminders(tasks: Task[]): Promise<void> {
   const prefs = await getNotificationPreferences();
@@ -364,7 +689,7 @@ export async function scheduleAllTaskReminders(tasks: Task[]): Promise<void> {
 
   for (const task of tasks) {
     if (task.status !== "completed") {
-      await scheduleTaskReminder(task, prefs.reminderTime);
+      await scheduleTaskReminder(task, prefs.reminderTime, prefs.taskReminderOffsets);
     }
   }
 }
@@ -388,17 +713,43 @@ export async function scheduleAllMaintenanceReminders(
   items: MaintenanceItem[]
 ): Promise<void> {
   const prefs = await getNotificationPreferences();
-  if (!prefs.enabled || !prefs.maintenanceReminders) return;
+  if (!prefs.enabled) return;
 
   for (const item of items) {
-    await scheduleMaintenanceReminder(
-      item,
-      prefs.reminderTime,
-      prefs.maintenanceReminderDaysBefore
-    );
+    if (prefs.maintenanceReminders) {
+      await scheduleMaintenanceReminder(
+        item,
+        prefs.reminderTime,
+        prefs.maintenanceReminderDaysBefore
+      );
+    }
+    if (prefs.warrantyReminders) {
+      await scheduleWarrantyReminders(item, prefs.reminderTime);
+    }
   }
 }
 
+// Schedule all reminders for inventory items
+export async function scheduleAllInventoryReminders(
+  items: InventoryItem[],
+  repurchaseItems: InventoryItem[]
+): Promise<void> {
+  const prefs = await getNotificationPreferences();
+  if (!prefs.enabled) return;
+
+  if (prefs.expirationReminders) {
+    for (const item of items) {
+      await scheduleExpirationReminder(
+        item,
+        prefs.reminderTime,
+        prefs.expirationReminderDaysBefore
+      );
+    }
+  }
+
+  await scheduleRepurchaseReminder(repurchaseItems, prefs.reminderTime);
+}
+
 // Send immediate notification (for testing)
 export async function sendTestNotification(): Promise<void> {
   if (isExpoGo) {
@@ -434,6 +785,27 @@ export function addNotificationResponseListener(
   }
 }
 
+// Response that launched the app (cold start from a notification)
+export function getLastNotificationResponse(): Notifications.NotificationResponse | null {
+  if (isExpoGo) return null;
+  try {
+    return Notifications.getLastNotificationResponse();
+  } catch (error) {
+    console.log("Error getting last notification response:", error);
+    return null;
+  }
+}
+
+// Depois de tratada a resposta do cold start nao volta a ser entregue
+export function clearLastNotificationResponse(): void {
+  if (isExpoGo) return;
+  try {
+    Notifications.clearLastNotificationResponse();
+  } catch (error) {
+    console.log("Error clearing last notification response:", error);
+  }
+}
+
 // Add notification received listener
 export function addNotificationReceivedListener(
   callback: (notification: Notifications.Notification) => void
@@ -1,17 +1,47 @@
 import { create } from "zustand";
 import { supabase } from "@/lib/supabase";
-import type { Bill, Transaction, FinanceCategory, MonthlySummary } from "@/types";
+import type {
+  Bill,
+  BillPayment,
+  Transaction,
+  FinanceCategory,
+  FinanceBudget,
+  BudgetProgress,
+  CategoryRule,
+  PaymentAccount,
+  AccountBalance,
+  RecurringIncome,
+  MonthlySummary,
+  MonthlyTrend,
+  CategoryTrend,
+  SplitType,
+  SplitShare,
+  Settlement,
+  MemberBalance,
+} from "@/types";
 import {
   scheduleBillReminder,
   cancelNotificationsByTag,
   scheduleAllBillReminders,
+  sendBudgetAlerts,
 } from "@/services/notificationService";
+import { getTodayKey } from "@/lib/recurrence";
+import { getMonthStart, addMonths } from "@/lib/calendar";
+import { getRulePatternFromDescription } from "@/lib/categoryRules";
+import { compareBillsByDueDate, getBillDueDateInMonth } from "@/lib/bills";
 
 interface FinanceState {
   bills: Bill[];
   transactions: Transaction[];
   categories: FinanceCategory[];
+  budgets: FinanceBudget[];
+  categoryRules: CategoryRule[];
+  accounts: PaymentAccount[];
+  recurringIncomes: RecurringIncome[];
+  balances: MemberBalance[];
+  settlements: Settlement[];
   monthlySummary: MonthlySummary | null;
+  selectedMonth: string; // YYYY-MM exibido na aba de financas
   isLoading: boolean;
   error: string | null;
 }
@@ -21,21 +51,320 @@ interface FinanceActions {
   fetchTransactions: (householdId: string, month?: string) => Promise<void>;
   fetchCategories: () => Promise<void>;
   calculateMonthlySummary: (householdId: string, month?: string) => Promise<void>;
+  setSelectedMonth: (householdId: string, month: string) => Promise<void>;
   createBill: (bill: Partial<Bill>) => Promise<{ error: string | null }>;
   updateBill: (id: string, updates: Partial<Bill>) => Promise<{ error: string | null }>;
   deleteBill: (id: string) => Promise<{ error: string | null }>;
-  markBillAsPaid: (id: string, amount?: number) => Promise<{ error: string | null }>;
-  createTransaction: (transaction: Partial<Transaction>) => Promise<{ error: string | null }>;
-  updateTransaction: (id: string, updates: Partial<Transaction>) => Promise<{ error: string | null }>;
+  markBillAsPaid: (id: string, amount?: number, accountId?: string) => Promise<{ error: string | null }>;
+  unmarkBillAsPaid: (id: string) => Promise<{ error: string | null }>;
+  refreshBill: (id: string) => Promise<void>;
+  createTransaction: (
+    transaction: Partial<Transaction>,
+    split?: TransactionSplitInput
+  ) => Promise<{ error: string | null }>;
+  updateTransaction: (
+    id: string,
+    updates: Partial<Transaction>,
+    split?: TransactionSplitInput
+  ) => Promise<{ error: string | null }>;
   deleteTransaction: (id: string) => Promise<{ error: string | null }>;
+  importTransactions: (
+    householdId: string,
+    transactions: Partial<Transaction>[]
+  ) => Promise<{ error: string | null; count: number }>;
+  fetchBudgets: (householdId: string, month?: string) => Promise<void>;
+  saveBudget: (budget: Partial<FinanceBudget>) => Promise<{ error: string | null }>;
+  deleteBudget: (id: string) => Promise<{ error: string | null }>;
+  checkBudgetAlerts: () => Promise<void>;
+  fetchCategoryRules: (householdId: string) => Promise<void>;
+  saveCategoryRule: (rule: Partial<CategoryRule>) => Promise<{ error: string | null }>;
+  deleteCategoryRule: (id: string) => Promise<{ error: string | null }>;
+  learnCategoryRule: (transaction: Transaction, categoryId: string) => Promise<{ error: string | null }>;
+  reapplyCategoryRules: (
+    householdId: string,
+    overwrite?: boolean
+  ) => Promise<{ error: string | null; count: number }>;
+  fetchAccounts: (householdId: string) => Promise<void>;
+  saveAccount: (account: Partial<PaymentAccount>) => Promise<{ error: string | null }>;
+  deleteAccount: (id: string) => Promise<{ error: string | null }>;
+  refreshInvoiceBill: (accountId: string | null | undefined) => Promise<void>;
+  createInstallmentPurchase: (purchase: InstallmentPurchaseInput) => Promise<{ error: string | null }>;
+  deleteInstallmentGroup: (groupId: string) => Promise<{ error: string | null }>;
+  fetchRecurringIncomes: (householdId: string) => Promise<void>;
+  saveRecurringIncome: (income: Partial<RecurringIncome>) => Promise<{ error: string | null }>;
+  deleteRecurringIncome: (id: string) => Promise<{ error: string | null }>;
+  fetchBalances: (householdId: string) => Promise<void>;
+  createSettlement: (settlement: Partial<Settlement>) => Promise<{ error: string | null }>;
   clearError: () => void;
 }
 
+// Divisao enviada junto com o lancamento (type null = sem divisao)
+export interface TransactionSplitInput {
+  type: SplitType | null;
+  shares: SplitShare[];
+}
+
+// Compra parcelada: o banco cria uma parcela por mes (create_installment_purchase)
+export interface InstallmentPurchaseInput {
+  household_id: string;
+  description: string;
+  total_amount: number;
+  installments: number;
+  date: string;
+  account_id?: string | null;
+  category_id?: string | null;
+  paid_by?: string | null;
+  split?: TransactionSplitInput;
+}
+
+// Despesas por categoria com data em [start, end)
+async function fetchExpensesByCategoryId(
+  householdId: string,
+  categoryIds: string[],
+  start: string,
+  end: string
+): Promise<{ spent: Record<string, number>; error: string | null }> {
+  const { data, error } = await supabase
+    .from("transactions")
+    .select("amount, category_id")
+    .eq("household_id", householdId)
+    .eq("type", "expense")
+    .in("category_id", categoryIds)
+    .gte("date", start)
+    .lt("date", end);
+
+  if (error) {
+    return { spent: {}, error: error.message };
+  }
+
+  const spent = (data || []).reduce((acc, t) => {
+    acc[t.category_id] = (acc[t.category_id] || 0) + Number(t.amount);
+    return acc;
+  }, {} as Record<string, number>);
+  return { spent, error: null };
+}
+
+// Sobra do mes anterior nos orcamentos com rollover
+const withCarryOver = (budgets: FinanceBudget[], previousSpent: Record<string, number>): FinanceBudget[] =>
+  budgets.map((b) => ({
+    ...b,
+    carry_over: b.rollover
+      ? Math.max(Number(b.monthly_limit) - (previousSpent[b.category_id] || 0), 0)
+      : 0,
+  }));
+
+// Verificacao de orcamentos em andamento (uma por vez: o dedupe dos alertas
+// fica no AsyncStorage e duas verificacoes juntas enviavam o mesmo alerta)
+let budgetAlertCheck: Promise<void> | null = null;
+let budgetAlertRecheck = false;
+
+// Gastos do mes atual (e sobra do anterior) consultados no banco
+async function runBudgetAlertCheck(budgets: FinanceBudget[]): Promise<void> {
+  if (budgets.length === 0) return;
+
+  const month = getTodayKey().slice(0, 7);
+  const monthStart = `${month}-01`;
+  const householdId = budgets[0].household_id;
+  const categoryIds = budgets.map((b) => b.category_id);
+
+  const [current, previous] = await Promise.all([
+    fetchExpensesByCategoryId(householdId, categoryIds, monthStart, addMonths(monthStart, 1)),
+    fetchExpensesByCategoryId(householdId, categoryIds, addMonths(monthStart, -1), monthStart),
+  ]);
+
+  if (current.error || previous.error) {
+    console.error("Error fetching budget spending:", current.error || previous.error);
+    return;
+  }
+
+  const progress = getBudgetProgressBySpent(withCarryOver(budgets, previous.spent), current.spent);
+  await sendBudgetAlerts(progress, month);
+}
+
+// Grava a divisao e devolve o lancamento com as partes calculadas pelo banco
+async function saveTransactionSplit(
+  id: string,
+  split: TransactionSplitInput
+): Promise<{ transaction: Transaction | null; error: string | null }> {
+  const { error } = await supabase.rpc("set_transaction_split", {
+    p_transaction_id: id,
+    p_split_type: split.type,
+    p_shares: split.type ? split.shares : [],
+  });
+
+  if (error) {
+    return { transaction: null, error: error.message };
+  }
+
+  const { data, error: fetchError } = await supabase
+    .from("transactions")
+    .select(`
+      *,
+      category:finance_categories(*),
+      splits:transaction_splits(*)
+    `)
+    .eq("id", id)
+    .single();
+
+  return { transaction: data, error: fetchError?.message || null };
+}
+
+// Historico de todas as contas da casa num mes (YYYY-MM)
+export async function getBillPaymentsInMonth(
+  householdId: string,
+  month: string
+): Promise<{ payments: BillPayment[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from("bill_payments")
+    .select("*")
+    .eq("household_id", householdId)
+    .eq("period", `${month}-01`);
+
+  if (error) {
+    return { payments: [], error: error.message };
+  }
+
+  return { payments: data || [], error: null };
+}
+
+// Historico mensal de uma conta (mais recente primeiro)
+export async function getBillPaymentHistory(
+  billId: string
+): Promise<{ payments: BillPayment[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from("bill_payments")
+    .select("*")
+    .eq("bill_id", billId)
+    .order("period", { ascending: false });
+
+  if (error) {
+    return { payments: [], error: error.message };
+  }
+
+  return { payments: data || [], error: null };
+}
+
+// Receitas e despesas dos ultimos N meses ate `until` (YYYY-MM), somadas no banco
+export async function getFinanceTrends(
+  householdId: string,
+  months: number,
+  until?: string
+): Promise<{ trends: MonthlyTrend[]; error: string | null }> {
+  const { data, error } = await supabase.rpc("get_finance_trends", {
+    p_household_id: householdId,
+    p_months: months,
+    ...(until ? { p_until: `${until}-01` } : {}),
+  });
+
+  if (error) {
+    return { trends: [], error: error.message };
+  }
+
+  const trends = (data || []).map((t: { month: string; total_income: number; total_expenses: number }) => ({
+    month: t.month.slice(0, 7),
+    total_income: Number(t.total_income),
+    total_expenses: Number(t.total_expenses),
+    balance: Number(t.total_income) - Number(t.total_expenses),
+  }));
+
+  return { trends, error: null };
+}
+
+// Despesas por categoria e mes no mesmo intervalo de getFinanceTrends
+export async function getCategoryTrends(
+  householdId: string,
+  months: number,
+  until?: string
+): Promise<{ trends: CategoryTrend[]; error: string | null }> {
+  const { data, error } = await supabase.rpc("get_category_trends", {
+    p_household_id: householdId,
+    p_months: months,
+    ...(until ? { p_until: `${until}-01` } : {}),
+  });
+
+  if (error) {
+    return { trends: [], error: error.message };
+  }
+
+  const trends = (data || []).map((t: CategoryTrend) => ({
+    month: t.month.slice(0, 7),
+    category_id: t.category_id,
+    total: Number(t.total),
+  }));
+
+  return { trends, error: null };
+}
+
+// Lancamentos de uma fatura do cartao (statementMonth = YYYY-MM do vencimento)
+export async function getCardStatement(
+  accountId: string,
+  statementMonth: string
+): Promise<{ transactions: Transaction[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from("transactions")
+    .select(`
+      *,
+      category:finance_categories(*)
+    `)
+    .eq("account_id", accountId)
+    .eq("statement_month", `${statementMonth}-01`)
+    .order("date", { ascending: false });
+
+  if (error) {
+    return { transactions: [], error: error.message };
+  }
+
+  return { transactions: data || [], error: null };
+}
+
+// Saldo atual das contas com saldo conferido (base da previsao de caixa)
+export async function getAccountBalances(
+  householdId: string
+): Promise<{ balances: AccountBalance[]; error: string | null }> {
+  const { data, error } = await supabase.rpc("get_account_balances", {
+    p_household_id: householdId,
+  });
+
+  if (error) {
+    return { balances: [], error: error.message };
+  }
+
+  const balances = (data || []).map((b: AccountBalance) => ({ ...b, balance: Number(b.balance) }));
+  return { balances, error: null };
+}
+
+// Lancamentos de um intervalo (checagem de duplicados na importacao)
+export async function getTransactionsBetween(
+  householdId: string,
+  startDate: string,
+  endDate: string
+): Promise<{ transactions: Transaction[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from("transactions")
+    .select("*")
+    .eq("household_id", householdId)
+    .gte("date", startDate)
+    .lte("date", endDate);
+
+  if (error) {
+    return { transactions: [], error: error.message };
+  }
+
+  return { transactions: data || [], error: null };
+}
+
 export const useFinanceStore = create<FinanceState & FinanceActions>((set, get) => ({
   bills: [],
   transactions: [],
   categories: [],
+  budgets: [],
+  categoryRules: [],
+  accounts: [],
+  recurringIncomes: [],
+  balances: [],
+  settlements: [],
   monthlySummary: null,
+  selectedMonth: getTodayKey().slice(0, 7),
   isLoading: false,
   error: null,
 
@@ -64,17 +393,17 @@ export const useFinanceStore = create<FinanceState & FinanceActions>((set, get)
         category:finance_categories(*)
       `)
       .eq("household_id", householdId)
-      .order("due_day", { ascending: true });
+      .order("next_due_date", { ascending: true, nullsFirst: false });
 
     if (error) {
       set({ isLoading: false, error: error.message });
       return;
     }
 
-    // Atualiza status baseado no dia atual
-    const today = new Date().getDate();
+    // Atualiza status pelo vencimento da ocorrencia em aberto (a virada roda 1x por dia)
+    const todayKey = getTodayKey();
     const updatedBills = (data || []).map((bill) => {
-      if (bill.current_month_status === "pending" && bill.due_day && bill.due_day < today) {
+      if (bill.current_month_status === "pending" && bill.next_due_date && bill.next_due_date < todayKey) {
         return { ...bill, current_month_status: "overdue" };
       }
       return bill;
@@ -90,19 +419,20 @@ export const useFinanceStore = create<FinanceState & FinanceActions>((set, get)
   fetchTransactions: async (householdId: string, month?: string) => {
     set({ isLoading: true, error: null });
 
-    const currentMonth = month || new Date().toISOString().slice(0, 7);
+    const currentMonth = month || get().selectedMonth;
     const startDate = `${currentMonth}-01`;
-    const endDate = `${currentMonth}-31`;
+    const endDate = addMonths(startDate, 1); // exclusivo: meses tem 28 a 31 dias
 
     const { data, error } = await supabase
       .from("transactions")
       .select(`
         *,
-        category:finance_categories(*)
+        category:finance_categories(*),
+        splits:transaction_splits(*)
       `)
       .eq("household_id", householdId)
       .gte("date", startDate)
-      .lte("date", endDate)
+      .lt("date", endDate)
       .order("date", { ascending: false });
 
     if (error) {
@@ -114,16 +444,16 @@ export const useFinanceStore = create<FinanceState & FinanceActions>((set, get)
   },
 
   calculateMonthlySummary: async (householdId: string, month?: string) => {
-    const currentMonth = month || new Date().toISOString().slice(0, 7);
+    const currentMonth = month || get().selectedMonth;
     const startDate = `${currentMonth}-01`;
-    const endDate = `${currentMonth}-31`;
+    const endDate = addMonths(startDate, 1); // exclusivo: meses tem 28 a 31 dias
 
     const { data, error } = await supabase
       .from("transactions")
       .select("amount, type")
       .eq("household_id", householdId)
       .gte("date", startDate)
-      .lte("date", endDate);
+      .lt("date", endDate);
 
     if (error) {
       console.error("Error calculating summary:", error);
@@ -153,6 +483,15 @@ export const useFinanceStore = create<FinanceState & FinanceActions>((set, get)
     });
   },
 
+  setSelectedMonth: async (householdId: string, month: string) => {
+    set({ selectedMonth: month });
+    await Promise.all([
+      get().fetchTransactions(householdId, month),
+      get().calculateMonthlySummary(householdId, month),
+      get().fetchBudgets(householdId, month),
+    ]);
+  },
+
   createBill: async (bill: Partial<Bill>) => {
     set({ isLoading: true, error: null });
 
@@ -171,7 +510,7 @@ export const useFinanceStore = create<FinanceState & FinanceActions>((set, get)
     }
 
     set((state) => ({
-      bills: [...state.bills, data].sort((a, b) => (a.due_day || 0) - (b.due_day || 0)),
+      bills: [...state.bills, data].sort(compareBillsByDueDate),
       isLoading: false,
     }));
 
@@ -238,20 +577,107 @@ export const useFinanceStore = create<FinanceState & FinanceActions>((set, get)
     return { error: null };
   },
 
-  markBillAsPaid: async (id: string, amount?: number) => {
+  // Pagar (ou corrigir o valor pago) cria/atualiza o lancamento no banco
+  // accountId: conta usada no pagamento (padrao: a da conta)
+  markBillAsPaid: async (id: string, amount?: number, accountId?: string) => {
     const bill = get().bills.find((b) => b.id === id);
     if (!bill) return { error: "Bill not found" };
 
-    const updates: Partial<Bill> = {
-      current_month_status: "paid",
-      current_month_paid_at: new Date().toISOString(),
-      current_month_paid_amount: amount || bill.amount,
-    };
+    set({ isLoading: true, error: null });
+
+    const { data: transactionId, error } = await supabase.rpc("pay_bill", {
+      p_bill_id: id,
+      p_amount: amount ?? null,
+      p_account_id: accountId ?? null,
+    });
+
+    if (error) {
+      set({ isLoading: false, error: error.message });
+      return { error: error.message };
+    }
+
+    await get().refreshBill(id);
+
+    // Fatura do cartao nao gera lancamento (transactionId null)
+    const { data: transaction } = transactionId
+      ? await supabase
+          .from("transactions")
+          .select(`
+            *,
+            category:finance_categories(*)
+          `)
+          .eq("id", transactionId)
+          .maybeSingle()
+      : { data: null };
+
+    if (transaction) {
+      set((state) => ({
+        transactions: state.transactions.some((t) => t.id === transaction.id)
+          ? state.transactions.map((t) => (t.id === transaction.id ? transaction : t))
+          : [transaction, ...state.transactions],
+      }));
+    }
+
+    set({ isLoading: false });
+    get().calculateMonthlySummary(bill.household_id, get().monthlySummary?.month);
+    get().checkBudgetAlerts();
 
-    return get().updateBill(id, updates);
+    return { error: null };
   },
 
-  createTransaction: async (transaction: Partial<Transaction>) => {
+  // Desfazer o pagamento remove o lancamento vinculado
+  unmarkBillAsPaid: async (id: string) => {
+    const bill = get().bills.find((b) => b.id === id);
+    if (!bill) return { error: "Bill not found" };
+
+    set({ isLoading: true, error: null });
+
+    const { data: transactionId, error } = await supabase.rpc("unpay_bill", { p_bill_id: id });
+
+    if (error) {
+      set({ isLoading: false, error: error.message });
+      return { error: error.message };
+    }
+
+    await get().refreshBill(id);
+
+    set((state) => ({
+      transactions: state.transactions.filter((t) => t.id !== transactionId),
+      isLoading: false,
+    }));
+    get().calculateMonthlySummary(bill.household_id, get().monthlySummary?.month);
+
+    return { error: null };
+  },
+
+  // Recarrega a conta apos uma alteracao feita no banco
+  refreshBill: async (id: string) => {
+    const { data, error } = await supabase
+      .from("bills")
+      .select(`
+        *,
+        category:finance_categories(*)
+      `)
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      console.error("Error refreshing bill:", error);
+      return;
+    }
+
+    set((state) => ({
+      bills: state.bills.map((b) => (b.id === id ? data : b)),
+    }));
+
+    if (data.current_month_status === "paid") {
+      cancelNotificationsByTag(`bill_${id}`);
+    } else {
+      scheduleBillReminder(data);
+    }
+  },
+
+  createTransaction: async (transaction: Partial<Transaction>, split?: TransactionSplitInput) => {
     set({ isLoading: true, error: null });
 
     const { data, error } = await supabase
@@ -259,7 +685,8 @@ export const useFinanceStore = create<FinanceState & FinanceActions>((set, get)
       .insert(transaction)
       .select(`
         *,
-        category:finance_categories(*)
+        category:finance_categories(*),
+        splits:transaction_splits(*)
       `)
       .single();
 
@@ -268,29 +695,46 @@ export const useFinanceStore = create<FinanceState & FinanceActions>((set, get)
       return { error: error.message };
     }
 
+    let created: Transaction = data;
+    if (split?.type) {
+      const { transaction: withSplit, error: splitError } = await saveTransactionSplit(data.id, split);
+      if (splitError) {
+        set((state) => ({ transactions: [data, ...state.transactions], isLoading: false, error: splitError }));
+        return { error: splitError };
+      }
+      if (withSplit) created = withSplit;
+    }
+
+    // Lancamento de outro mes nao entra na lista do mes exibido
     set((state) => ({
-      transactions: [data, ...state.transactions],
+      transactions: created.date.startsWith(state.selectedMonth) ? [created, ...state.transactions] : state.transactions,
       isLoading: false,
     }));
 
     // Recalcular resumo
     if (transaction.household_id) {
       get().calculateMonthlySummary(transaction.household_id);
+      get().checkBudgetAlerts();
     }
+    get().refreshInvoiceBill(created.account_id);
 
     return { error: null };
   },
 
-  updateTransaction: async (id: string, updates: Partial<Transaction>) => {
+  updateTransaction: async (id: string, updates: Partial<Transaction>, split?: TransactionSplitInput) => {
+    const previous = get().transactions.find((t) => t.id === id);
+
     set({ isLoading: true, error: null });
 
-    const { data, error } = await supabase
+    const { splits, category, ...payload } = updates;
+    const { data: updated, error } = await supabase
       .from("transactions")
-      .update(updates)
+      .update(payload)
       .eq("id", id)
       .select(`
         *,
-        category:finance_categories(*)
+        category:finance_categories(*),
+        splits:transaction_splits(*)
       `)
       .single();
 
@@ -299,6 +743,20 @@ export const useFinanceStore = create<FinanceState & FinanceActions>((set, get)
       return { error: error.message };
     }
 
+    let data: Transaction = updated;
+    if (split) {
+      const { transaction: withSplit, error: splitError } = await saveTransactionSplit(id, split);
+      if (splitError) {
+        set((state) => ({
+          transactions: state.transactions.map((t) => (t.id === id ? updated : t)),
+          isLoading: false,
+          error: splitError,
+        }));
+        return { error: splitError };
+      }
+      if (withSplit) data = withSplit;
+    }
+
     set((state) => ({
       transactions: state.transactions.map((t) => (t.id === id ? data : t)),
       isLoading: false,
@@ -307,7 +765,10 @@ export const useFinanceStore = create<FinanceState & FinanceActions>((set, get)
     // Recalcular resumo
     if (data.household_id) {
       get().calculateMonthlySummary(data.household_id);
+      get().checkBudgetAlerts();
     }
+    get().refreshInvoiceBill(data.account_id);
+    if (previous?.account_id !== data.account_id) get().refreshInvoiceBill(previous?.account_id);
 
     return { error: null };
   },
@@ -333,6 +794,447 @@ export const useFinanceStore = create<FinanceState & FinanceActions>((set, get)
     if (transaction?.household_id) {
       get().calculateMonthlySummary(transaction.household_id);
     }
+    get().refreshInvoiceBill(transaction?.account_id);
+
+    return { error: null };
+  },
+
+  importTransactions: async (householdId: string, transactions: Partial<Transaction>[]) => {
+    if (transactions.length === 0) return { error: null, count: 0 };
+
+    set({ isLoading: true, error: null });
+
+    // Um unico insert: ou entra o extrato todo ou nada
+    const { data, error } = await supabase
+      .from("transactions")
+      .insert(transactions.map((t) => ({ ...t, household_id: householdId })))
+      .select("id");
+
+    if (error) {
+      set({ isLoading: false, error: error.message });
+      return { error: error.message, count: 0 };
+    }
+
+    set({ isLoading: false });
+
+    // Extratos cobrem varios meses: recarrega em vez de mesclar
+    await get().fetchTransactions(householdId);
+    get().calculateMonthlySummary(householdId);
+    get().checkBudgetAlerts();
+
+    return { error: null, count: data?.length || 0 };
+  },
+
+  fetchBudgets: async (householdId: string, month?: string) => {
+    const currentMonth = month || get().selectedMonth;
+
+    const { data, error } = await supabase
+      .from("finance_budgets")
+      .select(`
+        *,
+        category:finance_categories(*)
+      `)
+      .eq("household_id", householdId);
+
+    if (error) {
+      console.error("Error fetching budgets:", error);
+      return;
+    }
+
+    const budgets: FinanceBudget[] = data || [];
+
+    // Sobra do mes anterior para os orcamentos com rollover
+    const rolloverCategoryIds = budgets.filter((b) => b.rollover).map((b) => b.category_id);
+    let previousSpent: Record<string, number> = {};
+    if (rolloverCategoryIds.length > 0) {
+      const monthStart = getMonthStart(`${currentMonth}-01`);
+      const previous = await fetchExpensesByCategoryId(householdId, rolloverCategoryIds, addMonths(monthStart, -1), monthStart);
+
+      if (previous.error) {
+        console.error("Error fetching previous month expenses:", previous.error);
+      }
+      previousSpent = previous.spent;
+    }
+
+    set({ budgets: withCarryOver(budgets, previousSpent) });
+  },
+
+  // Cria ou altera o orcamento da categoria (um por categoria na casa)
+  saveBudget: async (budget: Partial<FinanceBudget>) => {
+    set({ isLoading: true, error: null });
+
+    const { category, carry_over, ...payload } = budget;
+    const { error } = await supabase
+      .from("finance_budgets")
+      .upsert(payload, { onConflict: "household_id,category_id" });
+
+    if (error) {
+      set({ isLoading: false, error: error.message });
+      return { error: error.message };
+    }
+
+    set({ isLoading: false });
+    if (budget.household_id) {
+      await get().fetchBudgets(budget.household_id);
+    }
+
+    return { error: null };
+  },
+
+  deleteBudget: async (id: string) => {
+    set({ isLoading: true, error: null });
+
+    const { error } = await supabase.from("finance_budgets").delete().eq("id", id);
+
+    if (error) {
+      set({ isLoading: false, error: error.message });
+      return { error: error.message };
+    }
+
+    set((state) => ({
+      budgets: state.budgets.filter((b) => b.id !== id),
+      isLoading: false,
+    }));
+
+    return { error: null };
+  },
+
+  // Alertas de 80%/100% sempre sobre o gasto do mes atual, qualquer que
+  // seja o mes aberto na tela (budgets e transactions seguem selectedMonth)
+  // Depois de gravar lancamentos; chamadas sobrepostas viram uma nova
+  // verificacao ao fim da atual (o alerta ja enviado fica gravado antes)
+  checkBudgetAlerts: () => {
+    if (budgetAlertCheck) {
+      budgetAlertRecheck = true;
+      return budgetAlertCheck;
+    }
+
+    budgetAlertCheck = (async () => {
+      do {
+        budgetAlertRecheck = false;
+        await runBudgetAlertCheck(get().budgets);
+      } while (budgetAlertRecheck);
+    })().finally(() => {
+      budgetAlertCheck = null;
+    });
+
+    return budgetAlertCheck;
+  },
+
+  fetchCategoryRules: async (householdId: string) => {
+    const { data, error } = await supabase
+      .from("category_rules")
+      .select(`
+        *,
+        category:finance_categories(*)
+      `)
+      .eq("household_id", householdId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching category rules:", error);
+      return;
+    }
+
+    set({ categoryRules: data || [] });
+  },
+
+  saveCategoryRule: async (rule: Partial<CategoryRule>) => {
+    set({ isLoading: true, error: null });
+
+    const { id, category, ...payload } = rule;
+    const { error } = id
+      ? await supabase.from("category_rules").update(payload).eq("id", id)
+      : await supabase.from("category_rules").insert(payload);
+
+    if (error) {
+      set({ isLoading: false, error: error.message });
+      return { error: error.message };
+    }
+
+    set({ isLoading: false });
+    if (rule.household_id) {
+      await get().fetchCategoryRules(rule.household_id);
+    }
+
+    return { error: null };
+  },
+
+  deleteCategoryRule: async (id: string) => {
+    set({ isLoading: true, error: null });
+
+    const { error } = await supabase.from("category_rules").delete().eq("id", id);
+
+    if (error) {
+      set({ isLoading: false, error: error.message });
+      return { error: error.message };
+    }
+
+    set((state) => ({
+      categoryRules: state.categoryRules.filter((r) => r.id !== id),
+      isLoading: false,
+    }));
+
+    return { error: null };
+  },
+
+  // Recategorizacao manual vira regra para as proximas cobrancas
+  learnCategoryRule: async (transaction: Transaction, categoryId: string) => {
+    const pattern = getRulePatternFromDescription(transaction.description);
+    const existing = get().categoryRules.find(
+      (r) => r.match_type === "contains" && r.pattern.trim().toLowerCase() === pattern.toLowerCase()
+    );
+
+    return get().saveCategoryRule({
+      ...(existing ? { id: existing.id } : { created_by: transaction.created_by }),
+      household_id: transaction.household_id,
+      category_id: categoryId,
+      pattern,
+      match_type: "contains",
+      type: transaction.type,
+    });
+  },
+
+  reapplyCategoryRules: async (householdId: string, overwrite = false) => {
+    set({ isLoading: true, error: null });
+
+    const { data, error } = await supabase.rpc("reapply_category_rules", {
+      p_household_id: householdId,
+      p_overwrite: overwrite,
+    });
+
+    if (error) {
+      set({ isLoading: false, error: error.message });
+      return { error: error.message, count: 0 };
+    }
+
+    set({ isLoading: false });
+    await get().fetchTransactions(householdId);
+
+    return { error: null, count: data || 0 };
+  },
+
+  fetchAccounts: async (householdId: string) => {
+    const { data, error } = await supabase
+      .from("payment_accounts")
+      .select("*")
+      .eq("household_id", householdId)
+      .order("name");
+
+    if (error) {
+      console.error("Error fetching payment accounts:", error);
+      return;
+    }
+
+    set({ accounts: data || [] });
+  },
+
+  // Cartao novo (ou alterado) tambem cria/atualiza a conta da fatura
+  saveAccount: async (account: Partial<PaymentAccount>) => {
+    set({ isLoading: true, error: null });
+
+    const { id, ...payload } = account;
+    const { error } = id
+      ? await supabase.from("payment_accounts").update(payload).eq("id", id)
+      : await supabase.from("payment_accounts").insert(payload);
+
+    if (error) {
+      set({ isLoading: false, error: error.message });
+      return { error: error.message };
+    }
+
+    set({ isLoading: false });
+    if (account.household_id) {
+      await Promise.all([get().fetchAccounts(account.household_id), get().fetchBills(account.household_id)]);
+    }
+
+    return { error: null };
+  },
+
+  deleteAccount: async (id: string) => {
+    const account = get().accounts.find((a) => a.id === id);
+
+    set({ isLoading: true, error: null });
+
+    const { error } = await supabase.from("payment_accounts").delete().eq("id", id);
+
+    if (error) {
+      set({ isLoading: false, error: error.message });
+      return { error: error.message };
+    }
+
+    const invoice = get().bills.find((b) => b.invoice_account_id === id);
+    if (invoice) cancelNotificationsByTag(`bill_${invoice.id}`);
+
+    set((state) => ({
+      accounts: state.accounts.filter((a) => a.id !== id),
+      bills: state.bills.filter((b) => b.invoice_account_id !== id),
+      transactions: state.transactions.map((t) => (t.account_id === id ? { ...t, account_id: null, statement_month: null } : t)),
+      recurringIncomes: state.recurringIncomes.map((i) => (i.account_id === id ? { ...i, account_id: null } : i)),
+      isLoading: false,
+    }));
+
+    if (account) get().fetchBills(account.household_id);
+
+    return { error: null };
+  },
+
+  // Lancamento no cartao muda o valor da fatura (recalculado no banco)
+  refreshInvoiceBill: async (accountId: string | null | undefined) => {
+    if (!accountId) return;
+    const invoice = get().bills.find((b) => b.invoice_account_id === accountId);
+    if (invoice) await get().refreshBill(invoice.id);
+  },
+
+  createInstallmentPurchase: async (purchase: InstallmentPurchaseInput) => {
+    set({ isLoading: true, error: null });
+
+    const { error } = await supabase.rpc("create_installment_purchase", {
+      p_household_id: purchase.household_id,
+      p_description: purchase.description,
+      p_total_amount: purchase.total_amount,
+      p_installments: purchase.installments,
+      p_date: purchase.date,
+      p_account_id: purchase.account_id || null,
+      p_category_id: purchase.category_id || null,
+      p_paid_by: purchase.paid_by || null,
+      p_split_type: purchase.split?.type || null,
+      p_shares: purchase.split?.type ? purchase.split.shares : null,
+    });
+
+    if (error) {
+      set({ isLoading: false, error: error.message });
+      return { error: error.message };
+    }
+
+    set({ isLoading: false });
+
+    // Parcelas caem em varios meses: recarrega o mes exibido
+    await get().fetchTransactions(purchase.household_id);
+    get().calculateMonthlySummary(purchase.household_id);
+    get().checkBudgetAlerts();
+    get().refreshInvoiceBill(purchase.account_id);
+
+    return { error: null };
+  },
+
+  deleteInstallmentGroup: async (groupId: string) => {
+    const transaction = get().transactions.find((t) => t.installment_group === groupId);
+
+    set({ isLoading: true, error: null });
+
+    const { error } = await supabase.from("transactions").delete().eq("installment_group", groupId);
+
+    if (error) {
+      set({ isLoading: false, error: error.message });
+      return { error: error.message };
+    }
+
+    set((state) => ({
+      transactions: state.transactions.filter((t) => t.installment_group !== groupId),
+      isLoading: false,
+    }));
+
+    if (transaction) {
+      get().calculateMonthlySummary(transaction.household_id);
+      get().refreshInvoiceBill(transaction.account_id);
+    }
+
+    return { error: null };
+  },
+
+  fetchRecurringIncomes: async (householdId: string) => {
+    const { data, error } = await supabase
+      .from("recurring_incomes")
+      .select("*")
+      .eq("household_id", householdId)
+      .order("day_of_month");
+
+    if (error) {
+      console.error("Error fetching recurring incomes:", error);
+      return;
+    }
+
+    set({ recurringIncomes: data || [] });
+  },
+
+  saveRecurringIncome: async (income: Partial<RecurringIncome>) => {
+    set({ isLoading: true, error: null });
+
+    const { id, ...payload } = income;
+    const { error } = id
+      ? await supabase.from("recurring_incomes").update(payload).eq("id", id)
+      : await supabase.from("recurring_incomes").insert(payload);
+
+    if (error) {
+      set({ isLoading: false, error: error.message });
+      return { error: error.message };
+    }
+
+    set({ isLoading: false });
+    if (income.household_id) {
+      await get().fetchRecurringIncomes(income.household_id);
+    }
+
+    return { error: null };
+  },
+
+  deleteRecurringIncome: async (id: string) => {
+    set({ isLoading: true, error: null });
+
+    const { error } = await supabase.from("recurring_incomes").delete().eq("id", id);
+
+    if (error) {
+      set({ isLoading: false, error: error.message });
+      return { error: error.message };
+    }
+
+    set((state) => ({
+      recurringIncomes: state.recurringIncomes.filter((i) => i.id !== id),
+      isLoading: false,
+    }));
+
+    return { error: null };
+  },
+
+  // Saldos entre moradores e acertos ja registrados
+  fetchBalances: async (householdId: string) => {
+    const [balancesResult, settlementsResult] = await Promise.all([
+      supabase.rpc("get_household_balances", { p_household_id: householdId }),
+      supabase
+        .from("settlements")
+        .select("*")
+        .eq("household_id", householdId)
+        .order("date", { ascending: false })
+        .order("created_at", { ascending: false })
+        .limit(20),
+    ]);
+
+    if (balancesResult.error || settlementsResult.error) {
+      console.error("Error fetching balances:", balancesResult.error || settlementsResult.error);
+      return;
+    }
+
+    set({
+      balances: (balancesResult.data || []).map((b: MemberBalance) => ({ ...b, balance: Number(b.balance) })),
+      settlements: settlementsResult.data || [],
+    });
+  },
+
+  createSettlement: async (settlement: Partial<Settlement>) => {
+    set({ isLoading: true, error: null });
+
+    const { error } = await supabase.from("settlements").insert(settlement);
+
+    if (error) {
+      set({ isLoading: false, error: error.message });
+      return { error: error.message };
+    }
+
+    set({ isLoading: false });
+    if (settlement.household_id) {
+      await get().fetchBalances(settlement.household_id);
+    }
 
     return { error: null };
   },
@@ -345,6 +1247,23 @@ export const getPendingBills = (bills: Bill[]) => {
   return bills.filter((b) => b.current_month_status === "pending");
 };
 
+// Contas pendentes que vencem nos proximos X dias
+export const getBillsDueWithin = (bills: Bill[], days: number, today: Date = new Date()) => {
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return getPendingBills(bills).filter((b) => {
+    if (!b.next_due_date) return false;
+    const dueDate = new Date(`${b.next_due_date}T00:00:00`);
+    return Math.round((dueDate.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) <= days;
+  });
+};
+
+// Contas com vencimento no mes (YYYY-MM): anuais e parceladas so no mes da ocorrencia
+export const getBillsDueInMonth = (bills: Bill[], month: string) => {
+  return bills.filter((b) =>
+    b.next_due_date ? b.next_due_date.startsWith(month) : (b.frequency || "monthly") === "monthly"
+  );
+};
+
 export const getPaidBills = (bills: Bill[]) => {
   return bills.filter((b) => b.current_month_status === "paid");
 };
@@ -357,6 +1276,50 @@ export const getTotalBillsAmount = (bills: Bill[]) => {
   return bills.reduce((sum, b) => sum + Number(b.amount), 0);
 };
 
+export interface BillsMonthSummary {
+  total: number;
+  paid: number;
+  pending: number;
+  overdue: number;
+  amount: number;
+}
+
+// Contas de um mes: o mes atual usa o status gravado nas contas, meses
+// passados o historico (bill_payments) e meses futuros o agendamento
+export const getBillsMonthSummary = (
+  bills: Bill[],
+  payments: BillPayment[],
+  month: string,
+  currentMonth: string = getTodayKey().slice(0, 7)
+): BillsMonthSummary => {
+  if (month < currentMonth) {
+    return {
+      total: payments.length,
+      paid: payments.filter((p) => p.status === "paid").length,
+      pending: payments.filter((p) => p.status === "pending").length,
+      overdue: payments.filter((p) => p.status === "overdue").length,
+      amount: payments.reduce((sum, p) => sum + Number(p.amount), 0),
+    };
+  }
+
+  if (month > currentMonth) {
+    const scheduled = bills.filter((b) =>
+      b.is_recurring ? !!getBillDueDateInMonth(b, month) : !!b.next_due_date?.startsWith(month)
+    );
+    return { total: scheduled.length, paid: 0, pending: scheduled.length, overdue: 0, amount: getTotalBillsAmount(scheduled) };
+  }
+
+  // Anuais e parceladas so entram no mes do vencimento
+  const monthBills = getBillsDueInMonth(bills, month);
+  return {
+    total: monthBills.length,
+    paid: getPaidBills(monthBills).length,
+    pending: getPendingBills(monthBills).length,
+    overdue: getOverdueBills(monthBills).length,
+    amount: getTotalBillsAmount(monthBills),
+  };
+};
+
 export const getPendingBillsAmount = (bills: Bill[]) => {
   return getPendingBills(bills).reduce((sum, b) => sum + Number(b.amount), 0);
 };
@@ -367,17 +1330,65 @@ export const getExpensesByCategory = (transactions: Transaction[]) => {
     const categoryName = t.category?.name || "Outros";
     const categoryColor = t.category?.color || "#6B7280";
     if (!acc[categoryName]) {
-      acc[categoryName] = { total: 0, color: categoryColor };
+      acc[categoryName] = { total: 0, color: categoryColor, categoryId: t.category_id || null };
     }
     acc[categoryName].total += Number(t.amount);
     return acc;
-  }, {} as Record<string, { total: number; color: string }>);
+  }, {} as Record<string, { total: number; color: string; categoryId: string | null }>);
 
   return Object.entries(grouped)
     .map(([name, data]) => ({ name, ...data }))
     .sort((a, b) => b.total - a.total);
 };
 
+// Gasto do mes contra o limite (mais perto de estourar primeiro)
+export const getBudgetProgress = (
+  budgets: FinanceBudget[],
+  transactions: Transaction[]
+): BudgetProgress[] => {
+  const spentByCategory = getExpensesByCategory(transactions).reduce((acc, e) => {
+    if (e.categoryId) acc[e.categoryId] = (acc[e.categoryId] || 0) + e.total;
+    return acc;
+  }, {} as Record<string, number>);
+
+  return getBudgetProgressBySpent(budgets, spentByCategory);
+};
+
+// Mesmo calculo a partir do gasto ja somado por categoria
+export const getBudgetProgressBySpent = (
+  budgets: FinanceBudget[],
+  spentByCategory: Record<string, number>
+): BudgetProgress[] => {
+  return budgets
+    .map((budget) => {
+      const spent = spentByCategory[budget.category_id] || 0;
+      const limit = Number(budget.monthly_limit) + (budget.rollover ? budget.carry_over || 0 : 0);
+      return { budget, limit, spent, ratio: limit > 0 ? spent / limit : 0 };
+    })
+    .sort((a, b) => b.ratio - a.ratio);
+};
+
+// Variacao percentual de um mes para o outro (null sem base de comparacao)
+export const getPercentChange = (current: number, previous: number): number | null => {
+  if (previous === 0) return null;
+  return ((current - previous) / previous) * 100;
+};
+
+// Total de despesas de cada categoria no periodo, com a serie mes a mes
+export const getCategoryTotals = (trends: CategoryTrend[], months: string[]) => {
+  const grouped = trends.reduce((acc, t) => {
+    const key = t.category_id || "none";
+    if (!acc[key]) acc[key] = { categoryId: t.category_id, total: 0, byMonth: {} as Record<string, number> };
+    acc[key].total += t.total;
+    acc[key].byMonth[t.month] = (acc[key].byMonth[t.month] || 0) + t.total;
+    return acc;
+  }, {} as Record<string, { categoryId: string | null; total: number; byMonth: Record<string, number> }>);
+
+  return Object.values(grouped)
+    .map((c) => ({ categoryId: c.categoryId, total: c.total, series: months.map((m) => c.byMonth[m] || 0) }))
+    .sort((a, b) => b.total - a.total);
+};
+
 export const formatCurrency = (value: number) => {
   return value.toLocaleString("pt-BR", {
     style: "currency",
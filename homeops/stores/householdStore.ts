@@ -13,6 +13,7 @@ interface HouseholdActions {
   fetchMembers: (householdId: string) => Promise<void>;
   removeMember: (memberId: string, householdId: string) => Promise<{ error: string | null }>;
   leaveHousehold: (userId: string, householdId: string) => Promise<{ error: string | null }>;
+  setMemberAway: (memberId: string, isAway: boolean) => Promise<{ error: string | null }>;
   getMemberLimit: (planType: PlanType) => number;
   canAddMember: (householdId: string, planType: PlanType) => boolean;
   clearError: () => void;
@@ -115,6 +116,7 @@ export const useHouseholdStore = create<HouseholdState & HouseholdActions>((set,
         user_id: m.user_id,
         role: m.role,
         joined_at: m.joined_at,
+        is_away: m.is_away ?? false,
         user: m.user,
       }));
 
@@ -211,6 +213,24 @@ export const useHouseholdStore = create<HouseholdState & HouseholdActions>((set,
     }
   },
 
+  setMemberAway: async (memberId: string, isAway: boolean) => {
+    const { error } = await supabase
+      .from("household_members")
+      .update({ is_away: isAway })
+      .eq("id", memberId);
+
+    if (error) {
+      set({ error: "Erro ao atualizar membro" });
+      return { error: "Erro ao atualizar membro" };
+    }
+
+    set((state) => ({
+      members: state.members.map((m) => (m.id === memberId ? { ...m, is_away: isAway } : m)),
+    }));
+
+    return { error: null };
+  },
+
   getMemberLimit: (planType: PlanType) => {
     return PLAN_LIMITS[planType];
   },
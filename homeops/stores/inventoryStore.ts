@@ -6,6 +6,12 @@ import type {
   InventoryLocation,
   InventoryUnit,
 } from "@/types";
+import {
+  scheduleExpirationReminder,
+  scheduleAllInventoryReminders,
+  sendLowStockAlert,
+  cancelNotificationsByTag,
+} from "@/services/notificationService";
 
 interface InventoryState {
   items: InventoryItem[];
@@ -63,6 +69,9 @@ export const useInventoryStore = create<InventoryState & InventoryActions>((set,
     }
 
     set({ items: data || [], isLoading: false });
+
+    // Schedule expiration and repurchase reminders
+    scheduleAllInventoryReminders(data || [], getRepurchaseItems(data || []));
   },
 
   createItem: async (item: Partial<InventoryItem>) => {
@@ -87,6 +96,8 @@ export const useInventoryStore = create<InventoryState & InventoryActions>((set,
       isLoading: false,
     }));
 
+    scheduleExpirationReminder(data);
+
     return { error: null, data };
   },
 
@@ -113,6 +124,9 @@ export const useInventoryStore = create<InventoryState & InventoryActions>((set,
       isLoading: false,
     }));
 
+    // Update notification for updated item
+    scheduleExpirationReminder(data);
+
     return { error: null };
   },
 
@@ -134,6 +148,9 @@ export const useInventoryStore = create<InventoryState & InventoryActions>((set,
       isLoading: false,
     }));
 
+    // Cancel notifications for deleted item
+    cancelNotificationsByTag(`expiration_${id}`);
+
     return { error: null };
   },
 
@@ -143,7 +160,15 @@ export const useInventoryStore = create<InventoryState & InventoryActions>((set,
 
     const newQuantity = Math.max(0, item.quantity - quantity);
 
-    return get().updateItem(id, { quantity: newQuantity });
+    const result = await get().updateItem(id, { quantity: newQuantity });
+
+    // Avisa so quando o consumo cruza o minimo (ou zera o item)
+    const minQuantity = item.min_quantity ?? 0;
+    if (!result.error && item.quantity > minQuantity && newQuantity <= minQuantity) {
+      sendLowStockAlert({ ...item, quantity: newQuantity });
+    }
+
+    return result;
   },
 
   restockItem: async (id: string, quantity: number) => {
@@ -182,8 +207,7 @@ export const getLowStockItems = (items: InventoryItem[]) => {
 };
 
 // Helpers - Get expiring items within X days
-export const getExpiringItems = (items: InventoryItem[], days: number = 7) => {
-  const today = new Date();
+export const getExpiringItems = (items: InventoryItem[], days: number = 7, today: Date = new Date()) => {
   const futureDate = new Date(today);
   futureDate.setDate(today.getDate() + days);
 
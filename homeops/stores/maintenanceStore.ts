@@ -3,6 +3,7 @@ import { supabase } from "@/lib/supabase";
 import type { MaintenanceItem, MaintenanceCategory, MaintenanceHistory } from "@/types";
 import {
   scheduleMaintenanceReminder,
+  scheduleWarrantyReminders,
   cancelNotificationsByTag,
   scheduleAllMaintenanceReminders,
 } from "@/services/notificationService";
@@ -119,6 +120,7 @@ export const useMaintenanceStore = create<MaintenanceState & MaintenanceActions>
 
     // Schedule notification for new maintenance item
     scheduleMaintenanceReminder(data);
+    scheduleWarrantyReminders(data);
 
     return { error: null };
   },
@@ -158,6 +160,7 @@ export const useMaintenanceStore = create<MaintenanceState & MaintenanceActions>
 
     // Update notification for maintenance item
     scheduleMaintenanceReminder(data);
+    scheduleWarrantyReminders(data);
 
     return { error: null };
   },
@@ -182,6 +185,7 @@ export const useMaintenanceStore = create<MaintenanceState & MaintenanceActions>
 
     // Cancel notification for deleted item
     cancelNotificationsByTag(`maintenance_${id}`);
+    cancelNotificationsByTag(`warranty_${id}`);
 
     return { error: null };
   },
@@ -199,6 +203,11 @@ export const useMaintenanceStore = create<MaintenanceState & MaintenanceActions>
       return { error: historyError.message };
     }
 
+    // Lembretes adiados eram da manutencao que acabou de ser feita
+    if (data.item_id) {
+      await cancelNotificationsByTag(`maintenance_${data.item_id}`);
+    }
+
     // Atualizar item com nova data de última manutenção
     const item = get().items.find((i) => i.id === data.item_id);
     if (item && item.maintenance_interval_months && data.maintenance_date) {
@@ -237,8 +246,10 @@ export const getUpcomingMaintenance = (items: MaintenanceItem[], days: number =
   );
 };
 
-export const getOverdueMaintenance = (items: MaintenanceItem[]) => {
-  const today = new Date().toISOString().split("T")[0];
+export const getOverdueMaintenance = (
+  items: MaintenanceItem[],
+  today: string = new Date().toISOString().split("T")[0]
+) => {
   return items.filter(
     (item) => item.next_maintenance_date && item.next_maintenance_date < today
   );
@@ -258,6 +269,37 @@ export const getDaysUntilMaintenance = (nextDate?: string | null): number | null
   return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
 };
 
+// Itens ainda na garantia, os que vencem primeiro no topo
+export const getItemsUnderWarranty = (
+  items: MaintenanceItem[],
+  today: string = new Date().toISOString().split("T")[0]
+) => {
+  return items
+    .filter((item) => item.warranty_until && item.warranty_until >= today)
+    .sort((a, b) => (a.warranty_until as string).localeCompare(b.warranty_until as string));
+};
+
+export const isUnderWarranty = (
+  item: MaintenanceItem,
+  date: string = new Date().toISOString().split("T")[0]
+): boolean => {
+  return !!item.warranty_until && item.warranty_until >= date;
+};
+
+// "12 dias", "3 meses", "1 ano e 2 meses"
+export const formatWarrantyRemaining = (warrantyUntil: string): string => {
+  const days = getDaysUntilMaintenance(warrantyUntil) ?? 0;
+  if (days <= 0) return "vence hoje";
+  if (days < 60) return `${days} dia${days !== 1 ? "s" : ""}`;
+
+  const months = Math.floor(days / 30);
+  if (months < 12) return `${months} meses`;
+
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  return `${years} ano${years !== 1 ? "s" : ""}${rest > 0 ? ` e ${rest} ${rest !== 1 ? "meses" : "mes"}` : ""}`;
+};
+
 export const getMaintenanceStatus = (nextDate?: string | null): "ok" | "warning" | "overdue" | "none" => {
   const days = getDaysUntilMaintenance(nextDate);
   if (days === null) return "none";
@@ -1,15 +1,21 @@
 import { create } from "zustand";
 import { supabase } from "@/lib/supabase";
-import type { Task, TaskCategory } from "@/types";
+import type { Task, TaskCategory, TaskCompletion, LeaderboardEntry } from "@/types";
 import {
   scheduleTaskReminder,
   cancelNotificationsByTag,
   scheduleAllTaskReminders,
 } from "@/services/notificationService";
+import { getNextTaskDate, getTodayKey, addDays } from "@/lib/recurrence";
+import { hasRotation, getNextAssignee, getAwayUserIds } from "@/lib/rotation";
+import type { ChecklistDraft } from "@/lib/checklist";
+import { useHouseholdStore } from "./householdStore";
 
 interface TaskState {
   tasks: Task[];
   categories: TaskCategory[];
+  completions: TaskCompletion[];
+  leaderboard: LeaderboardEntry[];
   isLoading: boolean;
   error: string | null;
 }
@@ -17,17 +23,38 @@ interface TaskState {
 interface TaskActions {
   fetchTasks: (householdId: string) => Promise<void>;
   fetchCategories: () => Promise<void>;
-  createTask: (task: Partial<Task>) => Promise<{ error: string | null }>;
+  fetchCompletions: (householdId: string) => Promise<void>;
+  fetchLeaderboard: (householdId: string, since: string) => Promise<void>;
+  createTask: (task: Partial<Task>, checklist?: string[]) => Promise<{ error: string | null }>;
   updateTask: (id: string, updates: Partial<Task>) => Promise<{ error: string | null }>;
   deleteTask: (id: string) => Promise<{ error: string | null }>;
-  completeTask: (id: string, userId: string) => Promise<{ error: string | null }>;
+  completeTask: (id: string, userId: string, notes?: string) => Promise<{ error: string | null }>;
   skipTask: (id: string) => Promise<{ error: string | null }>;
+  saveChecklist: (taskId: string, items: ChecklistDraft[]) => Promise<{ error: string | null }>;
+  toggleChecklistItem: (taskId: string, itemId: string, userId: string) => Promise<{ error: string | null }>;
   clearError: () => void;
 }
 
+// Linha de get_task_leaderboard (BIGINT chega como string ou number)
+interface LeaderboardRow {
+  user_id: string;
+  points: number | string;
+  completions: number | string;
+  on_time: number | string;
+  current_streak: number | null;
+  badges: string[] | null;
+}
+
+// Janela do historico carregado (estatisticas e sequencias)
+const COMPLETIONS_HISTORY_DAYS = 365;
+
+const getHouseholdAwayIds = () => getAwayUserIds(useHouseholdStore.getState().members);
+
 export const useTaskStore = create<TaskState & TaskActions>((set, get) => ({
   tasks: [],
   categories: [],
+  completions: [],
+  leaderboard: [],
   isLoading: false,
   error: null,
 
@@ -45,6 +72,51 @@ export const useTaskStore = create<TaskState & TaskActions>((set, get) => ({
     set({ categories: data || [] });
   },
 
+  fetchCompletions: async (householdId: string) => {
+    const since = addDays(getTodayKey(), -COMPLETIONS_HISTORY_DAYS);
+
+    const { data, error } = await supabase
+      .from("task_completions")
+      .select(`
+        *,
+        task:tasks!inner(id, title, household_id)
+      `)
+      .eq("task.household_id", householdId)
+      .gte("completed_at", since)
+      .order("completed_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching completions:", error);
+      return;
+    }
+
+    set({ completions: data || [] });
+  },
+
+  // Ranking calculado no banco a partir de `since` (YYYY-MM-DD, meia-noite local)
+  fetchLeaderboard: async (householdId: string, since: string) => {
+    const { data, error } = await supabase.rpc("get_task_leaderboard", {
+      p_household_id: householdId,
+      p_since: new Date(since + "T00:00:00").toISOString(),
+    });
+
+    if (error) {
+      console.error("Error fetching leaderboard:", error);
+      return;
+    }
+
+    set({
+      leaderboard: ((data || []) as LeaderboardRow[]).map((entry) => ({
+        user_id: entry.user_id,
+        points: Number(entry.points) || 0,
+        completions: Number(entry.completions) || 0,
+        on_time: Number(entry.on_time) || 0,
+        current_streak: entry.current_streak || 0,
+        badges: entry.badges || [],
+      })),
+    });
+  },
+
   fetchTasks: async (householdId: string) => {
     set({ isLoading: true, error: null });
 
@@ -52,7 +124,8 @@ export const useTaskStore = create<TaskState & TaskActions>((set, get) => ({
       .from("tasks")
       .select(`
         *,
-        category:task_categories(*)
+        category:task_categories(*),
+        checklist:task_checklist_items(*)
       `)
       .eq("household_id", householdId)
       .order("due_date", { ascending: true, nullsFirst: false })
@@ -71,7 +144,7 @@ export const useTaskStore = create<TaskState & TaskActions>((set, get) => ({
     scheduleAllTaskReminders(pendingTasks);
   },
 
-  createTask: async (task: Partial<Task>) => {
+  createTask: async (task: Partial<Task>, checklist: string[] = []) => {
     set({ isLoading: true, error: null });
 
     const { data, error } = await supabase
@@ -79,7 +152,8 @@ export const useTaskStore = create<TaskState & TaskActions>((set, get) => ({
       .insert(task)
       .select(`
         *,
-        category:task_categories(*)
+        category:task_categories(*),
+        checklist:task_checklist_items(*)
       `)
       .single();
 
@@ -88,6 +162,20 @@ export const useTaskStore = create<TaskState & TaskActions>((set, get) => ({
       return { error: error.message };
     }
 
+    // Checklist da nova tarefa
+    const titles = checklist.map((t) => t.trim()).filter(Boolean);
+    if (titles.length > 0) {
+      const { data: items, error: checklistError } = await supabase
+        .from("task_checklist_items")
+        .insert(titles.map((title, position) => ({ task_id: data.id, title, position })))
+        .select();
+
+      if (checklistError) {
+        console.error("Error creating checklist:", checklistError);
+      }
+      data.checklist = items || [];
+    }
+
     set((state) => ({
       tasks: [data, ...state.tasks],
       isLoading: false,
@@ -110,7 +198,8 @@ export const useTaskStore = create<TaskState & TaskActions>((set, get) => ({
       .eq("id", id)
       .select(`
         *,
-        category:task_categories(*)
+        category:task_categories(*),
+        checklist:task_checklist_items(*)
       `)
       .single();
 
@@ -156,88 +245,184 @@ export const useTaskStore = create<TaskState & TaskActions>((set, get) => ({
     return { error: null };
   },
 
-  completeTask: async (id: string, userId: string) => {
+  completeTask: async (id: string, userId: string, notes?: string) => {
     const task = get().tasks.find((t) => t.id === id);
     if (!task) return { error: "Task not found" };
 
-    // Se for recorrente, calcula próxima ocorrência
-    let updates: Partial<Task> = {
-      status: "completed",
-      completed_at: new Date().toISOString(),
-      completed_by: userId,
-    };
+    // Se for recorrente, calcula próxima ocorrência e o próximo do rodízio
+    const nextDate = getNextTaskDate(task);
+    const nextAssignee = nextDate && hasRotation(task)
+      ? getNextAssignee(task, nextDate, getHouseholdAwayIds())
+      : null;
+
+    // Histórico, próxima ocorrência e checklist numa transação só
+    const { data: completionId, error } = await supabase.rpc("complete_task", {
+      p_task_id: id,
+      p_completed_by: userId,
+      p_due_date: task.due_date || null,
+      p_next_due_date: nextDate,
+      p_next_assigned_to: nextAssignee,
+      p_notes: notes?.trim() || null,
+    });
 
-    if (task.is_recurring && task.recurrence_type) {
-      const today = new Date();
-      let nextDate = new Date(today);
-
-      switch (task.recurrence_type) {
-        case "daily":
-          nextDate.setDate(today.getDate() + (task.recurrence_interval || 1));
-          break;
-        case "weekly":
-          nextDate.setDate(today.getDate() + 7 * (task.recurrence_interval || 1));
-          break;
-        case "monthly":
-          nextDate.setMonth(today.getMonth() + (task.recurrence_interval || 1));
-          break;
-      }
+    if (error) {
+      console.error("Error completing task:", error);
+      return { error: error.message };
+    }
 
-      updates = {
-        ...updates,
-        status: "pending", // Reseta para pendente
-        next_occurrence: nextDate.toISOString().split("T")[0],
-        due_date: nextDate.toISOString().split("T")[0],
-        completed_at: undefined,
-        completed_by: undefined,
-      };
-
-      // Registra no histórico
-      await supabase.from("task_completions").insert({
-        task_id: id,
-        completed_by: userId,
-        completed_at: new Date().toISOString(),
-      });
+    // Lembretes (inclusive adiados) eram desta ocorrencia
+    await cancelNotificationsByTag(`task_${id}`);
+
+    const [{ data: completion }, { data: updated, error: fetchError }] = await Promise.all([
+      supabase
+        .from("task_completions")
+        .select(`
+          *,
+          task:tasks(id, title, household_id)
+        `)
+        .eq("id", completionId)
+        .single(),
+      supabase
+        .from("tasks")
+        .select(`
+          *,
+          category:task_categories(*),
+          checklist:task_checklist_items(*)
+        `)
+        .eq("id", id)
+        .single(),
+    ]);
+
+    if (completion) {
+      set((state) => ({ completions: [completion, ...state.completions] }));
     }
 
-    return get().updateTask(id, updates);
+    if (fetchError) {
+      return { error: fetchError.message };
+    }
+
+    set((state) => ({
+      tasks: state.tasks.map((t) => (t.id === id ? updated : t)),
+    }));
+
+    if (updated.status === "pending") {
+      scheduleTaskReminder(updated);
+    }
+
+    return { error: null };
   },
 
   skipTask: async (id: string) => {
     const task = get().tasks.find((t) => t.id === id);
     if (!task) return { error: "Task not found" };
 
-    if (task.is_recurring && task.recurrence_type) {
-      const today = new Date();
-      let nextDate = new Date(today);
-
-      switch (task.recurrence_type) {
-        case "daily":
-          nextDate.setDate(today.getDate() + (task.recurrence_interval || 1));
-          break;
-        case "weekly":
-          nextDate.setDate(today.getDate() + 7 * (task.recurrence_interval || 1));
-          break;
-        case "monthly":
-          nextDate.setMonth(today.getMonth() + (task.recurrence_interval || 1));
-          break;
-      }
+    await cancelNotificationsByTag(`task_${id}`);
+
+    const nextDate = getNextTaskDate(task);
+
+    const result = nextDate
+      ? await get().updateTask(id, {
+          next_occurrence: nextDate,
+          due_date: nextDate,
+          ...(hasRotation(task)
+            ? { assigned_to: getNextAssignee(task, nextDate, getHouseholdAwayIds()) }
+            : {}),
+        })
+      : await get().updateTask(id, { status: "skipped" });
+
+    // Nada mudou: a ocorrencia continua pendente e volta a ter lembrete
+    if (result.error) {
+      scheduleTaskReminder(task);
+    }
+
+    return result;
+  },
+
+  saveChecklist: async (taskId: string, items: ChecklistDraft[]) => {
+    const task = get().tasks.find((t) => t.id === taskId);
+    if (!task) return { error: "Task not found" };
+
+    const drafts = items
+      .map((item) => ({ ...item, title: item.title.trim() }))
+      .filter((item) => item.title);
+    const keptIds = drafts.filter((d) => d.id).map((d) => d.id as string);
+    const removedIds = (task.checklist || [])
+      .filter((item) => !keptIds.includes(item.id))
+      .map((item) => item.id);
+
+    if (removedIds.length > 0) {
+      const { error } = await supabase.from("task_checklist_items").delete().in("id", removedIds);
+      if (error) return { error: error.message };
+    }
+
+    // Atualiza titulos/ordem dos existentes e cria os novos
+    for (const [position, draft] of drafts.entries()) {
+      const { error } = draft.id
+        ? await supabase
+            .from("task_checklist_items")
+            .update({ title: draft.title, position })
+            .eq("id", draft.id)
+        : await supabase
+            .from("task_checklist_items")
+            .insert({ task_id: taskId, title: draft.title, position });
+
+      if (error) return { error: error.message };
+    }
+
+    const { data, error } = await supabase
+      .from("task_checklist_items")
+      .select("*")
+      .eq("task_id", taskId)
+      .order("position");
+
+    if (error) return { error: error.message };
+
+    set((state) => ({
+      tasks: state.tasks.map((t) => (t.id === taskId ? { ...t, checklist: data || [] } : t)),
+    }));
+
+    return { error: null };
+  },
+
+  toggleChecklistItem: async (taskId: string, itemId: string, userId: string) => {
+    const task = get().tasks.find((t) => t.id === taskId);
+    const item = task?.checklist?.find((i) => i.id === itemId);
+    if (!task || !item) return { error: "Item not found" };
 
-      return get().updateTask(id, {
-        next_occurrence: nextDate.toISOString().split("T")[0],
-        due_date: nextDate.toISOString().split("T")[0],
-      });
+    const isDone = !item.is_done;
+    const changes = {
+      is_done: isDone,
+      done_by: isDone ? userId : null,
+      done_at: isDone ? new Date().toISOString() : null,
+    };
+
+    // Atualizacao otimista
+    const applyChecklist = (checklist: Task["checklist"]) =>
+      set((state) => ({
+        tasks: state.tasks.map((t) => (t.id === taskId ? { ...t, checklist } : t)),
+      }));
+
+    const previous = task.checklist;
+    applyChecklist(previous?.map((i) => (i.id === itemId ? { ...i, ...changes } : i)));
+
+    const { error } = await supabase
+      .from("task_checklist_items")
+      .update(changes)
+      .eq("id", itemId);
+
+    if (error) {
+      applyChecklist(previous);
+      return { error: error.message };
     }
 
-    return get().updateTask(id, { status: "skipped" });
+    return { error: null };
   },
 
   clearError: () => set({ error: null }),
 }));
 
 // Helpers para filtrar tarefas
-export const getTasksForToday = (tasks: Task[]) => {
-  const today = new Date().toISOString().split("T")[0];
+export const getTasksForToday = (tasks: Task[], today: string = new Date().toISOString().split("T")[0]) => {
   return tasks.filter(
     (t) => t.status === "pending" && t.due_date === today
   );
@@ -0,0 +1,147 @@
+import { create } from "zustand";
+import { supabase } from "@/lib/supabase";
+import type { Task, TaskTemplate, TaskTemplateItem } from "@/types";
+import { buildTasksFromTemplate } from "@/lib/templates";
+import { useTaskStore } from "./taskStore";
+
+interface TemplateState {
+  templates: TaskTemplate[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface TemplateActions {
+  fetchTemplates: (householdId: string) => Promise<void>;
+  saveTemplate: (template: Partial<TaskTemplate>) => Promise<{ error: string | null }>;
+  deleteTemplate: (id: string) => Promise<{ error: string | null }>;
+  applyTemplate: (
+    items: TaskTemplateItem[],
+    householdId: string,
+    userId?: string
+  ) => Promise<{ error: string | null; count: number }>;
+  clearError: () => void;
+}
+
+// Busca modelo de outra casa pelo codigo de compartilhamento
+export async function findTemplateByCode(
+  code: string
+): Promise<{ template: TaskTemplate | null; error: string | null }> {
+  const { data, error } = await supabase.rpc("get_task_template_by_code", {
+    p_code: code.trim().toUpperCase(),
+  });
+
+  const template = (data || [])[0];
+  if (error || !template) {
+    return { template: null, error: "Codigo de modelo invalido" };
+  }
+
+  return { template: { ...template, items: template.items || [] }, error: null };
+}
+
+export const useTemplateStore = create<TemplateState & TemplateActions>((set, get) => ({
+  templates: [],
+  isLoading: false,
+  error: null,
+
+  fetchTemplates: async (householdId: string) => {
+    set({ isLoading: true, error: null });
+
+    const { data, error } = await supabase
+      .from("task_templates")
+      .select("*")
+      .eq("household_id", householdId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      set({ isLoading: false, error: error.message });
+      return;
+    }
+
+    set({ templates: data || [], isLoading: false });
+  },
+
+  saveTemplate: async (template: Partial<TaskTemplate>) => {
+    set({ isLoading: true, error: null });
+
+    const { data, error } = await supabase
+      .from("task_templates")
+      .insert(template)
+      .select("*")
+      .single();
+
+    if (error) {
+      set({ isLoading: false, error: error.message });
+      return { error: error.message };
+    }
+
+    set((state) => ({
+      templates: [data, ...state.templates],
+      isLoading: false,
+    }));
+
+    return { error: null };
+  },
+
+  deleteTemplate: async (id: string) => {
+    const { error } = await supabase.from("task_templates").delete().eq("id", id);
+
+    if (error) {
+      return { error: error.message };
+    }
+
+    set((state) => ({
+      templates: state.templates.filter((t) => t.id !== id),
+    }));
+
+    return { error: null };
+  },
+
+  // Cria todas as tarefas do modelo de uma vez
+  applyTemplate: async (items: TaskTemplateItem[], householdId: string, userId?: string) => {
+    set({ isLoading: true, error: null });
+
+    const taskStore = useTaskStore.getState();
+    if (taskStore.categories.length === 0) {
+      await taskStore.fetchCategories();
+    }
+
+    const drafts = buildTasksFromTemplate(items, {
+      householdId,
+      userId,
+      categories: useTaskStore.getState().categories,
+    });
+
+    const { data, error } = await supabase
+      .from("tasks")
+      .insert(drafts.map((d) => d.task))
+      .select("id");
+
+    if (error || !data) {
+      set({ isLoading: false, error: error?.message || "Erro ao aplicar modelo" });
+      return { error: error?.message || "Erro ao aplicar modelo", count: 0 };
+    }
+
+    // Insert preserva a ordem: data[i] corresponde a drafts[i]
+    const checklistRows = data.flatMap((task: Pick<Task, "id">, index: number) =>
+      drafts[index].checklist.map((title, position) => ({ task_id: task.id, title, position }))
+    );
+
+    if (checklistRows.length > 0) {
+      const { error: checklistError } = await supabase
+        .from("task_checklist_items")
+        .insert(checklistRows);
+
+      if (checklistError) {
+        console.error("Error creating template checklists:", checklistError);
+      }
+    }
+
+    // Recarrega as tarefas (ja agenda os lembretes)
+    await useTaskStore.getState().fetchTasks(householdId);
+
+    set({ isLoading: false });
+    return { error: null, count: data.length };
+  },
+
+  clearError: () => set({ error: null }),
+}));
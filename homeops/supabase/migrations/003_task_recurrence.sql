@@ -0,0 +1,21 @@
+-- ==========================================
+-- HOMEOPS - Recorrencia avancada de tarefas
+-- ==========================================
+
+-- recurrence_type:
+--   daily   -> a cada N dias
+--   weekly  -> a cada N semanas, no dia da semana do due_date (ou recurrence_days)
+--   custom  -> a cada N semanas, nos dias escolhidos em recurrence_days
+--   monthly -> a cada N meses, seguindo recurrence_monthly_rule
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS recurrence_monthly_rule TEXT DEFAULT 'day_of_month'
+    CHECK (recurrence_monthly_rule IN ('day_of_month', 'nth_weekday', 'last_day', 'last_business_day')),
+  ADD COLUMN IF NOT EXISTS recurrence_month_day INTEGER
+    CHECK (recurrence_month_day BETWEEN 1 AND 31), -- "todo dia 31" cai no ultimo dia em meses curtos
+  ADD COLUMN IF NOT EXISTS recurrence_week_of_month INTEGER
+    CHECK (recurrence_week_of_month IN (1, 2, 3, 4, -1)); -- -1 = ultima semana do mes
+
+-- Intervalo sempre positivo
+ALTER TABLE tasks
+  ADD CONSTRAINT tasks_recurrence_interval_positive CHECK (recurrence_interval >= 1);
@@ -0,0 +1,10 @@
+-- ==========================================
+-- HOMEOPS - Ancora da recorrencia de tarefas
+-- ==========================================
+
+-- due_date   -> calendario fixo: proxima = due_date anterior + intervalo,
+--               pulando os periodos perdidos (concluir atrasado nao desloca a serie)
+-- completion -> flutuante: proxima = data de conclusao + intervalo
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS recurrence_anchor TEXT DEFAULT 'due_date'
+    CHECK (recurrence_anchor IN ('due_date', 'completion'));
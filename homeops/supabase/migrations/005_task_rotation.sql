@@ -0,0 +1,17 @@
+-- ==========================================
+-- HOMEOPS - Rodizio de tarefas entre moradores
+-- ==========================================
+
+-- Escala ordenada de moradores (user_ids) para a tarefa
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS rotation_members UUID[],
+  -- completion -> passa a vez a cada conclusao/pulo
+  -- weekly     -> troca de responsavel a cada semana, contando de rotation_start_date
+  ADD COLUMN IF NOT EXISTS rotation_mode TEXT DEFAULT 'completion'
+    CHECK (rotation_mode IN ('completion', 'weekly')),
+  ADD COLUMN IF NOT EXISTS rotation_skip_away BOOLEAN DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS rotation_start_date DATE;
+
+-- Morador viajando/ausente (pulado nos rodizios)
+ALTER TABLE household_members
+  ADD COLUMN IF NOT EXISTS is_away BOOLEAN DEFAULT FALSE;
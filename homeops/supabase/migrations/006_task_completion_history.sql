@@ -0,0 +1,23 @@
+-- ==========================================
+-- HOMEOPS - Historico de conclusoes de tarefas
+-- ==========================================
+
+-- Data prevista da ocorrencia concluida (para saber se foi no prazo)
+ALTER TABLE task_completions
+  ADD COLUMN IF NOT EXISTS due_date DATE;
+
+CREATE INDEX IF NOT EXISTS idx_task_completions_task
+  ON task_completions(task_id, completed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_task_completions_completed_at
+  ON task_completions(completed_at DESC);
+
+-- Tarefas avulsas concluidas antes do historico passar a registra-las
+INSERT INTO task_completions (task_id, completed_by, completed_at, due_date)
+SELECT t.id, t.completed_by, t.completed_at, t.due_date
+FROM tasks t
+WHERE t.status = 'completed'
+  AND t.completed_at IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM task_completions c WHERE c.task_id = t.id
+  );
@@ -0,0 +1,109 @@
+-- ==========================================
+-- HOMEOPS - Gamificacao de tarefas (pontos, sequencias e ranking)
+-- ==========================================
+-- Os pontos sao calculados no banco (trigger) para que todos os
+-- aparelhos da casa vejam exatamente o mesmo placar.
+
+-- Valor da tarefa (NULL = padrao por prioridade e tempo estimado)
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS points INTEGER CHECK (points IS NULL OR points >= 0);
+
+ALTER TABLE task_completions
+  ADD COLUMN IF NOT EXISTS points INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS bonus_points INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS on_time BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Conclusoes seguidas no prazo do morador nesta casa (0 = quebrou a sequencia)
+  ADD COLUMN IF NOT EXISTS streak INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_task_completions_user
+  ON task_completions(completed_by, completed_at DESC);
+
+-- Funcao: Pontos padrao (manter igual a getDefaultTaskPoints em lib/gamification.ts)
+-- prioridade * 5 + 1 ponto a cada 10 min estimados (max 20)
+CREATE OR REPLACE FUNCTION task_default_points(p_priority INTEGER, p_estimated_minutes INTEGER)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(p_priority, 2) * 5 + LEAST(COALESCE(p_estimated_minutes, 0) / 10, 20);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Funcao: Pontua a conclusao (ignora valores enviados pelo app)
+CREATE OR REPLACE FUNCTION award_task_completion()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_task tasks%ROWTYPE;
+  v_previous_streak INTEGER;
+BEGIN
+  SELECT * INTO v_task FROM tasks WHERE id = NEW.task_id;
+
+  NEW.completed_at := COALESCE(NEW.completed_at, NOW());
+  NEW.due_date := COALESCE(NEW.due_date, v_task.due_date);
+  NEW.points := COALESCE(v_task.points, task_default_points(v_task.priority, v_task.estimated_minutes));
+  -- Dia da conclusao no fuso da casa
+  NEW.on_time := NEW.due_date IS NULL
+    OR (NEW.completed_at AT TIME ZONE 'America/Sao_Paulo')::DATE <= NEW.due_date;
+
+  SELECT c.streak INTO v_previous_streak
+  FROM task_completions c
+  JOIN tasks t ON t.id = c.task_id
+  WHERE c.completed_by = NEW.completed_by
+    AND t.household_id = v_task.household_id
+    AND c.completed_at <= NEW.completed_at
+  ORDER BY c.completed_at DESC
+  LIMIT 1;
+
+  IF NEW.on_time THEN
+    NEW.streak := COALESCE(v_previous_streak, 0) + 1;
+  ELSE
+    NEW.streak := 0;
+  END IF;
+
+  -- Bonus: +1 ponto por conclusao seguida no prazo, ate +5
+  NEW.bonus_points := LEAST(GREATEST(NEW.streak - 1, 0), 5);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS task_completions_award ON task_completions;
+CREATE TRIGGER task_completions_award BEFORE INSERT ON task_completions
+  FOR EACH ROW EXECUTE FUNCTION award_task_completion();
+
+-- Historico existente: pontos e prazo (sem bonus/sequencia retroativos)
+UPDATE task_completions c
+SET
+  points = COALESCE(t.points, task_default_points(t.priority, t.estimated_minutes)),
+  on_time = c.due_date IS NULL
+    OR (c.completed_at AT TIME ZONE 'America/Sao_Paulo')::DATE <= c.due_date
+FROM tasks t
+WHERE t.id = c.task_id;
+
+-- Funcao: Ranking da casa a partir de uma data
+CREATE OR REPLACE FUNCTION get_task_leaderboard(p_household_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (
+  user_id UUID,
+  points BIGINT,
+  completions BIGINT,
+  on_time BIGINT,
+  current_streak INTEGER
+) AS $$
+  SELECT
+    c.completed_by AS user_id,
+    SUM(c.points + c.bonus_points) AS points,
+    COUNT(*) AS completions,
+    COUNT(*) FILTER (WHERE c.on_time) AS on_time,
+    (
+      SELECT last.streak
+      FROM task_completions last
+      JOIN tasks lt ON lt.id = last.task_id
+      WHERE last.completed_by = c.completed_by
+        AND lt.household_id = p_household_id
+      ORDER BY last.completed_at DESC
+      LIMIT 1
+    ) AS current_streak
+  FROM task_completions c
+  JOIN tasks t ON t.id = c.task_id
+  WHERE t.household_id = p_household_id
+    AND c.completed_at >= p_since
+    AND c.completed_by IS NOT NULL
+  GROUP BY c.completed_by
+  ORDER BY points DESC, completions DESC;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,29 @@
+-- ==========================================
+-- HOMEOPS - Checklist (subtarefas) das tarefas
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS task_checklist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  is_done BOOLEAN NOT NULL DEFAULT FALSE,
+  done_by UUID REFERENCES auth.users(id),
+  done_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_checklist_items_task
+  ON task_checklist_items(task_id, position);
+
+ALTER TABLE task_checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage task checklist items"
+  ON task_checklist_items FOR ALL
+  USING (
+    task_id IN (
+      SELECT id FROM tasks WHERE household_id IN (
+        SELECT household_id FROM profiles WHERE id = auth.uid()
+      )
+    )
+  );
@@ -0,0 +1,55 @@
+-- ==========================================
+-- HOMEOPS - Modelos de rotina (pacotes de tarefas)
+-- ==========================================
+
+-- Categorias usadas pelos pacotes prontos
+INSERT INTO task_categories (name, icon, color, is_default) VALUES
+  ('Plantas', 'leaf-outline', '#22C55E', TRUE),
+  ('Pet', 'paw-outline', '#F97316', TRUE)
+ON CONFLICT DO NOTHING;
+
+-- Modelos salvos por uma casa (podem ser aplicados em outra via share_code)
+-- items: [{ title, description, category, priority, estimated_minutes,
+--           recurrence: { type, interval, days, monthlyRule, monthDay, weekOfMonth } | null,
+--           checklist: [text] }]
+CREATE TABLE IF NOT EXISTS task_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  icon TEXT NOT NULL DEFAULT 'albums-outline',
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  share_code TEXT UNIQUE DEFAULT upper(substring(md5(random()::text), 1, 8)),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_templates_household ON task_templates(household_id);
+
+CREATE TRIGGER task_templates_updated_at BEFORE UPDATE ON task_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE task_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage household task templates"
+  ON task_templates FOR ALL
+  USING (
+    household_id IN (SELECT household_id FROM profiles WHERE id = auth.uid())
+  );
+
+-- Funcao: Busca um modelo de outra casa pelo codigo de compartilhamento.
+-- Roda como dono (ignora RLS), com search_path fixo
+CREATE OR REPLACE FUNCTION get_task_template_by_code(p_code TEXT)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  icon TEXT,
+  items JSONB
+) AS $$
+  SELECT t.id, t.name, t.description, t.icon, t.items
+  FROM task_templates t
+  WHERE t.share_code = upper(trim(p_code))
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
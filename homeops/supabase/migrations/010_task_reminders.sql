@@ -0,0 +1,9 @@
+-- ==========================================
+-- HOMEOPS - Lembretes de tarefas com antecedencia configuravel
+-- ==========================================
+
+-- Minutos antes do vencimento (due_date + due_time) de cada lembrete.
+-- NULL = usa o padrao do aparelho; vazio = tarefa sem lembretes
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS reminder_offsets INTEGER[]
+  CHECK (reminder_offsets IS NULL OR 0 <= ALL(reminder_offsets));
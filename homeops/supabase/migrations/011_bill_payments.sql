@@ -0,0 +1,170 @@
+-- ==========================================
+-- HOMEOPS - Historico de pagamentos e virada de mes das contas
+-- ==========================================
+
+-- Um registro por conta e mes (period = primeiro dia do mes).
+-- bills.current_month_* continua sendo o espelho do mes atual
+CREATE TABLE IF NOT EXISTS bill_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bill_id UUID NOT NULL REFERENCES bills(id) ON DELETE CASCADE,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+
+  period DATE NOT NULL CHECK (EXTRACT(DAY FROM period) = 1),
+  due_date DATE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'overdue')),
+  amount DECIMAL(10,2) NOT NULL, -- valor previsto no mes
+  paid_amount DECIMAL(10,2),
+  paid_at TIMESTAMPTZ,
+  paid_by UUID REFERENCES auth.users(id),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (bill_id, period)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_payments_bill ON bill_payments(bill_id, period DESC);
+CREATE INDEX IF NOT EXISTS idx_bill_payments_household ON bill_payments(household_id, period);
+
+CREATE TRIGGER bill_payments_updated_at BEFORE UPDATE ON bill_payments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE bill_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage bill payments"
+  ON bill_payments FOR ALL
+  USING (
+    household_id IN (SELECT household_id FROM profiles WHERE id = auth.uid())
+  );
+
+-- Funcao: Fuso da casa para datas de vencimento, pagamento e conclusao.
+-- Padrao Brasilia; outro fuso: ALTER DATABASE postgres SET app.timezone = 'America/Manaus'
+CREATE OR REPLACE FUNCTION app_timezone()
+RETURNS TEXT AS $$
+  SELECT COALESCE(NULLIF(current_setting('app.timezone', true), ''), 'America/Sao_Paulo');
+$$ LANGUAGE sql STABLE;
+
+-- Funcao: Mes atual no fuso da casa
+CREATE OR REPLACE FUNCTION bill_current_period()
+RETURNS DATE AS $$
+  SELECT date_trunc('month', NOW() AT TIME ZONE app_timezone())::DATE;
+$$ LANGUAGE sql STABLE;
+
+-- Funcao: Vencimento no mes (dia 31 vira o ultimo dia de meses curtos)
+CREATE OR REPLACE FUNCTION bill_period_due_date(p_period DATE, p_due_day INTEGER)
+RETURNS DATE AS $$
+  SELECT p_period + (
+    LEAST(p_due_day, EXTRACT(DAY FROM p_period + INTERVAL '1 month' - INTERVAL '1 day')::INTEGER) - 1
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Funcao: Registra no historico o status do mes atual gravado na conta
+CREATE OR REPLACE FUNCTION record_bill_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_period DATE := bill_current_period();
+BEGIN
+  INSERT INTO bill_payments (
+    bill_id, household_id, period, due_date, status, amount, paid_amount, paid_at, paid_by
+  ) VALUES (
+    NEW.id,
+    NEW.household_id,
+    v_period,
+    bill_period_due_date(v_period, NEW.due_day),
+    COALESCE(NEW.current_month_status, 'pending'),
+    NEW.amount,
+    NEW.current_month_paid_amount,
+    NEW.current_month_paid_at,
+    CASE WHEN NEW.current_month_status = 'paid' THEN auth.uid() END
+  )
+  ON CONFLICT (bill_id, period) DO UPDATE SET
+    due_date = EXCLUDED.due_date,
+    status = EXCLUDED.status,
+    amount = EXCLUDED.amount,
+    paid_amount = EXCLUDED.paid_amount,
+    paid_at = EXCLUDED.paid_at,
+    -- A virada (sem usuario) nao apaga quem pagou
+    paid_by = CASE
+      WHEN EXCLUDED.status = 'paid' THEN COALESCE(bill_payments.paid_by, EXCLUDED.paid_by)
+    END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bills_record_payment ON bills;
+CREATE TRIGGER bills_record_payment
+  AFTER INSERT OR UPDATE OF amount, due_day, current_month_status, current_month_paid_at, current_month_paid_amount
+  ON bills
+  FOR EACH ROW EXECUTE FUNCTION record_bill_payment();
+
+-- Funcao: Virada diaria das contas
+-- 1. abre o mes atual (pendente) para as contas recorrentes
+-- 2. marca como atrasados os meses pendentes com vencimento passado
+-- 3. copia o status do mes atual para bills.current_month_*
+CREATE OR REPLACE FUNCTION open_bill_periods()
+RETURNS VOID AS $$
+DECLARE
+  v_period DATE := bill_current_period();
+  v_today DATE := (NOW() AT TIME ZONE app_timezone())::DATE;
+BEGIN
+  INSERT INTO bill_payments (bill_id, household_id, period, due_date, status, amount)
+  SELECT b.id, b.household_id, v_period, bill_period_due_date(v_period, b.due_day), 'pending', b.amount
+  FROM bills b
+  WHERE b.is_recurring
+  ON CONFLICT (bill_id, period) DO NOTHING;
+
+  UPDATE bill_payments
+  SET status = 'overdue'
+  WHERE status = 'pending' AND due_date < v_today;
+
+  UPDATE bills b
+  SET
+    current_month_status = p.status,
+    current_month_paid_at = p.paid_at,
+    current_month_paid_amount = p.paid_amount
+  FROM bill_payments p
+  WHERE p.bill_id = b.id
+    AND p.period = v_period
+    AND b.is_recurring
+    AND (
+      b.current_month_status IS DISTINCT FROM p.status
+      OR b.current_month_paid_at IS DISTINCT FROM p.paid_at
+      OR b.current_month_paid_amount IS DISTINCT FROM p.paid_amount
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Roda para todas as casas: so o agendador chama
+REVOKE EXECUTE ON FUNCTION open_bill_periods() FROM PUBLIC, anon, authenticated;
+
+-- Historico existente: o status gravado na conta vai para o mes em que foi
+-- pago (contas pagas em meses anteriores reabrem pendentes na virada abaixo)
+INSERT INTO bill_payments (
+  bill_id, household_id, period, due_date, status, amount, paid_amount, paid_at
+)
+SELECT
+  b.id,
+  b.household_id,
+  s.period,
+  bill_period_due_date(s.period, b.due_day),
+  COALESCE(b.current_month_status, 'pending'),
+  b.amount,
+  b.current_month_paid_amount,
+  b.current_month_paid_at
+FROM bills b
+CROSS JOIN LATERAL (
+  SELECT CASE
+    WHEN b.current_month_status = 'paid' AND b.current_month_paid_at IS NOT NULL
+      THEN date_trunc('month', b.current_month_paid_at AT TIME ZONE app_timezone())::DATE
+    ELSE bill_current_period()
+  END AS period
+) s
+ON CONFLICT (bill_id, period) DO NOTHING;
+
+SELECT open_bill_periods();
+
+-- Agendamento: todo dia 00:05 no horario de Brasilia (03:05 UTC)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('open-bill-periods', '5 3 * * *', $$SELECT open_bill_periods()$$);
@@ -0,0 +1,127 @@
+-- ==========================================
+-- HOMEOPS - Pagamento de conta gera o lancamento de despesa
+-- ==========================================
+
+-- Lancamento criado ao pagar o mes
+ALTER TABLE bill_payments
+  ADD COLUMN IF NOT EXISTS transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL;
+
+-- Excluir a conta mantem os lancamentos ja pagos
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_bill_id_fkey;
+ALTER TABLE transactions
+  ADD CONSTRAINT transactions_bill_id_fkey
+  FOREIGN KEY (bill_id) REFERENCES bills(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_bill ON transactions(bill_id);
+
+-- Funcao: Marca o mes atual como pago (ou corrige o valor pago) e cria ou
+-- atualiza o lancamento vinculado na mesma transacao. Retorna o lancamento
+CREATE OR REPLACE FUNCTION pay_bill(
+  p_bill_id UUID,
+  p_amount DECIMAL DEFAULT NULL,
+  p_paid_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_bill bills%ROWTYPE;
+  v_period DATE := bill_current_period();
+  v_amount DECIMAL(10,2);
+  v_paid_at TIMESTAMPTZ;
+  v_transaction_id UUID;
+BEGIN
+  -- RLS: so encontra contas da casa do usuario
+  SELECT * INTO v_bill FROM bills WHERE id = p_bill_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conta nao encontrada';
+  END IF;
+
+  v_amount := COALESCE(p_amount, v_bill.amount);
+  v_paid_at := COALESCE(
+    p_paid_at,
+    CASE WHEN v_bill.current_month_status = 'paid' THEN v_bill.current_month_paid_at END,
+    NOW()
+  );
+
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'Valor pago invalido';
+  END IF;
+
+  -- Registra o mes no historico (trigger bills_record_payment)
+  UPDATE bills
+  SET
+    current_month_status = 'paid',
+    current_month_paid_at = v_paid_at,
+    current_month_paid_amount = v_amount
+  WHERE id = p_bill_id;
+
+  SELECT transaction_id INTO v_transaction_id
+  FROM bill_payments
+  WHERE bill_id = p_bill_id AND period = v_period;
+
+  IF v_transaction_id IS NOT NULL THEN
+    UPDATE transactions
+    SET
+      amount = v_amount,
+      date = (v_paid_at AT TIME ZONE app_timezone())::DATE,
+      category_id = v_bill.category_id
+    WHERE id = v_transaction_id;
+  ELSE
+    INSERT INTO transactions (
+      household_id, category_id, description, amount, type, date, bill_id, created_by
+    ) VALUES (
+      v_bill.household_id,
+      v_bill.category_id,
+      v_bill.name,
+      v_amount,
+      'expense',
+      (v_paid_at AT TIME ZONE app_timezone())::DATE,
+      v_bill.id,
+      auth.uid()
+    )
+    RETURNING id INTO v_transaction_id;
+
+    UPDATE bill_payments
+    SET transaction_id = v_transaction_id
+    WHERE bill_id = p_bill_id AND period = v_period;
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Funcao: Desfaz o pagamento do mes atual e remove o lancamento vinculado.
+-- Retorna o lancamento removido (NULL se nao havia)
+CREATE OR REPLACE FUNCTION unpay_bill(p_bill_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_bill bills%ROWTYPE;
+  v_period DATE := bill_current_period();
+  v_today DATE := (NOW() AT TIME ZONE app_timezone())::DATE;
+  v_transaction_id UUID;
+BEGIN
+  SELECT * INTO v_bill FROM bills WHERE id = p_bill_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conta nao encontrada';
+  END IF;
+
+  SELECT transaction_id INTO v_transaction_id
+  FROM bill_payments
+  WHERE bill_id = p_bill_id AND period = v_period;
+
+  IF v_transaction_id IS NOT NULL THEN
+    DELETE FROM transactions WHERE id = v_transaction_id;
+  END IF;
+
+  UPDATE bills
+  SET
+    current_month_status = CASE
+      WHEN bill_period_due_date(v_period, v_bill.due_day) < v_today THEN 'overdue'
+      ELSE 'pending'
+    END,
+    current_month_paid_at = NULL,
+    current_month_paid_amount = NULL
+  WHERE id = p_bill_id;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql;
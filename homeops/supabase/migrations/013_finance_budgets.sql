@@ -0,0 +1,31 @@
+-- ==========================================
+-- HOMEOPS - Orcamento mensal por categoria
+-- ==========================================
+
+-- Limite mensal de gastos de uma categoria de despesa.
+-- rollover: a sobra do mes anterior soma ao limite do mes (calculado no app)
+CREATE TABLE IF NOT EXISTS finance_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  category_id UUID NOT NULL REFERENCES finance_categories(id) ON DELETE CASCADE,
+  monthly_limit DECIMAL(10,2) NOT NULL CHECK (monthly_limit > 0),
+  rollover BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (household_id, category_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_finance_budgets_household ON finance_budgets(household_id);
+
+CREATE TRIGGER finance_budgets_updated_at BEFORE UPDATE ON finance_budgets
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE finance_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage household budgets"
+  ON finance_budgets FOR ALL
+  USING (
+    household_id IN (SELECT household_id FROM profiles WHERE id = auth.uid())
+  );
@@ -0,0 +1,296 @@
+-- ==========================================
+-- HOMEOPS - Divisao de despesas entre moradores e acertos
+-- ==========================================
+
+-- Quem pagou e como a despesa e dividida.
+-- split_type NULL = despesa da casa, fora dos saldos entre moradores
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS paid_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS split_type TEXT
+  CHECK (split_type IN ('equal', 'percentage', 'amount'));
+
+-- Divisao padrao aplicada aos lancamentos gerados ao pagar a conta.
+-- split_shares: [{ user_id, value }] (value = % ou R$ conforme o tipo)
+ALTER TABLE bills
+  ADD COLUMN IF NOT EXISTS split_type TEXT
+  CHECK (split_type IN ('equal', 'percentage', 'amount')),
+  ADD COLUMN IF NOT EXISTS split_shares JSONB;
+
+-- Parte de cada morador (so quem participa; excluir alguem = nao listar)
+CREATE TABLE IF NOT EXISTS transaction_splits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  value DECIMAL(10,2), -- percentual ou valor informado
+  amount DECIMAL(10,2) NOT NULL, -- quanto o morador deve da despesa
+  UNIQUE (transaction_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_transaction ON transaction_splits(transaction_id);
+
+ALTER TABLE transaction_splits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage transaction splits"
+  ON transaction_splits FOR ALL
+  USING (
+    transaction_id IN (
+      SELECT id FROM transactions WHERE household_id IN (
+        SELECT household_id FROM profiles WHERE id = auth.uid()
+      )
+    )
+  );
+
+-- Acertos: from_user pagou to_user fora do app
+CREATE TABLE IF NOT EXISTS settlements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  from_user UUID NOT NULL REFERENCES auth.users(id),
+  to_user UUID NOT NULL REFERENCES auth.users(id),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CHECK (from_user <> to_user)
+);
+
+CREATE INDEX IF NOT EXISTS idx_settlements_household ON settlements(household_id, date DESC);
+
+ALTER TABLE settlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage household settlements"
+  ON settlements FOR ALL
+  USING (
+    household_id IN (SELECT household_id FROM profiles WHERE id = auth.uid())
+  );
+
+-- Funcao: Grava a divisao de um lancamento (substitui a anterior).
+-- p_shares: [{ user_id, value }]; centavos de arredondamento ficam com a
+-- maior parte para a soma bater com o total
+CREATE OR REPLACE FUNCTION set_transaction_split(
+  p_transaction_id UUID,
+  p_split_type TEXT,
+  p_shares JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  v_amount DECIMAL(10,2);
+  v_count INTEGER := jsonb_array_length(COALESCE(p_shares, '[]'::jsonb));
+  v_total DECIMAL(10,2);
+BEGIN
+  SELECT amount INTO v_amount FROM transactions WHERE id = p_transaction_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lancamento nao encontrado';
+  END IF;
+
+  DELETE FROM transaction_splits WHERE transaction_id = p_transaction_id;
+
+  IF p_split_type IS NULL OR v_count = 0 THEN
+    UPDATE transactions SET split_type = NULL WHERE id = p_transaction_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO transaction_splits (transaction_id, user_id, value, amount)
+  SELECT
+    p_transaction_id,
+    (s->>'user_id')::UUID,
+    (s->>'value')::DECIMAL,
+    CASE p_split_type
+      WHEN 'equal' THEN ROUND(v_amount / v_count, 2)
+      WHEN 'percentage' THEN ROUND(v_amount * (s->>'value')::DECIMAL / 100, 2)
+      ELSE ROUND((s->>'value')::DECIMAL, 2)
+    END
+  FROM jsonb_array_elements(p_shares) s;
+
+  IF p_split_type = 'percentage'
+    AND (SELECT SUM(value) FROM transaction_splits WHERE transaction_id = p_transaction_id) <> 100 THEN
+    RAISE EXCEPTION 'Os percentuais devem somar 100%%';
+  END IF;
+
+  SELECT SUM(amount) INTO v_total FROM transaction_splits WHERE transaction_id = p_transaction_id;
+
+  IF p_split_type = 'amount' AND v_total <> v_amount THEN
+    RAISE EXCEPTION 'Os valores devem somar o total da despesa';
+  END IF;
+
+  UPDATE transaction_splits
+  SET amount = amount + (v_amount - v_total)
+  WHERE id = (
+    SELECT id FROM transaction_splits
+    WHERE transaction_id = p_transaction_id
+    ORDER BY amount DESC
+    LIMIT 1
+  );
+
+  UPDATE transactions SET split_type = p_split_type WHERE id = p_transaction_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Funcao: Refaz a divisao quando o valor do lancamento muda
+-- (valores fixos sao ajustados na mesma proporcao, arredondados em centavos;
+-- a diferenca fica com a maior parte para a soma bater com o novo total)
+CREATE OR REPLACE FUNCTION resplit_transaction()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_shares JSONB;
+BEGIN
+  IF NEW.split_type IS NULL OR OLD.amount = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  WITH scaled AS (
+    SELECT
+      s.user_id,
+      CASE
+        WHEN NEW.split_type = 'amount' THEN ROUND(s.amount * NEW.amount / OLD.amount, 2)
+        ELSE s.value
+      END AS value,
+      ROW_NUMBER() OVER (ORDER BY s.amount DESC, s.user_id) AS position
+    FROM transaction_splits s
+    WHERE s.transaction_id = NEW.id
+  ),
+  adjusted AS (
+    SELECT
+      user_id,
+      CASE
+        WHEN NEW.split_type = 'amount' AND position = 1 THEN value + (NEW.amount - SUM(value) OVER ())
+        ELSE value
+      END AS value
+    FROM scaled
+  )
+  SELECT jsonb_agg(jsonb_build_object('user_id', user_id, 'value', value))
+  INTO v_shares
+  FROM adjusted;
+
+  PERFORM set_transaction_split(NEW.id, NEW.split_type, v_shares);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS transactions_resplit ON transactions;
+CREATE TRIGGER transactions_resplit AFTER UPDATE OF amount ON transactions
+  FOR EACH ROW WHEN (OLD.amount IS DISTINCT FROM NEW.amount)
+  EXECUTE FUNCTION resplit_transaction();
+
+-- Funcao: Saldo de cada morador (positivo = tem a receber)
+CREATE OR REPLACE FUNCTION get_household_balances(p_household_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  balance DECIMAL
+) AS $$
+  SELECT x.user_id, SUM(x.amount) AS balance
+  FROM (
+    -- Quem pagou adiantou o total
+    SELECT t.paid_by AS user_id, t.amount
+    FROM transactions t
+    WHERE t.household_id = p_household_id
+      AND t.split_type IS NOT NULL
+      AND t.paid_by IS NOT NULL
+
+    UNION ALL
+
+    -- Cada participante deve a sua parte
+    SELECT s.user_id, -s.amount
+    FROM transaction_splits s
+    JOIN transactions t ON t.id = s.transaction_id
+    WHERE t.household_id = p_household_id
+      AND t.split_type IS NOT NULL
+      AND t.paid_by IS NOT NULL
+
+    UNION ALL
+
+    SELECT st.from_user, st.amount
+    FROM settlements st
+    WHERE st.household_id = p_household_id
+
+    UNION ALL
+
+    SELECT st.to_user, -st.amount
+    FROM settlements st
+    WHERE st.household_id = p_household_id
+  ) x
+  GROUP BY x.user_id
+  HAVING SUM(x.amount) <> 0;
+$$ LANGUAGE sql STABLE;
+
+-- pay_bill (012) passa a registrar quem pagou e aplicar a divisao da conta
+CREATE OR REPLACE FUNCTION pay_bill(
+  p_bill_id UUID,
+  p_amount DECIMAL DEFAULT NULL,
+  p_paid_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_bill bills%ROWTYPE;
+  v_period DATE := bill_current_period();
+  v_amount DECIMAL(10,2);
+  v_paid_at TIMESTAMPTZ;
+  v_transaction_id UUID;
+BEGIN
+  -- RLS: so encontra contas da casa do usuario
+  SELECT * INTO v_bill FROM bills WHERE id = p_bill_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conta nao encontrada';
+  END IF;
+
+  v_amount := COALESCE(p_amount, v_bill.amount);
+  v_paid_at := COALESCE(
+    p_paid_at,
+    CASE WHEN v_bill.current_month_status = 'paid' THEN v_bill.current_month_paid_at END,
+    NOW()
+  );
+
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'Valor pago invalido';
+  END IF;
+
+  -- Registra o mes no historico (trigger bills_record_payment)
+  UPDATE bills
+  SET
+    current_month_status = 'paid',
+    current_month_paid_at = v_paid_at,
+    current_month_paid_amount = v_amount
+  WHERE id = p_bill_id;
+
+  SELECT transaction_id INTO v_transaction_id
+  FROM bill_payments
+  WHERE bill_id = p_bill_id AND period = v_period;
+
+  IF v_transaction_id IS NOT NULL THEN
+    -- A divisao acompanha o novo valor (trigger transactions_resplit)
+    UPDATE transactions
+    SET
+      amount = v_amount,
+      date = (v_paid_at AT TIME ZONE app_timezone())::DATE,
+      category_id = v_bill.category_id
+    WHERE id = v_transaction_id;
+  ELSE
+    INSERT INTO transactions (
+      household_id, category_id, description, amount, type, date, bill_id, paid_by, created_by
+    ) VALUES (
+      v_bill.household_id,
+      v_bill.category_id,
+      v_bill.name,
+      v_amount,
+      'expense',
+      (v_paid_at AT TIME ZONE app_timezone())::DATE,
+      v_bill.id,
+      auth.uid(),
+      auth.uid()
+    )
+    RETURNING id INTO v_transaction_id;
+
+    IF v_bill.split_type IS NOT NULL THEN
+      PERFORM set_transaction_split(v_transaction_id, v_bill.split_type, v_bill.split_shares);
+    END IF;
+
+    UPDATE bill_payments
+    SET transaction_id = v_transaction_id
+    WHERE bill_id = p_bill_id AND period = v_period;
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql;
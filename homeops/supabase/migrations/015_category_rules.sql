@@ -0,0 +1,123 @@
+-- ==========================================
+-- HOMEOPS - Regras de categorizacao automatica de lancamentos
+-- ==========================================
+
+-- Regra da casa: se a descricao (e opcionalmente tipo e faixa de valor)
+-- bater, o lancamento recebe a categoria
+CREATE TABLE IF NOT EXISTS category_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  category_id UUID NOT NULL REFERENCES finance_categories(id) ON DELETE CASCADE,
+  pattern TEXT NOT NULL CHECK (length(trim(pattern)) > 0),
+  match_type TEXT NOT NULL DEFAULT 'contains' CHECK (match_type IN ('contains', 'regex')),
+  type TEXT CHECK (type IN ('expense', 'income')), -- NULL = qualquer
+  min_amount DECIMAL(10,2),
+  max_amount DECIMAL(10,2),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CHECK (min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_category_rules_household ON category_rules(household_id, created_at DESC);
+
+ALTER TABLE category_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage household category rules"
+  ON category_rules FOR ALL
+  USING (
+    household_id IN (SELECT household_id FROM profiles WHERE id = auth.uid())
+  );
+
+DROP TRIGGER IF EXISTS category_rules_updated_at ON category_rules;
+CREATE TRIGGER category_rules_updated_at BEFORE UPDATE ON category_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Funcao: Rejeita regex invalida ao salvar (e nao ao categorizar)
+CREATE OR REPLACE FUNCTION validate_category_rule()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.match_type = 'regex' THEN
+    BEGIN
+      PERFORM '' ~* NEW.pattern;
+    EXCEPTION WHEN invalid_regular_expression THEN
+      RAISE EXCEPTION 'Expressao regular invalida: %', NEW.pattern;
+    END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS category_rules_validate ON category_rules;
+CREATE TRIGGER category_rules_validate BEFORE INSERT OR UPDATE OF pattern, match_type ON category_rules
+  FOR EACH ROW EXECUTE FUNCTION validate_category_rule();
+
+-- Funcao: Categoria da regra mais recente que bate com o lancamento
+-- (manter igual a findMatchingRule() em lib/categoryRules.ts)
+CREATE OR REPLACE FUNCTION match_category_rule(
+  p_household_id UUID,
+  p_description TEXT,
+  p_amount DECIMAL,
+  p_type TEXT
+)
+RETURNS UUID AS $$
+  SELECT r.category_id
+  FROM category_rules r
+  JOIN finance_categories c ON c.id = r.category_id
+  WHERE r.household_id = p_household_id
+    AND c.type = p_type
+    AND (r.type IS NULL OR r.type = p_type)
+    AND (r.min_amount IS NULL OR p_amount >= r.min_amount)
+    AND (r.max_amount IS NULL OR p_amount <= r.max_amount)
+    AND CASE r.match_type
+      WHEN 'regex' THEN p_description ~* r.pattern
+      ELSE strpos(lower(p_description), lower(trim(r.pattern))) > 0
+    END
+  ORDER BY r.created_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Lancamentos sem categoria (formulario, importacao) passam pelas regras
+CREATE OR REPLACE FUNCTION auto_categorize_transaction()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.category_id IS NULL THEN
+    NEW.category_id := match_category_rule(NEW.household_id, NEW.description, NEW.amount, NEW.type);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS transactions_auto_category ON transactions;
+CREATE TRIGGER transactions_auto_category BEFORE INSERT ON transactions
+  FOR EACH ROW EXECUTE FUNCTION auto_categorize_transaction();
+
+-- Funcao: Reaplica as regras nos lancamentos existentes.
+-- p_overwrite = FALSE so preenche os que estao sem categoria.
+-- Retorna quantos lancamentos mudaram
+CREATE OR REPLACE FUNCTION reapply_category_rules(
+  p_household_id UUID,
+  p_overwrite BOOLEAN DEFAULT FALSE
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  WITH matched AS (
+    SELECT t.id, match_category_rule(t.household_id, t.description, t.amount, t.type) AS category_id
+    FROM transactions t
+    WHERE t.household_id = p_household_id
+      AND (p_overwrite OR t.category_id IS NULL)
+  )
+  UPDATE transactions t
+  SET category_id = m.category_id
+  FROM matched m
+  WHERE t.id = m.id
+    AND m.category_id IS NOT NULL
+    AND t.category_id IS DISTINCT FROM m.category_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,318 @@
+-- ==========================================
+-- HOMEOPS - Contas de pagamento, cartoes de credito e compras parceladas
+-- ==========================================
+
+-- Dinheiro, conta corrente ou cartao (cartao tem fechamento e vencimento)
+CREATE TABLE IF NOT EXISTS payment_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('cash', 'checking', 'credit_card')),
+  closing_day INTEGER CHECK (closing_day BETWEEN 1 AND 31),
+  due_day INTEGER CHECK (due_day BETWEEN 1 AND 31),
+  credit_limit DECIMAL(10,2),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CHECK (type <> 'credit_card' OR (closing_day IS NOT NULL AND due_day IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_accounts_household ON payment_accounts(household_id);
+
+ALTER TABLE payment_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage household payment accounts"
+  ON payment_accounts FOR ALL
+  USING (
+    household_id IN (SELECT household_id FROM profiles WHERE id = auth.uid())
+  );
+
+DROP TRIGGER IF EXISTS payment_accounts_updated_at ON payment_accounts;
+CREATE TRIGGER payment_accounts_updated_at BEFORE UPDATE ON payment_accounts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Lancamento pago com uma conta. statement_month = mes da fatura do
+-- cartao (primeiro dia do mes de vencimento), calculado pelo banco
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES payment_accounts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS statement_month DATE,
+  ADD COLUMN IF NOT EXISTS installment_group UUID,
+  ADD COLUMN IF NOT EXISTS installment_number INTEGER,
+  ADD COLUMN IF NOT EXISTS installment_count INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_statement ON transactions(account_id, statement_month);
+CREATE INDEX IF NOT EXISTS idx_transactions_installment_group ON transactions(installment_group);
+
+-- account_id: conta usada para pagar a conta (o lancamento herda).
+-- invoice_account_id: a conta e a fatura desse cartao (gerada abaixo)
+ALTER TABLE bills
+  ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES payment_accounts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS invoice_account_id UUID UNIQUE REFERENCES payment_accounts(id) ON DELETE CASCADE;
+
+-- Funcao: Fatura em que cai uma compra. Depois do fechamento vai para o
+-- ciclo seguinte; vencimento antes do fechamento = mes seguinte ao ciclo
+-- (manter igual a getStatementMonth() em lib/accounts.ts)
+CREATE OR REPLACE FUNCTION card_statement_month(p_date DATE, p_closing_day INTEGER, p_due_day INTEGER)
+RETURNS DATE AS $$
+  SELECT (
+    date_trunc('month', p_date)::DATE
+    + make_interval(months =>
+      CASE WHEN p_date > bill_period_due_date(date_trunc('month', p_date)::DATE, p_closing_day) THEN 1 ELSE 0 END
+      + CASE WHEN p_due_day <= p_closing_day THEN 1 ELSE 0 END
+    )
+  )::DATE;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION set_transaction_statement_month()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_account payment_accounts%ROWTYPE;
+BEGIN
+  NEW.statement_month := NULL;
+
+  IF NEW.account_id IS NOT NULL THEN
+    SELECT * INTO v_account FROM payment_accounts WHERE id = NEW.account_id;
+    IF v_account.type = 'credit_card' THEN
+      NEW.statement_month := card_statement_month(NEW.date, v_account.closing_day, v_account.due_day);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS transactions_statement_month ON transactions;
+CREATE TRIGGER transactions_statement_month BEFORE INSERT OR UPDATE OF date, account_id ON transactions
+  FOR EACH ROW EXECUTE FUNCTION set_transaction_statement_month();
+
+-- Funcao: Valor da fatura do mes atual vira o valor da conta do cartao
+-- (o historico acompanha pelo trigger bills_record_payment)
+CREATE OR REPLACE FUNCTION refresh_card_invoice(p_account_id UUID)
+RETURNS VOID AS $$
+  UPDATE bills b
+  SET amount = COALESCE((
+    SELECT SUM(CASE WHEN t.type = 'expense' THEN t.amount ELSE -t.amount END)
+    FROM transactions t
+    WHERE t.account_id = p_account_id
+      AND t.statement_month = bill_current_period()
+  ), 0)
+  WHERE b.invoice_account_id = p_account_id
+    AND b.current_month_status <> 'paid';
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION refresh_card_invoices_on_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND OLD.account_id IS NOT NULL THEN
+    PERFORM refresh_card_invoice(OLD.account_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND NEW.account_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.account_id IS DISTINCT FROM OLD.account_id OR NEW.amount <> OLD.amount
+      OR NEW.type <> OLD.type OR NEW.statement_month IS DISTINCT FROM OLD.statement_month) THEN
+    PERFORM refresh_card_invoice(NEW.account_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS transactions_card_invoice ON transactions;
+CREATE TRIGGER transactions_card_invoice AFTER INSERT OR UPDATE OR DELETE ON transactions
+  FOR EACH ROW EXECUTE FUNCTION refresh_card_invoices_on_change();
+
+-- Funcao: Cartao novo ganha a conta "Fatura <cartao>"; mudar fechamento
+-- ou vencimento refaz as faturas em aberto
+CREATE OR REPLACE FUNCTION sync_card_invoice_bill()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.type <> 'credit_card' THEN
+    DELETE FROM bills WHERE invoice_account_id = NEW.id;
+    UPDATE transactions SET statement_month = NULL
+    WHERE account_id = NEW.id AND statement_month IS NOT NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (NEW.closing_day <> OLD.closing_day OR NEW.due_day <> OLD.due_day OR OLD.type <> 'credit_card') THEN
+    UPDATE transactions
+    SET statement_month = card_statement_month(date, NEW.closing_day, NEW.due_day)
+    WHERE account_id = NEW.id
+      AND (statement_month IS NULL OR statement_month >= bill_current_period());
+  END IF;
+
+  UPDATE bills
+  SET name = 'Fatura ' || NEW.name, due_day = NEW.due_day
+  WHERE invoice_account_id = NEW.id;
+
+  IF NOT FOUND THEN
+    INSERT INTO bills (household_id, name, amount, is_recurring, due_day, invoice_account_id, created_by)
+    VALUES (NEW.household_id, 'Fatura ' || NEW.name, 0, TRUE, NEW.due_day, NEW.id, NEW.created_by);
+  END IF;
+
+  PERFORM refresh_card_invoice(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS payment_accounts_invoice_bill ON payment_accounts;
+CREATE TRIGGER payment_accounts_invoice_bill AFTER INSERT OR UPDATE OF name, type, closing_day, due_day ON payment_accounts
+  FOR EACH ROW EXECUTE FUNCTION sync_card_invoice_bill();
+
+-- Funcao: Virada de mes das faturas (antes de open_bill_periods)
+CREATE OR REPLACE FUNCTION refresh_all_card_invoices()
+RETURNS VOID AS $$
+  SELECT refresh_card_invoice(id) FROM payment_accounts WHERE type = 'credit_card';
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION refresh_all_card_invoices() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('refresh-card-invoices', '4 3 * * *', $$SELECT refresh_all_card_invoices()$$);
+
+-- Funcao: Compra parcelada. Cria uma parcela por mes a partir de p_date
+-- ("Sofa (1/12)"); centavos de arredondamento ficam na primeira.
+-- Retorna o installment_group
+CREATE OR REPLACE FUNCTION create_installment_purchase(
+  p_household_id UUID,
+  p_description TEXT,
+  p_total_amount DECIMAL,
+  p_installments INTEGER,
+  p_date DATE,
+  p_account_id UUID DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_paid_by UUID DEFAULT NULL,
+  p_split_type TEXT DEFAULT NULL,
+  p_shares JSONB DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_group UUID := gen_random_uuid();
+  v_installment DECIMAL(10,2);
+  v_transaction_id UUID;
+BEGIN
+  IF p_installments < 2 OR p_installments > 48 THEN
+    RAISE EXCEPTION 'Numero de parcelas invalido';
+  END IF;
+  IF p_total_amount <= 0 THEN
+    RAISE EXCEPTION 'Valor invalido';
+  END IF;
+  -- Valores fixos nao fecham com parcelas de centavos diferentes
+  IF p_split_type = 'amount' THEN
+    RAISE EXCEPTION 'Use divisao igual ou por percentual em compras parceladas';
+  END IF;
+
+  v_installment := TRUNC(p_total_amount / p_installments, 2);
+
+  FOR i IN 1..p_installments LOOP
+    INSERT INTO transactions (
+      household_id, category_id, account_id, description, amount, type, date,
+      paid_by, created_by, installment_group, installment_number, installment_count
+    ) VALUES (
+      p_household_id,
+      p_category_id,
+      p_account_id,
+      p_description || ' (' || i || '/' || p_installments || ')',
+      CASE WHEN i = 1 THEN p_total_amount - v_installment * (p_installments - 1) ELSE v_installment END,
+      'expense',
+      (p_date + make_interval(months => i - 1))::DATE,
+      p_paid_by,
+      auth.uid(),
+      v_group,
+      i,
+      p_installments
+    )
+    RETURNING id INTO v_transaction_id;
+
+    IF p_split_type IS NOT NULL THEN
+      PERFORM set_transaction_split(v_transaction_id, p_split_type, p_shares);
+    END IF;
+  END LOOP;
+
+  RETURN v_group;
+END;
+$$ LANGUAGE plpgsql;
+
+-- pay_bill (014): a fatura do cartao nao vira despesa (as compras ja
+-- foram lancadas); contas pagas com uma conta herdam account_id
+CREATE OR REPLACE FUNCTION pay_bill(
+  p_bill_id UUID,
+  p_amount DECIMAL DEFAULT NULL,
+  p_paid_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_bill bills%ROWTYPE;
+  v_period DATE := bill_current_period();
+  v_amount DECIMAL(10,2);
+  v_paid_at TIMESTAMPTZ;
+  v_transaction_id UUID;
+BEGIN
+  -- RLS: so encontra contas da casa do usuario
+  SELECT * INTO v_bill FROM bills WHERE id = p_bill_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conta nao encontrada';
+  END IF;
+
+  v_amount := COALESCE(p_amount, v_bill.amount);
+  v_paid_at := COALESCE(
+    p_paid_at,
+    CASE WHEN v_bill.current_month_status = 'paid' THEN v_bill.current_month_paid_at END,
+    NOW()
+  );
+
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'Valor pago invalido';
+  END IF;
+
+  -- Registra o mes no historico (trigger bills_record_payment)
+  UPDATE bills
+  SET
+    current_month_status = 'paid',
+    current_month_paid_at = v_paid_at,
+    current_month_paid_amount = v_amount
+  WHERE id = p_bill_id;
+
+  IF v_bill.invoice_account_id IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT transaction_id INTO v_transaction_id
+  FROM bill_payments
+  WHERE bill_id = p_bill_id AND period = v_period;
+
+  IF v_transaction_id IS NOT NULL THEN
+    -- A divisao acompanha o novo valor (trigger transactions_resplit)
+    UPDATE transactions
+    SET
+      amount = v_amount,
+      date = (v_paid_at AT TIME ZONE app_timezone())::DATE,
+      category_id = v_bill.category_id,
+      account_id = v_bill.account_id
+    WHERE id = v_transaction_id;
+  ELSE
+    INSERT INTO transactions (
+      household_id, category_id, account_id, description, amount, type, date, bill_id, paid_by, created_by
+    ) VALUES (
+      v_bill.household_id,
+      v_bill.category_id,
+      v_bill.account_id,
+      v_bill.name,
+      v_amount,
+      'expense',
+      (v_paid_at AT TIME ZONE app_timezone())::DATE,
+      v_bill.id,
+      auth.uid(),
+      auth.uid()
+    )
+    RETURNING id INTO v_transaction_id;
+
+    IF v_bill.split_type IS NOT NULL THEN
+      PERFORM set_transaction_split(v_transaction_id, v_bill.split_type, v_bill.split_shares);
+    END IF;
+
+    UPDATE bill_payments
+    SET transaction_id = v_transaction_id
+    WHERE bill_id = p_bill_id AND period = v_period;
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,367 @@
+-- ==========================================
+-- HOMEOPS - Contas anuais, bimestrais, trimestrais e parceladas
+-- ==========================================
+
+-- Agendamento da conta. Mensal sem first_due_date continua usando due_day;
+-- as demais partem do primeiro vencimento (IPTU em 10x a partir de fevereiro,
+-- seguro anual). next_due_date e a ocorrencia em aberto, calculada no banco,
+-- e bills.current_month_* passa a espelhar essa ocorrencia
+ALTER TABLE bills
+  ADD COLUMN IF NOT EXISTS frequency TEXT NOT NULL DEFAULT 'monthly'
+    CHECK (frequency IN ('monthly', 'bimonthly', 'quarterly', 'yearly', 'installments')),
+  ADD COLUMN IF NOT EXISTS first_due_date DATE,
+  ADD COLUMN IF NOT EXISTS installment_count INTEGER CHECK (installment_count BETWEEN 2 AND 48),
+  ADD COLUMN IF NOT EXISTS next_due_date DATE;
+
+ALTER TABLE bills DROP CONSTRAINT IF EXISTS bills_schedule_check;
+ALTER TABLE bills
+  ADD CONSTRAINT bills_schedule_check CHECK (
+    (frequency = 'monthly' OR first_due_date IS NOT NULL)
+    AND ((frequency = 'installments') = (installment_count IS NOT NULL))
+  );
+
+CREATE INDEX IF NOT EXISTS idx_bills_next_due ON bills(household_id, next_due_date);
+
+-- Funcao: Primeira ocorrencia com vencimento no mes p_period ou depois.
+-- NULL = sem dia de vencimento ou parcelas encerradas.
+-- Manter igual a getNextBillDueDate() em lib/bills.ts
+CREATE OR REPLACE FUNCTION bill_next_due_date(p_bill bills, p_period DATE)
+RETURNS DATE AS $$
+DECLARE
+  v_first DATE;
+  v_step INTEGER;
+  v_diff INTEGER;
+  v_index INTEGER;
+BEGIN
+  -- Conta avulsa vence uma vez: no primeiro vencimento ou no mes em que foi criada
+  IF NOT p_bill.is_recurring THEN
+    IF p_bill.first_due_date IS NOT NULL THEN
+      RETURN p_bill.first_due_date;
+    END IF;
+    IF p_bill.due_day IS NULL THEN
+      RETURN NULL;
+    END IF;
+    RETURN bill_period_due_date(
+      date_trunc('month', COALESCE(p_bill.created_at, NOW()) AT TIME ZONE app_timezone())::DATE,
+      p_bill.due_day
+    );
+  END IF;
+
+  IF p_bill.first_due_date IS NULL THEN
+    IF p_bill.due_day IS NULL THEN
+      RETURN NULL;
+    END IF;
+    RETURN bill_period_due_date(p_period, p_bill.due_day);
+  END IF;
+
+  v_first := date_trunc('month', p_bill.first_due_date)::DATE;
+  v_step := CASE p_bill.frequency
+    WHEN 'bimonthly' THEN 2
+    WHEN 'quarterly' THEN 3
+    WHEN 'yearly' THEN 12
+    ELSE 1
+  END;
+  v_diff := ((EXTRACT(YEAR FROM p_period) - EXTRACT(YEAR FROM v_first)) * 12
+    + EXTRACT(MONTH FROM p_period) - EXTRACT(MONTH FROM v_first))::INTEGER;
+  v_index := GREATEST(0, CEIL(v_diff::NUMERIC / v_step))::INTEGER;
+
+  IF p_bill.frequency = 'installments' AND v_index >= p_bill.installment_count THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN bill_period_due_date(
+    (v_first + make_interval(months => v_index * v_step))::DATE,
+    EXTRACT(DAY FROM p_bill.first_due_date)::INTEGER
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Funcao: Mes (period de bill_payments) da ocorrencia em aberto
+CREATE OR REPLACE FUNCTION bill_occurrence_period(p_bill bills)
+RETURNS DATE AS $$
+  SELECT COALESCE(date_trunc('month', p_bill.next_due_date)::DATE, bill_current_period());
+$$ LANGUAGE sql STABLE;
+
+-- Funcao: Mes a partir do qual buscar a ocorrencia em aberto. Mensais
+-- viram todo mes (o mes anterior fica atrasado no historico); nas demais a
+-- ocorrencia vencida continua em aberto ate ser paga. p_keep_paid mantem
+-- tambem a ja paga: so a virada avanca (pagar nao pula para a proxima)
+CREATE OR REPLACE FUNCTION bill_open_from_period(p_bill bills, p_keep_paid BOOLEAN DEFAULT TRUE)
+RETURNS DATE AS $$
+  SELECT CASE
+    WHEN p_bill.frequency <> 'monthly'
+      AND p_bill.next_due_date < bill_current_period()
+      AND (p_keep_paid OR p_bill.current_month_status IS DISTINCT FROM 'paid')
+    THEN date_trunc('month', p_bill.next_due_date)::DATE
+    ELSE bill_current_period()
+  END;
+$$ LANGUAGE sql STABLE;
+
+-- Funcao: Calcula a ocorrencia em aberto. Quando ela muda de mes, o espelho
+-- current_month_* passa a ser o da nova ocorrencia
+CREATE OR REPLACE FUNCTION set_bill_next_due_date()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_today DATE := (NOW() AT TIME ZONE app_timezone())::DATE;
+  v_payment bill_payments%ROWTYPE;
+BEGIN
+  IF NEW.first_due_date IS NOT NULL THEN
+    NEW.due_day := EXTRACT(DAY FROM NEW.first_due_date)::INTEGER;
+  END IF;
+
+  NEW.next_due_date := bill_next_due_date(NEW, bill_open_from_period(NEW));
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.next_due_date IS NOT NULL
+    AND date_trunc('month', NEW.next_due_date) IS DISTINCT FROM date_trunc('month', OLD.next_due_date)
+  THEN
+    SELECT * INTO v_payment
+    FROM bill_payments
+    WHERE bill_id = NEW.id AND period = date_trunc('month', NEW.next_due_date)::DATE;
+
+    NEW.current_month_status := COALESCE(v_payment.status, 'pending');
+    NEW.current_month_paid_at := v_payment.paid_at;
+    NEW.current_month_paid_amount := v_payment.paid_amount;
+  END IF;
+
+  IF NEW.current_month_status IN ('pending', 'overdue') THEN
+    NEW.current_month_status := CASE WHEN NEW.next_due_date < v_today THEN 'overdue' ELSE 'pending' END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bills_next_due_date ON bills;
+CREATE TRIGGER bills_next_due_date
+  BEFORE INSERT OR UPDATE ON bills
+  FOR EACH ROW EXECUTE FUNCTION set_bill_next_due_date();
+
+-- record_bill_payment (011): grava no mes da ocorrencia em aberto, nao no
+-- mes atual. Parcelas encerradas nao abrem mais meses
+CREATE OR REPLACE FUNCTION record_bill_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_period DATE := bill_occurrence_period(NEW);
+BEGIN
+  IF NEW.frequency = 'installments' AND NEW.next_due_date IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO bill_payments (
+    bill_id, household_id, period, due_date, status, amount, paid_amount, paid_at, paid_by
+  ) VALUES (
+    NEW.id,
+    NEW.household_id,
+    v_period,
+    COALESCE(NEW.next_due_date, bill_period_due_date(v_period, NEW.due_day)),
+    COALESCE(NEW.current_month_status, 'pending'),
+    NEW.amount,
+    NEW.current_month_paid_amount,
+    NEW.current_month_paid_at,
+    CASE WHEN NEW.current_month_status = 'paid' THEN auth.uid() END
+  )
+  ON CONFLICT (bill_id, period) DO UPDATE SET
+    due_date = EXCLUDED.due_date,
+    status = EXCLUDED.status,
+    amount = EXCLUDED.amount,
+    paid_amount = EXCLUDED.paid_amount,
+    paid_at = EXCLUDED.paid_at,
+    -- A virada (sem usuario) nao apaga quem pagou
+    paid_by = CASE
+      WHEN EXCLUDED.status = 'paid' THEN COALESCE(bill_payments.paid_by, EXCLUDED.paid_by)
+    END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bills_record_payment ON bills;
+CREATE TRIGGER bills_record_payment
+  AFTER INSERT OR UPDATE OF amount, due_day, next_due_date, current_month_status, current_month_paid_at, current_month_paid_amount
+  ON bills
+  FOR EACH ROW EXECUTE FUNCTION record_bill_payment();
+
+-- open_bill_periods (011): a virada avanca a ocorrencia em aberto de cada
+-- conta (o trigger acima reabre o espelho) e abre o mes dela no historico.
+-- Anual ou parcela vencida sem pagamento continua sendo a ocorrencia em aberto
+CREATE OR REPLACE FUNCTION open_bill_periods()
+RETURNS VOID AS $$
+DECLARE
+  v_period DATE := bill_current_period();
+  v_today DATE := (NOW() AT TIME ZONE app_timezone())::DATE;
+BEGIN
+  UPDATE bills b
+  SET next_due_date = bill_next_due_date(b, bill_open_from_period(b, FALSE))
+  WHERE b.is_recurring
+    AND b.next_due_date IS DISTINCT FROM bill_next_due_date(b, bill_open_from_period(b, FALSE));
+
+  INSERT INTO bill_payments (bill_id, household_id, period, due_date, status, amount)
+  SELECT
+    b.id,
+    b.household_id,
+    bill_occurrence_period(b),
+    COALESCE(b.next_due_date, bill_period_due_date(v_period, b.due_day)),
+    'pending',
+    b.amount
+  FROM bills b
+  WHERE b.is_recurring
+    AND NOT (b.frequency = 'installments' AND b.next_due_date IS NULL)
+  ON CONFLICT (bill_id, period) DO NOTHING;
+
+  UPDATE bill_payments
+  SET status = 'overdue'
+  WHERE status = 'pending' AND due_date < v_today;
+
+  UPDATE bills b
+  SET
+    current_month_status = p.status,
+    current_month_paid_at = p.paid_at,
+    current_month_paid_amount = p.paid_amount
+  FROM bill_payments p
+  WHERE p.bill_id = b.id
+    AND p.period = bill_occurrence_period(b)
+    AND b.is_recurring
+    AND (
+      b.current_month_status IS DISTINCT FROM p.status
+      OR b.current_month_paid_at IS DISTINCT FROM p.paid_at
+      OR b.current_month_paid_amount IS DISTINCT FROM p.paid_amount
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION open_bill_periods() FROM PUBLIC, anon, authenticated;
+
+-- pay_bill (017): paga a ocorrencia em aberto (uma conta anual pode ser paga
+-- antes do mes de vencimento)
+CREATE OR REPLACE FUNCTION pay_bill(
+  p_bill_id UUID,
+  p_amount DECIMAL DEFAULT NULL,
+  p_paid_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_bill bills%ROWTYPE;
+  v_period DATE;
+  v_amount DECIMAL(10,2);
+  v_paid_at TIMESTAMPTZ;
+  v_transaction_id UUID;
+BEGIN
+  -- RLS: so encontra contas da casa do usuario
+  SELECT * INTO v_bill FROM bills WHERE id = p_bill_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conta nao encontrada';
+  END IF;
+
+  IF v_bill.frequency = 'installments' AND v_bill.next_due_date IS NULL THEN
+    RAISE EXCEPTION 'Todas as parcelas desta conta ja venceram';
+  END IF;
+
+  v_period := bill_occurrence_period(v_bill);
+  v_amount := COALESCE(p_amount, v_bill.amount);
+  v_paid_at := COALESCE(
+    p_paid_at,
+    CASE WHEN v_bill.current_month_status = 'paid' THEN v_bill.current_month_paid_at END,
+    NOW()
+  );
+
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'Valor pago invalido';
+  END IF;
+
+  -- Registra a ocorrencia no historico (trigger bills_record_payment)
+  UPDATE bills
+  SET
+    current_month_status = 'paid',
+    current_month_paid_at = v_paid_at,
+    current_month_paid_amount = v_amount
+  WHERE id = p_bill_id;
+
+  IF v_bill.invoice_account_id IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT transaction_id INTO v_transaction_id
+  FROM bill_payments
+  WHERE bill_id = p_bill_id AND period = v_period;
+
+  IF v_transaction_id IS NOT NULL THEN
+    -- A divisao acompanha o novo valor (trigger transactions_resplit)
+    UPDATE transactions
+    SET
+      amount = v_amount,
+      date = (v_paid_at AT TIME ZONE app_timezone())::DATE,
+      category_id = v_bill.category_id,
+      account_id = v_bill.account_id
+    WHERE id = v_transaction_id;
+  ELSE
+    INSERT INTO transactions (
+      household_id, category_id, account_id, description, amount, type, date, bill_id, paid_by, created_by
+    ) VALUES (
+      v_bill.household_id,
+      v_bill.category_id,
+      v_bill.account_id,
+      v_bill.name,
+      v_amount,
+      'expense',
+      (v_paid_at AT TIME ZONE app_timezone())::DATE,
+      v_bill.id,
+      auth.uid(),
+      auth.uid()
+    )
+    RETURNING id INTO v_transaction_id;
+
+    IF v_bill.split_type IS NOT NULL THEN
+      PERFORM set_transaction_split(v_transaction_id, v_bill.split_type, v_bill.split_shares);
+    END IF;
+
+    UPDATE bill_payments
+    SET transaction_id = v_transaction_id
+    WHERE bill_id = p_bill_id AND period = v_period;
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- unpay_bill (012): desfaz o pagamento da ocorrencia em aberto
+CREATE OR REPLACE FUNCTION unpay_bill(p_bill_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_bill bills%ROWTYPE;
+  v_period DATE;
+  v_today DATE := (NOW() AT TIME ZONE app_timezone())::DATE;
+  v_transaction_id UUID;
+BEGIN
+  SELECT * INTO v_bill FROM bills WHERE id = p_bill_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conta nao encontrada';
+  END IF;
+
+  v_period := bill_occurrence_period(v_bill);
+
+  SELECT transaction_id INTO v_transaction_id
+  FROM bill_payments
+  WHERE bill_id = p_bill_id AND period = v_period;
+
+  IF v_transaction_id IS NOT NULL THEN
+    DELETE FROM transactions WHERE id = v_transaction_id;
+  END IF;
+
+  UPDATE bills
+  SET
+    current_month_status = CASE
+      WHEN v_bill.next_due_date < v_today THEN 'overdue'
+      ELSE 'pending'
+    END,
+    current_month_paid_at = NULL,
+    current_month_paid_amount = NULL
+  WHERE id = p_bill_id;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Contas existentes sao mensais: calcula a ocorrencia em aberto
+UPDATE bills b
+SET next_due_date = bill_next_due_date(b, bill_current_period());
@@ -0,0 +1,9 @@
+-- ==========================================
+-- HOMEOPS - Codigo de pagamento das contas (boleto e Pix)
+-- ==========================================
+
+-- Linha digitavel ou Pix copia e cola colado ao cadastrar a conta. O app
+-- valida e extrai valor e vencimento (lib/paymentCodes.ts); o banco so guarda
+-- o codigo para ser copiado de novo na hora de pagar
+ALTER TABLE bills
+  ADD COLUMN IF NOT EXISTS payment_code TEXT;
@@ -0,0 +1,200 @@
+-- ==========================================
+-- HOMEOPS - Previsao de caixa (saldo das contas e receitas fixas)
+-- ==========================================
+
+-- Saldo conferido da conta corrente ou dinheiro e o dia da conferencia.
+-- O saldo atual soma os lancamentos da conta depois desse dia
+ALTER TABLE payment_accounts
+  ADD COLUMN IF NOT EXISTS balance DECIMAL(10,2),
+  ADD COLUMN IF NOT EXISTS balance_date DATE;
+
+ALTER TABLE payment_accounts DROP CONSTRAINT IF EXISTS payment_accounts_balance_check;
+ALTER TABLE payment_accounts
+  ADD CONSTRAINT payment_accounts_balance_check CHECK (
+    (balance IS NULL) = (balance_date IS NULL)
+    AND (balance IS NULL OR type <> 'credit_card')
+  );
+
+-- Receita que se repete todo mes no mesmo dia (salario, aluguel recebido).
+-- Entra na previsao; o lancamento continua sendo registrado ao receber
+CREATE TABLE IF NOT EXISTS recurring_incomes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  day_of_month INTEGER NOT NULL CHECK (day_of_month BETWEEN 1 AND 31),
+  account_id UUID REFERENCES payment_accounts(id) ON DELETE SET NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_incomes_household ON recurring_incomes(household_id, day_of_month);
+
+ALTER TABLE recurring_incomes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage household recurring incomes"
+  ON recurring_incomes FOR ALL
+  USING (
+    household_id IN (SELECT household_id FROM profiles WHERE id = auth.uid())
+  );
+
+DROP TRIGGER IF EXISTS recurring_incomes_updated_at ON recurring_incomes;
+CREATE TRIGGER recurring_incomes_updated_at BEFORE UPDATE ON recurring_incomes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Conta que pagou a ocorrencia. Fatura de cartao nao gera lancamento
+-- (as compras ja foram lancadas): e por aqui que ela sai do saldo
+ALTER TABLE bill_payments
+  ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES payment_accounts(id) ON DELETE SET NULL;
+
+-- pay_bill (018): p_account_id = conta usada no pagamento (padrao: a da
+-- conta). Com saldo conferido na casa o pagamento precisa de uma conta,
+-- senao o saldo nunca cai
+DROP FUNCTION IF EXISTS pay_bill(UUID, DECIMAL, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION pay_bill(
+  p_bill_id UUID,
+  p_amount DECIMAL DEFAULT NULL,
+  p_paid_at TIMESTAMPTZ DEFAULT NULL,
+  p_account_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_bill bills%ROWTYPE;
+  v_period DATE;
+  v_amount DECIMAL(10,2);
+  v_paid_at TIMESTAMPTZ;
+  v_account_id UUID;
+  v_transaction_id UUID;
+BEGIN
+  -- RLS: so encontra contas da casa do usuario
+  SELECT * INTO v_bill FROM bills WHERE id = p_bill_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conta nao encontrada';
+  END IF;
+
+  IF v_bill.frequency = 'installments' AND v_bill.next_due_date IS NULL THEN
+    RAISE EXCEPTION 'Todas as parcelas desta conta ja venceram';
+  END IF;
+
+  v_period := bill_occurrence_period(v_bill);
+  v_amount := COALESCE(p_amount, v_bill.amount);
+  v_paid_at := COALESCE(
+    p_paid_at,
+    CASE WHEN v_bill.current_month_status = 'paid' THEN v_bill.current_month_paid_at END,
+    NOW()
+  );
+  v_account_id := COALESCE(
+    p_account_id,
+    v_bill.account_id,
+    (SELECT account_id FROM bill_payments WHERE bill_id = p_bill_id AND period = v_period)
+  );
+
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'Valor pago invalido';
+  END IF;
+
+  IF v_account_id IS NULL AND EXISTS (
+    SELECT 1 FROM payment_accounts WHERE household_id = v_bill.household_id AND balance IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Escolha a conta usada no pagamento';
+  END IF;
+
+  IF v_bill.invoice_account_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM payment_accounts WHERE id = v_account_id AND type = 'credit_card'
+  ) THEN
+    RAISE EXCEPTION 'A fatura deve ser paga com conta corrente ou dinheiro';
+  END IF;
+
+  -- Registra a ocorrencia no historico (trigger bills_record_payment)
+  UPDATE bills
+  SET
+    current_month_status = 'paid',
+    current_month_paid_at = v_paid_at,
+    current_month_paid_amount = v_amount
+  WHERE id = p_bill_id;
+
+  UPDATE bill_payments
+  SET account_id = v_account_id
+  WHERE bill_id = p_bill_id AND period = v_period;
+
+  IF v_bill.invoice_account_id IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT transaction_id INTO v_transaction_id
+  FROM bill_payments
+  WHERE bill_id = p_bill_id AND period = v_period;
+
+  IF v_transaction_id IS NOT NULL THEN
+    -- A divisao acompanha o novo valor (trigger transactions_resplit)
+    UPDATE transactions
+    SET
+      amount = v_amount,
+      date = (v_paid_at AT TIME ZONE app_timezone())::DATE,
+      category_id = v_bill.category_id,
+      account_id = v_account_id
+    WHERE id = v_transaction_id;
+  ELSE
+    INSERT INTO transactions (
+      household_id, category_id, account_id, description, amount, type, date, bill_id, paid_by, created_by
+    ) VALUES (
+      v_bill.household_id,
+      v_bill.category_id,
+      v_account_id,
+      v_bill.name,
+      v_amount,
+      'expense',
+      (v_paid_at AT TIME ZONE app_timezone())::DATE,
+      v_bill.id,
+      auth.uid(),
+      auth.uid()
+    )
+    RETURNING id INTO v_transaction_id;
+
+    IF v_bill.split_type IS NOT NULL THEN
+      PERFORM set_transaction_split(v_transaction_id, v_bill.split_type, v_bill.split_shares);
+    END IF;
+
+    UPDATE bill_payments
+    SET transaction_id = v_transaction_id
+    WHERE bill_id = p_bill_id AND period = v_period;
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Funcao: Saldo atual das contas com saldo conferido: lancamentos da conta
+-- e faturas de cartao pagas com ela. Datas futuras ficam de fora (ainda nao
+-- sairam da conta)
+CREATE OR REPLACE FUNCTION get_account_balances(p_household_id UUID)
+RETURNS TABLE (
+  account_id UUID,
+  balance DECIMAL
+) AS $$
+  SELECT
+    a.id AS account_id,
+    a.balance
+      + COALESCE((
+        SELECT SUM(CASE WHEN t.type = 'income' THEN t.amount ELSE -t.amount END)
+        FROM transactions t
+        WHERE t.account_id = a.id
+          AND t.date > a.balance_date
+          AND t.date <= (NOW() AT TIME ZONE app_timezone())::DATE
+      ), 0)
+      - COALESCE((
+        SELECT SUM(COALESCE(p.paid_amount, p.amount))
+        FROM bill_payments p
+        WHERE p.account_id = a.id
+          AND p.status = 'paid'
+          AND EXISTS (SELECT 1 FROM bills b WHERE b.id = p.bill_id AND b.invoice_account_id IS NOT NULL)
+          AND (p.paid_at AT TIME ZONE app_timezone())::DATE > a.balance_date
+          AND (p.paid_at AT TIME ZONE app_timezone())::DATE <= (NOW() AT TIME ZONE app_timezone())::DATE
+      ), 0) AS balance
+  FROM payment_accounts a
+  WHERE a.household_id = p_household_id
+    AND a.balance IS NOT NULL;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,65 @@
+-- ==========================================
+-- HOMEOPS - Conclusao de tarefa atomica
+-- ==========================================
+-- Historico, proxima ocorrencia, rodizio e checklist mudam na mesma
+-- transacao: se qualquer passo falhar nada e gravado.
+
+-- Funcao: Conclui a ocorrencia p_due_date da tarefa. A proxima data e o
+-- proximo morador vem do app (lib/recurrence.ts e lib/rotation.ts);
+-- p_next_due_date NULL = tarefa avulsa, fica concluida
+CREATE OR REPLACE FUNCTION complete_task(
+  p_task_id UUID,
+  p_completed_by UUID,
+  p_due_date DATE,
+  p_next_due_date DATE DEFAULT NULL,
+  p_next_assigned_to UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_task tasks%ROWTYPE;
+  v_completed_at TIMESTAMPTZ := NOW();
+  v_completion_id UUID;
+BEGIN
+  -- RLS: so encontra tarefas da casa do usuario
+  SELECT * INTO v_task FROM tasks WHERE id = p_task_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tarefa nao encontrada';
+  END IF;
+
+  -- Outro aparelho ja concluiu (ou a data mudou): nao conta duas vezes
+  IF v_task.status <> 'pending' OR v_task.due_date IS DISTINCT FROM p_due_date THEN
+    RAISE EXCEPTION 'Esta ocorrencia da tarefa ja foi concluida ou remarcada';
+  END IF;
+
+  INSERT INTO task_completions (task_id, completed_by, completed_at, due_date, notes)
+  VALUES (p_task_id, p_completed_by, v_completed_at, p_due_date, NULLIF(trim(p_notes), ''))
+  RETURNING id INTO v_completion_id;
+
+  IF p_next_due_date IS NULL THEN
+    UPDATE tasks
+    SET
+      status = 'completed',
+      completed_at = v_completed_at,
+      completed_by = p_completed_by
+    WHERE id = p_task_id;
+  ELSE
+    UPDATE tasks
+    SET
+      status = 'pending',
+      next_occurrence = p_next_due_date,
+      due_date = p_next_due_date,
+      completed_at = NULL,
+      completed_by = NULL,
+      assigned_to = COALESCE(p_next_assigned_to, assigned_to)
+    WHERE id = p_task_id;
+
+    -- Checklist recomeca na proxima ocorrencia
+    UPDATE task_checklist_items
+    SET is_done = FALSE, done_by = NULL, done_at = NULL
+    WHERE task_id = p_task_id;
+  END IF;
+
+  RETURN v_completion_id;
+END;
+$$ LANGUAGE plpgsql;
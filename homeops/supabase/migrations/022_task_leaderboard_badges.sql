@@ -0,0 +1,74 @@
+-- ==========================================
+-- HOMEOPS - Badges do ranking calculados no banco
+-- ==========================================
+-- O ranking passa a trazer os badges de cada morador sobre todo o
+-- historico, sem o app carregar um ano de conclusoes para deriva-los.
+
+-- O tipo de retorno muda (coluna badges)
+DROP FUNCTION IF EXISTS get_task_leaderboard(UUID, TIMESTAMPTZ);
+
+-- Funcao: Ranking da casa a partir de uma data (p_since = inicio da semana).
+-- Moradores que ja concluiram alguma tarefa aparecem mesmo sem pontos no
+-- periodo. Ids dos badges: manter iguais a BADGES em lib/gamification.ts
+CREATE OR REPLACE FUNCTION get_task_leaderboard(p_household_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (
+  user_id UUID,
+  points BIGINT,
+  completions BIGINT,
+  on_time BIGINT,
+  current_streak INTEGER,
+  badges TEXT[]
+) AS $$
+  WITH history AS (
+    SELECT c.*
+    FROM task_completions c
+    JOIN tasks t ON t.id = c.task_id
+    WHERE t.household_id = p_household_id
+      AND c.completed_by IS NOT NULL
+  ),
+  -- Quem fez mais pontos nos 7 dias antes de p_since
+  last_week_champion AS (
+    SELECT h.completed_by
+    FROM history h
+    WHERE h.completed_at >= p_since - INTERVAL '7 days'
+      AND h.completed_at < p_since
+    GROUP BY h.completed_by
+    HAVING SUM(h.points + h.bonus_points) > 0
+    ORDER BY SUM(h.points + h.bonus_points) DESC
+    LIMIT 1
+  ),
+  totals AS (
+    SELECT
+      h.completed_by AS user_id,
+      COALESCE(SUM(h.points + h.bonus_points) FILTER (WHERE h.completed_at >= p_since), 0) AS points,
+      COUNT(*) FILTER (WHERE h.completed_at >= p_since) AS completions,
+      COUNT(*) FILTER (WHERE h.completed_at >= p_since AND h.on_time) AS on_time,
+      (
+        SELECT last.streak
+        FROM history last
+        WHERE last.completed_by = h.completed_by
+        ORDER BY last.completed_at DESC
+        LIMIT 1
+      ) AS current_streak,
+      SUM(h.points + h.bonus_points) AS total_points,
+      MAX(h.streak) AS best_streak
+    FROM history h
+    GROUP BY h.completed_by
+  )
+  SELECT
+    t.user_id,
+    t.points,
+    t.completions,
+    t.on_time,
+    t.current_streak,
+    array_remove(ARRAY[
+      'first_task',
+      CASE WHEN t.best_streak >= 5 THEN 'streak_5' END,
+      CASE WHEN t.best_streak >= 20 THEN 'streak_20' END,
+      CASE WHEN t.total_points >= 100 THEN 'points_100' END,
+      CASE WHEN t.total_points >= 500 THEN 'points_500' END,
+      CASE WHEN t.user_id IN (SELECT completed_by FROM last_week_champion) THEN 'weekly_champion' END
+    ], NULL) AS badges
+  FROM totals t
+  ORDER BY t.points DESC, t.completions DESC;
+$$ LANGUAGE sql STABLE;
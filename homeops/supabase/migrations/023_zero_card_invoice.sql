@@ -0,0 +1,41 @@
+-- ==========================================
+-- HOMEOPS - Fatura de cartao zerada
+-- ==========================================
+-- Fatura sem compras nao tem o que pagar (pay_bill recusa valor zero) e
+-- ficaria atrasada todo mes: ela fica quitada com valor pago 0 e reabre
+-- se uma compra entrar no mesmo fechamento.
+
+-- refresh_card_invoice (017): quita a fatura zerada (paid_amount = 0 so
+-- acontece aqui) e reabre a quitada assim quando o valor volta a ser positivo
+CREATE OR REPLACE FUNCTION refresh_card_invoice(p_account_id UUID)
+RETURNS VOID AS $$
+  UPDATE bills b
+  SET
+    amount = s.total,
+    current_month_status = CASE
+      WHEN s.total <= 0 THEN 'paid'
+      WHEN b.current_month_paid_amount = 0 THEN 'pending'
+      ELSE b.current_month_status
+    END,
+    current_month_paid_at = CASE
+      WHEN s.total <= 0 THEN COALESCE(b.current_month_paid_at, NOW())
+      WHEN b.current_month_paid_amount = 0 THEN NULL
+      ELSE b.current_month_paid_at
+    END,
+    current_month_paid_amount = CASE
+      WHEN s.total <= 0 THEN 0
+      WHEN b.current_month_paid_amount = 0 THEN NULL
+      ELSE b.current_month_paid_amount
+    END
+  FROM (
+    SELECT COALESCE(SUM(CASE WHEN t.type = 'expense' THEN t.amount ELSE -t.amount END), 0) AS total
+    FROM transactions t
+    WHERE t.account_id = p_account_id
+      AND t.statement_month = bill_current_period()
+  ) s
+  WHERE b.invoice_account_id = p_account_id
+    AND (b.current_month_status <> 'paid' OR b.current_month_paid_amount = 0);
+$$ LANGUAGE sql;
+
+-- Faturas zeradas em aberto
+SELECT refresh_card_invoice(id) FROM payment_accounts WHERE type = 'credit_card';
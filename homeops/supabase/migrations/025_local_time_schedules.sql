@@ -0,0 +1,58 @@
+-- ==========================================
+-- HOMEOPS - Agendamentos e pontuacao no fuso configurado
+-- ==========================================
+-- Os agendamentos rodavam as 03h UTC (meia-noite de Brasilia) e a
+-- pontuacao das tarefas usava Brasilia fixo, mesmo com outro app.timezone.
+
+-- award_task_completion (007): dia da conclusao no fuso da casa
+CREATE OR REPLACE FUNCTION award_task_completion()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_task tasks%ROWTYPE;
+  v_previous_streak INTEGER;
+BEGIN
+  SELECT * INTO v_task FROM tasks WHERE id = NEW.task_id;
+
+  NEW.completed_at := COALESCE(NEW.completed_at, NOW());
+  NEW.due_date := COALESCE(NEW.due_date, v_task.due_date);
+  NEW.points := COALESCE(v_task.points, task_default_points(v_task.priority, v_task.estimated_minutes));
+  -- Dia da conclusao no fuso da casa (app_timezone)
+  NEW.on_time := NEW.due_date IS NULL
+    OR (NEW.completed_at AT TIME ZONE app_timezone())::DATE <= NEW.due_date;
+
+  SELECT c.streak INTO v_previous_streak
+  FROM task_completions c
+  JOIN tasks t ON t.id = c.task_id
+  WHERE c.completed_by = NEW.completed_by
+    AND t.household_id = v_task.household_id
+    AND c.completed_at <= NEW.completed_at
+  ORDER BY c.completed_at DESC
+  LIMIT 1;
+
+  IF NEW.on_time THEN
+    NEW.streak := COALESCE(v_previous_streak, 0) + 1;
+  ELSE
+    NEW.streak := 0;
+  END IF;
+
+  -- Bonus: +1 ponto por conclusao seguida no prazo, ate +5
+  NEW.bonus_points := LEAST(GREATEST(NEW.streak - 1, 0), 5);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Agendamento: de hora em hora, mas cada job so age na primeira hora do dia
+-- no fuso da casa (00:04 faturas, 00:05 virada), qualquer que seja o fuso.
+-- cron.schedule com o mesmo nome substitui o job de 011 e 017
+SELECT cron.schedule(
+  'refresh-card-invoices',
+  '4 * * * *',
+  $$SELECT refresh_all_card_invoices() WHERE EXTRACT(HOUR FROM NOW() AT TIME ZONE app_timezone()) = 0$$
+);
+
+SELECT cron.schedule(
+  'open-bill-periods',
+  '5 * * * *',
+  $$SELECT open_bill_periods() WHERE EXTRACT(HOUR FROM NOW() AT TIME ZONE app_timezone()) = 0$$
+);
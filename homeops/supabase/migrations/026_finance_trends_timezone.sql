@@ -0,0 +1,62 @@
+-- ==========================================
+-- HOMEOPS - Tendencias ate o mes atual no fuso da casa
+-- ==========================================
+-- get_finance_trends e get_category_trends (016) usavam CURRENT_DATE, o dia
+-- do servidor (UTC): na virada o ultimo mes da serie nao era o mes atual.
+
+-- Funcao: Receitas e despesas dos ultimos p_months meses (inclui o mes
+-- de p_until). Meses sem lancamentos voltam zerados
+CREATE OR REPLACE FUNCTION get_finance_trends(
+  p_household_id UUID,
+  p_months INTEGER DEFAULT 6,
+  p_until DATE DEFAULT (NOW() AT TIME ZONE app_timezone())::DATE
+)
+RETURNS TABLE (
+  month DATE,
+  total_income DECIMAL,
+  total_expenses DECIMAL
+) AS $$
+  WITH months AS (
+    SELECT generate_series(
+      date_trunc('month', p_until)::DATE - make_interval(months => p_months - 1),
+      date_trunc('month', p_until)::DATE,
+      INTERVAL '1 month'
+    )::DATE AS month
+  )
+  SELECT
+    m.month,
+    COALESCE(SUM(t.amount) FILTER (WHERE t.type = 'income'), 0) AS total_income,
+    COALESCE(SUM(t.amount) FILTER (WHERE t.type = 'expense'), 0) AS total_expenses
+  FROM months m
+  LEFT JOIN transactions t
+    ON t.household_id = p_household_id
+    AND t.date >= m.month
+    AND t.date < m.month + INTERVAL '1 month'
+  GROUP BY m.month
+  ORDER BY m.month;
+$$ LANGUAGE sql STABLE;
+
+-- Funcao: Despesas por categoria e mes no mesmo intervalo
+-- (category_id NULL = sem categoria)
+CREATE OR REPLACE FUNCTION get_category_trends(
+  p_household_id UUID,
+  p_months INTEGER DEFAULT 6,
+  p_until DATE DEFAULT (NOW() AT TIME ZONE app_timezone())::DATE
+)
+RETURNS TABLE (
+  month DATE,
+  category_id UUID,
+  total DECIMAL
+) AS $$
+  SELECT
+    date_trunc('month', t.date)::DATE AS month,
+    t.category_id,
+    SUM(t.amount) AS total
+  FROM transactions t
+  WHERE t.household_id = p_household_id
+    AND t.type = 'expense'
+    AND t.date >= date_trunc('month', p_until)::DATE - make_interval(months => p_months - 1)
+    AND t.date < date_trunc('month', p_until)::DATE + INTERVAL '1 month'
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,78 @@
+-- ==========================================
+-- HOMEOPS - Divisao so entre moradores da casa
+-- ==========================================
+-- set_transaction_split (014) aceitava qualquer user_id: uma parte de
+-- alguem de outra casa distorcia get_household_balances.
+
+CREATE OR REPLACE FUNCTION set_transaction_split(
+  p_transaction_id UUID,
+  p_split_type TEXT,
+  p_shares JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  v_amount DECIMAL(10,2);
+  v_household_id UUID;
+  v_count INTEGER := jsonb_array_length(COALESCE(p_shares, '[]'::jsonb));
+  v_total DECIMAL(10,2);
+BEGIN
+  SELECT amount, household_id INTO v_amount, v_household_id
+  FROM transactions WHERE id = p_transaction_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lancamento nao encontrado';
+  END IF;
+
+  DELETE FROM transaction_splits WHERE transaction_id = p_transaction_id;
+
+  IF p_split_type IS NULL OR v_count = 0 THEN
+    UPDATE transactions SET split_type = NULL WHERE id = p_transaction_id;
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_shares) s
+    WHERE NOT EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = (s->>'user_id')::UUID
+        AND p.household_id = v_household_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'A divisao so pode incluir moradores da casa';
+  END IF;
+
+  INSERT INTO transaction_splits (transaction_id, user_id, value, amount)
+  SELECT
+    p_transaction_id,
+    (s->>'user_id')::UUID,
+    (s->>'value')::DECIMAL,
+    CASE p_split_type
+      WHEN 'equal' THEN ROUND(v_amount / v_count, 2)
+      WHEN 'percentage' THEN ROUND(v_amount * (s->>'value')::DECIMAL / 100, 2)
+      ELSE ROUND((s->>'value')::DECIMAL, 2)
+    END
+  FROM jsonb_array_elements(p_shares) s;
+
+  IF p_split_type = 'percentage'
+    AND (SELECT SUM(value) FROM transaction_splits WHERE transaction_id = p_transaction_id) <> 100 THEN
+    RAISE EXCEPTION 'Os percentuais devem somar 100%%';
+  END IF;
+
+  SELECT SUM(amount) INTO v_total FROM transaction_splits WHERE transaction_id = p_transaction_id;
+
+  IF p_split_type = 'amount' AND v_total <> v_amount THEN
+    RAISE EXCEPTION 'Os valores devem somar o total da despesa';
+  END IF;
+
+  UPDATE transaction_splits
+  SET amount = amount + (v_amount - v_total)
+  WHERE id = (
+    SELECT id FROM transaction_splits
+    WHERE transaction_id = p_transaction_id
+    ORDER BY amount DESC
+    LIMIT 1
+  );
+
+  UPDATE transactions SET split_type = p_split_type WHERE id = p_transaction_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -24,6 +24,7 @@ export interface HouseholdMember {
   user_id: string;
   role: 'admin' | 'member';
   joined_at: string;
+  is_away?: boolean;
   user?: User;
 }
 
@@ -50,6 +51,11 @@ export interface TaskCategory {
   is_default: boolean;
 }
 
+export type RecurrenceType = 'daily' | 'weekly' | 'monthly' | 'custom';
+export type MonthlyRecurrenceRule = 'day_of_month' | 'nth_weekday' | 'last_day' | 'last_business_day';
+export type RecurrenceAnchor = 'due_date' | 'completion';
+export type RotationMode = 'completion' | 'weekly';
+
 export interface Task {
   id: string;
   household_id: string;
@@ -58,29 +64,99 @@ export interface Task {
   title: string;
   description?: string | null;
   is_recurring: boolean;
-  recurrence_type?: 'daily' | 'weekly' | 'monthly' | 'custom' | null;
+  recurrence_type?: RecurrenceType | null;
   recurrence_days?: number[] | null;
   recurrence_interval: number;
+  recurrence_monthly_rule?: MonthlyRecurrenceRule | null;
+  recurrence_month_day?: number | null;
+  recurrence_week_of_month?: number | null;
+  recurrence_anchor?: RecurrenceAnchor | null;
   due_date?: string | null;
   due_time?: string | null;
+  reminder_offsets?: number[] | null; // minutos antes; null = padrao
   next_occurrence?: string | null;
   status: 'pending' | 'completed' | 'skipped';
   completed_at?: string | null;
   completed_by?: string | null;
   assigned_to?: string | null;
+  rotation_members?: string[] | null;
+  rotation_mode?: RotationMode | null;
+  rotation_skip_away?: boolean | null;
+  rotation_start_date?: string | null;
   priority: 1 | 2 | 3;
   estimated_minutes?: number | null;
+  points?: number | null;
+  checklist?: TaskChecklistItem[];
   created_by: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface TaskChecklistItem {
+  id: string;
+  task_id: string;
+  title: string;
+  position: number;
+  is_done: boolean;
+  done_by?: string | null;
+  done_at?: string | null;
+  created_at: string;
+}
+
 export interface TaskCompletion {
   id: string;
   task_id: string;
   completed_by: string;
   completed_at: string;
   notes?: string;
+  due_date?: string | null;
+  points?: number;
+  bonus_points?: number;
+  on_time?: boolean;
+  streak?: number;
+  task?: Pick<Task, 'id' | 'title' | 'household_id'>;
+}
+
+// Modelos de rotina (pacotes de tarefas)
+export interface TaskTemplateRecurrence {
+  type: RecurrenceType;
+  interval?: number;
+  days?: number[];
+  monthlyRule?: MonthlyRecurrenceRule;
+  monthDay?: number | null;
+  weekOfMonth?: number | null;
+}
+
+export interface TaskTemplateItem {
+  title: string;
+  description?: string | null;
+  category?: string | null; // nome em task_categories
+  priority: 1 | 2 | 3;
+  estimated_minutes?: number | null;
+  recurrence?: TaskTemplateRecurrence | null;
+  checklist?: string[];
+}
+
+export interface TaskTemplate {
+  id: string;
+  household_id?: string;
+  name: string;
+  description?: string | null;
+  icon: string;
+  items: TaskTemplateItem[];
+  share_code?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+}
+
+// Ranking (RPC get_task_leaderboard)
+export interface LeaderboardEntry {
+  user_id: string;
+  points: number;
+  completions: number;
+  on_time: number;
+  current_streak: number;
+  badges: string[]; // ids de BADGES em lib/gamification.ts
 }
 
 // Maintenance Types
@@ -137,6 +213,9 @@ export interface FinanceCategory {
   is_default: boolean;
 }
 
+// Mensal sem first_due_date usa due_day; as demais partem do primeiro vencimento
+export type BillFrequency = 'monthly' | 'bimonthly' | 'quarterly' | 'yearly' | 'installments';
+
 export interface Bill {
   id: string;
   household_id: string;
@@ -146,9 +225,18 @@ export interface Bill {
   amount: number;
   is_recurring: boolean;
   due_day?: number | null;
-  current_month_status: 'pending' | 'paid' | 'overdue';
+  frequency?: BillFrequency;
+  first_due_date?: string | null;
+  installment_count?: number | null;
+  next_due_date?: string | null; // ocorrencia em aberto, calculada no banco (null = parcelas encerradas)
+  current_month_status: 'pending' | 'paid' | 'overdue'; // status da ocorrencia em aberto
   current_month_paid_at?: string | null;
   current_month_paid_amount?: number | null;
+  split_type?: SplitType | null; // divisao aplicada ao pagar
+  split_shares?: SplitShare[] | null;
+  account_id?: string | null; // conta usada para pagar
+  invoice_account_id?: string | null; // fatura gerada deste cartao
+  payment_code?: string | null; // linha digitavel ou Pix copia e cola
   alert_days_before: number;
   payment_method?: string | null;
   auto_debit: boolean;
@@ -158,6 +246,23 @@ export interface Bill {
   updated_at: string;
 }
 
+// Um mes de uma conta (period = primeiro dia do mes, YYYY-MM-01)
+export interface BillPayment {
+  id: string;
+  bill_id: string;
+  household_id: string;
+  period: string;
+  due_date?: string | null;
+  status: 'pending' | 'paid' | 'overdue';
+  amount: number;
+  paid_amount?: number | null;
+  paid_at?: string | null;
+  paid_by?: string | null;
+  account_id?: string | null; // conta usada no pagamento
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Transaction {
   id: string;
   household_id: string;
@@ -168,12 +273,131 @@ export interface Transaction {
   type: 'expense' | 'income';
   date: string;
   bill_id?: string | null;
+  account_id?: string | null;
+  statement_month?: string | null; // fatura do cartao (YYYY-MM-01), calculada no banco
+  installment_group?: string | null;
+  installment_number?: number | null;
+  installment_count?: number | null;
+  paid_by?: string | null;
+  split_type?: SplitType | null; // null = despesa da casa, fora dos saldos
+  splits?: TransactionSplit[];
   notes?: string | null;
   receipt_url?: string | null;
   created_by: string;
   created_at: string;
 }
 
+// Contas de pagamento (cartao tem fechamento e vencimento)
+export type PaymentAccountType = 'cash' | 'checking' | 'credit_card';
+
+export interface PaymentAccount {
+  id: string;
+  household_id: string;
+  name: string;
+  type: PaymentAccountType;
+  closing_day?: number | null;
+  due_day?: number | null;
+  credit_limit?: number | null;
+  balance?: number | null; // saldo conferido (corrente e dinheiro)
+  balance_date?: string | null; // dia da conferencia (YYYY-MM-DD)
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Saldo atual da conta: conferido + lancamentos desde entao (get_account_balances)
+export interface AccountBalance {
+  account_id: string;
+  balance: number;
+}
+
+// Receita que se repete todo mes, usada na previsao de caixa
+export interface RecurringIncome {
+  id: string;
+  household_id: string;
+  name: string;
+  amount: number;
+  day_of_month: number;
+  account_id?: string | null;
+  is_active: boolean;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Divisao de despesas entre moradores
+export type SplitType = 'equal' | 'percentage' | 'amount';
+
+export interface SplitShare {
+  user_id: string;
+  value?: number | null; // percentual ou valor (ignorado na divisao igual)
+}
+
+export interface TransactionSplit {
+  id: string;
+  transaction_id: string;
+  user_id: string;
+  value?: number | null;
+  amount: number;
+}
+
+// Acerto entre moradores (from_user pagou to_user)
+export interface Settlement {
+  id: string;
+  household_id: string;
+  from_user: string;
+  to_user: string;
+  amount: number;
+  date: string;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export interface MemberBalance {
+  user_id: string;
+  balance: number; // positivo = tem a receber
+}
+
+// Orcamento mensal de uma categoria de despesa
+export interface FinanceBudget {
+  id: string;
+  household_id: string;
+  category_id: string;
+  category?: FinanceCategory | null;
+  monthly_limit: number;
+  rollover: boolean;
+  carry_over?: number; // calculado no app: sobra do mes anterior (so com rollover)
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BudgetProgress {
+  budget: FinanceBudget;
+  limit: number; // limite do mes + sobra
+  spent: number;
+  ratio: number; // spent / limit
+}
+
+// Regras de categorizacao automatica (a mais recente que bater vence)
+export type CategoryRuleMatch = 'contains' | 'regex';
+
+export interface CategoryRule {
+  id: string;
+  household_id: string;
+  category_id: string;
+  category?: FinanceCategory | null;
+  pattern: string;
+  match_type: CategoryRuleMatch;
+  type?: 'expense' | 'income' | null; // null = qualquer
+  min_amount?: number | null;
+  max_amount?: number | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // Monthly Summary
 export interface MonthlySummary {
   household_id: string;
@@ -183,6 +407,20 @@ export interface MonthlySummary {
   balance: number;
 }
 
+// Relatorios (agregados no banco: get_finance_trends / get_category_trends)
+export interface MonthlyTrend {
+  month: string; // YYYY-MM
+  total_income: number;
+  total_expenses: number;
+  balance: number;
+}
+
+export interface CategoryTrend {
+  month: string; // YYYY-MM
+  category_id: string | null;
+  total: number;
+}
+
 // Inventory Types
 export type InventoryLocation = 'pantry' | 'fridge' | 'freezer' | 'bathroom' | 'cleaning' | 'other';
 export type InventoryUnit = 'un' | 'kg' | 'g' | 'l' | 'ml' | 'pack';